@@ -7,6 +7,7 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import DashboardPage from "@/pages/dashboard-page";
 import TranscriptionsPage from "@/pages/transcriptions-page";
+import ReviewQueuePage from "@/pages/review-queue-page";
 import AudioProcessingPage from "@/pages/audio-processing-page";
 import TeamManagementPage from "@/pages/team-management-page";
 import ExportDataPage from "@/pages/export-data-page";
@@ -21,6 +22,7 @@ function Router() {
         <Route path="/" element={<DashboardPage />} />
         <Route path="/transcriptions" element={<TranscriptionsPage />} />
         <Route path="/transcriptions/:id" element={<TranscriptionsPage />} />
+        <Route path="/review-queue" element={<ReviewQueuePage />} />
         <Route path="/audio-processing" element={<AudioProcessingPage />} />
         <Route path="/team" element={<TeamManagementPage />} />
         <Route path="/export" element={<ExportDataPage />} />
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ClaimingSettingsValues {
+  maxOpenAssignments: number;
+  leaseMinutes: number;
+}
+
+export function ClaimingSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<ClaimingSettingsValues | null>(null);
+
+  const { data: settings, isLoading } = useQuery<ClaimingSettingsValues>({
+    queryKey: ["/api/settings/claiming"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setValues(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: ClaimingSettingsValues) => {
+      const response = await apiRequest("PUT", "/api/settings/claiming", updated);
+      return response.json();
+    },
+    onSuccess: (data: ClaimingSettingsValues) => {
+      queryClient.setQueryData(["/api/settings/claiming"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/claimable"] });
+      toast({
+        title: "Claiming limits updated",
+        description: `Up to ${data.maxOpenAssignments} open segment(s) per user, released after ${data.leaseMinutes} minutes.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update claiming limits",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleChange = (key: keyof ClaimingSettingsValues, value: string) => {
+    setValues(prev => prev && { ...prev, [key]: parseInt(value, 10) || 0 });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Self-service Claiming</CardTitle>
+        <CardDescription>
+          Transcribers claim the next available segment themselves. Segments not submitted before the lease ends return to the pool.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !values ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="max-open-assignments" className="block text-xs font-medium text-white/70">
+                Open segments per user
+              </Label>
+              <Input
+                id="max-open-assignments"
+                type="number"
+                min={1}
+                max={100}
+                value={values.maxOpenAssignments}
+                onChange={(e) => handleChange("maxOpenAssignments", e.target.value)}
+                className="mt-1 w-[180px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="lease-minutes" className="block text-xs font-medium text-white/70">
+                Lease (minutes)
+              </Label>
+              <Input
+                id="lease-minutes"
+                type="number"
+                min={5}
+                value={values.leaseMinutes}
+                onChange={(e) => handleChange("leaseMinutes", e.target.value)}
+                className="mt-1 w-[180px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <Button onClick={() => saveMutation.mutate(values)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
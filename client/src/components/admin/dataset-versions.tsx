@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, GitCompare, Loader2, Package, Snowflake } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+import type { DatasetVersionTaint } from "@shared/schema";
+import type { ExportFilter } from "./export-filter-builder";
+
+export interface DatasetVersion {
+  id: number;
+  name: string;
+  description: string | null;
+  records: number;
+  durationMs: number;
+  createdAt: string;
+  createdByName: string;
+  taintedAt: string | null;
+  taints: DatasetVersionTaint[];
+}
+
+interface UtteranceState {
+  revision: number;
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+interface DiffEntry extends UtteranceState {
+  transcriptionId: number;
+  segmentId: number;
+}
+
+interface DatasetVersionDiff {
+  summary: { added: number; removed: number; edited: number; unchanged: number };
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  edited: { transcriptionId: number; segmentId: number; changes: ("text" | "audio")[]; from: UtteranceState; to: UtteranceState }[];
+}
+
+// Only the first entries of each list are shown; the endpoint returns all of them
+const DIFF_PREVIEW_LIMIT = 50;
+
+const VERSION_EXPORT_FORMATS: { value: string; label: string }[] = [
+  { value: "whisper", label: "Whisper JSON" },
+  { value: "hf_audiofolder", label: "Hugging Face audiofolder" },
+  { value: "nemo", label: "NeMo manifest" },
+  { value: "kaldi", label: "Kaldi data dir" },
+];
+
+interface DatasetVersionsProps {
+  filter: ExportFilter;
+}
+
+/**
+ * Freeze the filtered transcriptions as named versions, export them, and compare two versions
+ */
+export function DatasetVersions({ filter }: DatasetVersionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [diff, setDiff] = useState<DatasetVersionDiff | null>(null);
+
+  const { data: versions, isLoading } = useQuery<DatasetVersion[]>({ queryKey: ["/api/dataset-versions"] });
+
+  const createVersionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/dataset-versions", { name, description, filter });
+      return response.json() as Promise<DatasetVersion>;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dataset-versions"] });
+      toast({
+        title: "Dataset version created",
+        description: `${version.name} freezes ${version.records} transcriptions.`,
+      });
+      setName("");
+      setDescription("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create the version", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const exportVersionMutation = useMutation({
+    mutationFn: async ({ versionId, format }: { versionId: number; format: string }) =>
+      apiRequest("POST", `/api/dataset-versions/${versionId}/exports`, { format, includeTimestamps: true }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+      toast({
+        title: "Export queued",
+        description: "The version is being exported in the background. It appears in the export history.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const diffMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `/api/dataset-versions/diff?from=${fromId}&to=${toId}`);
+      return response.json() as Promise<DatasetVersionDiff>;
+    },
+    onSuccess: setDiff,
+    onError: (error: Error) => {
+      toast({ title: "Comparison failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    createVersionMutation.mutate();
+  };
+
+  const formatHours = (durationMs: number) => `${(durationMs / 3600000).toFixed(2)} h`;
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-semibold text-white mb-1">Dataset Versions</h2>
+      <p className="text-sm text-white/70 mb-4">
+        A version freezes the transcriptions matching the filter above, at their current revision. Exports of a
+        version never change, and can be regenerated byte for byte.
+      </p>
+
+      <Card>
+        <CardContent className="px-4 py-5 sm:p-6 space-y-4">
+          <form onSubmit={handleCreate} className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+            <div>
+              <Label htmlFor="versionName" className="block text-sm font-medium text-white/70">Name</Label>
+              <Input
+                id="versionName"
+                placeholder="e.g. v3"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="versionDescription" className="block text-sm font-medium text-white/70">Description</Label>
+              <Input
+                id="versionDescription"
+                placeholder="Optional"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1 bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <Button type="submit" disabled={!name.trim() || createVersionMutation.isPending} className="inline-flex items-center">
+              {createVersionMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Snowflake className="mr-2 h-4 w-4" />
+              )}
+              Freeze Version
+            </Button>
+          </form>
+
+          <div className="overflow-hidden ring-1 ring-white/10 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-black/40">
+                <tr>
+                  {["Version", "Created", "Records", "Audio", "Actions"].map(heading => (
+                    <th key={heading} scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-black/30 divide-y divide-gray-700">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center">
+                      <Loader2 className="h-5 w-5 animate-spin mx-auto text-primary/50" />
+                    </td>
+                  </tr>
+                ) : versions && versions.length > 0 ? (
+                  versions.map(version => (
+                    <tr key={version.id}>
+                      <td className="px-6 py-4 text-sm text-white">
+                        {version.name}
+                        {version.description && (
+                          <span className="block text-xs text-white/50">{version.description}</span>
+                        )}
+                        {version.taintedAt && (
+                          <span
+                            className="mt-1 flex items-center text-xs text-amber-300"
+                            title={version.taints.map(taint => `${taint.filename}${taint.note ? `: ${taint.note}` : ""}`).join("\n")}
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Tainted: consent revoked for {version.taints.length} recording{version.taints.length === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">
+                        {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}
+                        <span className="block text-xs text-white/50">{version.createdByName}</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">{version.records}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">{formatHours(version.durationMs)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="inline-flex items-center border-white/20 hover:bg-white/10"
+                              disabled={exportVersionMutation.isPending}
+                            >
+                              <Package className="h-4 w-4 mr-1" />
+                              Export
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Export {version.name} as</DropdownMenuLabel>
+                            {VERSION_EXPORT_FORMATS.map(({ value, label }) => (
+                              <DropdownMenuItem
+                                key={value}
+                                onSelect={() => exportVersionMutation.mutate({ versionId: version.id, format: value })}
+                              >
+                                {label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-white/70">
+                      No dataset versions yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {versions && versions.length > 1 && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-end gap-2">
+                {([["From", fromId, setFromId], ["To", toId, setToId]] as const).map(([label, value, setValue]) => (
+                  <div key={label} className="w-48">
+                    <Label className="block text-sm font-medium text-white/70">{label}</Label>
+                    <Select value={value} onValueChange={(id) => { setValue(id); setDiff(null); }}>
+                      <SelectTrigger className="mt-1 bg-black/30 border-white/20 text-white">
+                        <SelectValue placeholder="Select a version" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-black/90 border-white/20 text-white">
+                        {versions.map(version => (
+                          <SelectItem key={version.id} value={String(version.id)} className="text-white hover:bg-white/10">
+                            {version.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="inline-flex items-center border-white/20 hover:bg-white/10"
+                  disabled={!fromId || !toId || diffMutation.isPending}
+                  onClick={() => diffMutation.mutate()}
+                >
+                  {diffMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <GitCompare className="h-4 w-4 mr-1" />
+                  )}
+                  Compare
+                </Button>
+              </div>
+
+              {diff && (
+                <div className="text-sm text-white/70 space-y-3">
+                  <p>
+                    <span className="text-green-400">{diff.summary.added} added</span>,{" "}
+                    <span className="text-red-400">{diff.summary.removed} removed</span>,{" "}
+                    <span className="text-yellow-400">{diff.summary.edited} edited</span>,{" "}
+                    {diff.summary.unchanged} unchanged
+                  </p>
+                  {diff.edited.length > 0 && (
+                    <ul className="space-y-2">
+                      {diff.edited.slice(0, DIFF_PREVIEW_LIMIT).map(edit => (
+                        <li key={edit.transcriptionId} className="rounded bg-black/30 p-2">
+                          <span className="text-xs text-white/50">
+                            Segment {edit.segmentId} · revision {edit.from.revision} → {edit.to.revision}
+                            {edit.changes.includes("audio") && " · audio changed"}
+                          </span>
+                          {edit.changes.includes("text") && (
+                            <>
+                              <p className="text-red-300 line-through" dir="auto">{edit.from.text}</p>
+                              <p className="text-green-300" dir="auto">{edit.to.text}</p>
+                            </>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {([["Added", diff.added, "text-green-300"], ["Removed", diff.removed, "text-red-300"]] as const).map(([label, entries, color]) =>
+                    entries.length > 0 && (
+                      <div key={label}>
+                        <p className="font-medium text-white">{label}</p>
+                        <ul className="space-y-1">
+                          {entries.slice(0, DIFF_PREVIEW_LIMIT).map(entry => (
+                            <li key={entry.transcriptionId} className={color} dir="auto">
+                              <span className="text-xs text-white/50">Segment {entry.segmentId}: </span>
+                              {entry.text}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
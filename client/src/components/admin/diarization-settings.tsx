@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { DiarizationSettings as DiarizationSettingsValues } from "@shared/schema";
+
+export function DiarizationSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<DiarizationSettingsValues | null>(null);
+
+  const { data: settings, isLoading } = useQuery<DiarizationSettingsValues>({
+    queryKey: ["/api/settings/diarization"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setValues(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: DiarizationSettingsValues) => {
+      const response = await apiRequest("PUT", "/api/settings/diarization", updated);
+      return response.json();
+    },
+    onSuccess: (data: DiarizationSettingsValues) => {
+      queryClient.setQueryData(["/api/settings/diarization"], data);
+      toast({
+        title: "Diarization settings updated",
+        description: data.enabled
+          ? "New recordings get proposed speakers after segmentation."
+          : "New recordings are no longer diarized.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update diarization settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Speaker Diarization</CardTitle>
+        <CardDescription>
+          After segmentation, group the segments of each recording by voice and propose a speaker for each group.
+          Transcribers can correct the proposals in the editor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !values ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex items-center space-x-2 h-10">
+              <Checkbox
+                id="diarization-enabled"
+                checked={values.enabled}
+                onCheckedChange={(checked) => setValues({ ...values, enabled: !!checked })}
+                className="border-white/30 data-[state=checked]:bg-primary-600"
+              />
+              <Label htmlFor="diarization-enabled" className="font-medium text-white/70">
+                Propose speakers for new recordings
+              </Label>
+            </div>
+            <div>
+              <Label htmlFor="diarization-threshold" className="block text-xs font-medium text-white/70">
+                Threshold (lower splits more speakers)
+              </Label>
+              <Input
+                id="diarization-threshold"
+                type="number"
+                min={0.1}
+                max={2}
+                step={0.05}
+                value={values.threshold}
+                onChange={(e) => setValues({ ...values, threshold: parseFloat(e.target.value) || 0 })}
+                className="mt-1 w-[180px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="diarization-max-speakers" className="block text-xs font-medium text-white/70">
+                Max speakers per recording
+              </Label>
+              <Input
+                id="diarization-max-speakers"
+                type="number"
+                min={1}
+                max={20}
+                placeholder="No limit"
+                value={values.maxSpeakers ?? ""}
+                onChange={(e) => setValues({ ...values, maxSpeakers: e.target.value ? parseInt(e.target.value, 10) : null })}
+                className="mt-1 w-[180px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <Button onClick={() => saveMutation.mutate(values)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { DuplicateDetectionSettings as DuplicateDetectionSettingsValues } from "@shared/schema";
+
+export function DuplicateDetectionSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<DuplicateDetectionSettingsValues | null>(null);
+
+  const { data: settings, isLoading } = useQuery<DuplicateDetectionSettingsValues>({
+    queryKey: ["/api/settings/duplicate-detection"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setValues(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: DuplicateDetectionSettingsValues) => {
+      const response = await apiRequest("PUT", "/api/settings/duplicate-detection", updated);
+      return response.json();
+    },
+    onSuccess: (data: DuplicateDetectionSettingsValues) => {
+      queryClient.setQueryData(["/api/settings/duplicate-detection"], data);
+      toast({
+        title: "Duplicate detection updated",
+        description: "New uploads are checked with these settings.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update duplicate detection",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Duplicate Uploads</CardTitle>
+        <CardDescription>
+          Uploads are compared with earlier ones by file content, and by acoustic fingerprint before processing, which
+          also catches re-encoded or trimmed copies. Uploads that get a warning are held until an admin merges or keeps them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !values ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="duplicates-exact" className="block text-xs font-medium text-white/70">
+                Identical files
+              </Label>
+              <Select
+                value={values.exactDuplicates}
+                onValueChange={(value) => setValues({ ...values, exactDuplicates: value as DuplicateDetectionSettingsValues["exactDuplicates"] })}
+              >
+                <SelectTrigger id="duplicates-exact" className="mt-1 w-[180px] bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reject">Reject</SelectItem>
+                  <SelectItem value="warn">Warn and hold</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="duplicates-near" className="block text-xs font-medium text-white/70">
+                Same audio, different file
+              </Label>
+              <Select
+                value={values.nearDuplicates}
+                onValueChange={(value) => setValues({ ...values, nearDuplicates: value as DuplicateDetectionSettingsValues["nearDuplicates"] })}
+              >
+                <SelectTrigger id="duplicates-near" className="mt-1 w-[180px] bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Don't check</SelectItem>
+                  <SelectItem value="warn">Warn and hold</SelectItem>
+                  <SelectItem value="reject">Reject</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="duplicates-threshold" className="block text-xs font-medium text-white/70">
+                Similarity threshold (0.6 - 1)
+              </Label>
+              <Input
+                id="duplicates-threshold"
+                type="number"
+                min={0.6}
+                max={1}
+                step={0.01}
+                value={values.similarityThreshold}
+                disabled={values.nearDuplicates === "off"}
+                onChange={(e) => setValues({ ...values, similarityThreshold: parseFloat(e.target.value) || 0 })}
+                className="mt-1 w-[180px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <Button onClick={() => saveMutation.mutate(values)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
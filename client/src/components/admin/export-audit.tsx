@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import type { ExportAudit as ExportAuditEntry } from "@shared/schema";
+import { EXCLUSION_REASON_LABELS } from "./export-policy-settings";
+
+/**
+ * What the export policy left out of each run of an export
+ */
+export function ExportAudit({ exportId }: { exportId: number }) {
+  const { data: audits, isLoading } = useQuery<ExportAuditEntry[]>({
+    queryKey: [`/api/exports/${exportId}/audit`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary/50" />;
+  }
+  if (!audits || audits.length === 0) {
+    return <p className="text-sm text-white/50">This export hasn't run yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {audits.map(audit => (
+        <div key={audit.id} className="text-sm text-white/70">
+          <p>
+            {format(new Date(audit.createdAt), "MMM d, yyyy HH:mm")}: {audit.included} transcription
+            {audit.included === 1 ? "" : "s"} exported
+            {audit.excluded.length === 0 && ", no recordings left out"}
+            <span className="ml-2 text-xs text-white/50">
+              (policy: {audit.policy.excludeRestricted ? "restricted left out" : "restricted allowed"}
+              {audit.policy.blockedLicenses.length > 0 && `, blocked licenses ${audit.policy.blockedLicenses.join(", ")}`})
+            </span>
+          </p>
+          {audit.excluded.length > 0 && (
+            <table className="mt-1 text-xs">
+              <tbody>
+                {audit.excluded.map(exclusion => (
+                  <tr key={exclusion.audioFileId}>
+                    <td className="pr-4 py-0.5 text-white">{exclusion.filename}</td>
+                    <td className="pr-4 py-0.5 text-amber-300">{EXCLUSION_REASON_LABELS[exclusion.reason]}</td>
+                    <td className="pr-4 py-0.5 text-white/50">{exclusion.detail}</td>
+                    <td className="py-0.5 text-white/50">
+                      {exclusion.segments} segment{exclusion.segments === 1 ? "" : "s"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,65 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Loader2, Download } from "lucide-react";
+import { Loader2, Download, RefreshCw, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { format } from "date-fns";
+import { ExportFilterBuilder, type ExportFilter } from "./export-filter-builder";
+import { DatasetVersions, type DatasetVersion } from "./dataset-versions";
+import { ExportAudit } from "./export-audit";
+import type { TextNormalization } from "@shared/text-normalization";
+import { ANNOTATION_TAGS, defaultTagMap } from "@shared/annotation-tags";
+
+type ExportFormat = "whisper" | "hf_audiofolder" | "nemo" | "kaldi";
 
 interface ExportFormValues {
-  startDate: string;
-  endDate: string;
-  format: "whisper";
+  format: ExportFormat;
   includeTimestamps: boolean;
+  includeSpeaker: boolean; // Kaldi's utt2spk always uses the assigned speakers
+  // Hugging Face audiofolder options (percentages, converted to ratios on submit)
+  trainPercent: number;
+  validationPercent: number;
+  testPercent: number;
+  splitSeed: string; // Empty picks a random seed
+  metadataFormat: "csv" | "jsonl";
+  // Audio processing applied while the archive is built
+  normalizeAudio: boolean;
+  sampleRate: string; // "original" keeps the segment's rate
+  mono: boolean;
+  codec: AudioCodec;
+  loudnessTarget: string; // LUFS; empty skips loudness normalization
+  // Apply the project's text normalization rules, keeping the raw text alongside
+  normalizeText: boolean;
+  // What happens to [noise]-style annotation tags in the exported text
+  tagPolicy: "keep" | "strip" | "map";
+  tagMap: Record<string, string> | null; // null uses the format's suggested replacements
+}
+
+type AudioCodec = "wav" | "flac" | "opus";
+
+interface AudioNormalization {
+  sampleRate: number | null;
+  mono: boolean;
+  codec: AudioCodec;
+  loudnessTarget: number | null;
+}
+
+interface SplitSummary {
+  audioFileIds: number[];
+  records: number;
 }
 
 interface ExportHistory {
@@ -25,23 +70,62 @@ interface ExportHistory {
   records: number;
   format: string;
   createdBy: string;
+  splitSeed: number | null;
+  splitManifest: { splits: Record<"train" | "validation" | "test", SplitSummary> } | null;
+  audioNormalization: AudioNormalization | null;
+  status: "queued" | "running" | "completed" | "failed";
+  progress: number;
+  error: string | null;
+  checksum: string | null;
+  datasetVersionId: number | null;
 }
 
+const SAMPLE_RATES = ["8000", "16000", "22050", "24000", "44100", "48000"];
+
+const FORMAT_LABELS: Record<string, string> = {
+  whisper: "Whisper JSON",
+  standard: "Standard JSON",
+  custom: "Custom JSON",
+  hf_audiofolder: "Hugging Face audiofolder",
+  nemo: "NeMo manifest",
+  kaldi: "Kaldi data dir",
+};
+
 export function ExportData() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isGenerating, setIsGenerating] = useState(false);
+  const [filter, setFilter] = useState<ExportFilter>({});
+  const [auditExportId, setAuditExportId] = useState<number | null>(null);
   const [formValues, setFormValues] = useState<ExportFormValues>({
-    startDate: "",
-    endDate: "",
     format: "whisper",
-    includeTimestamps: true
+    includeTimestamps: true,
+    includeSpeaker: false,
+    trainPercent: 80,
+    validationPercent: 10,
+    testPercent: 10,
+    splitSeed: "",
+    metadataFormat: "csv",
+    normalizeAudio: false,
+    sampleRate: "16000",
+    mono: true,
+    codec: "wav",
+    loudnessTarget: "-23",
+    normalizeText: false,
+    tagPolicy: "keep",
+    tagMap: null,
   });
 
   const { data: exportHistory, isLoading } = useQuery<ExportHistory[]>({
     queryKey: ["/api/exports"],
+    // Exports are built in the background; poll while any of them is still in progress
+    refetchInterval: (query) =>
+      query.state.data?.some(e => e.status === "queued" || e.status === "running") ? 2000 : false,
   });
 
+  const { data: datasetVersions } = useQuery<DatasetVersion[]>({ queryKey: ["/api/dataset-versions"] });
+  const { data: textNormalization } = useQuery<TextNormalization>({ queryKey: ["/api/settings/text-normalization"] });
+
   // Handle form field changes
   const handleChange = (field: keyof ExportFormValues, value: any) => {
     setFormValues(prev => ({
@@ -55,19 +139,44 @@ export function ExportData() {
     mutationFn: async (values: ExportFormValues) => {
       setIsGenerating(true);
       // Include additional required parameters for the API
+      const {
+        trainPercent, validationPercent, testPercent, splitSeed, metadataFormat,
+        normalizeAudio, sampleRate, mono, codec, loudnessTarget, normalizeText, tagPolicy, tagMap,
+        ...rest
+      } = values;
       const payload = {
-        ...values,
-        exportType: "all_verified",
-        includeSpeaker: false,
+        ...rest,
+        filter,
+        exportType: filter.audioFileIds?.length ? "selected_files" : "all_verified",
         includeConfidence: false,
+        textNormalization: normalizeText ? textNormalization : undefined,
+        annotationTags: tagPolicy === "keep" ? undefined : {
+          policy: tagPolicy,
+          ...(tagPolicy === "map" && { tagMap: tagMap ?? defaultTagMap(values.format) }),
+        },
+        ...(values.format === "hf_audiofolder" && {
+          splitRatios: {
+            train: trainPercent / 100,
+            validation: validationPercent / 100,
+            test: testPercent / 100,
+          },
+          splitSeed: splitSeed ? parseInt(splitSeed, 10) : undefined,
+          metadataFormat,
+          audioNormalization: normalizeAudio ? {
+            sampleRate: sampleRate === "original" ? null : parseInt(sampleRate, 10),
+            mono,
+            codec,
+            loudnessTarget: loudnessTarget.trim() ? parseFloat(loudnessTarget) : null,
+          } : null,
+        }),
       };
       return apiRequest("POST", "/api/exports", payload);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
       toast({
-        title: "Export generated",
-        description: "Your export has been successfully generated and is ready for download.",
+        title: "Export queued",
+        description: "Your export is being generated in the background. It can be downloaded from the history once it is complete.",
       });
       setIsGenerating(false);
     },
@@ -81,6 +190,25 @@ export function ExportData() {
     },
   });
 
+  // Rebuild an export of a dataset version; the new file has the same checksum
+  const regenerateExportMutation = useMutation({
+    mutationFn: async (exportId: number) => apiRequest("POST", `/api/exports/${exportId}/regenerate`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+      toast({
+        title: "Export queued",
+        description: "The export is being regenerated from its dataset version.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Regeneration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Download export mutation
   const downloadExportMutation = useMutation({
     mutationFn: async (exportId: number) => {
@@ -141,12 +269,43 @@ export function ExportData() {
     }
   });
 
+  const splitTotal = formValues.trainPercent + formValues.validationPercent + formValues.testPercent;
+
   // Form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (formValues.format === "hf_audiofolder" && splitTotal !== 100) {
+      toast({
+        title: "Invalid split",
+        description: "Train, validation and test must add up to 100%.",
+        variant: "destructive",
+      });
+      return;
+    }
     generateExportMutation.mutate(formValues);
   };
 
+  const formatSplits = (export_: ExportHistory): string | null => {
+    if (!export_.splitManifest) return null;
+    const { train, validation, test } = export_.splitManifest.splits;
+    return `${train.records}/${validation.records}/${test.records} (seed ${export_.splitSeed})`;
+  };
+
+  const versionName = (export_: ExportHistory): string | null => {
+    if (export_.datasetVersionId === null) return null;
+    return datasetVersions?.find(version => version.id === export_.datasetVersionId)?.name ?? `#${export_.datasetVersionId}`;
+  };
+
+  const formatNormalization = ({ audioNormalization: audio }: ExportHistory): string | null => {
+    if (!audio) return null;
+    return [
+      audio.codec,
+      audio.sampleRate ? `${audio.sampleRate / 1000} kHz` : null,
+      audio.mono ? "mono" : null,
+      audio.loudnessTarget !== null ? `${audio.loudnessTarget} LUFS` : null,
+    ].filter(Boolean).join(" · ");
+  };
+
   // Format file size
   const formatFileSize = (sizeInBytes: number): string => {
     if (sizeInBytes < 1024) {
@@ -194,8 +353,8 @@ export function ExportData() {
                   <Input
                     type="date"
                     id="startDate"
-                    value={formValues.startDate}
-                    onChange={(e) => handleChange("startDate", e.target.value)}
+                    value={filter.startDate ?? ""}
+                    onChange={(e) => setFilter(prev => ({ ...prev, startDate: e.target.value || undefined }))}
                     className="mt-1 bg-black/30 border-white/20 text-white"
                   />
                 </div>
@@ -206,15 +365,258 @@ export function ExportData() {
                   <Input
                     type="date"
                     id="endDate"
-                    value={formValues.endDate}
-                    onChange={(e) => handleChange("endDate", e.target.value)}
+                    value={filter.endDate ?? ""}
+                    onChange={(e) => setFilter(prev => ({ ...prev, endDate: e.target.value || undefined }))}
                     className="mt-1 bg-black/30 border-white/20 text-white"
                   />
                 </div>
               </div>
             </div>
 
+            {/* Filter */}
+            <div>
+              <Label className="text-base font-medium text-white">Filter</Label>
+              <p className="text-sm text-white/70 mb-2">
+                Narrow the export down by recording, contributor, rating, duration and text. Empty fields don't restrict.
+              </p>
+              <ExportFilterBuilder value={filter} onChange={setFilter} />
+            </div>
+
+            {/* Format */}
+            <div>
+              <Label htmlFor="format" className="text-base font-medium text-white">Format</Label>
+              <Select
+                value={formValues.format}
+                onValueChange={(value) => handleChange("format", value as ExportFormat)}
+              >
+                <SelectTrigger id="format" className="mt-1 w-full sm:w-[320px] bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/20 text-white">
+                  <SelectItem value="whisper" className="text-white hover:bg-white/10">Whisper JSON</SelectItem>
+                  <SelectItem value="hf_audiofolder" className="text-white hover:bg-white/10">
+                    Hugging Face audiofolder (ZIP with splits)
+                  </SelectItem>
+                  <SelectItem value="nemo" className="text-white hover:bg-white/10">
+                    NVIDIA NeMo manifest (JSONL)
+                  </SelectItem>
+                  <SelectItem value="kaldi" className="text-white hover:bg-white/10">
+                    Kaldi data directory (ZIP)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formValues.format === "hf_audiofolder" && (
+              <div>
+                <Label className="text-base font-medium text-white">Splits</Label>
+                <p className="text-sm text-white/70 mb-2">
+                  All segments of a recording go to the same split. The same seed always gives the same split.
+                </p>
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+                  {([
+                    ["trainPercent", "Train %"],
+                    ["validationPercent", "Validation %"],
+                    ["testPercent", "Test %"],
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <Label htmlFor={field} className="block text-sm font-medium text-white/70">
+                        {label}
+                      </Label>
+                      <Input
+                        type="number"
+                        id={field}
+                        min={0}
+                        max={100}
+                        value={formValues[field]}
+                        onChange={(e) => handleChange(field, parseInt(e.target.value, 10) || 0)}
+                        className="mt-1 bg-black/30 border-white/20 text-white"
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <Label htmlFor="splitSeed" className="block text-sm font-medium text-white/70">
+                      Seed
+                    </Label>
+                    <Input
+                      type="number"
+                      id="splitSeed"
+                      min={0}
+                      placeholder="Random"
+                      value={formValues.splitSeed}
+                      onChange={(e) => handleChange("splitSeed", e.target.value)}
+                      className="mt-1 bg-black/30 border-white/20 text-white"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="metadataFormat" className="block text-sm font-medium text-white/70">
+                      Metadata
+                    </Label>
+                    <Select
+                      value={formValues.metadataFormat}
+                      onValueChange={(value) => handleChange("metadataFormat", value)}
+                    >
+                      <SelectTrigger id="metadataFormat" className="mt-1 bg-black/30 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-black/90 border-white/20 text-white">
+                        <SelectItem value="csv" className="text-white hover:bg-white/10">metadata.csv</SelectItem>
+                        <SelectItem value="jsonl" className="text-white hover:bg-white/10">metadata.jsonl</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {splitTotal !== 100 && (
+                  <p className="mt-2 text-sm text-red-400">Splits add up to {splitTotal}%, not 100%.</p>
+                )}
+              </div>
+            )}
+
+            {formValues.format === "hf_audiofolder" && (
+              <div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="normalizeAudio"
+                    checked={formValues.normalizeAudio}
+                    onCheckedChange={(checked) => handleChange("normalizeAudio", !!checked)}
+                    className="border-white/30 data-[state=checked]:bg-primary-600"
+                  />
+                  <Label htmlFor="normalizeAudio" className="text-base font-medium text-white">
+                    Process audio
+                  </Label>
+                </div>
+                <p className="text-sm text-white/70 mb-2">
+                  Resample, downmix, re-encode and loudness-normalize every segment. Otherwise the segment files are copied as they are.
+                </p>
+                {formValues.normalizeAudio && (
+                  <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    <div>
+                      <Label htmlFor="sampleRate" className="block text-sm font-medium text-white/70">
+                        Sample rate
+                      </Label>
+                      <Select value={formValues.sampleRate} onValueChange={(value) => handleChange("sampleRate", value)}>
+                        <SelectTrigger id="sampleRate" className="mt-1 bg-black/30 border-white/20 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-black/90 border-white/20 text-white">
+                          <SelectItem value="original" className="text-white hover:bg-white/10">Unchanged</SelectItem>
+                          {SAMPLE_RATES.map(rate => (
+                            <SelectItem key={rate} value={rate} className="text-white hover:bg-white/10">
+                              {parseInt(rate, 10) / 1000} kHz
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="codec" className="block text-sm font-medium text-white/70">
+                        Codec
+                      </Label>
+                      <Select value={formValues.codec} onValueChange={(value) => handleChange("codec", value as AudioCodec)}>
+                        <SelectTrigger id="codec" className="mt-1 bg-black/30 border-white/20 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-black/90 border-white/20 text-white">
+                          <SelectItem value="wav" className="text-white hover:bg-white/10">WAV (16-bit PCM)</SelectItem>
+                          <SelectItem value="flac" className="text-white hover:bg-white/10">FLAC</SelectItem>
+                          <SelectItem value="opus" className="text-white hover:bg-white/10">Opus</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="loudnessTarget" className="block text-sm font-medium text-white/70">
+                        Loudness (LUFS)
+                      </Label>
+                      <Input
+                        type="number"
+                        id="loudnessTarget"
+                        min={-70}
+                        max={-5}
+                        placeholder="Off"
+                        value={formValues.loudnessTarget}
+                        onChange={(e) => handleChange("loudnessTarget", e.target.value)}
+                        className="mt-1 bg-black/30 border-white/20 text-white"
+                      />
+                    </div>
+                    <div className="flex items-end pb-2">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="mono"
+                          checked={formValues.mono}
+                          onCheckedChange={(checked) => handleChange("mono", !!checked)}
+                          className="border-white/30 data-[state=checked]:bg-primary-600"
+                        />
+                        <Label htmlFor="mono" className="font-medium text-white/70">
+                          Mono
+                        </Label>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="normalizeText"
+                  checked={formValues.normalizeText}
+                  onCheckedChange={(checked) => handleChange("normalizeText", !!checked)}
+                  className="border-white/30 data-[state=checked]:bg-primary-600"
+                />
+                <Label htmlFor="normalizeText" className="text-base font-medium text-white">
+                  Normalize text
+                </Label>
+              </div>
+              <p className="text-sm text-white/70">
+                Apply the project's orthography rules (see Text Normalization below). The raw text is kept next to the normalized text.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="tagPolicy" className="text-base font-medium text-white">Annotation tags</Label>
+              <p className="text-sm text-white/70">
+                Verbatim models can keep [noise], &lt;fr&gt;…&lt;/fr&gt; and the other tags; clean-text models can have them removed,
+                with their positions listed separately, or rewritten to the tokens the toolkit expects.
+              </p>
+              <Select
+                value={formValues.tagPolicy}
+                onValueChange={(value) => handleChange("tagPolicy", value)}
+              >
+                <SelectTrigger id="tagPolicy" className="mt-1 w-full sm:w-[320px] bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/20 text-white">
+                  <SelectItem value="keep" className="text-white hover:bg-white/10">Keep as written</SelectItem>
+                  <SelectItem value="strip" className="text-white hover:bg-white/10">Remove from the text</SelectItem>
+                  <SelectItem value="map" className="text-white hover:bg-white/10">Replace</SelectItem>
+                </SelectContent>
+              </Select>
+              {formValues.tagPolicy === "map" && (
+                <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-4">
+                  {ANNOTATION_TAGS.map(tag => (
+                    <div key={tag.name}>
+                      <Label htmlFor={`tagMap-${tag.name}`} className="block text-sm font-medium text-white/70">
+                        {tag.kind === "event" ? `[${tag.name}]` : `<${tag.name}>`}
+                      </Label>
+                      <Input
+                        id={`tagMap-${tag.name}`}
+                        placeholder="Remove"
+                        value={(formValues.tagMap ?? defaultTagMap(formValues.format))[tag.name] ?? ""}
+                        onChange={(e) => handleChange("tagMap", {
+                          ...(formValues.tagMap ?? defaultTagMap(formValues.format)),
+                          [tag.name]: e.target.value,
+                        })}
+                        className="mt-1 bg-black/30 border-white/20 text-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Include Timestamps */}
+            {formValues.format === "whisper" && (
             <div>
               <div className="flex items-center space-x-2">
                 <Checkbox
@@ -228,6 +630,27 @@ export function ExportData() {
                 </Label>
               </div>
             </div>
+            )}
+
+            {/* Include Speakers */}
+            {formValues.format === "whisper" && (
+            <div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="includeSpeaker"
+                  checked={formValues.includeSpeaker}
+                  onCheckedChange={(checked) => handleChange("includeSpeaker", !!checked)}
+                  className="border-white/30 data-[state=checked]:bg-primary-600"
+                />
+                <Label htmlFor="includeSpeaker" className="font-medium text-white/70">
+                  Include Speakers
+                </Label>
+              </div>
+              <p className="text-xs text-white/50 mt-1">
+                Adds the speaker label, gender, dialect region and age band of segments that have a speaker.
+              </p>
+            </div>
+            )}
 
             <div className="flex gap-4 flex-wrap">
               <Button
@@ -243,7 +666,7 @@ export function ExportData() {
                 ) : (
                   <>
                     <Download className="mr-2 h-4 w-4" />
-                    Generate Whisper Export
+                    {formValues.format === "whisper" ? "Generate Whisper Export" : "Generate Dataset"}
                   </>
                 )}
               </Button>
@@ -262,12 +685,18 @@ export function ExportData() {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
                   Export Date
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
+                  Format
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
                   File Size
                 </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
                   Records
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
+                  Status
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-white uppercase tracking-wider">
                   Actions
                 </th>
@@ -276,21 +705,57 @@ export function ExportData() {
             <tbody className="bg-black/30 divide-y divide-gray-700">
               {isLoading ? (
                 <tr>
-                  <td colSpan={4} className="px-6 py-4 text-center">
+                  <td colSpan={6} className="px-6 py-4 text-center">
                     <Loader2 className="h-5 w-5 animate-spin mx-auto text-primary/50" />
                   </td>
                 </tr>
               ) : exportHistory && exportHistory.length > 0 ? (
                 exportHistory.map((export_) => (
-                  <tr key={export_.id}>
+                  <Fragment key={export_.id}>
+                  <tr>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">
                       {formatDate(export_.createdAt)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">
+                      {FORMAT_LABELS[export_.format] ?? export_.format}
+                      {versionName(export_) && (
+                        <span className="block text-xs text-white/50">version {versionName(export_)}</span>
+                      )}
+                      {formatNormalization(export_) && (
+                        <span className="block text-xs text-white/50">{formatNormalization(export_)}</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">
                       {formatFileSize(export_.size)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">
                       {export_.records}
+                      {formatSplits(export_) && (
+                        <span className="block text-xs text-white/50">
+                          train/val/test {formatSplits(export_)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-white/70">
+                      {export_.status === "completed" ? (
+                        <span title={export_.checksum ? `SHA-256 ${export_.checksum}` : undefined}>
+                          Completed
+                          {export_.checksum && (
+                            <span className="block text-xs text-white/50 font-mono">
+                              sha256 {export_.checksum.slice(0, 12)}…
+                            </span>
+                          )}
+                        </span>
+                      ) : export_.status === "failed" ? (
+                        <span className="text-red-400" title={export_.error ?? undefined}>Failed</span>
+                      ) : (
+                        <div className="w-32">
+                          <span className="text-xs">
+                            {export_.status === "queued" ? "Queued" : `Generating ${export_.progress}%`}
+                          </span>
+                          <Progress value={export_.progress} className="h-1.5 mt-1" />
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <Button
@@ -298,7 +763,7 @@ export function ExportData() {
                         size="sm"
                         className="inline-flex items-center border-white/20 hover:bg-white/10"
                         onClick={() => downloadExportMutation.mutate(export_.id)}
-                        disabled={downloadExportMutation.isPending}
+                        disabled={downloadExportMutation.isPending || export_.status !== "completed"}
                       >
                         {downloadExportMutation.isPending ? (
                           <Loader2 className="h-4 w-4 animate-spin" />
@@ -307,12 +772,42 @@ export function ExportData() {
                         )}
                         Download
                       </Button>
+                      {export_.datasetVersionId !== null && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="ml-2 inline-flex items-center border-white/20 hover:bg-white/10"
+                          onClick={() => regenerateExportMutation.mutate(export_.id)}
+                          disabled={regenerateExportMutation.isPending}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                          Regenerate
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-2 inline-flex items-center border-white/20 hover:bg-white/10"
+                        onClick={() => setAuditExportId(auditExportId === export_.id ? null : export_.id)}
+                        title="Recordings the export policy left out"
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                        Audit
+                      </Button>
                     </td>
                   </tr>
+                  {auditExportId === export_.id && (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 bg-black/40">
+                        <ExportAudit exportId={export_.id} />
+                      </td>
+                    </tr>
+                  )}
+                  </Fragment>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={4} className="px-6 py-4 text-center text-white/70">
+                  <td colSpan={6} className="px-6 py-4 text-center text-white/70">
                     No export history found. Generate an export to get started.
                   </td>
                 </tr>
@@ -321,6 +816,8 @@ export function ExportData() {
           </table>
         </div>
       </div>
+
+      <DatasetVersions filter={filter} />
     </>
   );
 }
@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, Eye, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ExportExclusion } from "@shared/schema";
+import { describeExclusion } from "./export-policy-settings";
+
+// Mirrors ExportFilter in shared/schema.ts
+export interface ExportFilter {
+  startDate?: string;
+  endDate?: string;
+  audioFileIds?: number[];
+  uploaderIds?: number[];
+  transcriberIds?: number[];
+  reviewerIds?: number[];
+  minRating?: number;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  minTextLength?: number;
+  maxTextLength?: number;
+  excludeWithNotes?: boolean;
+  excludeTagged?: boolean;
+  sourceTypes?: string[];
+  regions?: string[];
+  licenses?: string[];
+  recordingTags?: string[];
+  recordedAfter?: string;
+  recordedBefore?: string;
+  requireConsentRef?: boolean;
+}
+
+interface ExportPreview {
+  records: number;
+  audioFiles: number;
+  durationMs: number;
+  hours: number;
+  excluded: ExportExclusion[];
+}
+
+interface AudioFileOption {
+  id: number;
+  filename: string;
+  sourceType: string | null;
+  region: string | null;
+  license: string | null;
+  tags: string[];
+}
+
+interface UserOption {
+  id: number;
+  fullName: string;
+  role: string;
+}
+
+type IdListField = "audioFileIds" | "uploaderIds" | "transcriberIds" | "reviewerIds";
+type RecordingListField = "sourceTypes" | "regions" | "licenses" | "recordingTags";
+
+interface MultiSelectProps<T extends number | string> {
+  label: string;
+  placeholder: string;
+  options: { id: T; label: string }[];
+  selected: T[];
+  onChange: (ids: T[]) => void;
+}
+
+function MultiSelect<T extends number | string>({ label, placeholder, options, selected, onChange }: MultiSelectProps<T>) {
+  const toggle = (id: T, checked: boolean) => {
+    onChange(checked ? [...selected, id] : selected.filter(selectedId => selectedId !== id));
+  };
+
+  return (
+    <div>
+      <Label className="block text-sm font-medium text-white/70">{label}</Label>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            className="mt-1 w-full justify-between bg-black/30 border-white/20 text-white font-normal"
+          >
+            <span className="truncate">
+              {selected.length === 0 ? placeholder : `${selected.length} selected`}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto bg-black/90 border-white/20 text-white">
+          <DropdownMenuLabel>{label}</DropdownMenuLabel>
+          {selected.length > 0 && (
+            <DropdownMenuItem onSelect={() => onChange([])}>
+              Clear selection
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          {options.length === 0 ? (
+            <p className="px-2 py-1.5 text-sm text-white/50">Nothing to choose from</p>
+          ) : options.map(option => (
+            <DropdownMenuCheckboxItem
+              key={String(option.id)}
+              checked={selected.includes(option.id)}
+              onCheckedChange={(checked) => toggle(option.id, checked === true)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {option.label}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+interface ExportFilterBuilderProps {
+  value: ExportFilter;
+  onChange: (filter: ExportFilter) => void;
+}
+
+/**
+ * Narrow down which approved transcriptions go into an export, with a preview of the result
+ */
+export function ExportFilterBuilder({ value, onChange }: ExportFilterBuilderProps) {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<ExportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const { data: audioFiles = [] } = useQuery<AudioFileOption[]>({ queryKey: ["/api/audio"] });
+  const { data: users = [] } = useQuery<UserOption[]>({ queryKey: ["/api/users"] });
+
+  const update = (changes: Partial<ExportFilter>) => {
+    setPreview(null);
+    onChange({ ...value, ...changes });
+  };
+
+  // Empty inputs clear the bound
+  const parseBound = (input: string, scale = 1): number | undefined =>
+    input.trim() === "" ? undefined : Math.round(parseFloat(input) * scale);
+
+  const userOptions = (roles: string[]) => users
+    .filter(user => roles.includes(user.role))
+    .map(user => ({ id: user.id, label: user.fullName }));
+
+  const idLists: { field: IdListField; label: string; placeholder: string; options: { id: number; label: string }[] }[] = [
+    {
+      field: "audioFileIds",
+      label: "Audio files",
+      placeholder: "All audio files",
+      options: audioFiles.map(file => ({ id: file.id, label: file.filename })),
+    },
+    { field: "uploaderIds", label: "Uploaded by", placeholder: "Anyone", options: userOptions(["collector", "admin", "transcriber", "reviewer"]) },
+    { field: "transcriberIds", label: "Transcribed by", placeholder: "Anyone", options: userOptions(["transcriber", "reviewer", "admin"]) },
+    { field: "reviewerIds", label: "Reviewed by", placeholder: "Anyone", options: userOptions(["reviewer", "admin"]) },
+  ];
+
+  // Values the recordings actually use
+  const distinct = (values: (string | null)[]) => Array.from(new Set(values.filter((entry): entry is string => !!entry)))
+    .sort()
+    .map(entry => ({ id: entry, label: entry }));
+
+  const recordingLists: { field: RecordingListField; label: string; placeholder: string; options: { id: string; label: string }[] }[] = [
+    { field: "sourceTypes", label: "Source type", placeholder: "Any source", options: distinct(audioFiles.map(file => file.sourceType)) },
+    { field: "regions", label: "Region", placeholder: "Any region", options: distinct(audioFiles.map(file => file.region)) },
+    { field: "licenses", label: "License", placeholder: "Any license", options: distinct(audioFiles.map(file => file.license)) },
+    { field: "recordingTags", label: "Recording tags", placeholder: "Any tags", options: distinct(audioFiles.flatMap(file => file.tags ?? [])) },
+  ];
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const response = await apiRequest("POST", "/api/exports/preview", { filter: value });
+      setPreview(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Preview failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-4">
+        {idLists.map(({ field, label, placeholder, options }) => (
+          <MultiSelect
+            key={field}
+            label={label}
+            placeholder={placeholder}
+            options={options}
+            selected={value[field] ?? []}
+            onChange={(ids) => update({ [field]: ids.length > 0 ? ids : undefined })}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-4">
+        {recordingLists.map(({ field, label, placeholder, options }) => (
+          <MultiSelect
+            key={field}
+            label={label}
+            placeholder={placeholder}
+            options={options}
+            selected={value[field] ?? []}
+            onChange={(values) => update({ [field]: values.length > 0 ? values : undefined })}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <div>
+          <Label htmlFor="recordedAfter" className="block text-sm font-medium text-white/70">
+            Recorded on or after
+          </Label>
+          <Input
+            type="date"
+            id="recordedAfter"
+            value={value.recordedAfter ?? ""}
+            onChange={(e) => update({ recordedAfter: e.target.value || undefined })}
+            className="mt-1 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="recordedBefore" className="block text-sm font-medium text-white/70">
+            Recorded on or before
+          </Label>
+          <Input
+            type="date"
+            id="recordedBefore"
+            value={value.recordedBefore ?? ""}
+            onChange={(e) => update({ recordedBefore: e.target.value || undefined })}
+            className="mt-1 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+        <div>
+          <Label htmlFor="minRating" className="block text-sm font-medium text-white/70">
+            Minimum rating
+          </Label>
+          <Select
+            value={value.minRating ? String(value.minRating) : "any"}
+            onValueChange={(rating) => update({ minRating: rating === "any" ? undefined : parseInt(rating, 10) })}
+          >
+            <SelectTrigger id="minRating" className="mt-1 bg-black/30 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-black/90 border-white/20 text-white">
+              <SelectItem value="any" className="text-white hover:bg-white/10">Any</SelectItem>
+              {[1, 2, 3, 4, 5].map(rating => (
+                <SelectItem key={rating} value={String(rating)} className="text-white hover:bg-white/10">
+                  {rating}+ stars
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="minDuration" className="block text-sm font-medium text-white/70">
+            Min duration (s)
+          </Label>
+          <Input
+            type="number"
+            id="minDuration"
+            min={0}
+            step={0.1}
+            placeholder="None"
+            value={value.minDurationMs !== undefined ? value.minDurationMs / 1000 : ""}
+            onChange={(e) => update({ minDurationMs: parseBound(e.target.value, 1000) })}
+            className="mt-1 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="maxDuration" className="block text-sm font-medium text-white/70">
+            Max duration (s)
+          </Label>
+          <Input
+            type="number"
+            id="maxDuration"
+            min={0}
+            step={0.1}
+            placeholder="None"
+            value={value.maxDurationMs !== undefined ? value.maxDurationMs / 1000 : ""}
+            onChange={(e) => update({ maxDurationMs: parseBound(e.target.value, 1000) })}
+            className="mt-1 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="minTextLength" className="block text-sm font-medium text-white/70">
+            Min characters
+          </Label>
+          <Input
+            type="number"
+            id="minTextLength"
+            min={0}
+            placeholder="None"
+            value={value.minTextLength ?? ""}
+            onChange={(e) => update({ minTextLength: parseBound(e.target.value) })}
+            className="mt-1 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="maxTextLength" className="block text-sm font-medium text-white/70">
+            Max characters
+          </Label>
+          <Input
+            type="number"
+            id="maxTextLength"
+            min={0}
+            placeholder="None"
+            value={value.maxTextLength ?? ""}
+            onChange={(e) => update({ maxTextLength: parseBound(e.target.value) })}
+            className="mt-1 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="excludeWithNotes"
+            checked={value.excludeWithNotes ?? false}
+            onCheckedChange={(checked) => update({ excludeWithNotes: checked === true || undefined })}
+            className="border-white/30 data-[state=checked]:bg-primary-600"
+          />
+          <Label htmlFor="excludeWithNotes" className="font-medium text-white/70">
+            Exclude transcriptions with notes
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="excludeTagged"
+            checked={value.excludeTagged ?? false}
+            onCheckedChange={(checked) => update({ excludeTagged: checked === true || undefined })}
+            className="border-white/30 data-[state=checked]:bg-primary-600"
+          />
+          <Label htmlFor="excludeTagged" className="font-medium text-white/70">
+            Exclude text with tags like [noise] or &lt;fr&gt;
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="requireConsentRef"
+            checked={value.requireConsentRef ?? false}
+            onCheckedChange={(checked) => update({ requireConsentRef: checked === true || undefined })}
+            className="border-white/30 data-[state=checked]:bg-primary-600"
+          />
+          <Label htmlFor="requireConsentRef" className="font-medium text-white/70">
+            Only recordings with a consent form reference
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="inline-flex items-center border-white/20 hover:bg-white/10"
+          onClick={handlePreview}
+          disabled={isPreviewing}
+        >
+          {isPreviewing ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Eye className="h-4 w-4 mr-1" />
+          )}
+          Preview
+        </Button>
+        {preview && (
+          <p className="text-sm text-white/70">
+            {preview.records} segment{preview.records === 1 ? "" : "s"} from {preview.audioFiles} audio
+            file{preview.audioFiles === 1 ? "" : "s"}, {preview.hours} hours of audio
+            {preview.excluded.length > 0 && (
+              <span
+                className="block text-xs text-amber-300"
+                title={preview.excluded.map(describeExclusion).join("\n")}
+              >
+                {preview.excluded.length} recording{preview.excluded.length === 1 ? "" : "s"} left out by the export policy
+              </span>
+            )}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
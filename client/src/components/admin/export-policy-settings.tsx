@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ExportExclusion, ExportPolicy } from "@shared/schema";
+
+export const EXCLUSION_REASON_LABELS: Record<ExportExclusion["reason"], string> = {
+  consent_revoked: "Consent revoked",
+  restricted: "Restricted",
+  license_blocked: "License not exportable",
+};
+
+// e.g. "interview.wav: Consent revoked (Speaker withdrew), 12 segments"
+export function describeExclusion(exclusion: ExportExclusion): string {
+  const detail = exclusion.detail ? ` (${exclusion.detail})` : "";
+  return `${exclusion.filename}: ${EXCLUSION_REASON_LABELS[exclusion.reason]}${detail}, ${exclusion.segments} segment${exclusion.segments === 1 ? "" : "s"}`;
+}
+
+export function ExportPolicySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [excludeRestricted, setExcludeRestricted] = useState(true);
+  const [blockedLicenses, setBlockedLicenses] = useState("");
+
+  const { data: policy, isLoading } = useQuery<ExportPolicy>({
+    queryKey: ["/api/settings/export-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setExcludeRestricted(policy.excludeRestricted);
+      setBlockedLicenses(policy.blockedLicenses.join(", "));
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: ExportPolicy) => {
+      const response = await apiRequest("PUT", "/api/settings/export-policy", updated);
+      return response.json();
+    },
+    onSuccess: (data: ExportPolicy) => {
+      queryClient.setQueryData(["/api/settings/export-policy"], data);
+      toast({
+        title: "Export policy updated",
+        description: "Exports started from now on use the new policy.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update export policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      excludeRestricted,
+      blockedLicenses: blockedLicenses.split(",").map(license => license.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Export Policy</CardTitle>
+        <CardDescription>
+          Recordings every export leaves out, whatever its filter. Recordings whose consent was revoked are always
+          left out; each export keeps an audit of the recordings it left out and why.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !policy ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex items-center space-x-2 h-10">
+              <Checkbox
+                id="export-policy-restricted"
+                checked={excludeRestricted}
+                onCheckedChange={(checked) => setExcludeRestricted(!!checked)}
+                className="border-white/30 data-[state=checked]:bg-primary-600"
+              />
+              <Label htmlFor="export-policy-restricted" className="font-medium text-white/70">
+                Leave out restricted recordings
+              </Label>
+            </div>
+            <div>
+              <Label htmlFor="export-policy-licenses" className="block text-xs font-medium text-white/70">
+                Licenses that may not be exported (comma-separated)
+              </Label>
+              <Input
+                id="export-policy-licenses"
+                placeholder="e.g. Proprietary, CC-BY-NC-4.0"
+                value={blockedLicenses}
+                onChange={(e) => setBlockedLicenses(e.target.value)}
+                className="mt-1 w-[320px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReviewQueueItem } from "@/components/transcription/review-queue";
+
+interface User {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+}
+
+type RoutingStrategy = "manual" | "round_robin" | "least_loaded";
+
+const STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  manual: "Manual (admins assign)",
+  round_robin: "Round-robin",
+  least_loaded: "Least loaded",
+};
+
+export function ReviewerAssignment() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedSegments, setSelectedSegments] = useState<number[]>([]);
+  const [selectedReviewer, setSelectedReviewer] = useState<number | null>(null);
+
+  // Every segment waiting for review (admins see all queues)
+  const { data: queue, isLoading: isLoadingQueue } = useQuery<ReviewQueueItem[]>({
+    queryKey: ["/api/review-queue"],
+  });
+
+  const { data: reviewers, isLoading: isLoadingUsers } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    select: (data) => data.filter(user => user.role === "reviewer" || user.role === "admin"),
+  });
+
+  const { data: routing } = useQuery<{ strategy: RoutingStrategy }>({
+    queryKey: ["/api/settings/review-routing"],
+  });
+
+  const routingMutation = useMutation({
+    mutationFn: async (strategy: RoutingStrategy) => {
+      const response = await apiRequest("PUT", "/api/settings/review-routing", { strategy });
+      return response.json();
+    },
+    onSuccess: (data: { strategy: RoutingStrategy }) => {
+      queryClient.setQueryData(["/api/settings/review-routing"], data);
+      toast({
+        title: "Review routing updated",
+        description: `New submissions are routed: ${STRATEGY_LABELS[data.strategy].toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update routing",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ segmentIds, reviewerId }: { segmentIds: number[], reviewerId: number }) => {
+      const response = await apiRequest("POST", "/api/admin/assign-reviewer", { segmentIds, reviewerId });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const failures = data.errors ? ` ${data.errors.length} failed: ${data.errors[0].error}` : "";
+      toast({
+        title: "Reviewer assigned",
+        description: `${data.success} segment(s) routed to the selected reviewer.${failures}`,
+        variant: data.success === 0 ? "destructive" : "default",
+      });
+
+      setSelectedSegments([]);
+      setSelectedReviewer(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to assign reviewer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Format duration in seconds to "Xs" format
+  const formatDuration = (durationInMs: number) => {
+    return `${Math.round(durationInMs / 1000)}s`;
+  };
+
+  const handleSegmentSelect = (segmentId: number) => {
+    setSelectedSegments(prevSelected =>
+      prevSelected.includes(segmentId)
+        ? prevSelected.filter(id => id !== segmentId)
+        : [...prevSelected, segmentId]
+    );
+  };
+
+  // Reviewers who transcribed any selected segment can't take it
+  const selectedTranscribers = new Set(
+    queue?.filter(item => selectedSegments.includes(item.segmentId)).map(item => item.transcribedBy) ?? []
+  );
+
+  const handleAssign = () => {
+    if (selectedSegments.length === 0 || !selectedReviewer) {
+      toast({
+        title: "Selection required",
+        description: "Please select both segments and a reviewer.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    assignMutation.mutate({ segmentIds: selectedSegments, reviewerId: selectedReviewer });
+  };
+
+  const isLoading = isLoadingQueue || isLoadingUsers;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Reviewer Assignment</CardTitle>
+        <CardDescription>
+          Route submitted transcriptions to reviewers. Reviewers never receive their own work.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-40">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="review-routing" className="text-white whitespace-nowrap">Automatic routing</Label>
+                <Select
+                  value={routing?.strategy}
+                  onValueChange={(value) => routingMutation.mutate(value as RoutingStrategy)}
+                  disabled={routingMutation.isPending}
+                >
+                  <SelectTrigger id="review-routing" className="w-[220px] bg-black/30 border-white/20 text-white">
+                    <SelectValue placeholder="Select strategy" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/20 text-white">
+                    {(Object.keys(STRATEGY_LABELS) as RoutingStrategy[]).map(strategy => (
+                      <SelectItem key={strategy} value={strategy} className="text-white hover:bg-white/10">
+                        {STRATEGY_LABELS[strategy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Select
+                  value={selectedReviewer?.toString() ?? ""}
+                  disabled={selectedSegments.length === 0 || assignMutation.isPending}
+                  onValueChange={(value) => setSelectedReviewer(parseInt(value))}
+                >
+                  <SelectTrigger className="w-[200px] bg-black/30 border-white/20 text-white">
+                    <SelectValue placeholder="Select reviewer" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black/90 border-white/20 text-white">
+                    {reviewers?.map(user => (
+                      <SelectItem
+                        key={user.id}
+                        value={user.id.toString()}
+                        disabled={selectedTranscribers.has(user.id)}
+                        className="text-white hover:bg-white/10"
+                      >
+                        {user.fullName} ({user.role})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  disabled={selectedSegments.length === 0 || !selectedReviewer || assignMutation.isPending}
+                  onClick={handleAssign}
+                >
+                  {assignMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : null}
+                  Assign ({selectedSegments.length})
+                </Button>
+              </div>
+            </div>
+
+            <div className="border border-white/10 rounded-md bg-black/20">
+              <Table>
+                <TableHeader className="bg-black/40">
+                  <TableRow>
+                    <TableHead className="w-12 text-white"></TableHead>
+                    <TableHead className="text-white">Segment ID</TableHead>
+                    <TableHead className="text-white">Duration</TableHead>
+                    <TableHead className="text-white">Transcriber</TableHead>
+                    <TableHead className="text-white">Reviewer</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {queue && queue.length > 0 ? (
+                    queue.map((item) => (
+                      <TableRow
+                        key={item.segmentId}
+                        className={selectedSegments.includes(item.segmentId) ? "bg-primary-900/30" : ""}
+                        onClick={() => handleSegmentSelect(item.segmentId)}
+                      >
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={selectedSegments.includes(item.segmentId)}
+                            onChange={() => {}}
+                            className="h-4 w-4 text-primary border-white/30 focus:ring-primary bg-black/30"
+                          />
+                        </TableCell>
+                        <TableCell className="text-white/90">Audio Segment {item.segmentId}</TableCell>
+                        <TableCell className="text-white/90">{formatDuration(item.duration)}</TableCell>
+                        <TableCell className="text-white/90">{item.transcriberName}</TableCell>
+                        <TableCell className="text-white/90">{item.reviewerName ?? "Unassigned"}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-4 text-white/70">
+                        No transcriptions are waiting for review.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
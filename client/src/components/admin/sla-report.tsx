@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface AssignmentDueSettings {
+  defaultDueHours: number;
+  overdueAction: "flag" | "reclaim";
+  reclaimGraceHours: number;
+}
+
+interface TranscriberSla {
+  userId: number;
+  fullName: string;
+  assignments: number;
+  submitted: number;
+  submittedOnTime: number;
+  submittedLate: number;
+  open: number;
+  openOverdue: number;
+  lost: number;
+  onTimeRate: number | null;
+  averageTurnaroundHours: number | null;
+}
+
+interface OverdueAssignment {
+  assignmentId: number;
+  segmentId: number;
+  userId: number;
+  fullName: string;
+  dueAt: string;
+  overdueAt: string | null;
+}
+
+interface SlaReportData {
+  since: string | null;
+  generatedAt: string;
+  transcribers: TranscriberSla[];
+  overdue: OverdueAssignment[];
+}
+
+const PERIODS: Record<string, { label: string; days: number | null }> = {
+  "7": { label: "Last 7 days", days: 7 },
+  "30": { label: "Last 30 days", days: 30 },
+  "90": { label: "Last 90 days", days: 90 },
+  all: { label: "All time", days: null },
+};
+
+export function SlaReport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [period, setPeriod] = useState("30");
+  const [settings, setSettings] = useState<AssignmentDueSettings | null>(null);
+
+  // Rounded to the day so the query key stays stable between renders
+  const days = PERIODS[period].days;
+  const since = days !== null ? format(subDays(new Date(), days), "yyyy-MM-dd") : null;
+
+  const { data: report, isLoading } = useQuery<SlaReportData>({
+    queryKey: [since ? `/api/admin/sla?since=${since}` : "/api/admin/sla"],
+  });
+
+  const { data: savedSettings } = useQuery<AssignmentDueSettings>({
+    queryKey: ["/api/settings/assignment-due"],
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setSettings(savedSettings);
+    }
+  }, [savedSettings]);
+
+  const settingsMutation = useMutation({
+    mutationFn: async (updated: AssignmentDueSettings) => {
+      const response = await apiRequest("PUT", "/api/settings/assignment-due", updated);
+      return response.json();
+    },
+    onSuccess: (data: AssignmentDueSettings) => {
+      queryClient.setQueryData(["/api/settings/assignment-due"], data);
+      toast({
+        title: "Due date settings updated",
+        description: `New assignments are due after ${data.defaultDueHours} hours.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update due date settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: async (segmentId: number) => {
+      const dueAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+      const response = await apiRequest("PUT", `/api/admin/segments/${segmentId}/due-date`, { dueAt });
+      return response.json();
+    },
+    onSuccess: () => {
+      // Matches every reporting period (the key includes ?since=)
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/sla") });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      toast({ title: "Due date extended", description: "The assignment is now due in 24 hours." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to extend due date",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatRate = (rate: number | null) => rate === null ? "—" : `${Math.round(rate * 100)}%`;
+  const formatHours = (hours: number | null) => hours === null ? "—" : `${hours.toFixed(1)}h`;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Due Dates &amp; SLA</CardTitle>
+        <CardDescription>
+          Assignment deadlines and how reliably each transcriber submits on time. Overdue assignments are flagged, or returned to the pool when reclaiming is on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {settings && (
+          <div className="flex flex-wrap items-end gap-4 mb-6">
+            <div>
+              <Label htmlFor="default-due-hours" className="block text-xs font-medium text-white/70">
+                Default due after (hours)
+              </Label>
+              <Input
+                id="default-due-hours"
+                type="number"
+                min={1}
+                value={settings.defaultDueHours}
+                onChange={(e) => setSettings({ ...settings, defaultDueHours: parseInt(e.target.value, 10) || 0 })}
+                className="mt-1 w-[160px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <div>
+              <Label htmlFor="overdue-action" className="block text-xs font-medium text-white/70">
+                When overdue
+              </Label>
+              <Select
+                value={settings.overdueAction}
+                onValueChange={(value) => setSettings({ ...settings, overdueAction: value as AssignmentDueSettings["overdueAction"] })}
+              >
+                <SelectTrigger id="overdue-action" className="mt-1 w-[200px] bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-black/90 border-white/20 text-white">
+                  <SelectItem value="flag" className="text-white hover:bg-white/10">Flag only</SelectItem>
+                  <SelectItem value="reclaim" className="text-white hover:bg-white/10">Flag, then reclaim</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="reclaim-grace-hours" className="block text-xs font-medium text-white/70">
+                Reclaim after (hours overdue)
+              </Label>
+              <Input
+                id="reclaim-grace-hours"
+                type="number"
+                min={0}
+                value={settings.reclaimGraceHours}
+                disabled={settings.overdueAction !== "reclaim"}
+                onChange={(e) => setSettings({ ...settings, reclaimGraceHours: parseInt(e.target.value, 10) || 0 })}
+                className="mt-1 w-[160px] bg-black/30 border-white/20 text-white"
+              />
+            </div>
+            <Button onClick={() => settingsMutation.mutate(settings)} disabled={settingsMutation.isPending}>
+              {settingsMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-white">Compliance by transcriber</h3>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-[160px] bg-black/30 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-black/90 border-white/20 text-white">
+              {Object.entries(PERIODS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value} className="text-white hover:bg-white/10">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !report ? (
+          <div className="flex justify-center items-center h-40">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <>
+            <div className="border border-white/10 rounded-md bg-black/20">
+              <Table>
+                <TableHeader className="bg-black/40">
+                  <TableRow>
+                    <TableHead className="text-white">Transcriber</TableHead>
+                    <TableHead className="text-white">Assignments</TableHead>
+                    <TableHead className="text-white">Submitted on time</TableHead>
+                    <TableHead className="text-white">Late</TableHead>
+                    <TableHead className="text-white">Open (overdue)</TableHead>
+                    <TableHead className="text-white">Dropped</TableHead>
+                    <TableHead className="text-white">Avg. turnaround</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.transcribers.length > 0 ? (
+                    report.transcribers.map(row => (
+                      <TableRow key={row.userId}>
+                        <TableCell className="text-white/90">{row.fullName}</TableCell>
+                        <TableCell className="text-white/90">{row.assignments}</TableCell>
+                        <TableCell className="text-white/90">
+                          {row.submittedOnTime} ({formatRate(row.onTimeRate)})
+                        </TableCell>
+                        <TableCell className="text-white/90">{row.submittedLate}</TableCell>
+                        <TableCell className={row.openOverdue > 0 ? "text-red-400" : "text-white/90"}>
+                          {row.open} ({row.openOverdue})
+                        </TableCell>
+                        <TableCell className="text-white/90">{row.lost}</TableCell>
+                        <TableCell className="text-white/90">{formatHours(row.averageTurnaroundHours)}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-4 text-white/70">
+                        No assignments in this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <h3 className="text-lg font-medium text-white mt-6 mb-4">Overdue now</h3>
+            <div className="border border-white/10 rounded-md bg-black/20">
+              <Table>
+                <TableHeader className="bg-black/40">
+                  <TableRow>
+                    <TableHead className="text-white">Segment ID</TableHead>
+                    <TableHead className="text-white">Transcriber</TableHead>
+                    <TableHead className="text-white">Due</TableHead>
+                    <TableHead className="text-white"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.overdue.length > 0 ? (
+                    report.overdue.map(item => (
+                      <TableRow key={item.assignmentId}>
+                        <TableCell className="text-white/90">Audio Segment {item.segmentId}</TableCell>
+                        <TableCell className="text-white/90">{item.fullName}</TableCell>
+                        <TableCell className="text-red-400">{format(new Date(item.dueAt), "MMM d, yyyy HH:mm")}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={extendMutation.isPending}
+                            onClick={() => extendMutation.mutate(item.segmentId)}
+                          >
+                            Extend 24h
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-4 text-white/70">
+                        Nothing is overdue.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
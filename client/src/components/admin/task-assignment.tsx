@@ -16,6 +16,7 @@ import {
   TableRow 
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -26,6 +27,9 @@ import {
 import { Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { ReviewerAssignment } from "./reviewer-assignment";
+import { ClaimingSettings } from "./claiming-settings";
+import { SlaReport } from "./sla-report";
 
 // Types for available segments and users
 interface AudioSegment {
@@ -48,6 +52,8 @@ export function TaskAssignment() {
   const queryClient = useQueryClient();
   const [selectedSegments, setSelectedSegments] = useState<number[]>([]);
   const [selectedUser, setSelectedUser] = useState<number | null>(null);
+  // Local date-time from the picker; empty uses the project default due date
+  const [dueAt, setDueAt] = useState("");
 
   // Fetch available segments
   const { 
@@ -70,11 +76,12 @@ export function TaskAssignment() {
 
   // Mutation for assigning segment
   const assignMutation = useMutation({
-    mutationFn: async ({ segmentIds, userId }: { segmentIds: number[], userId: number }) => {
+    mutationFn: async ({ segmentIds, userId, dueAt }: { segmentIds: number[], userId: number, dueAt?: string }) => {
       // Use the bulk assignment endpoint instead of individual calls
       const response = await apiRequest("POST", "/api/admin/assign-segments", { 
         segmentIds, 
-        userId 
+        userId,
+        dueAt,
       });
       return response.json();
     },
@@ -88,11 +95,14 @@ export function TaskAssignment() {
       // Reset selections
       setSelectedSegments([]);
       setSelectedUser(null);
+      setDueAt("");
       
       // Refresh data
       queryClient.invalidateQueries({ queryKey: ["/api/admin/available-segments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/summary"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activities/recent"] });
+      // Matches every reporting period (the key includes ?since=)
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/sla") });
     },
     onError: (error: Error) => {
       toast({
@@ -151,117 +161,137 @@ export function TaskAssignment() {
 
     assignMutation.mutate({ 
       segmentIds: selectedSegments, 
-      userId: selectedUser 
+      userId: selectedUser,
+      dueAt: dueAt ? new Date(dueAt).toISOString() : undefined,
     });
   };
 
   const isLoading = isLoadingSegments || isLoadingUsers || assignMutation.isPending;
 
   return (
-    <Card className="mt-6">
-      <CardHeader>
-        <CardTitle>Task Assignment</CardTitle>
-        <CardDescription>
-          Assign available audio segments to transcribers
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        {isLoading ? (
-          <div className="flex justify-center items-center h-40">
-            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
-          </div>
-        ) : (
-          <div>
-            <div className="flex justify-between items-center mb-4">
-              <div className="flex items-center space-x-2">
-                <h3 className="text-lg font-medium text-white">Available Segments</h3>
-                {availableSegments && availableSegments.length > 0 && (
+    <>
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Task Assignment</CardTitle>
+          <CardDescription>
+            Assign available audio segments to transcribers
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+            </div>
+          ) : (
+            <div>
+              <div className="flex justify-between items-center mb-4">
+                <div className="flex items-center space-x-2">
+                  <h3 className="text-lg font-medium text-white">Available Segments</h3>
+                  {availableSegments && availableSegments.length > 0 && (
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      onClick={handleSelectAll}
+                    >
+                      {selectedSegments.length === availableSegments.length ? "Deselect All" : "Select All"}
+                    </Button>
+                  )}
+                  {selectedSegments.length > 0 && (
+                    <span className="text-sm text-white/70">
+                      {selectedSegments.length} selected
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Select 
+                    disabled={selectedSegments.length === 0 || assignMutation.isPending} 
+                    onValueChange={handleUserChange}
+                  >
+                    <SelectTrigger className="w-[200px] bg-black/30 border-white/20 text-white">
+                      <SelectValue placeholder="Select transcriber" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-black/90 border-white/20 text-white">
+                      {users?.map(user => (
+                        <SelectItem key={user.id} value={user.id.toString()} className="text-white hover:bg-white/10">
+                          {user.fullName} ({user.role})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="datetime-local"
+                    value={dueAt}
+                    onChange={(e) => setDueAt(e.target.value)}
+                    disabled={selectedSegments.length === 0 || assignMutation.isPending}
+                    title="Due date (leave empty for the project default)"
+                    className="w-[210px] bg-black/30 border-white/20 text-white"
+                  />
                   <Button 
-                    variant="outline" 
-                    size="sm" 
-                    onClick={handleSelectAll}
+                    disabled={selectedSegments.length === 0 || !selectedUser || assignMutation.isPending}
+                    onClick={handleAssign}
                   >
-                    {selectedSegments.length === availableSegments.length ? "Deselect All" : "Select All"}
+                    {assignMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : null}
+                    Assign ({selectedSegments.length})
                   </Button>
-                )}
-                {selectedSegments.length > 0 && (
-                  <span className="text-sm text-white/70">
-                    {selectedSegments.length} selected
-                  </span>
-                )}
+                </div>
               </div>
-              <div className="flex items-center space-x-2">
-                <Select 
-                  disabled={selectedSegments.length === 0 || assignMutation.isPending} 
-                  onValueChange={handleUserChange}
-                >
-                  <SelectTrigger className="w-[200px] bg-black/30 border-white/20 text-white">
-                    <SelectValue placeholder="Select transcriber" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-black/90 border-white/20 text-white">
-                    {users?.map(user => (
-                      <SelectItem key={user.id} value={user.id.toString()} className="text-white hover:bg-white/10">
-                        {user.fullName} ({user.role})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <Button 
-                  disabled={selectedSegments.length === 0 || !selectedUser || assignMutation.isPending}
-                  onClick={handleAssign}
-                >
-                  {assignMutation.isPending ? (
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  ) : null}
-                  Assign ({selectedSegments.length})
-                </Button>
-              </div>
-            </div>
 
-            <div className="border border-white/10 rounded-md bg-black/20">
-              <Table>
-                <TableHeader className="bg-black/40">
-                  <TableRow>
-                    <TableHead className="w-12 text-white"></TableHead>
-                    <TableHead className="text-white">Segment ID</TableHead>
-                    <TableHead className="text-white">Duration</TableHead>
-                    <TableHead className="text-white">Created</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {availableSegments && availableSegments.length > 0 ? (
-                    availableSegments.map((segment) => (
-                      <TableRow 
-                        key={segment.id}
-                        className={selectedSegments.includes(segment.id) ? "bg-primary-900/30" : ""}
-                        onClick={() => handleSegmentSelect(segment.id)}
-                      >
-                        <TableCell>
-                          <input 
-                            type="checkbox" 
-                            checked={selectedSegments.includes(segment.id)}
-                            onChange={() => {}}
-                            className="h-4 w-4 text-primary border-white/30 focus:ring-primary bg-black/30"
-                          />
-                        </TableCell>
-                        <TableCell className="text-white/90">Audio Segment {segment.id}</TableCell>
-                        <TableCell className="text-white/90">{formatDuration(segment.duration)}</TableCell>
-                        <TableCell className="text-white/90">{new Date(segment.createdAt).toLocaleString()}</TableCell>
-                      </TableRow>
-                    ))
-                  ) : (
+              <div className="border border-white/10 rounded-md bg-black/20">
+                <Table>
+                  <TableHeader className="bg-black/40">
                     <TableRow>
-                      <TableCell colSpan={4} className="text-center py-4 text-white/70">
-                        No available segments to assign. Process audio files to generate segments.
-                      </TableCell>
+                      <TableHead className="w-12 text-white"></TableHead>
+                      <TableHead className="text-white">Segment ID</TableHead>
+                      <TableHead className="text-white">Duration</TableHead>
+                      <TableHead className="text-white">Created</TableHead>
                     </TableRow>
-                  )}
-                </TableBody>
-              </Table>
+                  </TableHeader>
+                  <TableBody>
+                    {availableSegments && availableSegments.length > 0 ? (
+                      availableSegments.map((segment) => (
+                        <TableRow 
+                          key={segment.id}
+                          className={selectedSegments.includes(segment.id) ? "bg-primary-900/30" : ""}
+                          onClick={() => handleSegmentSelect(segment.id)}
+                        >
+                          <TableCell>
+                            <input 
+                              type="checkbox" 
+                              checked={selectedSegments.includes(segment.id)}
+                              onChange={() => {}}
+                              className="h-4 w-4 text-primary border-white/30 focus:ring-primary bg-black/30"
+                            />
+                          </TableCell>
+                          <TableCell className="text-white/90">Audio Segment {segment.id}</TableCell>
+                          <TableCell className="text-white/90">{formatDuration(segment.duration)}</TableCell>
+                          <TableCell className="text-white/90">{new Date(segment.createdAt).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-4 text-white/70">
+                          No available segments to assign. Process audio files to generate segments.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
             </div>
-          </div>
-        )}
-      </CardContent>
-    </Card>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Limits on transcribers claiming segments themselves */}
+      <ClaimingSettings />
+
+      {/* Review routing for submitted work */}
+      <ReviewerAssignment />
+
+      {/* Due dates and SLA compliance */}
+      <SlaReport />
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { normalizeText, type TextNormalization } from "@shared/text-normalization";
+
+type ToggleRule = "stripTatweel" | "stripDiacritics" | "unifyAlef" | "unifyYa" | "unifyTaMarbuta" | "lowercaseLatin" | "cleanWhitespace";
+
+const TOGGLES: { key: ToggleRule; label: string }[] = [
+  { key: "stripTatweel", label: "Remove tatweel (ـ)" },
+  { key: "stripDiacritics", label: "Remove diacritics" },
+  { key: "unifyAlef", label: "أ إ آ ٱ → ا" },
+  { key: "unifyYa", label: "ى ی → ي" },
+  { key: "unifyTaMarbuta", label: "ة → ه" },
+  { key: "lowercaseLatin", label: "Lowercase Latin" },
+  { key: "cleanWhitespace", label: "Clean up whitespace" },
+];
+
+const SELECTS = [
+  {
+    key: "unicodeForm",
+    label: "Unicode form",
+    options: [["none", "Unchanged"], ["NFC", "NFC"], ["NFKC", "NFKC (folds presentation forms)"]],
+  },
+  {
+    key: "digits",
+    label: "Digits",
+    options: [["keep", "Unchanged"], ["western", "Western (0-9)"], ["eastern", "Eastern (٠-٩)"]],
+  },
+  {
+    key: "punctuation",
+    label: "Punctuation",
+    options: [["keep", "Unchanged"], ["latin", "Latin (, ; ?)"], ["arabic", "Arabic (، ؛ ؟)"], ["strip", "Remove"]],
+  },
+] as const;
+
+export function TextNormalizationSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<TextNormalization | null>(null);
+  const [sample, setSample] = useState("");
+
+  const { data: settings, isLoading } = useQuery<TextNormalization>({
+    queryKey: ["/api/settings/text-normalization"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setValues(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: TextNormalization) => {
+      const response = await apiRequest("PUT", "/api/settings/text-normalization", updated);
+      return response.json();
+    },
+    onSuccess: (data: TextNormalization) => {
+      queryClient.setQueryData(["/api/settings/text-normalization"], data);
+      toast({
+        title: "Normalization rules updated",
+        description: "The editor preview and new normalized exports use the new rules.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update normalization rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Text Normalization</CardTitle>
+        <CardDescription>
+          Orthography rules for Hassaniya text. Transcribers can preview them in the editor, and exports can apply them while keeping the raw text.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !values ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              {SELECTS.map(({ key, label, options }) => (
+                <div key={key}>
+                  <Label htmlFor={`normalization-${key}`} className="block text-xs font-medium text-white/70">
+                    {label}
+                  </Label>
+                  <Select
+                    value={values[key]}
+                    onValueChange={(value) => setValues(prev => prev && { ...prev, [key]: value })}
+                  >
+                    <SelectTrigger id={`normalization-${key}`} className="mt-1 w-[220px] bg-black/30 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-black/90 border-white/20 text-white">
+                      {options.map(([value, optionLabel]) => (
+                        <SelectItem key={value} value={value} className="text-white hover:bg-white/10">
+                          {optionLabel}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {TOGGLES.map(({ key, label }) => (
+                <div key={key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`normalization-${key}`}
+                    checked={values[key]}
+                    onCheckedChange={(checked) => setValues(prev => prev && { ...prev, [key]: checked === true })}
+                    className="border-white/30 data-[state=checked]:bg-primary-600"
+                  />
+                  <Label htmlFor={`normalization-${key}`} className="font-medium text-white/70">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label htmlFor="normalization-sample" className="block text-xs font-medium text-white/70">
+                Try it
+              </Label>
+              <Input
+                id="normalization-sample"
+                dir="auto"
+                placeholder="Paste a transcription"
+                value={sample}
+                onChange={(e) => setSample(e.target.value)}
+                className="mt-1 bg-black/30 border-white/20 text-white"
+              />
+              {sample && (
+                <p className="mt-2 text-sm text-white" dir="auto">{normalizeText(sample, values)}</p>
+              )}
+            </div>
+            <Button onClick={() => saveMutation.mutate(values)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
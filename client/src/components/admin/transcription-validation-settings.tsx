@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  TranscriptionScript,
+  TranscriptionValidationSettings as TranscriptionValidationSettingsValues,
+} from "@shared/transcription-validation";
+
+export function TranscriptionValidationSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<TranscriptionValidationSettingsValues | null>(null);
+
+  const { data: settings, isLoading } = useQuery<TranscriptionValidationSettingsValues>({
+    queryKey: ["/api/settings/transcription-validation"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setValues(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: TranscriptionValidationSettingsValues) => {
+      const response = await apiRequest("PUT", "/api/settings/transcription-validation", updated);
+      return response.json();
+    },
+    onSuccess: (data: TranscriptionValidationSettingsValues) => {
+      queryClient.setQueryData(["/api/settings/transcription-validation"], data);
+      toast({
+        title: "Transcription checks updated",
+        description: "The editor and new submissions use the new script.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update transcription checks",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Transcription Checks</CardTitle>
+        <CardDescription>
+          The script transcriptions are written in. Latin letters outside a language tag are only flagged in Arabic-script projects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !values ? (
+          <div className="flex justify-center items-center h-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary/50" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="validation-script" className="block text-xs font-medium text-white/70">
+                Script
+              </Label>
+              <Select
+                value={values.script}
+                onValueChange={(value) => setValues({ ...values, script: value as TranscriptionScript })}
+              >
+                <SelectTrigger id="validation-script" className="mt-1 w-[180px] bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="arabic">Arabic</SelectItem>
+                  <SelectItem value="latin">Latin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => saveMutation.mutate(values)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
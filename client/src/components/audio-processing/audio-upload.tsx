@@ -1,16 +1,109 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Loader2, Upload } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Loader2, Upload } from "lucide-react";
 import { useAudioProcessor } from "@/hooks/use-audio-processor";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { VadSettings } from "@shared/schema";
+import {
+  EMPTY_RECORDING_METADATA,
+  RecordingMetadataFields,
+  toRecordingMetadata,
+  type RecordingMetadataValues,
+} from "./recording-metadata-fields";
+
+interface VadSettingsResponse {
+  projectDefault: VadSettings;
+  presets: Record<string, VadSettings>;
+}
+
+// Labels for the presets shipped with the server
+const PRESET_LABELS: Record<string, string> = {
+  default: "Default",
+  noisy_radio: "Noisy radio",
+  conversational: "Conversational",
+};
+
+const VAD_FIELDS: { key: keyof VadSettings; label: string; step: string }[] = [
+  { key: "threshold", label: "Speech threshold", step: "0.05" },
+  { key: "minSpeechMs", label: "Min speech (ms)", step: "10" },
+  { key: "minSilenceMs", label: "Min silence (ms)", step: "10" },
+  { key: "speechPadMs", label: "Speech padding (ms)", step: "10" },
+  { key: "maxSegmentSeconds", label: "Max segment (s)", step: "1" },
+];
 
 export function AudioUpload() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const { uploadAudio, isUploading, uploadProgress } = useAudioProcessor();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [vadProfile, setVadProfile] = useState("project");
+  const [vadValues, setVadValues] = useState<VadSettings | null>(null);
+  const [metadata, setMetadata] = useState<RecordingMetadataValues>(EMPTY_RECORDING_METADATA);
+
+  const { data: vadConfig } = useQuery<VadSettingsResponse>({
+    queryKey: ["/api/settings/vad"],
+  });
+
+  // Settings of the selected profile, before any manual edits
+  const profileSettings = vadConfig
+    ? (vadProfile === "project" ? vadConfig.projectDefault : vadConfig.presets[vadProfile])
+    : null;
+
+  useEffect(() => {
+    setVadValues(profileSettings);
+  }, [vadConfig, vadProfile]);
+
+  const saveProjectDefaultMutation = useMutation({
+    mutationFn: async (settings: VadSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/vad", settings);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/vad"] });
+      toast({
+        title: "Project default saved",
+        description: "New uploads will use these VAD settings by default.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save VAD settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleVadValueChange = (key: keyof VadSettings, value: string) => {
+    if (!vadValues) return;
+    const parsed = value === "" ? null : Number(value);
+    setVadValues({
+      ...vadValues,
+      [key]: key === "maxSegmentSeconds" ? parsed : (parsed ?? profileSettings?.[key] ?? 0),
+    });
+  };
+
+  // Only send the values that differ from the chosen profile
+  const getVadOverrides = (): Partial<VadSettings> => {
+    if (!vadValues || !profileSettings) return {};
+    const overrides: Partial<VadSettings> = {};
+    for (const { key } of VAD_FIELDS) {
+      if (vadValues[key] !== profileSettings[key]) {
+        (overrides as Record<string, unknown>)[key] = vadValues[key];
+      }
+    }
+    return overrides;
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -73,9 +166,13 @@ export function AudioUpload() {
     }
     
     uploadAudio(selectedFile, {
+      vadProfile,
+      vadSettings: getVadOverrides(),
+      metadata: toRecordingMetadata(metadata),
       onSuccess: () => {
         // Reset form
         setSelectedFile(null);
+        setMetadata(EMPTY_RECORDING_METADATA);
         if (fileInputRef.current) {
           fileInputRef.current.value = "";
         }
@@ -89,8 +186,86 @@ export function AudioUpload() {
         <h3 className="text-lg leading-6 font-medium text-white">Upload Audio File</h3>
         <div className="mt-2 max-w-xl text-sm text-white/70">
           <p>
-            Upload audio files in MP3, WAV, or FLAC format (max 200MB). Files will be automatically split into 10-second segments.
+            Upload audio files in MP3, WAV, or FLAC format (max 200MB). Files will be split into speech segments using the voice activity detection settings below.
+          </p>
+        </div>
+        
+        <div className="mt-5 max-w-xl">
+          <Label htmlFor="vad-profile" className="block text-sm font-medium text-white/70">
+            Segmentation profile
+          </Label>
+          <Select value={vadProfile} onValueChange={setVadProfile} disabled={isUploading}>
+            <SelectTrigger id="vad-profile" className="mt-1 sm:max-w-xs bg-black/30 border-white/20 text-white">
+              <SelectValue placeholder="Select profile" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="project">Project default</SelectItem>
+              {vadConfig && Object.keys(vadConfig.presets).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {PRESET_LABELS[name] ?? name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {vadValues && (
+            <Collapsible className="mt-3">
+              <CollapsibleTrigger className="flex items-center text-sm text-primary-300 hover:text-primary-200">
+                <ChevronDown className="mr-1 h-4 w-4" />
+                Advanced settings
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3">
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                  {VAD_FIELDS.map(({ key, label, step }) => (
+                    <div key={key}>
+                      <Label htmlFor={`vad-${key}`} className="block text-xs font-medium text-white/70">
+                        {label}
+                      </Label>
+                      <Input
+                        id={`vad-${key}`}
+                        type="number"
+                        step={step}
+                        min={0}
+                        value={vadValues[key] ?? ""}
+                        placeholder={key === "maxSegmentSeconds" ? "No limit" : undefined}
+                        onChange={(e) => handleVadValueChange(key, e.target.value)}
+                        disabled={isUploading}
+                        className="mt-1 bg-black/30 border-white/20 text-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {user?.role === "admin" && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-3"
+                    onClick={() => saveProjectDefaultMutation.mutate(vadValues)}
+                    disabled={saveProjectDefaultMutation.isPending}
+                  >
+                    {saveProjectDefaultMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save as project default
+                  </Button>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+        </div>
+        
+        <div className="mt-5 max-w-xl">
+          <h4 className="text-sm font-medium text-white">Recording details</h4>
+          <p className="mt-1 text-xs text-white/60">
+            Optional, and editable later from the processing queue. Exports can be filtered by these and list them in their manifests.
           </p>
+          <div className="mt-3">
+            <RecordingMetadataFields
+              idPrefix="upload"
+              values={metadata}
+              onChange={setMetadata}
+              disabled={isUploading}
+            />
+          </div>
         </div>
         
         <form className="mt-5 sm:flex sm:items-center" onSubmit={handleSubmit}>
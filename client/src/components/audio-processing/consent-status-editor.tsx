@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CONSENT_STATUSES, type ConsentStatus } from "@shared/schema";
+
+export const CONSENT_STATUS_LABELS: Record<ConsentStatus, string> = {
+  cleared: "Cleared",
+  restricted: "Restricted (e.g. research only)",
+  revoked: "Consent revoked",
+};
+
+interface ConsentChangeResponse {
+  taintedVersions: { id: number; name: string }[];
+}
+
+interface ConsentStatusEditorProps {
+  fileId: number;
+  status: string;
+  note: string | null;
+}
+
+/**
+ * Admin control for whether a recording may be exported
+ */
+export function ConsentStatusEditor({ fileId, status: savedStatus, note: savedNote }: ConsentStatusEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState(savedStatus);
+  const [note, setNote] = useState(savedNote ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/audio/${fileId}/consent`, { status, note });
+      return response.json() as Promise<ConsentChangeResponse>;
+    },
+    onSuccess: ({ taintedVersions }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dataset-versions"] });
+      toast({
+        title: "Consent status saved",
+        description: taintedVersions.length > 0
+          ? `Marked as tainted: ${taintedVersions.map(version => version.name).join(", ")}.`
+          : status === "cleared" ? "The recording can be exported." : "Exports leave the recording out according to the export policy.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save consent status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (status === "revoked" && savedStatus !== "revoked"
+      && !confirm("Revoke consent? Exports will leave this recording out and dataset versions containing it are marked as tainted.")) {
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div>
+        <Label htmlFor={`file-${fileId}-consent-status`} className="block text-xs font-medium text-white/70">
+          Consent / license status
+        </Label>
+        <Select value={status} onValueChange={setStatus} disabled={saveMutation.isPending}>
+          <SelectTrigger id={`file-${fileId}-consent-status`} className="mt-1 w-[240px] bg-black/30 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONSENT_STATUSES.map(value => (
+              <SelectItem key={value} value={value}>{CONSENT_STATUS_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex-1 min-w-[200px]">
+        <Label htmlFor={`file-${fileId}-consent-note`} className="block text-xs font-medium text-white/70">
+          Reason
+        </Label>
+        <Input
+          id={`file-${fileId}-consent-note`}
+          placeholder="e.g. Speaker withdrew consent by email"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          disabled={saveMutation.isPending}
+          className="mt-1 bg-black/30 border-white/20 text-white"
+        />
+      </div>
+      <Button
+        size="sm"
+        variant={status === "revoked" ? "destructive" : "default"}
+        onClick={handleSave}
+        disabled={saveMutation.isPending || (status === savedStatus && note === (savedNote ?? ""))}
+      >
+        {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save status
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DuplicateDecisionProps {
+  fileId: number;
+  originalName: string;
+  kind: string | null;
+  similarity: number | null;
+  canDecide: boolean;
+}
+
+/**
+ * Which earlier upload a held upload matches, with the admin's choice to merge it into that
+ * upload or keep it as a recording of its own
+ */
+export function DuplicateDecision({ fileId, originalName, kind, similarity, canDecide }: DuplicateDecisionProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const decideMutation = useMutation({
+    mutationFn: async (action: "merge" | "ignore") => {
+      const response = await apiRequest("POST", `/api/audio/${fileId}/duplicate`, { action });
+      return response.json();
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio"] });
+      toast({
+        title: action === "merge" ? "Merged into the original" : "Kept as a separate recording",
+        description: action === "merge"
+          ? `Its details were added to ${originalName} and the upload was removed.`
+          : "The recording has been queued for processing.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to resolve duplicate",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMerge = () => {
+    if (!confirm(`Merge into ${originalName}? This upload and its audio file will be deleted.`)) {
+      return;
+    }
+    decideMutation.mutate("merge");
+  };
+
+  return (
+    <div className="mt-1 flex items-center gap-2 text-xs font-normal text-amber-300">
+      <span>
+        Matches {originalName}
+        {kind === "exact" ? " (exact copy)" : similarity !== null && ` (${Math.round(similarity * 100)}% similar)`}
+      </span>
+      {canDecide && (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-6 px-2 text-xs"
+            onClick={handleMerge}
+            disabled={decideMutation.isPending}
+            title="Fold this upload's details into the original and delete it"
+          >
+            Merge
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-6 px-2 text-xs"
+            onClick={() => decideMutation.mutate("ignore")}
+            disabled={decideMutation.isPending}
+            title="Not a duplicate: keep it and process it"
+          >
+            Keep
+          </Button>
+          {decideMutation.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,24 @@
 import { useQuery } from "@tanstack/react-query";
-import { useState } from "react";
+import { Fragment, useMemo, useState } from "react";
 import { format } from "date-fns";
-import { Loader2, Download, Trash2 } from "lucide-react";
+import { Loader2, Download, Trash2, Pencil, Search } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useAudioProcessor } from "@/hooks/use-audio-processor";
+import { useProcessingEvents, type ProcessingProgress } from "@/hooks/use-processing-events";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
+import { TranscriptDownload } from "./transcript-download";
+import { RecordingMetadataEditor } from "./recording-metadata-editor";
+import { SOURCE_TYPE_LABELS, type StoredRecordingMetadata } from "./recording-metadata-fields";
+import { ConsentStatusEditor } from "./consent-status-editor";
+import { DuplicateDecision } from "./duplicate-decision";
 
-interface AudioFile {
+interface AudioFile extends StoredRecordingMetadata {
   id: number;
   filename: string;
   size: number;
@@ -18,16 +26,71 @@ interface AudioFile {
   status: string;
   segments: number;
   processingProgress?: number;
+  processingStage?: string;
+  queuePosition?: number;
+  consentStatus: string;
+  consentNote: string | null;
+  duplicateOfId: number | null;
+  duplicateKind: string | null;
+  duplicateSimilarity: number | null;
+  duplicateStatus: string | null;
+}
+
+// Human-readable names for the stages reported by the server
+const STAGE_LABELS: Record<string, string> = {
+  queued: "Waiting",
+  preparing: "Preparing",
+  loading_model: "Loading VAD model",
+  detecting_speech: "Detecting speech",
+  writing_segments: "Writing segment audio",
+  saving_segments: "Saving segments",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// One line under the file name, e.g. "Radio · Trarza · 2024-03-01 · news, poetry"
+function describeMetadata(file: AudioFile): string {
+  return [
+    file.sourceType && (SOURCE_TYPE_LABELS[file.sourceType] ?? file.sourceType),
+    file.region,
+    file.recordingDate,
+    file.license,
+    file.tags?.join(", "),
+  ].filter(Boolean).join(" · ");
+}
+
+// Case-insensitive match against the file name and every metadata field
+function matchesSearch(file: AudioFile, query: string): boolean {
+  const haystack = [
+    file.filename,
+    file.sourceType,
+    file.sourceType && SOURCE_TYPE_LABELS[file.sourceType],
+    file.region,
+    file.recordingDate,
+    file.consentRef,
+    file.license,
+    ...(file.tags ?? []),
+  ].filter(Boolean).join("\n").toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
 }
 
 export function ProcessingQueue() {
   const { cancelProcessing, deleteAudio, isCancelling, isDeleting } = useAudioProcessor();
+  const liveProgress = useProcessingEvents();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [downloadingSegmentId, setDownloadingSegmentId] = useState<number | null>(null);
+  const [search, setSearch] = useState("");
+  const [editingFileId, setEditingFileId] = useState<number | null>(null);
   
   const { data: audioFiles, isLoading } = useQuery<AudioFile[]>({
     queryKey: ["/api/audio"],
   });
+  const visibleFiles = useMemo(
+    () => (audioFiles ?? []).filter(file => matchesSearch(file, search)),
+    [audioFiles, search],
+  );
   
   // Format file size to human-readable format
   const formatFileSize = (sizeInBytes: number): string => {
@@ -52,8 +115,15 @@ export function ProcessingQueue() {
   };
   
   // Get status badge
-  const getStatusBadge = (status: string, progress?: number) => {
+  const getStatusBadge = (status: string, progress?: number, queuePosition?: number) => {
     switch (status.toLowerCase()) {
+      case "queued":
+        return (
+          <div className="flex items-center">
+            <Badge className="mr-2 bg-slate-600 text-white hover:bg-slate-700">Queued</Badge>
+            {queuePosition !== undefined && <span className="text-xs text-white/70">#{queuePosition} in queue</span>}
+          </div>
+        );
       case "processed":
         return <Badge className="bg-green-600 text-white hover:bg-green-700">Processed</Badge>;
       case "processing":
@@ -67,11 +137,53 @@ export function ProcessingQueue() {
         return <Badge className="bg-red-600 text-white hover:bg-red-700">Error</Badge>;
       case "uploading":
         return <Badge className="bg-yellow-600 text-white hover:bg-yellow-700">Uploading</Badge>;
+      case "duplicate":
+        return <Badge className="bg-amber-600 text-white hover:bg-amber-700">Possible duplicate</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
   };
   
+  // Live progress from the event stream, falling back to what the list returned
+  const getProgress = (file: AudioFile): Pick<ProcessingProgress, "stage" | "percent" | "segmentsCreated" | "totalSegments"> | undefined => {
+    const live = liveProgress[file.id];
+    if (live) return live;
+    if (file.processingProgress === undefined) return undefined;
+    return {
+      stage: file.processingStage ?? "preparing",
+      percent: file.processingProgress,
+      segmentsCreated: 0,
+      totalSegments: null,
+    };
+  };
+  
+  // Status badge plus live progress bar and current stage
+  const renderStatus = (file: AudioFile) => {
+    const progress = getProgress(file);
+    const error = liveProgress[file.id]?.error;
+    return (
+      <>
+        {getStatusBadge(file.status, progress?.percent, file.queuePosition)}
+        {file.status.toLowerCase() === "processing" && progress && (
+          <div className="mt-1">
+            <div className="w-full bg-gray-600 rounded-full h-1.5">
+              <Progress value={progress.percent} className="h-1.5" />
+            </div>
+            <div className="mt-0.5 text-xs text-white/60">
+              {STAGE_LABELS[progress.stage] ?? progress.stage}
+              {progress.totalSegments !== null && ` (${progress.segmentsCreated}/${progress.totalSegments})`}
+            </div>
+          </div>
+        )}
+        {file.status.toLowerCase() === "error" && error && (
+          <div className="mt-1 text-xs text-red-400 max-w-xs truncate" title={error}>
+            {error}
+          </div>
+        )}
+      </>
+    );
+  };
+  
   // Handle cancel processing
   const handleCancelProcessing = (fileId: number) => {
     cancelProcessing(fileId);
@@ -173,7 +285,19 @@ export function ProcessingQueue() {
   
   return (
     <div>
-      <h3 className="text-lg leading-6 font-medium text-white">Processing Queue</h3>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg leading-6 font-medium text-white">Processing Queue</h3>
+        <div className="relative w-full sm:w-80">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-white/50" />
+          <Input
+            type="search"
+            placeholder="Search name, source, region, license, tags..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8 bg-black/30 border-white/20 text-white"
+          />
+        </div>
+      </div>
       <div className="mt-2 flex flex-col">
         <div className="-my-2 -mx-4 overflow-x-auto sm:-mx-6 lg:-mx-8">
           <div className="inline-block min-w-full py-2 align-middle md:px-6 lg:px-8">
@@ -207,11 +331,34 @@ export function ProcessingQueue() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-700 bg-black/20 backdrop-blur-sm">
-                    {audioFiles && audioFiles.length > 0 ? (
-                      audioFiles.map((file) => (
-                        <tr key={file.id}>
+                    {visibleFiles.length > 0 ? (
+                      visibleFiles.map((file) => (
+                        <Fragment key={file.id}>
+                        <tr>
                           <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">
                             {file.filename}
+                            {file.consentStatus === "revoked" && (
+                              <Badge className="ml-2 bg-red-700 text-white hover:bg-red-800" title={file.consentNote ?? undefined}>
+                                Consent revoked
+                              </Badge>
+                            )}
+                            {file.consentStatus === "restricted" && (
+                              <Badge className="ml-2 bg-amber-600 text-white hover:bg-amber-700" title={file.consentNote ?? undefined}>
+                                Restricted
+                              </Badge>
+                            )}
+                            {describeMetadata(file) && (
+                              <div className="mt-0.5 text-xs font-normal text-white/50">{describeMetadata(file)}</div>
+                            )}
+                            {file.duplicateStatus === "pending" && file.duplicateOfId !== null && (
+                              <DuplicateDecision
+                                fileId={file.id}
+                                originalName={audioFiles?.find(other => other.id === file.duplicateOfId)?.filename ?? `#${file.duplicateOfId}`}
+                                kind={file.duplicateKind}
+                                similarity={file.duplicateSimilarity}
+                                canDecide={user?.role === "admin"}
+                              />
+                            )}
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
                             {formatFileSize(file.size)}
@@ -220,18 +367,22 @@ export function ProcessingQueue() {
                             {formatDate(file.uploadedAt)}
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm">
-                            {getStatusBadge(file.status, file.processingProgress)}
-                            {file.status.toLowerCase() === "processing" && file.processingProgress !== undefined && (
-                              <div className="mt-1 w-full bg-gray-600 rounded-full h-1.5">
-                                <Progress value={file.processingProgress} className="h-1.5" />
-                              </div>
-                            )}
+                            {renderStatus(file)}
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
                             {file.segments || "--"}
                           </td>
                           <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                             <div className="flex items-center justify-end space-x-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingFileId(editingFileId === file.id ? null : file.id)}
+                                title="Edit recording details"
+                              >
+                                <Pencil className="h-4 w-4 mr-1" />
+                                <span>Details</span>
+                              </Button>
                               {/* Delete button - first in the row to make it always visible */}
                               <Button
                                 variant="destructive"
@@ -250,7 +401,7 @@ export function ProcessingQueue() {
                                 )}
                               </Button>
                             
-                              {file.status.toLowerCase() === "processing" ? (
+                              {["processing", "queued"].includes(file.status.toLowerCase()) ? (
                                 <Button
                                   variant="outline"
                                   size="sm"
@@ -264,38 +415,65 @@ export function ProcessingQueue() {
                                   )}
                                 </Button>
                               ) : file.status.toLowerCase() === "processed" ? (
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleDownloadSegments(file.id, file.filename)}
-                                  disabled={downloadingSegmentId === file.id}
-                                  className={cn(
-                                    "flex items-center text-sm px-3 py-1 h-8",
-                                    "bg-primary-50 text-primary-700 border-primary-200 hover:bg-primary-100",
-                                    "dark:bg-primary-900/20 dark:text-primary-400 dark:border-primary-800 dark:hover:bg-primary-900/30"
-                                  )}
-                                >
-                                  {downloadingSegmentId === file.id ? (
-                                    <>
-                                      <div className="h-4 w-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin mr-2" />
-                                      <span>Downloading...</span>
-                                    </>
-                                  ) : (
-                                    <>
-                                      <Download className="h-4 w-4 mr-1" />
-                                      <span>Download Segments</span>
-                                    </>
-                                  )}
-                                </Button>
+                                <>
+                                  <TranscriptDownload fileId={file.id} filename={file.filename} />
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleDownloadSegments(file.id, file.filename)}
+                                    disabled={downloadingSegmentId === file.id}
+                                    className={cn(
+                                      "flex items-center text-sm px-3 py-1 h-8",
+                                      "bg-primary-50 text-primary-700 border-primary-200 hover:bg-primary-100",
+                                      "dark:bg-primary-900/20 dark:text-primary-400 dark:border-primary-800 dark:hover:bg-primary-900/30"
+                                    )}
+                                  >
+                                    {downloadingSegmentId === file.id ? (
+                                      <>
+                                        <div className="h-4 w-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin mr-2" />
+                                        <span>Downloading...</span>
+                                      </>
+                                    ) : (
+                                      <>
+                                        <Download className="h-4 w-4 mr-1" />
+                                        <span>Download Segments</span>
+                                      </>
+                                    )}
+                                  </Button>
+                                </>
                               ) : null}
                             </div>
                           </td>
                         </tr>
+                        {editingFileId === file.id && (
+                          <tr>
+                            <td colSpan={6} className="px-4 py-4 sm:px-6 bg-black/30">
+                              <RecordingMetadataEditor
+                                fileId={file.id}
+                                metadata={file}
+                                canEditLicense={user?.role === "admin"}
+                                onDone={() => setEditingFileId(null)}
+                              />
+                              {user?.role === "admin" && (
+                                <div className="mt-4 max-w-2xl border-t border-white/10 pt-4">
+                                  <ConsentStatusEditor
+                                    fileId={file.id}
+                                    status={file.consentStatus}
+                                    note={file.consentNote}
+                                  />
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                        </Fragment>
                       ))
                     ) : (
                       <tr>
                         <td colSpan={6} className="px-6 py-4 whitespace-nowrap text-sm text-white/50 text-center">
-                          No audio files found. Upload an audio file to get started.
+                          {search && audioFiles?.length
+                            ? "No audio files match your search."
+                            : "No audio files found. Upload an audio file to get started."}
                         </td>
                       </tr>
                     )}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  RecordingMetadataFields,
+  toRecordingMetadata,
+  toRecordingMetadataValues,
+  type RecordingMetadataValues,
+  type StoredRecordingMetadata,
+} from "./recording-metadata-fields";
+
+interface RecordingMetadataEditorProps {
+  fileId: number;
+  metadata: StoredRecordingMetadata;
+  canEditLicense: boolean;
+  onDone: () => void;
+}
+
+/**
+ * Edit the provenance of an uploaded recording
+ */
+export function RecordingMetadataEditor({ fileId, metadata, canEditLicense, onDone }: RecordingMetadataEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState<RecordingMetadataValues>(() => toRecordingMetadataValues(metadata));
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: RecordingMetadataValues) => {
+      const response = await apiRequest("PATCH", `/api/audio/${fileId}/metadata`, toRecordingMetadata(updated));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio"] });
+      toast({ title: "Recording details saved" });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save recording details",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-2xl">
+      <RecordingMetadataFields
+        idPrefix={`file-${fileId}`}
+        values={values}
+        onChange={setValues}
+        disabled={saveMutation.isPending}
+        licenseLocked={!canEditLicense}
+      />
+      <div className="mt-3 flex gap-2">
+        <Button size="sm" onClick={() => saveMutation.mutate(values)} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" className="text-white/70" onClick={onDone}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
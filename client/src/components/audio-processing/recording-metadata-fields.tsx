@@ -0,0 +1,177 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RECORDING_SOURCE_TYPES, type RecordingMetadata } from "@shared/schema";
+
+export const SOURCE_TYPE_LABELS: Record<string, string> = {
+  radio: "Radio",
+  interview: "Interview",
+  phone: "Phone call",
+  other: "Other",
+};
+
+// Common choices; any other license can be typed in
+const LICENSE_SUGGESTIONS = ["CC-BY-4.0", "CC-BY-SA-4.0", "CC-BY-NC-4.0", "CC0-1.0", "Proprietary"];
+
+// Radix selects can't hold an empty value
+const NONE = "none";
+
+// Form state: plain strings, tags comma-separated
+export interface RecordingMetadataValues {
+  sourceType: string;
+  region: string;
+  recordingDate: string;
+  consentRef: string;
+  license: string;
+  tags: string;
+}
+
+export const EMPTY_RECORDING_METADATA: RecordingMetadataValues = {
+  sourceType: NONE,
+  region: "",
+  recordingDate: "",
+  consentRef: "",
+  license: "",
+  tags: "",
+};
+
+// Metadata as the audio file list returns it
+export interface StoredRecordingMetadata {
+  sourceType: string | null;
+  region: string | null;
+  recordingDate: string | null;
+  consentRef: string | null;
+  license: string | null;
+  tags: string[];
+}
+
+export function toRecordingMetadataValues(metadata: StoredRecordingMetadata): RecordingMetadataValues {
+  return {
+    sourceType: metadata.sourceType ?? NONE,
+    region: metadata.region ?? "",
+    recordingDate: metadata.recordingDate ?? "",
+    consentRef: metadata.consentRef ?? "",
+    license: metadata.license ?? "",
+    tags: metadata.tags.join(", "),
+  };
+}
+
+/**
+ * Request body for the upload and the metadata endpoint; empty fields clear the value
+ */
+export function toRecordingMetadata(values: RecordingMetadataValues): RecordingMetadata {
+  return {
+    sourceType: values.sourceType === NONE ? null : values.sourceType as RecordingMetadata["sourceType"],
+    region: values.region,
+    recordingDate: values.recordingDate,
+    consentRef: values.consentRef,
+    license: values.license,
+    tags: values.tags.split(",").map(tag => tag.trim()).filter(Boolean),
+  };
+}
+
+interface RecordingMetadataFieldsProps {
+  values: RecordingMetadataValues;
+  onChange: (values: RecordingMetadataValues) => void;
+  disabled?: boolean;
+  licenseLocked?: boolean; // Only admins change the license once a recording is uploaded
+  idPrefix: string;
+}
+
+/**
+ * Provenance of a recording: where it comes from, consent and license
+ */
+export function RecordingMetadataFields({ values, onChange, disabled, licenseLocked, idPrefix }: RecordingMetadataFieldsProps) {
+  const set = (key: keyof RecordingMetadataValues, value: string) => onChange({ ...values, [key]: value });
+  const inputClass = "mt-1 bg-black/30 border-white/20 text-white";
+
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+      <div>
+        <Label htmlFor={`${idPrefix}-source-type`} className="block text-xs font-medium text-white/70">
+          Source type
+        </Label>
+        <Select value={values.sourceType} onValueChange={value => set("sourceType", value)} disabled={disabled}>
+          <SelectTrigger id={`${idPrefix}-source-type`} className={inputClass}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Not set</SelectItem>
+            {RECORDING_SOURCE_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{SOURCE_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-region`} className="block text-xs font-medium text-white/70">
+          Location / region
+        </Label>
+        <Input
+          id={`${idPrefix}-region`}
+          placeholder="e.g. Nouakchott"
+          value={values.region}
+          onChange={e => set("region", e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-recording-date`} className="block text-xs font-medium text-white/70">
+          Recording date
+        </Label>
+        <Input
+          id={`${idPrefix}-recording-date`}
+          type="date"
+          value={values.recordingDate}
+          onChange={e => set("recordingDate", e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-consent-ref`} className="block text-xs font-medium text-white/70">
+          Consent form reference
+        </Label>
+        <Input
+          id={`${idPrefix}-consent-ref`}
+          placeholder="e.g. CF-2024-017"
+          value={values.consentRef}
+          onChange={e => set("consentRef", e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-license`} className="block text-xs font-medium text-white/70">
+          License
+        </Label>
+        <Input
+          id={`${idPrefix}-license`}
+          list={`${idPrefix}-license-suggestions`}
+          placeholder="e.g. CC-BY-4.0"
+          value={values.license}
+          onChange={e => set("license", e.target.value)}
+          disabled={disabled || licenseLocked}
+          className={inputClass}
+        />
+        <datalist id={`${idPrefix}-license-suggestions`}>
+          {LICENSE_SUGGESTIONS.map(license => <option key={license} value={license} />)}
+        </datalist>
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-tags`} className="block text-xs font-medium text-white/70">
+          Tags (comma-separated)
+        </Label>
+        <Input
+          id={`${idPrefix}-tags`}
+          placeholder="e.g. news, poetry"
+          value={values.tags}
+          onChange={e => set("tags", e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+
+type TranscriptFormat = "srt" | "vtt" | "txt" | "json";
+
+const FORMATS: { value: TranscriptFormat; label: string }[] = [
+  { value: "srt", label: "Subtitles (SRT)" },
+  { value: "vtt", label: "Subtitles (WebVTT)" },
+  { value: "txt", label: "Plain text" },
+  { value: "json", label: "JSON" },
+];
+
+interface TranscriptDownloadProps {
+  fileId: number;
+  filename: string;
+}
+
+/**
+ * Download the transcript of a whole recording, reconstructed from its segments
+ */
+export function TranscriptDownload({ fileId, filename }: TranscriptDownloadProps) {
+  const { toast } = useToast();
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async (format: TranscriptFormat) => {
+    setIsDownloading(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (!token) {
+        throw new Error('Authentication failed: Please log in again');
+      }
+
+      const params = new URLSearchParams({ format, approvedOnly: String(approvedOnly) });
+      const response = await fetch(`/api/audio/${fileId}/transcript?${params}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': token.startsWith('Bearer ') ? token : `Bearer ${token}`
+        },
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        let errorMsg = `Download failed: ${response.statusText || 'Server error'}`;
+        try {
+          const errorData = await response.json();
+          errorMsg = errorData.message || errorMsg;
+        } catch (e) {
+          // If response is not JSON, use the status text
+        }
+        throw new Error(errorMsg);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${filename.replace(/\.[^/.]+$/, "")}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+
+      // Clean up
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(link);
+    } catch (error: any) {
+      console.error('Transcript download error:', error);
+      toast({
+        title: "Transcript Download Failed",
+        description: error.message || "Failed to download the transcript. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="flex items-center text-sm px-3 py-1 h-8" disabled={isDownloading}>
+          {isDownloading ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <FileText className="h-4 w-4 mr-1" />
+          )}
+          <span>Transcript</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download transcript</DropdownMenuLabel>
+        <DropdownMenuCheckboxItem
+          checked={approvedOnly}
+          onCheckedChange={(checked) => setApprovedOnly(checked === true)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Approved text only
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {FORMATS.map(({ value, label }) => (
+          <DropdownMenuItem key={value} onSelect={() => handleDownload(value)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
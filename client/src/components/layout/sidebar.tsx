@@ -14,7 +14,8 @@ import {
   Menu,
   X,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  ClipboardCheck
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -160,6 +161,7 @@ export function Sidebar({ collapsed, setCollapsed }: { collapsed: boolean, setCo
   };
 
   const isAdmin = user?.role === "admin";
+  const isReviewer = user?.role === "reviewer" || isAdmin;
 
   const sidebarContent = (
     <>
@@ -232,6 +234,16 @@ export function Sidebar({ collapsed, setCollapsed }: { collapsed: boolean, setCo
             showTooltip={!mobileOpen && collapsed}
           />
 
+          {isReviewer && (
+            <NavItem
+              to="/review-queue"
+              icon={<ClipboardCheck className="h-5 w-5 text-white" />}
+              label="My Review Queue"
+              isActive={isPathActive("/review-queue")}
+              showTooltip={!mobileOpen && collapsed}
+            />
+          )}
+
           {isAdmin && (
             <>
               <div className={cn("mt-4 mb-2 px-2", (collapsed && !mobileOpen) ? "hidden" : "block")}>
@@ -0,0 +1,88 @@
+import type { KeyboardEvent, RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  ANNOTATION_TAGS,
+  formatAnnotationTag,
+  type AnnotationTag,
+} from "@shared/annotation-tags";
+
+interface AnnotationToolbarProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  text: string;
+  onChange: (text: string) => void;
+}
+
+/**
+ * Insert a tag at the cursor. Event tags are set apart by spaces; language tags wrap the
+ * selection, or leave the cursor between them when nothing is selected.
+ */
+function insertAnnotationTag(textarea: HTMLTextAreaElement, text: string, tag: AnnotationTag) {
+  const { selectionStart: start, selectionEnd: end } = textarea;
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+
+  if (tag.kind === "event") {
+    const inserted = `${before && !/\s$/.test(before) ? " " : ""}${formatAnnotationTag(tag)}${after && !/^\s/.test(after) ? " " : ""}`;
+    const cursor = start + inserted.length;
+    return { text: before + inserted + after, selectionStart: cursor, selectionEnd: cursor };
+  }
+
+  const selected = text.slice(start, end);
+  const opening = `<${tag.name}>`;
+  return {
+    text: before + formatAnnotationTag(tag, selected) + after,
+    selectionStart: start + opening.length,
+    selectionEnd: start + opening.length + selected.length,
+  };
+}
+
+export function useAnnotationShortcuts({ textareaRef, text, onChange }: AnnotationToolbarProps) {
+  const insert = (tag: AnnotationTag) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const result = insertAnnotationTag(textarea, text, tag);
+    onChange(result.text);
+    // Restore the cursor once React has rendered the new text
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  // Alt + the tag's key; matched on the physical key since Alt changes the typed character on macOS
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey) return;
+    const tag = ANNOTATION_TAGS.find(t => e.code === `Key${t.shortcut}`);
+    if (tag) {
+      e.preventDefault();
+      insert(tag);
+    }
+  };
+
+  return { insert, onKeyDown };
+}
+
+/**
+ * Buttons that insert the project's annotation tags into the transcription
+ */
+export function AnnotationToolbar(props: AnnotationToolbarProps) {
+  const { insert } = useAnnotationShortcuts(props);
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {ANNOTATION_TAGS.map(tag => (
+        <Button
+          key={tag.name}
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          title={`${tag.label} (Alt+${tag.shortcut})`}
+          onClick={() => insert(tag)}
+        >
+          {tag.kind === "event" ? `[${tag.name}]` : `<${tag.name}>`}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Hand } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ClaimableFile {
+  audioFileId: number;
+  filename: string;
+  availableSegments: number;
+}
+
+interface ClaimableTasks {
+  maxOpenAssignments: number;
+  leaseMinutes: number;
+  openAssignments: number;
+  files: ClaimableFile[];
+}
+
+interface ClaimNextTaskProps {
+  onClaimed: (segmentId: number) => void;
+}
+
+const ANY_FILE = "any";
+
+export function ClaimNextTask({ onClaimed }: ClaimNextTaskProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedFile, setSelectedFile] = useState<string>(ANY_FILE);
+
+  const { data: claimable, isLoading } = useQuery<ClaimableTasks>({
+    queryKey: ["/api/tasks/claimable"],
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const audioFileId = selectedFile === ANY_FILE ? undefined : parseInt(selectedFile);
+      const response = await apiRequest("POST", "/api/tasks/claim-next", { audioFileId });
+      return response.json();
+    },
+    onSuccess: (segment: { id: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/claimable"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/summary"] });
+      toast({
+        title: "Segment claimed",
+        description: `Segment ${segment.id} is yours for the next ${claimable?.leaseMinutes ?? ""} minutes.`,
+      });
+      onClaimed(segment.id);
+    },
+    onError: (error: Error) => {
+      // The pool or the user's open count may have changed since the last fetch
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/claimable"] });
+      toast({
+        title: "Could not claim a segment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !claimable) {
+    return null;
+  }
+
+  const totalAvailable = claimable.files.reduce((sum, file) => sum + file.availableSegments, 0);
+  const atLimit = claimable.openAssignments >= claimable.maxOpenAssignments;
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-3 rounded-lg bg-black/30 p-4 ring-1 ring-white/10">
+      <div className="flex-1 min-w-[200px]">
+        <p className="text-sm font-medium text-white">Claim your next segment</p>
+        <p className="text-xs text-white/60">
+          {claimable.openAssignments} of {claimable.maxOpenAssignments} open segments in use.
+          Claimed segments return to the pool after {claimable.leaseMinutes} minutes unless submitted.
+        </p>
+      </div>
+      <Select value={selectedFile} onValueChange={setSelectedFile}>
+        <SelectTrigger className="w-[240px] bg-black/30 border-white/20 text-white">
+          <SelectValue placeholder="Any audio file" />
+        </SelectTrigger>
+        <SelectContent className="bg-black/90 border-white/20 text-white">
+          <SelectItem value={ANY_FILE} className="text-white hover:bg-white/10">
+            Any audio file ({totalAvailable})
+          </SelectItem>
+          {claimable.files.map(file => (
+            <SelectItem key={file.audioFileId} value={file.audioFileId.toString()} className="text-white hover:bg-white/10">
+              {file.filename} ({file.availableSegments})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        onClick={() => claimMutation.mutate()}
+        disabled={claimMutation.isPending || atLimit || totalAvailable === 0}
+        title={atLimit ? "Submit or release an open segment first" : undefined}
+      >
+        {claimMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Hand className="h-4 w-4 mr-2" />
+        )}
+        Claim next
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  NORMALIZATION_RULES,
+  normalizeTextWithTrace,
+  type TextNormalization,
+} from "@shared/text-normalization";
+import { diffWords } from "@/lib/word-diff";
+import { cn } from "@/lib/utils";
+
+interface NormalizationPreviewProps {
+  text: string;
+  onApply: (normalized: string) => void;
+}
+
+const RULE_LABELS = Object.fromEntries(NORMALIZATION_RULES.map(rule => [rule.id, rule.label]));
+
+/**
+ * The transcription as exports will normalize it, with the changed words highlighted
+ */
+export function NormalizationPreview({ text, onApply }: NormalizationPreviewProps) {
+  const { data: settings, isLoading } = useQuery<TextNormalization>({
+    queryKey: ["/api/settings/text-normalization"],
+  });
+
+  const result = useMemo(
+    () => (settings ? normalizeTextWithTrace(text, settings) : null),
+    [text, settings],
+  );
+  const parts = useMemo(
+    () => (result ? diffWords(text, result.text) : []),
+    [text, result],
+  );
+
+  if (isLoading || !result) {
+    return (
+      <div className="py-2 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="p-3 rounded-md border bg-gray-50 text-sm leading-relaxed min-h-[3rem]" dir="auto">
+        {parts.filter(part => part.type !== "removed").map((part, index) => (
+          <span
+            key={index}
+            className={cn(part.type === "added" && "bg-green-100 text-green-800")}
+          >
+            {part.text}{" "}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          {result.applied.length > 0
+            ? `Changed by: ${result.applied.map(id => RULE_LABELS[id]).join(", ")}`
+            : "Already normalized."}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={result.text === text}
+          onClick={() => onApply(result.text)}
+        >
+          Use normalized text
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export interface ReviewQueueItem {
+  segmentId: number;
+  audioId: string;
+  audioFileId: number;
+  duration: number;
+  transcriptionId: number | null;
+  transcribedBy: number | null;
+  transcriberName: string;
+  reviewerId: number | null;
+  reviewerName: string | null;
+  submittedAt: string | null;
+}
+
+interface ReviewQueueProps {
+  onOpenSegment: (segmentId: number) => void;
+}
+
+export function ReviewQueue({ onOpenSegment }: ReviewQueueProps) {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+
+  const { data: queue, isLoading } = useQuery<ReviewQueueItem[]>({
+    queryKey: ["/api/review-queue"],
+  });
+
+  // Format duration in seconds to "Xs" format
+  const formatDuration = (durationInMs: number) => {
+    return `${Math.round(durationInMs / 1000)}s`;
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "—";
+    try {
+      return format(new Date(dateString), "MMM d, yyyy HH:mm");
+    } catch (error) {
+      return "Invalid date";
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8 bg-black/30 rounded-lg">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden shadow ring-1 ring-white/10 ring-opacity-5 md:rounded-lg">
+      <table className="min-w-full divide-y divide-gray-700">
+        <thead className="bg-black/40">
+          <tr>
+            <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-white sm:pl-6">
+              Audio ID
+            </th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">
+              Duration
+            </th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">
+              Transcriber
+            </th>
+            {isAdmin && (
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">
+                Reviewer
+              </th>
+            )}
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-white">
+              Submitted
+            </th>
+            <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+              <span className="sr-only">Actions</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-black/30 divide-y divide-gray-700">
+          {queue && queue.length > 0 ? (
+            queue.map((item) => (
+              <tr key={item.segmentId}>
+                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">
+                  {item.audioId}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
+                  {formatDuration(item.duration)}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
+                  {item.transcriberName}
+                </td>
+                {isAdmin && (
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
+                    {item.reviewerName ?? "Unassigned"}
+                  </td>
+                )}
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
+                  {formatDate(item.submittedAt)}
+                </td>
+                <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                  <button
+                    onClick={() => onOpenSegment(item.segmentId)}
+                    className="text-primary-400 hover:text-primary-300"
+                  >
+                    Review
+                    <span className="sr-only">, {item.audioId}</span>
+                  </button>
+                </td>
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <td colSpan={isAdmin ? 6 : 5} className="px-6 py-4 whitespace-nowrap text-sm text-white/70 text-center">
+                Nothing is waiting for your review.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { diffWords } from "@/lib/word-diff";
+import { cn } from "@/lib/utils";
+
+interface TranscriptionRevision {
+  id: number;
+  revision: number;
+  text: string;
+  reviewNotes: string | null;
+  previousStatus: string | null;
+  status: string;
+  authorId: number;
+  authorName: string;
+  authorRole: string | null;
+  createdAt: string;
+}
+
+interface RevisionHistoryProps {
+  transcriptionId: number;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending_review: "Pending review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+function statusLabel(status: string | null): string {
+  return status ? STATUS_LABELS[status] ?? status : "New";
+}
+
+/**
+ * Default comparison: the last rejection against the latest revision, so reviewers
+ * see what changed since they sent the work back. Falls back to the previous revision.
+ */
+function defaultPair(revisions: TranscriptionRevision[]): [number, number] {
+  const latest = revisions[revisions.length - 1];
+  const lastRejection = [...revisions.slice(0, -1)].reverse().find(r => r.status === "rejected");
+  const base = lastRejection ?? revisions[revisions.length - 2] ?? latest;
+  return [base.revision, latest.revision];
+}
+
+export function RevisionHistory({ transcriptionId }: RevisionHistoryProps) {
+  const { data: revisions, isLoading } = useQuery<TranscriptionRevision[]>({
+    queryKey: [`/api/transcriptions/${transcriptionId}/revisions`],
+  });
+
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [compareRevision, setCompareRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (revisions && revisions.length > 0) {
+      const [base, compare] = defaultPair(revisions);
+      setBaseRevision(base);
+      setCompareRevision(compare);
+    }
+  }, [revisions]);
+
+  const base = revisions?.find(r => r.revision === baseRevision);
+  const compare = revisions?.find(r => r.revision === compareRevision);
+  const parts = useMemo(
+    () => (base && compare ? diffWords(base.text, compare.text) : []),
+    [base, compare],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="py-4 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No revisions recorded yet.</p>;
+  }
+
+  const revisionSelect = (value: number | null, onChange: (revision: number) => void, id: string) => (
+    <Select value={value?.toString() ?? ""} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger id={id} className="mt-1 h-8 text-sm">
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((r) => (
+          <SelectItem key={r.id} value={r.revision.toString()}>
+            #{r.revision} · {statusLabel(r.status)} · {r.authorName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="revision-base" className="text-xs">Before</Label>
+          {revisionSelect(baseRevision, setBaseRevision, "revision-base")}
+          <div className="mt-2 p-3 rounded-md border bg-gray-50 text-sm leading-relaxed min-h-[4rem]" dir="auto">
+            {parts.filter(part => part.type !== "added").map((part, index) => (
+              <span
+                key={index}
+                className={cn(part.type === "removed" && "bg-red-100 text-red-800 line-through")}
+              >
+                {part.text}{" "}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="revision-compare" className="text-xs">After</Label>
+          {revisionSelect(compareRevision, setCompareRevision, "revision-compare")}
+          <div className="mt-2 p-3 rounded-md border bg-gray-50 text-sm leading-relaxed min-h-[4rem]" dir="auto">
+            {parts.filter(part => part.type !== "removed").map((part, index) => (
+              <span
+                key={index}
+                className={cn(part.type === "added" && "bg-green-100 text-green-800")}
+              >
+                {part.text}{" "}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Every save, newest first */}
+      <ol className="space-y-2 max-h-48 overflow-y-auto">
+        {[...revisions].reverse().map((r) => (
+          <li key={r.id} className="text-xs text-gray-600 border-l-2 pl-3">
+            <span className="font-semibold text-gray-800">#{r.revision}</span>{" "}
+            {r.authorName}
+            {r.authorRole && ` (${r.authorRole})`} ·{" "}
+            {r.previousStatus && r.previousStatus !== r.status
+              ? `${statusLabel(r.previousStatus)} → ${statusLabel(r.status)}`
+              : statusLabel(r.status)}{" "}
+            · {format(new Date(r.createdAt), "MMM d, yyyy HH:mm")}
+            {r.status === "rejected" && r.reviewNotes && (
+              <p className="mt-1 text-red-700 whitespace-pre-wrap">{r.reviewNotes}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
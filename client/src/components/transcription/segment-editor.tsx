@@ -0,0 +1,426 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, PlayIcon, PauseIcon, Scissors, Merge, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SegmentSpan {
+  id: number;
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  duration: number;
+}
+
+interface SegmentContext {
+  segment: SegmentSpan;
+  previous: SegmentSpan | null;
+  next: SegmentSpan | null;
+  windowStart: number;
+  windowEnd: number;
+  audioUrl: string;
+}
+
+interface SegmentEditorProps {
+  segmentId: number;
+  // Called after a split or merge, with the segment the editor should show next
+  onSegmentChanged?: (segmentId: number) => void;
+}
+
+// Keep in sync with MIN_SEGMENT_MS in server/segment-editor.ts
+const MIN_SEGMENT_MS = 200;
+const WAVEFORM_BARS = 600;
+const WAVEFORM_HEIGHT = 120;
+
+type DragHandle = "start" | "end" | null;
+
+export function SegmentEditor({ segmentId, onSegmentChanged }: SegmentEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [windowEnd, setWindowEnd] = useState<number | null>(null);
+  const [bounds, setBounds] = useState<{ start: number; end: number } | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [dragging, setDragging] = useState<DragHandle>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const { data: context, isLoading } = useQuery<SegmentContext>({
+    queryKey: [`/api/segments/${segmentId}/context`],
+  });
+
+  const windowStart = context?.windowStart ?? 0;
+  // The server clamps the window to the length of the audio, so trust the decoded length
+  const visibleEnd = windowEnd ?? context?.windowEnd ?? 1;
+
+  // Reset the editable boundaries whenever fresh context arrives
+  useEffect(() => {
+    if (context) {
+      setBounds({ start: context.segment.startTime, end: context.segment.endTime });
+      setPlayhead(context.segment.startTime);
+    }
+  }, [context]);
+
+  // Fetch the window audio, decode it for the waveform and keep it for playback
+  useEffect(() => {
+    if (!context) return;
+    const token = localStorage.getItem("auth_token");
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    setPeaks(null);
+    setAudioError(null);
+
+    fetch(context.audioUrl, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          let message = `HTTP error! Status: ${response.status}`;
+          try {
+            message = (await response.json()).message || message;
+          } catch (e) {
+            // Not JSON, keep the status message
+          }
+          throw new Error(message);
+        }
+        return response.blob();
+      })
+      .then(async (blob) => {
+        const audioContext = new AudioContext();
+        const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+        audioContext.close();
+        if (cancelled) return;
+
+        const data = buffer.getChannelData(0);
+        const samplesPerBar = Math.max(1, Math.floor(data.length / WAVEFORM_BARS));
+        const nextPeaks: number[] = [];
+        for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+          let max = 0;
+          const start = bar * samplesPerBar;
+          for (let i = start; i < start + samplesPerBar && i < data.length; i++) {
+            max = Math.max(max, Math.abs(data[i]));
+          }
+          nextPeaks.push(max);
+        }
+        setPeaks(nextPeaks);
+        setWindowEnd(context.windowStart + Math.round(buffer.duration * 1000));
+
+        objectUrl = URL.createObjectURL(blob);
+        const audio = new Audio(objectUrl);
+        audio.addEventListener("timeupdate", () => {
+          setPlayhead(context.windowStart + audio.currentTime * 1000);
+        });
+        audio.addEventListener("pause", () => setIsPlaying(false));
+        audio.addEventListener("play", () => setIsPlaying(true));
+        audioRef.current = audio;
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          console.error("Error loading segment context audio:", error);
+          setAudioError(error.message);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      audioRef.current?.pause();
+      audioRef.current = null;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [context]);
+
+  // Draw the waveform, dimming everything outside the edited segment
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || !bounds) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const barWidth = width / peaks.length;
+    const maxPeak = Math.max(...peaks, 0.01);
+    ctx.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+
+    peaks.forEach((peak, index) => {
+      const time = windowStart + (index / peaks.length) * (visibleEnd - windowStart);
+      const inside = time >= bounds.start && time <= bounds.end;
+      const height = Math.max(1, (peak / maxPeak) * (WAVEFORM_HEIGHT - 8));
+      ctx.fillStyle = inside ? "#2563eb" : "#9ca3af";
+      ctx.fillRect(index * barWidth, (WAVEFORM_HEIGHT - height) / 2, Math.max(1, barWidth - 0.5), height);
+    });
+  }, [peaks, bounds, windowStart, visibleEnd]);
+
+  const timeToPercent = (time: number) =>
+    ((time - windowStart) / (visibleEnd - windowStart)) * 100;
+
+  const positionToTime = useCallback((clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round(windowStart + ratio * (visibleEnd - windowStart));
+  }, [windowStart, visibleEnd]);
+
+  // Drag the boundary handles, never past the neighbours or below the minimum length
+  useEffect(() => {
+    if (!dragging || !context) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const time = positionToTime(e.clientX);
+      setBounds((current) => {
+        if (!current) return current;
+        if (dragging === "start") {
+          const min = Math.max(windowStart, context.previous?.endTime ?? 0);
+          return { ...current, start: Math.min(Math.max(time, min), current.end - MIN_SEGMENT_MS) };
+        }
+        const max = Math.min(visibleEnd, context.next?.startTime ?? Infinity);
+        return { ...current, end: Math.max(Math.min(time, max), current.start + MIN_SEGMENT_MS) };
+      });
+    };
+    const handleUp = () => setDragging(null);
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [dragging, context, positionToTime, windowStart, visibleEnd]);
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (dragging) return;
+    const time = positionToTime(e.clientX);
+    setPlayhead(time);
+    if (audioRef.current) {
+      audioRef.current.currentTime = (time - windowStart) / 1000;
+    }
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      audio.play().catch((error) => console.error("Error playing audio:", error));
+    }
+  };
+
+  const refreshAfterEdit = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/segments/${segmentId}/context`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/segments/${segmentId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audio"] });
+  };
+
+  const onEditError = (error: Error) => {
+    toast({
+      title: "Segment update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveBoundariesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/segments/${segmentId}/boundaries`, {
+        startTime: bounds!.start,
+        endTime: bounds!.end,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshAfterEdit();
+      toast({
+        title: "Boundaries saved",
+        description: "The segment audio has been regenerated.",
+      });
+    },
+    onError: onEditError,
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async (at: number) => {
+      const res = await apiRequest("POST", `/api/segments/${segmentId}/split`, { at });
+      return res.json() as Promise<{ segments: SegmentSpan[] }>;
+    },
+    onSuccess: (data) => {
+      refreshAfterEdit();
+      toast({
+        title: "Segment split",
+        description: `Created segment #${data.segments[1].id} from the second half.`,
+      });
+      onSegmentChanged?.(data.segments[0].id);
+    },
+    onError: onEditError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (withSegmentId: number) => {
+      const res = await apiRequest("POST", `/api/segments/${segmentId}/merge`, { withSegmentId });
+      return res.json() as Promise<SegmentSpan>;
+    },
+    onSuccess: (merged) => {
+      refreshAfterEdit();
+      toast({
+        title: "Segments merged",
+        description: `Segment #${merged.id} now covers both parts.`,
+      });
+      onSegmentChanged?.(merged.id);
+    },
+    onError: onEditError,
+  });
+
+  const isBusy = saveBoundariesMutation.isPending || splitMutation.isPending || mergeMutation.isPending;
+  const boundsChanged = !!context && !!bounds &&
+    (bounds.start !== context.segment.startTime || bounds.end !== context.segment.endTime);
+  const canSplit = !!bounds && playhead !== null && !boundsChanged &&
+    playhead - bounds.start >= MIN_SEGMENT_MS && bounds.end - playhead >= MIN_SEGMENT_MS;
+
+  const formatTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+  if (isLoading || !context || !bounds) {
+    return (
+      <div className="py-6 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-100 rounded-lg p-4 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700">Segment boundaries</h4>
+        <span className="text-xs text-gray-600">
+          {formatTime(bounds.start)} – {formatTime(bounds.end)} ({formatTime(bounds.end - bounds.start)})
+        </span>
+      </div>
+
+      {audioError ? (
+        <div className="text-sm text-red-600 font-medium">Error: {audioError}</div>
+      ) : !peaks ? (
+        <div className="text-sm text-gray-600">Loading waveform...</div>
+      ) : (
+        <div
+          ref={containerRef}
+          className="relative w-full cursor-pointer select-none"
+          style={{ height: WAVEFORM_HEIGHT }}
+          onClick={handleSeek}
+        >
+          <canvas ref={canvasRef} width={1200} height={WAVEFORM_HEIGHT} className="absolute inset-0 w-full h-full" />
+
+          {/* Neighbouring segments */}
+          {[context.previous, context.next].map((neighbour) => neighbour && (
+            <div
+              key={neighbour.id}
+              className="absolute top-0 h-full bg-gray-400/20 border-x border-gray-400/60 pointer-events-none"
+              style={{
+                left: `${Math.max(0, timeToPercent(neighbour.startTime))}%`,
+                width: `${Math.max(0, Math.min(100, timeToPercent(neighbour.endTime)) - Math.max(0, timeToPercent(neighbour.startTime)))}%`,
+              }}
+            >
+              <span className="absolute top-1 left-1 text-[10px] text-gray-600">#{neighbour.id}</span>
+            </div>
+          ))}
+
+          {/* Edited segment with draggable edges */}
+          <div
+            className="absolute top-0 h-full bg-primary/10 border-x-2 border-primary pointer-events-none"
+            style={{
+              left: `${timeToPercent(bounds.start)}%`,
+              width: `${timeToPercent(bounds.end) - timeToPercent(bounds.start)}%`,
+            }}
+          />
+          {(["start", "end"] as const).map((handle) => (
+            <div
+              key={handle}
+              className="absolute top-0 h-full w-3 -ml-1.5 cursor-ew-resize bg-primary/40 hover:bg-primary/70"
+              style={{ left: `${timeToPercent(handle === "start" ? bounds.start : bounds.end)}%` }}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                setDragging(handle);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              title={handle === "start" ? "Drag to move the start" : "Drag to move the end"}
+            />
+          ))}
+
+          {/* Playhead */}
+          {playhead !== null && (
+            <div
+              className="absolute top-0 h-full w-0.5 bg-red-500 pointer-events-none"
+              style={{ left: `${timeToPercent(playhead)}%` }}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <Button size="sm" variant="outline" onClick={togglePlayback} disabled={!peaks}>
+          {isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+        </Button>
+        <span className="text-xs text-gray-600 w-16">{playhead !== null ? formatTime(playhead) : "--"}</span>
+
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => splitMutation.mutate(Math.round(playhead!))}
+          disabled={!canSplit || isBusy}
+          title={boundsChanged ? "Save or reset the boundaries before splitting" : "Split the segment at the playhead"}
+        >
+          <Scissors className="h-4 w-4 mr-1" />
+          Split at playhead
+        </Button>
+        {context.previous && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => mergeMutation.mutate(context.previous!.id)}
+            disabled={isBusy}
+          >
+            <Merge className="h-4 w-4 mr-1" />
+            Merge with previous
+          </Button>
+        )}
+        {context.next && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => mergeMutation.mutate(context.next!.id)}
+            disabled={isBusy}
+          >
+            <Merge className="h-4 w-4 mr-1" />
+            Merge with next
+          </Button>
+        )}
+
+        <div className="flex-1" />
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setBounds({ start: context.segment.startTime, end: context.segment.endTime })}
+          disabled={!boundsChanged || isBusy}
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => saveBoundariesMutation.mutate()}
+          disabled={!boundsChanged || isBusy}
+        >
+          {saveBoundariesMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-1" />
+          )}
+          Save boundaries
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Pencil, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SPEAKER_AGE_BANDS, SPEAKER_GENDERS, type Speaker } from "@shared/schema";
+
+interface SpeakerPickerProps {
+  segmentId: number;
+  speakerId: number | null;
+  // Reviewers can also edit the details of existing speakers
+  canEdit: boolean;
+}
+
+const GENDER_LABELS: Record<string, string> = { female: "Female", male: "Male", other: "Other" };
+const AGE_BAND_LABELS: Record<string, string> = {
+  under_18: "Under 18",
+  "18_29": "18-29",
+  "30_44": "30-44",
+  "45_59": "45-59",
+  "60_plus": "60+",
+};
+
+// Radix selects can't hold an empty value
+const NONE = "none";
+
+interface SpeakerForm {
+  label: string;
+  gender: string;
+  dialectRegion: string;
+  ageBand: string;
+}
+
+const EMPTY_FORM: SpeakerForm = { label: "", gender: NONE, dialectRegion: "", ageBand: NONE };
+
+function describeSpeaker(speaker: Speaker): string {
+  const details = [
+    speaker.gender && GENDER_LABELS[speaker.gender],
+    speaker.ageBand && AGE_BAND_LABELS[speaker.ageBand],
+    speaker.dialectRegion,
+  ].filter(Boolean);
+  const proposed = speaker.source === "diarization" ? " (proposed)" : "";
+  return `${speaker.label}${proposed}${details.length > 0 ? ` · ${details.join(", ")}` : ""}`;
+}
+
+/**
+ * Who speaks in the segment: one of the recording's speakers, or a new one
+ */
+export function SpeakerPicker({ segmentId, speakerId, canEdit }: SpeakerPickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null: form hidden; "new": adding a speaker; otherwise the speaker being edited
+  const [editing, setEditing] = useState<"new" | Speaker | null>(null);
+  const [form, setForm] = useState<SpeakerForm>(EMPTY_FORM);
+
+  const speakersKey = [`/api/segments/${segmentId}/speakers`];
+  const { data: speakers = [], isLoading } = useQuery<Speaker[]>({ queryKey: speakersKey });
+  const selected = speakers.find(speaker => speaker.id === speakerId);
+
+  const onError = (error: Error) => {
+    toast({ title: "Speaker not saved", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: speakersKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/segments/${segmentId}`] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async (id: number | null) => {
+      const response = await apiRequest("PUT", `/api/segments/${segmentId}/speaker`, { speakerId: id });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SpeakerForm) => {
+      const payload = {
+        label: values.label,
+        gender: values.gender === NONE ? null : values.gender,
+        dialectRegion: values.dialectRegion.trim() || null,
+        ageBand: values.ageBand === NONE ? null : values.ageBand,
+      };
+      const response = editing === "new" || editing === null
+        ? await apiRequest("POST", `/api/segments/${segmentId}/speakers`, payload)
+        : await apiRequest("PATCH", `/api/speakers/${editing.id}`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const startEditing = (target: "new" | Speaker) => {
+    setEditing(target);
+    setForm(target === "new" ? EMPTY_FORM : {
+      label: target.label,
+      gender: target.gender ?? NONE,
+      dialectRegion: target.dialectRegion ?? "",
+      ageBand: target.ageBand ?? NONE,
+    });
+  };
+
+  return (
+    <div className="mt-4">
+      <Label>Speaker</Label>
+      <div className="flex items-center gap-2 mt-1">
+        <Select
+          value={speakerId !== null ? String(speakerId) : NONE}
+          onValueChange={value => assignMutation.mutate(value === NONE ? null : parseInt(value))}
+          disabled={isLoading || assignMutation.isPending}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="No speaker" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No speaker</SelectItem>
+            {speakers.map(speaker => (
+              <SelectItem key={speaker.id} value={String(speaker.id)}>
+                {describeSpeaker(speaker)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canEdit && selected && (
+          <Button type="button" variant="outline" size="sm" onClick={() => startEditing(selected)}>
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        )}
+        <Button type="button" variant="outline" size="sm" onClick={() => startEditing("new")}>
+          <UserPlus className="h-4 w-4 mr-1" />
+          New speaker
+        </Button>
+      </div>
+
+      {editing !== null && (
+        <div className="mt-2 p-3 rounded-md border bg-gray-50 grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="speaker-label" className="text-xs">Label</Label>
+            <Input
+              id="speaker-label"
+              placeholder="e.g. Speaker 1 or Interviewer"
+              value={form.label}
+              onChange={e => setForm({ ...form, label: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="speaker-dialect" className="text-xs">Dialect region (optional)</Label>
+            <Input
+              id="speaker-dialect"
+              placeholder="e.g. Trarza"
+              value={form.dialectRegion}
+              onChange={e => setForm({ ...form, dialectRegion: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Gender (optional)</Label>
+            <Select value={form.gender} onValueChange={gender => setForm({ ...form, gender })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not set</SelectItem>
+                {SPEAKER_GENDERS.map(gender => (
+                  <SelectItem key={gender} value={gender}>{GENDER_LABELS[gender]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Age band (optional)</Label>
+            <Select value={form.ageBand} onValueChange={ageBand => setForm({ ...form, ageBand })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not set</SelectItem>
+                {SPEAKER_AGE_BANDS.map(ageBand => (
+                  <SelectItem key={ageBand} value={ageBand}>{AGE_BAND_LABELS[ageBand]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={!form.label.trim() || saveMutation.isPending}
+              onClick={() => saveMutation.mutate(form)}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {editing === "new" ? "Add and assign" : "Save speaker"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,8 @@ interface TranscriptionTask {
   duration: number;
   assignedTo: string;
   status: string;
-  dueDate: string;
+  dueDate: string | null;
+  overdue: boolean;
 }
 
 export function TranscriptionList() {
@@ -67,15 +68,19 @@ export function TranscriptionList() {
   const getStatusBadge = (status: string) => {
     switch (status.toLowerCase()) {
       case "completed":
+      case "reviewed":
         return <Badge className="bg-green-600 text-white hover:bg-green-700">Completed</Badge>;
       case "in_progress":
       case "in progress":
+      case "assigned":
         return <Badge className="bg-yellow-600 text-white hover:bg-yellow-700">In Progress</Badge>;
       case "needs_revision":
       case "needs revision":
+      case "rejected":
         return <Badge className="bg-red-600 text-white hover:bg-red-700">Needs Revision</Badge>;
       case "pending_review":
       case "pending review":
+      case "transcribed":
         return <Badge className="bg-blue-600 text-white hover:bg-blue-700">Pending Review</Badge>;
       default:
         return <Badge className="bg-slate-600 text-white hover:bg-slate-700">{status}</Badge>;
@@ -83,9 +88,10 @@ export function TranscriptionList() {
   };
 
   // Format date
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "—";
     try {
-      return format(new Date(dateString), "MMM d, yyyy");
+      return format(new Date(dateString), "MMM d, yyyy HH:mm");
     } catch (error) {
       return "Invalid date";
     }
@@ -96,12 +102,15 @@ export function TranscriptionList() {
     switch (status.toLowerCase()) {
       case "in_progress":
       case "in progress":
+      case "assigned":
         return "Continue";
       case "needs_revision":
       case "needs revision":
+      case "rejected":
         return "Edit";
       case "pending_review":
       case "pending review":
+      case "transcribed":
         return "Review";
       default:
         return "View";
@@ -180,8 +189,11 @@ export function TranscriptionList() {
                           <td className="whitespace-nowrap px-3 py-4 text-sm">
                             {getStatusBadge(task.status)}
                           </td>
-                          <td className="whitespace-nowrap px-3 py-4 text-sm text-white/70">
+                          <td className={`whitespace-nowrap px-3 py-4 text-sm ${task.overdue ? "text-red-400" : "text-white/70"}`}>
                             {formatDate(task.dueDate)}
+                            {task.overdue && (
+                              <Badge className="ml-2 bg-red-600 text-white hover:bg-red-700">Overdue</Badge>
+                            )}
                           </td>
                           <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                             <button
@@ -1,10 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { AudioPlayer } from "./audio-player";
+import { SegmentEditor } from "./segment-editor";
+import { RevisionHistory } from "./revision-history";
+import { NormalizationPreview } from "./normalization-preview";
+import { AnnotationToolbar, useAnnotationShortcuts } from "./annotation-toolbar";
+import { SpeakerPicker } from "./speaker-picker";
 import { apiRequest } from "@/lib/queryClient";
-import { Loader2, Star, ArrowLeft } from "lucide-react";
+import { Loader2, Star, ArrowLeft, AudioLines, Flag, History, Clock, SpellCheck, AlertCircle, AlertTriangle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -17,6 +23,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { cn } from "@/lib/utils";
+import {
+  hasValidationErrors,
+  validateTranscription,
+  type TranscriptionValidationSettings,
+} from "@shared/transcription-validation";
 
 interface TranscriptionModalProps {
   segmentId: number | null;
@@ -32,6 +43,7 @@ interface Transcription {
   status?: string;
   rating?: number | null;
   reviewNotes?: string | null;
+  flaggedReason?: string | null;
 }
 
 // Define the shape of the segment data
@@ -39,7 +51,16 @@ interface SegmentData {
   id: number;
   audioId: string;
   audioUrl: string;
+  status: string;
+  duration?: number; // in milliseconds
+  updatedAt?: string | null;
+  assignedTo?: number | null;
+  speakerId?: number | null;
+  // Set on self-claimed segments; the segment returns to the pool if not submitted by then
+  leaseExpiresAt?: string | null;
   transcription?: Transcription;
+  // Workflow actions the current user may take (see server/workflow.ts)
+  allowedActions: string[];
 }
 
 export function TranscriptionModal({
@@ -52,10 +73,19 @@ export function TranscriptionModal({
   const queryClient = useQueryClient();
   
   const [transcriptionText, setTranscriptionText] = useState("");
+  const transcriptionRef = useRef<HTMLTextAreaElement>(null);
+  const annotationShortcuts = useAnnotationShortcuts({
+    textareaRef: transcriptionRef,
+    text: transcriptionText,
+    onChange: setTranscriptionText,
+  });
   const [notes, setNotes] = useState("");
   const [approvalStatus, setApprovalStatus] = useState<"approve" | "needs_revision" | null>(null);
   const [rating, setRating] = useState<number | null>(null);
   const [reviewNotes, setReviewNotes] = useState("");
+  const [isEditingBoundaries, setIsEditingBoundaries] = useState(false);
+  const [isShowingHistory, setIsShowingHistory] = useState(false);
+  const [isShowingNormalized, setIsShowingNormalized] = useState(false);
   
   // Make sure admin and reviewer roles can verify transcriptions
   const isReviewer = user?.role === "reviewer" || user?.role === "admin";
@@ -66,6 +96,21 @@ export function TranscriptionModal({
     enabled: segmentId !== null && isOpen,
   });
   
+  const { data: validationSettings } = useQuery<TranscriptionValidationSettings>({
+    queryKey: ["/api/settings/transcription-validation"],
+    enabled: isOpen,
+  });
+  
+  const allowedActions = segmentData?.allowedActions ?? [];
+  // Same checks the server runs on submit and approve
+  const validationIssues = useMemo(
+    () => validateTranscription(transcriptionText, { durationMs: segmentData?.duration, script: validationSettings?.script }),
+    [transcriptionText, segmentData?.duration, validationSettings?.script],
+  );
+  
+  // Review controls only make sense while the segment is waiting for review
+  const canReview = isReviewer && allowedActions.includes("approve");
+  
   // Update local state when segment data changes
   useEffect(() => {
     if (segmentData) {
@@ -98,39 +143,36 @@ export function TranscriptionModal({
         text: transcriptionText,
         notes,
       };
-      
-      // For transcribers submitting work (not reviewers)
-      if (!isReviewer) {
-        payload.status = "pending_review";
-      }
+      let action = "submit";
       
       // If user is a reviewer, include review data
-      if (isReviewer && approvalStatus) {
+      if (canReview && approvalStatus) {
+        action = approvalStatus === "approve" ? "approve" : "reject";
         Object.assign(payload, {
-          status: approvalStatus === "approve" ? "approved" : "rejected",
           rating,
           reviewNotes: approvalStatus === "needs_revision" ? reviewNotes : "",
         });
-        
-        // Log the review action for debugging
-        console.log(`Reviewer submitting: status=${payload.status}, rating=${payload.rating}`);
       }
       
-      const response = await apiRequest("POST", `/api/transcriptions/${segmentId}`, payload);
+      const response = await apiRequest("POST", `/api/segments/${segmentId}/${action}`, payload);
       return response;
     },
     onSuccess: () => {
       // Invalidate all relevant queries to refresh the data
       queryClient.invalidateQueries({ queryKey: [`/api/segments/${segmentId}`] });
+      if (segmentData?.transcription?.id) {
+        queryClient.invalidateQueries({ queryKey: [`/api/transcriptions/${segmentData.transcription.id}/revisions`] });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/activities/recent"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/claimable"] });
       
       // Show different success messages based on action
       let title = "Transcription saved";
       let description = "Your work has been saved successfully.";
       
-      if (isReviewer && approvalStatus) {
+      if (canReview && approvalStatus) {
         if (approvalStatus === "approve") {
           title = "Transcription approved";
           description = "This transcription has been approved and marked as completed.";
@@ -152,6 +194,38 @@ export function TranscriptionModal({
     },
   });
   
+  // Claim, release and reopen don't touch the text
+  const workflowActionMutation = useMutation({
+    mutationFn: async (action: "claim" | "unassign" | "reopen") => {
+      if (!segmentId) throw new Error("No segment selected");
+      const response = await apiRequest("POST", `/api/segments/${segmentId}/${action}`);
+      return { action, response };
+    },
+    onSuccess: ({ action }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/segments/${segmentId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/claimable"] });
+      
+      const messages = {
+        claim: { title: "Segment claimed", description: "The segment is now assigned to you." },
+        unassign: { title: "Segment released", description: "The segment is available for others to claim." },
+        reopen: { title: "Segment reopened", description: "The transcription is waiting for review again." },
+      };
+      toast(messages[action]);
+      if (action === "unassign") {
+        onClose();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   const handleSave = () => {
     if (!transcriptionText.trim()) {
       toast({
@@ -162,7 +236,17 @@ export function TranscriptionModal({
       return;
     }
     
-    if (isReviewer && !approvalStatus) {
+    // Rejected text goes back to the transcriber, so it may still have errors
+    if (hasValidationErrors(validationIssues) && !(canReview && approvalStatus === "needs_revision")) {
+      toast({
+        title: "Transcription has errors",
+        description: "Fix the errors shown under the transcription before saving.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (canReview && !approvalStatus) {
       toast({
         title: "Approval status required",
         description: "Please approve or request revision before saving.",
@@ -171,7 +255,7 @@ export function TranscriptionModal({
       return;
     }
     
-    if (isReviewer && approvalStatus === "approve" && rating === null) {
+    if (canReview && approvalStatus === "approve" && rating === null) {
       toast({
         title: "Rating required",
         description: "Please provide a rating before approving.",
@@ -180,7 +264,7 @@ export function TranscriptionModal({
       return;
     }
     
-    if (isReviewer && approvalStatus === "needs_revision" && !reviewNotes.trim()) {
+    if (canReview && approvalStatus === "needs_revision" && !reviewNotes.trim()) {
       toast({
         title: "Review notes required",
         description: "Please provide feedback for the transcriber.",
@@ -201,8 +285,17 @@ export function TranscriptionModal({
     setApprovalStatus(null);
     setRating(null);
     setReviewNotes("");
+    setIsEditingBoundaries(false);
+    setIsShowingHistory(false);
     onClose();
   };
+
+  // Merging into the previous segment removes the one open in this modal
+  const handleSegmentChanged = (changedSegmentId: number) => {
+    if (changedSegmentId !== segmentId) {
+      handleClose();
+    }
+  };
   
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -230,22 +323,129 @@ export function TranscriptionModal({
           </div>
         ) : (
           <>
-            {/* Audio Player */}
-            <AudioPlayer audioUrl={segmentData?.audioUrl || ""} />
+            {/* Audio Player (versioned URL so edited segment audio is fetched again) */}
+            <AudioPlayer
+              audioUrl={segmentData?.audioUrl ? `${segmentData.audioUrl}?v=${encodeURIComponent(segmentData.updatedAt ?? "")}` : ""}
+            />
+            
+            {/* Boundary editor (reviewers and admins) */}
+            {isReviewer && segmentId !== null && (
+              <div className="mt-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsEditingBoundaries(!isEditingBoundaries)}
+                >
+                  <AudioLines className="h-4 w-4 mr-1" />
+                  {isEditingBoundaries ? "Hide boundary editor" : "Edit boundaries"}
+                </Button>
+                {isEditingBoundaries && (
+                  <div className="mt-3">
+                    <SegmentEditor segmentId={segmentId} onSegmentChanged={handleSegmentChanged} />
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {segmentData?.status === "assigned" && segmentData.leaseExpiresAt && segmentData.assignedTo === user?.id && (
+              <div className="mt-4 bg-blue-50 p-3 rounded-md border border-blue-200 flex items-start gap-2">
+                <Clock className="h-4 w-4 text-blue-700 mt-0.5" />
+                <p className="text-sm text-blue-800">
+                  Submit by {format(new Date(segmentData.leaseExpiresAt), "MMM d, HH:mm")} ({formatDistanceToNow(new Date(segmentData.leaseExpiresAt), { addSuffix: true })}),
+                  otherwise the segment returns to the pool for someone else to claim.
+                </p>
+              </div>
+            )}
+            
+            {segmentData?.transcription?.flaggedReason && (
+              <div className="mt-4 bg-amber-50 p-3 rounded-md border border-amber-200 flex items-start gap-2">
+                <Flag className="h-4 w-4 text-amber-700 mt-0.5" />
+                <div className="text-sm text-amber-800">
+                  <p className="font-semibold">Segment audio changed</p>
+                  <p>{segmentData.transcription.flaggedReason}. Check that the text still matches the audio.</p>
+                </div>
+              </div>
+            )}
+            
+            {/* Revision history with word diff (once the transcription has been saved) */}
+            {segmentData?.transcription?.id && (
+              <div className="mt-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsShowingHistory(!isShowingHistory)}
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  {isShowingHistory ? "Hide history" : "Revision history"}
+                </Button>
+                {isShowingHistory && (
+                  <div className="mt-3">
+                    <RevisionHistory transcriptionId={segmentData.transcription.id} />
+                  </div>
+                )}
+              </div>
+            )}
             
             {/* Transcription Input */}
             <div className="mt-4">
               <Label htmlFor="transcription">Transcription</Label>
+              <AnnotationToolbar
+                textareaRef={transcriptionRef}
+                text={transcriptionText}
+                onChange={setTranscriptionText}
+              />
               <Textarea
+                ref={transcriptionRef}
                 id="transcription"
                 rows={4}
                 placeholder="Type the transcription here..."
                 value={transcriptionText}
                 onChange={(e) => setTranscriptionText(e.target.value)}
+                onKeyDown={annotationShortcuts.onKeyDown}
                 className="mt-1"
               />
+              {transcriptionText && validationIssues.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {validationIssues.map((issue, index) => (
+                    <li
+                      key={index}
+                      className={cn(
+                        "flex items-start",
+                        issue.severity === "error" ? "text-red-600" : "text-amber-600",
+                      )}
+                    >
+                      {issue.severity === "error" ? (
+                        <AlertCircle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+                      )}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-1"
+                onClick={() => setIsShowingNormalized(!isShowingNormalized)}
+              >
+                <SpellCheck className="h-4 w-4 mr-1" />
+                {isShowingNormalized ? "Hide normalized preview" : "Preview normalized text"}
+              </Button>
+              {isShowingNormalized && (
+                <NormalizationPreview text={transcriptionText} onApply={setTranscriptionText} />
+              )}
             </div>
             
+            {segmentId !== null && segmentData && (
+              <SpeakerPicker
+                segmentId={segmentId}
+                speakerId={segmentData.speakerId ?? null}
+                canEdit={isReviewer}
+              />
+            )}
+            
             {/* Notes */}
             <div className="mt-4">
               <Label htmlFor="notes">Notes (optional)</Label>
@@ -270,7 +470,7 @@ export function TranscriptionModal({
             )}
             
             {/* Quality Review (for reviewers only) */}
-            {isReviewer && (
+            {canReview && (
               <div className="mt-4 border-t pt-4">
                 <div className="flex flex-wrap items-center gap-4">
                   {/* Rating Stars and Label - Horizontal Layout */}
@@ -338,7 +538,7 @@ export function TranscriptionModal({
         )}
         
         {/* Quality Review Section Completion Button */}
-        {isReviewer && approvalStatus && !isLoading && (
+        {canReview && approvalStatus && !isLoading && (
           <div className="mt-6 flex justify-center">
             <Button 
               onClick={handleSave}
@@ -377,10 +577,37 @@ export function TranscriptionModal({
           >
             Cancel
           </Button>
+          {allowedActions.includes("claim") && (
+            <Button
+              variant="outline"
+              onClick={() => workflowActionMutation.mutate("claim")}
+              disabled={workflowActionMutation.isPending}
+            >
+              Claim segment
+            </Button>
+          )}
+          {allowedActions.includes("unassign") && (
+            <Button
+              variant="outline"
+              onClick={() => workflowActionMutation.mutate("unassign")}
+              disabled={workflowActionMutation.isPending}
+            >
+              Release segment
+            </Button>
+          )}
+          {allowedActions.includes("reopen") && (
+            <Button
+              variant="outline"
+              onClick={() => workflowActionMutation.mutate("reopen")}
+              disabled={workflowActionMutation.isPending}
+            >
+              Reopen for review
+            </Button>
+          )}
           {!isReviewer && (
             <Button 
               onClick={handleSave}
-              disabled={isLoading || saveTranscriptionMutation.isPending}
+              disabled={isLoading || saveTranscriptionMutation.isPending || !allowedActions.includes("submit")}
               className="bg-primary hover:bg-primary/90"
             >
               {saveTranscriptionMutation.isPending ? (
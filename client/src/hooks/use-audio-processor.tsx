@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { RecordingMetadata, VadSettings } from "@shared/schema";
 
 // Retrieve the JWT token from localStorage
 function getAuthToken(): string | null {
@@ -10,6 +11,19 @@ function getAuthToken(): string | null {
 
 interface UploadOptions {
   onSuccess?: () => void;
+  // Preset name, or "project" for the project default
+  vadProfile?: string;
+  // Per-upload overrides applied on top of the chosen profile
+  vadSettings?: Partial<VadSettings>;
+  // Provenance of the recording (source, consent, license, ...)
+  metadata?: RecordingMetadata;
+}
+
+interface UploadRequest {
+  file: File;
+  vadProfile?: string;
+  vadSettings?: Partial<VadSettings>;
+  metadata?: RecordingMetadata;
 }
 
 export function useAudioProcessor() {
@@ -19,10 +33,19 @@ export function useAudioProcessor() {
 
   // Upload and process audio file
   const uploadAudioMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, vadProfile, vadSettings, metadata }: UploadRequest) => {
       // Create FormData for file upload
       const formData = new FormData();
       formData.append("audio", file);
+      if (vadProfile) {
+        formData.append("vadProfile", vadProfile);
+      }
+      if (vadSettings && Object.keys(vadSettings).length > 0) {
+        formData.append("vadSettings", JSON.stringify(vadSettings));
+      }
+      if (metadata) {
+        formData.append("metadata", JSON.stringify(metadata));
+      }
 
       // Custom fetch with progress monitoring
       return new Promise<any>((resolve, reject) => {
@@ -75,13 +98,22 @@ export function useAudioProcessor() {
         xhr.send(formData);
       });
     },
-    onSuccess: () => {
+    onSuccess: (data: { warning?: string }) => {
       // Reset progress
       setUploadProgress(0);
       
       // Invalidate queries to refresh audio file list
       queryClient.invalidateQueries({ queryKey: ['/api/audio'] });
       
+      // Possible duplicates are kept but not processed until an admin decides
+      if (data?.warning) {
+        toast({
+          title: "Possible duplicate",
+          description: data.warning,
+        });
+        return;
+      }
+      
       toast({
         title: "Audio uploaded successfully",
         description: "Your audio file is being processed. You'll be notified when it's ready.",
@@ -122,7 +154,12 @@ export function useAudioProcessor() {
 
   // Upload audio file
   const uploadAudio = (file: File, options?: UploadOptions) => {
-    uploadAudioMutation.mutate(file, {
+    uploadAudioMutation.mutate({
+      file,
+      vadProfile: options?.vadProfile,
+      vadSettings: options?.vadSettings,
+      metadata: options?.metadata,
+    }, {
       onSuccess: options?.onSuccess,
     });
   };
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+export interface ProcessingProgress {
+  audioFileId: number;
+  stage: string;
+  percent: number;
+  segmentsCreated: number;
+  totalSegments: number | null;
+  status: string | null;
+  error: string | null;
+}
+
+type ProgressMap = Record<number, ProcessingProgress>;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+function emptyProgress(audioFileId: number): ProcessingProgress {
+  return {
+    audioFileId,
+    stage: "queued",
+    percent: 0,
+    segmentsCreated: 0,
+    totalSegments: null,
+    status: null,
+    error: null,
+  };
+}
+
+/**
+ * Apply one server event to the progress of its file
+ */
+function applyEvent(progress: ProgressMap, eventName: string, data: any): ProgressMap {
+  if (eventName === "snapshot") {
+    const next: ProgressMap = {};
+    for (const snapshot of data as ProcessingProgress[]) {
+      next[snapshot.audioFileId] = snapshot;
+    }
+    return next;
+  }
+
+  const current = progress[data.audioFileId] ?? emptyProgress(data.audioFileId);
+  switch (eventName) {
+    case "stage":
+      return {
+        ...progress,
+        [data.audioFileId]: {
+          ...current,
+          stage: data.stage,
+          percent: data.stage === "completed" ? 100 : data.stage === "preparing" ? 0 : current.percent,
+          ...(data.stage === "preparing" && { segmentsCreated: 0, totalSegments: null, error: null }),
+        },
+      };
+    case "progress":
+      return { ...progress, [data.audioFileId]: { ...current, stage: data.stage, percent: data.percent } };
+    case "segment":
+      return {
+        ...progress,
+        [data.audioFileId]: { ...current, segmentsCreated: data.index, totalSegments: data.total },
+      };
+    case "status":
+      return {
+        ...progress,
+        [data.audioFileId]: { ...current, status: data.status, error: data.error ?? null },
+      };
+    default:
+      return progress;
+  }
+}
+
+/**
+ * Subscribe to /api/audio/events and keep live progress per audio file.
+ * fetch is used instead of EventSource so the JWT can go in the Authorization header.
+ * Status changes refresh the audio file list once, so it never needs polling.
+ */
+export function useProcessingEvents(): ProgressMap {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<ProgressMap>({});
+
+  useEffect(() => {
+    let stopped = false;
+    let controller: AbortController | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+
+    const handleMessage = (eventName: string, rawData: string) => {
+      let data: any;
+      try {
+        data = JSON.parse(rawData);
+      } catch (error) {
+        console.warn("Ignoring malformed processing event:", rawData);
+        return;
+      }
+
+      setProgress((current) => applyEvent(current, eventName, data));
+
+      if (eventName === "status" || eventName === "snapshot") {
+        queryClient.invalidateQueries({ queryKey: ["/api/audio"] });
+      }
+    };
+
+    const connect = async () => {
+      const token = localStorage.getItem("auth_token");
+      if (!token) return;
+
+      controller = new AbortController();
+      try {
+        const response = await fetch("/api/audio/events", {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            Accept: "text/event-stream",
+          },
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream failed: ${response.status}`);
+        }
+        attempt = 0;
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (!stopped) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Events are separated by a blank line
+          let boundary = buffer.indexOf("\n\n");
+          while (boundary !== -1) {
+            const rawEvent = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
+
+            let eventName = "message";
+            const dataLines: string[] = [];
+            for (const line of rawEvent.split("\n")) {
+              if (line.startsWith("event:")) {
+                eventName = line.slice(6).trim();
+              } else if (line.startsWith("data:")) {
+                dataLines.push(line.slice(5).trim());
+              }
+            }
+            if (dataLines.length > 0) {
+              handleMessage(eventName, dataLines.join("\n"));
+            }
+          }
+        }
+      } catch (error) {
+        if (stopped) return;
+        console.warn("Processing event stream disconnected:", error);
+      }
+
+      if (!stopped) {
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+        attempt++;
+        reconnectTimer = setTimeout(connect, delay);
+      }
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      controller?.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [queryClient]);
+
+  return progress;
+}
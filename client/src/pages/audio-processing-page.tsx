@@ -1,5 +1,8 @@
 import { AudioUpload } from "@/components/audio-processing/audio-upload";
 import { ProcessingQueue } from "@/components/audio-processing/processing-queue";
+import { DiarizationSettings } from "@/components/admin/diarization-settings";
+import { DuplicateDetectionSettings } from "@/components/admin/duplicate-detection-settings";
+import { useAuth } from "@/hooks/use-auth";
 import { useSearchParams } from "react-router-dom";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
@@ -29,6 +32,7 @@ interface AudioFileDetails {
 }
 
 export default function AudioProcessingPage() {
+  const { user } = useAuth();
   const [searchParams] = useSearchParams();
   const fileId = searchParams.get("file");
   const [downloadingSegmentId, setDownloadingSegmentId] = useState<number | null>(null);
@@ -77,6 +81,8 @@ export default function AudioProcessingPage() {
         );
       case "error":
         return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Error</Badge>;
+      case "queued":
+        return <Badge className="bg-slate-100 text-slate-800 hover:bg-slate-100">Queued</Badge>;
       case "uploading":
         return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Uploading</Badge>;
       default:
@@ -197,6 +203,8 @@ export default function AudioProcessingPage() {
       </h1>
       <div className="space-y-6">
         <AudioUpload />
+        {user?.role === "admin" && <DiarizationSettings />}
+        {user?.role === "admin" && <DuplicateDetectionSettings />}
         <ProcessingQueue />
       </div>
     </div>
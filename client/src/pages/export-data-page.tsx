@@ -1,9 +1,15 @@
 import { ExportData } from "@/components/admin/export-data";
+import { TextNormalizationSettings } from "@/components/admin/text-normalization-settings";
+import { ExportPolicySettings } from "@/components/admin/export-policy-settings";
+import { TranscriptionValidationSettings } from "@/components/admin/transcription-validation-settings";
 
 export default function ExportDataPage() {
   return (
     <div className="mx-auto px-4 sm:px-6 md:px-8">
       <ExportData />
+      <ExportPolicySettings />
+      <TextNormalizationSettings />
+      <TranscriptionValidationSettings />
     </div>
   );
 }
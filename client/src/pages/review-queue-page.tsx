@@ -0,0 +1,36 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ReviewQueue } from "@/components/transcription/review-queue";
+import { TranscriptionModal } from "@/components/transcription/transcription-modal";
+
+export default function ReviewQueuePage() {
+  const queryClient = useQueryClient();
+  const [selectedSegmentId, setSelectedSegmentId] = useState<number | null>(null);
+
+  const handleCloseModal = () => {
+    setSelectedSegmentId(null);
+    // Approved or rejected segments leave the queue
+    queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+  };
+
+  return (
+    <div className="mx-auto px-4 sm:px-6 md:px-8">
+      <div className="sm:flex sm:items-center mb-6">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-white">My Review Queue</h1>
+          <p className="mt-2 text-sm text-white/70">
+            Transcriptions routed to you for review, oldest submission first.
+          </p>
+        </div>
+      </div>
+
+      <ReviewQueue onOpenSegment={setSelectedSegmentId} />
+
+      <TranscriptionModal
+        segmentId={selectedSegmentId}
+        isOpen={selectedSegmentId !== null}
+        onClose={handleCloseModal}
+      />
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState, useEffect } from "react";
 import { TranscriptionList } from "@/components/transcription/transcription-list";
 import { TranscriptionModal } from "@/components/transcription/transcription-modal";
+import { ClaimNextTask } from "@/components/transcription/claim-next-task";
+import { useAuth } from "@/hooks/use-auth";
 import { useLocation, useParams, useNavigate } from "react-router-dom";
 
 export default function TranscriptionsPage() {
   const location = useLocation();
   const params = useParams<{id: string}>();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const canClaim = user?.role === "transcriber" || user?.role === "admin";
   
   // Extract segment ID from URL if present (for direct linking to a transcription)
   const segmentIdFromUrl = params?.id ? parseInt(params.id, 10) : null;
@@ -42,6 +46,10 @@ export default function TranscriptionsPage() {
         </div>
       </div>
       
+      {canClaim && (
+        <ClaimNextTask onClaimed={(segmentId) => navigate(`/transcriptions/${segmentId}`)} />
+      )}
+      
       <TranscriptionList />
       
       <TranscriptionModal
@@ -0,0 +1,69 @@
+CREATE TABLE "audio_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_path" text NOT NULL,
+	"processed_path" text,
+	"uploaded_by" integer NOT NULL,
+	"status" text NOT NULL,
+	"segments" integer DEFAULT 0,
+	"duration" integer,
+	"size" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"error" text
+);
+--> statement-breakpoint
+CREATE TABLE "audio_segments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"audio_file_id" integer NOT NULL,
+	"segment_path" text NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"duration" integer NOT NULL,
+	"status" text NOT NULL,
+	"assigned_to" integer,
+	"transcribed_by" integer,
+	"reviewed_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "exports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"path" text NOT NULL,
+	"format" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"records" integer NOT NULL,
+	"size" integer NOT NULL,
+	"include_speaker" boolean DEFAULT false,
+	"include_timestamps" boolean DEFAULT true,
+	"include_confidence" boolean DEFAULT false,
+	"start_date" timestamp,
+	"end_date" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "transcriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"segment_id" integer NOT NULL,
+	"text" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"reviewed_by" integer,
+	"status" text NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"rating" integer,
+	"review_notes" text
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"full_name" text NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
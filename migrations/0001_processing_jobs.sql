@@ -0,0 +1,12 @@
+CREATE TABLE "processing_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"audio_file_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"history" json DEFAULT '[]'::json NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
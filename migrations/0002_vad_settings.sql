@@ -0,0 +1,8 @@
+CREATE TABLE "project_settings" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" json NOT NULL,
+	"updated_by" integer,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "vad_settings" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transcriptions" ADD COLUMN "flagged_reason" text;
\ No newline at end of file
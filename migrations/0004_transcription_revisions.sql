@@ -0,0 +1,17 @@
+CREATE TABLE "transcription_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transcription_id" integer NOT NULL,
+	"segment_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"text" text NOT NULL,
+	"notes" text,
+	"review_notes" text,
+	"rating" integer,
+	"previous_status" text,
+	"status" text NOT NULL,
+	"author_id" integer NOT NULL,
+	"author_role" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "transcription_revisions_transcription_revision_idx" ON "transcription_revisions" USING btree ("transcription_id","revision");
\ No newline at end of file
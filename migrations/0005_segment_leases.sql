@@ -0,0 +1 @@
+ALTER TABLE "audio_segments" ADD COLUMN "lease_expires_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "segment_assignments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"segment_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"assigned_by" integer,
+	"assigned_at" timestamp DEFAULT now() NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"overdue_at" timestamp,
+	"closed_at" timestamp,
+	"outcome" text
+);
+--> statement-breakpoint
+ALTER TABLE "audio_segments" ADD COLUMN "due_at" timestamp;--> statement-breakpoint
+-- Existing open assignments get the old implicit deadline (3 days) so they show up in SLA tracking
+UPDATE "audio_segments" SET "due_at" = coalesce("updated_at", now()) + interval '3 days' WHERE "status" IN ('assigned', 'rejected') AND "assigned_to" IS NOT NULL;--> statement-breakpoint
+INSERT INTO "segment_assignments" ("segment_id", "user_id", "assigned_at", "due_at")
+SELECT "id", "assigned_to", coalesce("updated_at", now()), "due_at" FROM "audio_segments" WHERE "due_at" IS NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE "exports" ADD COLUMN "split_seed" integer;--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "split_manifest" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "exports" ADD COLUMN "audio_normalization" json;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "exports" ADD COLUMN "status" text DEFAULT 'queued' NOT NULL;--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "progress" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "error" text;--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "checksum" text;--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "options" json;--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+-- Exports made before background jobs were written synchronously, so they are complete
+UPDATE "exports" SET "status" = 'completed', "progress" = 100, "completed_at" = "created_at";
@@ -0,0 +1,29 @@
+CREATE TABLE "dataset_version_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"dataset_version_id" integer NOT NULL,
+	"transcription_id" integer NOT NULL,
+	"revision_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"segment_id" integer NOT NULL,
+	"audio_file_id" integer NOT NULL,
+	"audio_path" text NOT NULL,
+	"source_path" text NOT NULL,
+	"duration" integer NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "dataset_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"filter" json,
+	"records" integer NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "exports" ADD COLUMN "dataset_version_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "dataset_version_items_version_transcription_idx" ON "dataset_version_items" USING btree ("dataset_version_id","transcription_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "dataset_versions_name_idx" ON "dataset_versions" USING btree ("name");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "speakers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"audio_file_id" integer NOT NULL,
+	"label" text NOT NULL,
+	"gender" text,
+	"dialect_region" text,
+	"age_band" text,
+	"source" text DEFAULT 'manual' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audio_segments" ADD COLUMN "speaker_id" integer;--> statement-breakpoint
+ALTER TABLE "dataset_version_items" ADD COLUMN "speaker_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "speakers_audio_file_label_idx" ON "speakers" USING btree ("audio_file_id","label");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "audio_files" ADD COLUMN "source_type" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "region" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "recording_date" date;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "consent_ref" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "license" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
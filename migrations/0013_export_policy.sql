@@ -0,0 +1,17 @@
+CREATE TABLE "export_audits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"export_id" integer NOT NULL,
+	"dataset_version_id" integer,
+	"created_by" integer NOT NULL,
+	"policy" json NOT NULL,
+	"included" integer NOT NULL,
+	"excluded" json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "consent_status" text DEFAULT 'cleared' NOT NULL;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "consent_note" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "consent_updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "consent_updated_by" integer;--> statement-breakpoint
+ALTER TABLE "dataset_versions" ADD COLUMN "tainted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "dataset_versions" ADD COLUMN "taints" json DEFAULT '[]'::json NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "audio_files" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "fingerprint" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "duplicate_of_id" integer;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "duplicate_kind" text;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "duplicate_similarity" real;--> statement-breakpoint
+ALTER TABLE "audio_files" ADD COLUMN "duplicate_status" text;--> statement-breakpoint
+CREATE INDEX "audio_files_content_hash_idx" ON "audio_files" USING btree ("content_hash");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "processing_jobs" ADD COLUMN "kind" text DEFAULT 'process' NOT NULL;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "vad_settings" json;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "result" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "dataset_version_items" ADD COLUMN "speaker" json;
\ No newline at end of file
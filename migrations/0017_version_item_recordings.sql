@@ -0,0 +1 @@
+ALTER TABLE "dataset_version_items" ADD COLUMN "recording" json;
\ No newline at end of file
@@ -0,0 +1,218 @@
+import {
+  DEFAULT_ASSIGNMENT_DUE_SETTINGS,
+  assignmentDueSettingsSchema,
+  type AssignmentDueSettings,
+  type SegmentAssignment,
+} from "@shared/schema";
+import { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+export const ASSIGNMENT_DUE_SETTINGS_KEY = "assignments.due";
+
+export type AssignmentOutcome = "submitted" | "released" | "expired" | "reclaimed";
+
+export interface OverdueSweepResult {
+  flagged: SegmentAssignment[]; // Newly found past their due date
+  reclaimed: SegmentAssignment[]; // Returned to the pool
+}
+
+export interface TranscriberSla {
+  userId: number;
+  fullName: string;
+  assignments: number;
+  submitted: number;
+  submittedOnTime: number;
+  submittedLate: number;
+  open: number;
+  openOverdue: number;
+  lost: number; // Released, expired or reclaimed without a submission
+  onTimeRate: number | null; // Share of submissions made by the due date
+  averageTurnaroundHours: number | null; // Assignment to submission
+}
+
+export interface OverdueAssignment {
+  assignmentId: number;
+  segmentId: number;
+  userId: number;
+  fullName: string;
+  dueAt: string;
+  overdueAt: string | null;
+}
+
+export interface SlaReport {
+  since: string | null;
+  generatedAt: string;
+  transcribers: TranscriberSla[];
+  overdue: OverdueAssignment[];
+}
+
+/**
+ * Project-wide due date settings (falls back to the defaults)
+ */
+export async function getAssignmentDueSettings(storage: IStorage): Promise<AssignmentDueSettings> {
+  return getProjectSettings(storage, ASSIGNMENT_DUE_SETTINGS_KEY, assignmentDueSettingsSchema, DEFAULT_ASSIGNMENT_DUE_SETTINGS);
+}
+
+/**
+ * Due date of an assignment made now when none was given
+ */
+export function getDefaultDueDate(settings: AssignmentDueSettings, from = new Date()): Date {
+  return new Date(from.getTime() + settings.defaultDueHours * 60 * 60 * 1000);
+}
+
+/**
+ * Record that `userId` now holds the segment until `dueAt`.
+ * A still-open earlier assignment of the segment is closed as released first.
+ */
+export async function openSegmentAssignment(
+  storage: IStorage,
+  segmentId: number,
+  userId: number,
+  dueAt: Date,
+  assignedBy: number | null,
+): Promise<SegmentAssignment> {
+  await closeSegmentAssignment(storage, segmentId, "released");
+  return storage.createSegmentAssignment({ segmentId, userId, dueAt, assignedBy });
+}
+
+/**
+ * Close the open assignment of a segment (no-op if there is none)
+ */
+export async function closeSegmentAssignment(
+  storage: IStorage,
+  segmentId: number,
+  outcome: AssignmentOutcome,
+  closedAt = new Date(),
+): Promise<SegmentAssignment | undefined> {
+  const assignment = await storage.getOpenSegmentAssignment(segmentId);
+  if (!assignment) {
+    return undefined;
+  }
+  return storage.updateSegmentAssignment(assignment.id, { closedAt, outcome });
+}
+
+/**
+ * Hand the open assignment of a segment to the segment that replaces it (no-op if there is none),
+ * so its holder keeps the same due date and the SLA history stays in one row
+ */
+export async function moveSegmentAssignment(
+  storage: IStorage,
+  fromSegmentId: number,
+  toSegmentId: number,
+): Promise<SegmentAssignment | undefined> {
+  const assignment = await storage.getOpenSegmentAssignment(fromSegmentId);
+  if (!assignment) {
+    return undefined;
+  }
+  return storage.updateSegmentAssignment(assignment.id, { segmentId: toSegmentId });
+}
+
+/**
+ * Flag assignments that passed their due date, and with the `reclaim` policy return segments
+ * nobody has started on (still `assigned`) to the pool once the grace period is over as well.
+ * Rejected segments already carry a transcription, so they are only flagged.
+ */
+export async function sweepOverdueAssignments(storage: IStorage, now = new Date()): Promise<OverdueSweepResult> {
+  const settings = await getAssignmentDueSettings(storage);
+  const result: OverdueSweepResult = { flagged: [], reclaimed: [] };
+  const graceMs = settings.reclaimGraceHours * 60 * 60 * 1000;
+
+  for (const assignment of await storage.getOverdueSegmentAssignments(now)) {
+    const segment = await storage.getAudioSegmentById(assignment.segmentId);
+    const stillHeld = segment && segment.assignedTo === assignment.userId
+      && (segment.status === "assigned" || segment.status === "rejected");
+
+    if (!stillHeld) {
+      // The segment moved on without going through the workflow (e.g. deleted)
+      await storage.updateSegmentAssignment(assignment.id, { closedAt: now, outcome: "released" });
+      continue;
+    }
+
+    if (settings.overdueAction === "reclaim" && segment.status === "assigned"
+        && assignment.dueAt.getTime() + graceMs <= now.getTime()) {
+      await storage.updateAudioSegment(segment.id, {
+        status: "available",
+        assignedTo: null,
+        leaseExpiresAt: null,
+        dueAt: null,
+      });
+      result.reclaimed.push(await storage.updateSegmentAssignment(assignment.id, {
+        overdueAt: assignment.overdueAt ?? now,
+        closedAt: now,
+        outcome: "reclaimed",
+      }));
+    } else if (!assignment.overdueAt) {
+      result.flagged.push(await storage.updateSegmentAssignment(assignment.id, { overdueAt: now }));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * SLA compliance per transcriber for assignments made since `since` (all time when omitted),
+ * plus every assignment that is currently overdue.
+ */
+export async function getSlaReport(storage: IStorage, since?: Date): Promise<SlaReport> {
+  const now = new Date();
+  const assignments = await storage.getSegmentAssignments({ since });
+  const users = new Map((await storage.getAllUsers()).map(user => [user.id, user]));
+  const fullNameOf = (userId: number) => users.get(userId)?.fullName ?? `User ${userId}`;
+
+  const rows = new Map<number, TranscriberSla & { turnaroundMs: number }>();
+  for (const assignment of assignments) {
+    let row = rows.get(assignment.userId);
+    if (!row) {
+      row = {
+        userId: assignment.userId,
+        fullName: fullNameOf(assignment.userId),
+        assignments: 0,
+        submitted: 0,
+        submittedOnTime: 0,
+        submittedLate: 0,
+        open: 0,
+        openOverdue: 0,
+        lost: 0,
+        onTimeRate: null,
+        averageTurnaroundHours: null,
+        turnaroundMs: 0,
+      };
+      rows.set(assignment.userId, row);
+    }
+
+    row.assignments++;
+    if (!assignment.closedAt) {
+      row.open++;
+      if (assignment.dueAt <= now) row.openOverdue++;
+    } else if (assignment.outcome === "submitted") {
+      row.submitted++;
+      if (assignment.closedAt <= assignment.dueAt) {
+        row.submittedOnTime++;
+      } else {
+        row.submittedLate++;
+      }
+      row.turnaroundMs += assignment.closedAt.getTime() - assignment.assignedAt.getTime();
+    } else {
+      row.lost++;
+    }
+  }
+
+  const transcribers = Array.from(rows.values())
+    .map(({ turnaroundMs, ...row }) => ({
+      ...row,
+      onTimeRate: row.submitted > 0 ? row.submittedOnTime / row.submitted : null,
+      averageTurnaroundHours: row.submitted > 0 ? turnaroundMs / row.submitted / (60 * 60 * 1000) : null,
+    }))
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+  const overdue = (await storage.getOverdueSegmentAssignments(now)).map(assignment => ({
+    assignmentId: assignment.id,
+    segmentId: assignment.segmentId,
+    userId: assignment.userId,
+    fullName: fullNameOf(assignment.userId),
+    dueAt: assignment.dueAt.toISOString(),
+    overdueAt: assignment.overdueAt?.toISOString() ?? null,
+  }));
+
+  return { since: since?.toISOString() ?? null, generatedAt: now.toISOString(), transcribers, overdue };
+}
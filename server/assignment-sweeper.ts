@@ -0,0 +1,52 @@
+import { IStorage } from "./storage";
+import { releaseExpiredLeases } from "./task-claiming";
+import { sweepOverdueAssignments } from "./assignment-due";
+
+// How often leases and due dates are checked
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Periodically returns claimed segments whose lease ran out to the pool,
+ * and flags (or reclaims) assignments that are past their due date
+ */
+export class AssignmentSweeper {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage) {}
+
+  start(): void {
+    this.sweepTimer = setInterval(() => {
+      this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    this.sweep();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  async sweep(): Promise<void> {
+    try {
+      const now = new Date();
+      const released = await releaseExpiredLeases(this.storage, now);
+      if (released.length > 0) {
+        console.log(`Released ${released.length} segment(s) with expired leases: ${released.map(s => s.id).join(", ")}`);
+      }
+
+      const { flagged, reclaimed } = await sweepOverdueAssignments(this.storage, now);
+      for (const assignment of flagged) {
+        console.warn(`Assignment ${assignment.id} of segment ${assignment.segmentId} to user ${assignment.userId} is overdue (due ${assignment.dueAt.toISOString()})`);
+      }
+      if (reclaimed.length > 0) {
+        console.log(`Reclaimed ${reclaimed.length} overdue segment(s): ${reclaimed.map(a => a.segmentId).join(", ")}`);
+      }
+    } catch (error) {
+      console.error("Failed to sweep assignments:", error);
+    }
+  }
+}
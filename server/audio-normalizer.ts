@@ -0,0 +1,103 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { AudioCodec, AudioNormalization } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+export const CODEC_EXTENSIONS: Record<AudioCodec, string> = {
+  wav: ".wav",
+  flac: ".flac",
+  opus: ".opus",
+};
+
+const CODEC_ARGS: Record<AudioCodec, string[]> = {
+  wav: ["-c:a", "pcm_s16le"],
+  flac: ["-c:a", "flac"],
+  opus: ["-c:a", "libopus", "-b:a", "64k"],
+};
+
+// Peak and loudness range limits passed to loudnorm alongside the integrated loudness target
+const TRUE_PEAK_DBTP = -1.5;
+const LOUDNESS_RANGE_LU = 11;
+
+/**
+ * Sample rate of the first audio stream, read with ffprobe
+ */
+async function probeSampleRate(inputPath: string): Promise<number> {
+  const { stdout } = await execFileAsync("ffprobe", [
+    "-v", "error",
+    "-select_streams", "a:0",
+    "-show_entries", "stream=sample_rate",
+    "-of", "csv=p=0",
+    inputPath,
+  ]);
+  const sampleRate = parseInt(stdout.trim(), 10);
+  if (!sampleRate) {
+    throw new Error(`Could not read the sample rate of ${inputPath}`);
+  }
+  return sampleRate;
+}
+
+/**
+ * Output sample rate for a segment. loudnorm works at 192 kHz internally, and libopus only
+ * takes a few rates, so a rate is always set when either is involved.
+ */
+async function resolveSampleRate(inputPath: string, options: AudioNormalization): Promise<number | null> {
+  if (options.sampleRate !== null) {
+    return options.sampleRate;
+  }
+  if (options.codec === "opus") {
+    return 48000;
+  }
+  return options.loudnessTarget !== null ? probeSampleRate(inputPath) : null;
+}
+
+export function buildFfmpegArgs(
+  inputPath: string,
+  outputPath: string,
+  options: AudioNormalization,
+  sampleRate: number | null,
+): string[] {
+  const args = ["-nostdin", "-y", "-loglevel", "error", "-i", inputPath, "-vn"];
+  if (options.loudnessTarget !== null) {
+    args.push("-af", `loudnorm=I=${options.loudnessTarget}:TP=${TRUE_PEAK_DBTP}:LRA=${LOUDNESS_RANGE_LU}`);
+  }
+  if (sampleRate !== null) {
+    args.push("-ar", String(sampleRate));
+  }
+  if (options.mono) {
+    args.push("-ac", "1");
+  }
+  // No encoder version or other build-specific tags, so reruns give identical files
+  args.push(...CODEC_ARGS[options.codec], "-fflags", "+bitexact", "-flags:a", "+bitexact", outputPath);
+  return args;
+}
+
+/**
+ * Resample, downmix, loudness-normalize and re-encode one segment with ffmpeg
+ */
+export async function normalizeAudio(inputPath: string, outputPath: string, options: AudioNormalization): Promise<void> {
+  const sampleRate = await resolveSampleRate(inputPath, options);
+  try {
+    await execFileAsync("ffmpeg", buildFfmpegArgs(inputPath, outputPath, options, sampleRate));
+  } catch (error: any) {
+    throw new Error(`ffmpeg failed for ${inputPath}: ${error.stderr?.trim() || error.message}`);
+  }
+}
+
+/**
+ * Human-readable list of the processing steps, for export READMEs
+ */
+export function describeNormalization(options: AudioNormalization | null): string[] {
+  if (!options) {
+    return ["Audio is copied unchanged from the segmentation output."];
+  }
+  return [
+    `Sample rate: ${options.sampleRate !== null ? `${options.sampleRate} Hz` : options.codec === "opus" ? "48000 Hz (Opus)" : "unchanged"}`,
+    `Channels: ${options.mono ? "mono (downmixed)" : "unchanged"}`,
+    `Codec: ${options.codec}`,
+    `Loudness: ${options.loudnessTarget !== null
+      ? `normalized to ${options.loudnessTarget} LUFS (EBU R128, true peak ${TRUE_PEAK_DBTP} dBTP, ffmpeg loudnorm)`
+      : "unchanged"}`,
+  ];
+}
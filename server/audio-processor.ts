@@ -1,13 +1,25 @@
 import path from "path";
+import os from "os";
 import fs from "fs/promises";
-import { exec } from "child_process";
+import { exec, spawn, type ChildProcess } from "child_process";
 import { promisify } from "util";
-import { AudioFile, type InsertAudioSegment } from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import {
+  AudioFile,
+  type InsertAudioSegment,
+  type VadSettings,
+  type DiarizationSettings,
+  vadSettingsSchema,
+  DEFAULT_VAD_SETTINGS,
+  VAD_PRESETS,
+} from "@shared/schema";
 import { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+import { processingEvents, type ProcessingStage } from "./processing-events";
 
 const execAsync = promisify(exec);
 
-interface VadSegment {
+export interface VadSegment {
   index: number;
   path: string;
   start_time: number;
@@ -21,16 +33,443 @@ interface VadResponse {
   error?: string;
 }
 
-// Map to track processing status
-const processingFiles = new Map<number, boolean>();
+export interface DiarizationAssignment {
+  id: number; // Segment ID
+  speaker: number; // Cluster number, 1-based in order of first appearance
+}
+
+interface DiarizationResponse {
+  status: 'success' | 'error';
+  assignments?: DiarizationAssignment[];
+  error?: string;
+}
+
+interface ExtractResponse {
+  status: 'success' | 'error';
+  path?: string;
+  start_time?: number;
+  end_time?: number;
+  duration?: number;
+  audio_duration?: number;
+  error?: string;
+}
+
+interface FingerprintResponse {
+  status: 'success' | 'error';
+  frames?: number;
+  duration?: number;
+  fingerprint?: string;
+  error?: string;
+}
+
+export interface ExtractedRange {
+  path: string;
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  duration: number; // in milliseconds
+  audioDuration: number; // length of the whole source audio, in milliseconds
+}
+
+// stderr lines starting with this carry progress JSON from vad_processor.py and diarize_speakers.py
+const VAD_PROGRESS_PREFIX = "PROGRESS ";
+
+// VAD processes of uploads being segmented, by audio file ID, so cancelling can stop them
+const vadProcesses = new Map<number, ChildProcess>();
+
+// Project setting key holding the default VAD profile for new uploads
+export const VAD_SETTINGS_KEY = "vad.default";
+
+export class VadSettingsError extends Error {
+  status = 400;
+}
+
+/**
+ * Project-wide default VAD settings (falls back to Silero defaults)
+ */
+export async function getProjectVadSettings(storage: IStorage): Promise<VadSettings> {
+  return getProjectSettings(storage, VAD_SETTINGS_KEY, vadSettingsSchema, DEFAULT_VAD_SETTINGS);
+}
+
+/**
+ * Build the VAD settings for an upload: preset (or project default) + per-upload overrides
+ * @param profile Optional preset name from VAD_PRESETS, or "project" for the project default
+ * @param overrides Optional partial settings, as an object or a JSON string
+ * @param fallback Base settings used when no profile is given (defaults to the project default)
+ */
+export async function resolveVadSettings(
+  storage: IStorage,
+  profile?: string,
+  overrides?: unknown,
+  fallback?: VadSettings,
+): Promise<VadSettings> {
+  let base: VadSettings;
+  if (!profile && fallback) {
+    base = fallback;
+  } else if (profile && profile !== "project") {
+    if (!(profile in VAD_PRESETS)) {
+      throw new VadSettingsError(`Unknown VAD profile "${profile}"`);
+    }
+    base = VAD_PRESETS[profile as keyof typeof VAD_PRESETS];
+  } else {
+    base = await getProjectVadSettings(storage);
+  }
+
+  let parsedOverrides: unknown = overrides;
+  if (typeof overrides === "string") {
+    try {
+      parsedOverrides = overrides.trim() ? JSON.parse(overrides) : {};
+    } catch {
+      throw new VadSettingsError("vadSettings must be valid JSON");
+    }
+  }
+
+  const result = vadSettingsSchema.partial().safeParse(parsedOverrides ?? {});
+  if (!result.success) {
+    throw new VadSettingsError(fromZodError(result.error).message);
+  }
+
+  return { ...base, ...result.data };
+}
+
+/**
+ * Command-line flags understood by vad_processor.py
+ */
+function buildVadArguments(settings: VadSettings): string[] {
+  const args = [
+    "--threshold", String(settings.threshold),
+    "--min-speech-ms", String(settings.minSpeechMs),
+    "--min-silence-ms", String(settings.minSilenceMs),
+    "--speech-pad-ms", String(settings.speechPadMs),
+  ];
+  if (settings.maxSegmentSeconds !== null) {
+    args.push("--max-segment-s", String(settings.maxSegmentSeconds));
+  }
+  return args;
+}
+
+/**
+ * Run a command and hand every stderr line to onStderrLine as it arrives
+ * (vad_processor.py reports progress there). Rejects on a non-zero exit code or when killed.
+ */
+function spawnWithStderrLines(
+  command: string,
+  args: string[],
+  onStderrLine: (line: string) => void,
+  onSpawn?: (child: ChildProcess) => void,
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    onSpawn?.(child);
+    let stdout = "";
+    let stderr = "";
+    let pending = "";
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr += text;
+      pending += text;
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach(onStderrLine);
+    });
+
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (pending) onStderrLine(pending);
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split("\n").slice(-3).join(" ")}`));
+      }
+    });
+  });
+}
+
+/**
+ * Locate a Python interpreter and log its environment for debugging
+ */
+async function findPythonCommand(): Promise<string> {
+  // Try multiple Python commands to find the available one
+  let pythonCommand = '';
+  
+  // Check for python3 command
+  try {
+    const { stdout } = await execAsync('python3 --version');
+    console.log('Python3 version:', stdout.trim());
+    pythonCommand = 'python3';
+  } catch (pythonError) {
+    console.log('Python3 not found, error:', pythonError instanceof Error ? pythonError.message : 'Unknown error');
+  }
+  
+  // If python3 failed, try python command
+  if (!pythonCommand) {
+    try {
+      const { stdout } = await execAsync('python --version');
+      console.log('Python version:', stdout.trim());
+      pythonCommand = 'python';
+    } catch (pythonError2) {
+      console.log('Python not found, error:', pythonError2 instanceof Error ? pythonError2.message : 'Unknown error');
+    }
+  }
+  
+  // If both failed, try specific paths
+  if (!pythonCommand) {
+    const possiblePaths = [
+      '/usr/bin/python3.10',
+      '/usr/bin/python3',
+      '/usr/bin/python',
+      '/usr/local/bin/python3',
+      '/usr/local/bin/python'
+    ];
+    
+    for (const path of possiblePaths) {
+      try {
+        const { stdout } = await execAsync(`${path} --version`);
+        console.log(`Python at ${path} version:`, stdout.trim());
+        pythonCommand = path;
+        break;
+      } catch (pathError) {
+        console.log(`Python not found at ${path}`);
+      }
+    }
+  }
+  
+  // If all attempts failed
+  if (!pythonCommand) {
+    console.error('No Python installation found after trying multiple paths');
+    throw new Error('Python is not installed or not in PATH. Please install Python 3.x');
+  }
+  
+  // Check Python environment
+  try {
+    const { stdout: envOutput } = await execAsync(`${pythonCommand} -c "import sys; print('Python path:', sys.executable); print('Python version:', sys.version); print('Path:', sys.path)"`); 
+    console.log('Python environment:', envOutput);
+  } catch (envError) {
+    console.warn('Could not check Python environment:', envError);
+  }
+  
+  // Check if torch is available
+  try {
+    const { stdout: torchOutput } = await execAsync(`${pythonCommand} -c "import torch; print('Torch version:', torch.__version__); print('Torch hub dir:', torch.hub.get_dir()); print('Torch available:', torch.cuda.is_available() if hasattr(torch, 'cuda') else 'N/A')"`);
+    console.log('Torch environment:', torchOutput);
+  } catch (torchError) {
+    console.warn('Could not check Torch environment:', torchError instanceof Error ? torchError.message : 'Unknown error');
+    
+    // Try to get more detailed error information
+    try {
+      const { stdout: pipList } = await execAsync(`${pythonCommand} -m pip list | grep -E 'torch|audio'`);
+      console.log('Installed torch packages:', pipList.trim());
+    } catch (pipError) {
+      console.warn('Could not check pip packages:', pipError instanceof Error ? pipError.message : 'Unknown error');
+    }
+  }
+  
+  return pythonCommand;
+}
+
+let pythonCommandPromise: Promise<string> | null = null;
+
+/**
+ * Python interpreter to use, looked up once per process
+ */
+function getPythonCommand(): Promise<string> {
+  if (!pythonCommandPromise) {
+    pythonCommandPromise = findPythonCommand().catch((error) => {
+      pythonCommandPromise = null;
+      throw error;
+    });
+  }
+  return pythonCommandPromise;
+}
 
 /**
- * Process an audio file using Silero VAD to detect speech segments
+ * Run vad_processor.py on an audio file and return the detected segments.
+ * Segment audio is written to outputDir as segment_N.wav.
+ * @param onProgress Called with the stage and percentage the script reports on stderr
+ * @param onSpawn Called with the Python process once it has started, e.g. to kill it on cancel
  */
-export async function processAudio(audioFile: AudioFile, storage: IStorage): Promise<void> {
+export async function runVad(
+  inputPath: string,
+  outputDir: string,
+  settings: VadSettings,
+  onProgress?: (stage: string, percent: number) => void,
+  onSpawn?: (child: ChildProcess) => void,
+): Promise<VadSegment[]> {
+  const pythonCommand = await getPythonCommand();
+  
+  const args = [path.join(process.cwd(), 'server', 'vad_processor.py'), inputPath, outputDir, ...buildVadArguments(settings)];
+  console.log(`Running VAD processor: ${pythonCommand} ${args.join(" ")}`);
+  
+  const { stdout, stderr } = await spawnWithStderrLines(pythonCommand, args, (line) => {
+    if (!line.startsWith(VAD_PROGRESS_PREFIX)) return;
+    try {
+      const { stage, percent } = JSON.parse(line.slice(VAD_PROGRESS_PREFIX.length));
+      onProgress?.(stage, percent);
+    } catch {
+      // Ignore malformed progress lines
+    }
+  }, onSpawn);
+  
+  // Log any stderr output for debugging (without the progress lines)
+  const stderrLog = stderr.split("\n").filter(line => line && !line.startsWith(VAD_PROGRESS_PREFIX)).join("\n");
+  if (stderrLog) {
+    console.log('VAD processor stderr:', stderrLog);
+  }
+  
+  // The script logs to stdout as well; the JSON result is always the last line
+  const resultLine = stdout.trim().split("\n").pop() ?? "";
+  let vadResponse: VadResponse;
+  try {
+    vadResponse = JSON.parse(resultLine);
+  } catch (parseError) {
+    console.error('Error parsing VAD response. Raw output:', stdout);
+    throw new Error(`Failed to parse VAD response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+  
+  if (vadResponse.status === 'error' || !vadResponse.segments) {
+    throw new Error(vadResponse.error || 'Unknown VAD processing error');
+  }
+  return vadResponse.segments;
+}
+
+/**
+ * Run diarize_speakers.py on segments of one recording and return a speaker cluster per segment
+ * @param segments Segment IDs and audio paths, in recording order
+ */
+export async function runDiarization(
+  segments: { id: number; path: string }[],
+  settings: DiarizationSettings,
+  onProgress?: (percent: number) => void,
+): Promise<DiarizationAssignment[]> {
+  const pythonCommand = await getPythonCommand();
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "diarization-"));
+  try {
+    const segmentsFile = path.join(workDir, "segments.json");
+    await fs.writeFile(segmentsFile, JSON.stringify(segments));
+
+    const args = [
+      path.join(process.cwd(), 'server', 'diarize_speakers.py'),
+      segmentsFile,
+      "--threshold", String(settings.threshold),
+      ...(settings.maxSpeakers !== null ? ["--max-speakers", String(settings.maxSpeakers)] : []),
+    ];
+    console.log(`Running diarization: ${pythonCommand} ${args.join(" ")}`);
+
+    const { stdout } = await spawnWithStderrLines(pythonCommand, args, (line) => {
+      if (!line.startsWith(VAD_PROGRESS_PREFIX)) return;
+      try {
+        onProgress?.(JSON.parse(line.slice(VAD_PROGRESS_PREFIX.length)).percent);
+      } catch {
+        // Ignore malformed progress lines
+      }
+    });
+
+    const resultLine = stdout.trim().split("\n").pop() ?? "";
+    let response: DiarizationResponse;
+    try {
+      response = JSON.parse(resultLine);
+    } catch (parseError) {
+      console.error('Error parsing diarization response. Raw output:', stdout);
+      throw new Error(`Failed to parse diarization response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+    }
+
+    if (response.status === 'error' || !response.assignments) {
+      throw new Error(response.error || 'Unknown diarization error');
+    }
+    return response.assignments;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Cut startMs..endMs out of an audio file with extract_segment.py.
+ * The range is clamped to the length of the audio; the actual range is returned.
+ */
+export async function extractAudioRange(
+  inputPath: string,
+  outputPath: string,
+  startMs: number,
+  endMs: number,
+): Promise<ExtractedRange> {
+  const pythonCommand = await getPythonCommand();
+  const command = `${pythonCommand} "${path.join(process.cwd(), 'server', 'extract_segment.py')}" "${inputPath}" "${outputPath}" ${startMs} ${endMs}`;
+  
+  const { stdout, stderr } = await execAsync(command);
+  if (stderr) {
+    console.log('Segment extraction stderr:', stderr);
+  }
+  
+  let response: ExtractResponse;
+  try {
+    response = JSON.parse(stdout);
+  } catch (parseError) {
+    console.error('Error parsing extraction response. Raw output:', stdout);
+    throw new Error(`Failed to parse extraction response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+  
+  if (response.status === 'error') {
+    throw new Error(response.error || 'Unknown segment extraction error');
+  }
+  return {
+    path: response.path!,
+    startTime: Math.round(response.start_time!),
+    endTime: Math.round(response.end_time!),
+    duration: Math.round(response.duration!),
+    audioDuration: Math.round(response.audio_duration!),
+  };
+}
+
+/**
+ * Acoustic fingerprint of an audio file from fingerprint_audio.py: base64 of one 32-bit hash per 128 ms
+ */
+export async function fingerprintAudio(inputPath: string): Promise<string> {
+  const pythonCommand = await getPythonCommand();
+  const command = `${pythonCommand} "${path.join(process.cwd(), 'server', 'fingerprint_audio.py')}" "${inputPath}"`;
+  
+  // Long recordings give a few hundred KB of output
+  const { stdout } = await execAsync(command, { maxBuffer: 16 * 1024 * 1024 });
+  
+  let response: FingerprintResponse;
+  try {
+    response = JSON.parse(stdout);
+  } catch (parseError) {
+    console.error('Error parsing fingerprint response. Raw output:', stdout);
+    throw new Error(`Failed to parse fingerprint response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+  
+  if (response.status === 'error' || response.fingerprint === undefined) {
+    throw new Error(response.error || 'Unknown fingerprinting error');
+  }
+  return response.fingerprint;
+}
+
+/**
+ * Process an audio file using Silero VAD to detect speech segments, as processing job `jobId`.
+ * Throws on failure so the processing queue can record the attempt and retry.
+ * Stops early once the job has been cancelled (its status is read from storage, so a cancel
+ * that arrived before processing started counts as well).
+ */
+export async function processAudio(audioFile: AudioFile, storage: IStorage, jobId: number): Promise<void> {
+  const isCancelled = async () => (await storage.getProcessingJobById(jobId))?.status === "cancelled";
+
   try {
-    // Mark file as processing
-    processingFiles.set(audioFile.id, true);
+    if (await isCancelled()) {
+      console.log(`Processing of file ${audioFile.id} was cancelled before it started.`);
+      return;
+    }
+    processingEvents.stage(audioFile.id, "preparing");
+
+    // Drop segments left behind by an earlier, interrupted attempt
+    const leftoverSegments = await storage.getAudioSegmentsByFileId(audioFile.id);
+    for (const segment of leftoverSegments) {
+      if (segment.status !== "deleted") {
+        await storage.deleteAudioSegment(segment.id);
+      }
+    }
 
     const uploadsDir = path.join(process.cwd(), "uploads");
     const segmentsDir = path.join(uploadsDir, "segments");
@@ -72,112 +511,27 @@ export async function processAudio(audioFile: AudioFile, storage: IStorage): Pro
       });
       
       // Check if processing was cancelled
-      if (!processingFiles.get(audioFile.id)) {
+      if (await isCancelled()) {
         console.log(`Processing of file ${audioFile.id} was cancelled.`);
         return;
       }
       
-      // Run the Python VAD processor
-      // Try multiple Python commands to find the available one
-      let pythonCommand = '';
-      
-      // Check for python3 command
-      try {
-        const { stdout } = await execAsync('python3 --version');
-        console.log('Python3 version:', stdout.trim());
-        pythonCommand = 'python3';
-      } catch (pythonError) {
-        console.log('Python3 not found, error:', pythonError instanceof Error ? pythonError.message : 'Unknown error');
-      }
-      
-      // If python3 failed, try python command
-      if (!pythonCommand) {
-        try {
-          const { stdout } = await execAsync('python --version');
-          console.log('Python version:', stdout.trim());
-          pythonCommand = 'python';
-        } catch (pythonError2) {
-          console.log('Python not found, error:', pythonError2 instanceof Error ? pythonError2.message : 'Unknown error');
-        }
-      }
-      
-      // If both failed, try specific paths
-      if (!pythonCommand) {
-        const possiblePaths = [
-          '/usr/bin/python3.10',
-          '/usr/bin/python3',
-          '/usr/bin/python',
-          '/usr/local/bin/python3',
-          '/usr/local/bin/python'
-        ];
-        
-        for (const path of possiblePaths) {
-          try {
-            const { stdout } = await execAsync(`${path} --version`);
-            console.log(`Python at ${path} version:`, stdout.trim());
-            pythonCommand = path;
-            break;
-          } catch (pathError) {
-            console.log(`Python not found at ${path}`);
-          }
-        }
-      }
-      
-      // If all attempts failed
-      if (!pythonCommand) {
-        console.error('No Python installation found after trying multiple paths');
-        throw new Error('Python is not installed or not in PATH. Please install Python 3.x');
-      }
-      
-      // Check Python environment
-      try {
-        const { stdout: envOutput } = await execAsync(`${pythonCommand} -c "import sys; print('Python path:', sys.executable); print('Python version:', sys.version); print('Path:', sys.path)"`); 
-        console.log('Python environment:', envOutput);
-      } catch (envError) {
-        console.warn('Could not check Python environment:', envError);
+      // Use the parameters stored on the upload so results are reproducible
+      const vadSettings = audioFile.vadSettings ?? DEFAULT_VAD_SETTINGS;
+      if (!audioFile.vadSettings) {
+        await storage.updateAudioFile(audioFile.id, { vadSettings });
       }
       
-      // Check if torch is available
+      let vadSegments: VadSegment[];
       try {
-        const { stdout: torchOutput } = await execAsync(`${pythonCommand} -c "import torch; print('Torch version:', torch.__version__); print('Torch hub dir:', torch.hub.get_dir()); print('Torch available:', torch.cuda.is_available() if hasattr(torch, 'cuda') else 'N/A')"`);
-        console.log('Torch environment:', torchOutput);
-      } catch (torchError) {
-        console.warn('Could not check Torch environment:', torchError instanceof Error ? torchError.message : 'Unknown error');
-        
-        // Try to get more detailed error information
-        try {
-          const { stdout: pipList } = await execAsync(`${pythonCommand} -m pip list | grep -E 'torch|audio'`);
-          console.log('Installed torch packages:', pipList.trim());
-        } catch (pipError) {
-          console.warn('Could not check pip packages:', pipError instanceof Error ? pipError.message : 'Unknown error');
-        }
-      }
-      
-      const vadCommand = `${pythonCommand} "${path.join(process.cwd(), 'server', 'vad_processor.py')}" "${audioFile.originalPath}" "${fileSegmentsDir}"`;      
-      console.log(`Running VAD processor: ${vadCommand}`);
-      
-      try {
-        const { stdout, stderr } = await execAsync(vadCommand);
-        
-        // Log any stderr output for debugging
-        if (stderr) {
-          console.log('VAD processor stderr:', stderr);
-        }
-        
-        let vadResponse: VadResponse;
-        try {
-          vadResponse = JSON.parse(stdout);
-        } catch (parseError) {
-          console.error('Error parsing VAD response. Raw output:', stdout);
-          throw new Error(`Failed to parse VAD response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-        }
-        
-        if (vadResponse.status === 'error' || !vadResponse.segments) {
-          throw new Error(vadResponse.error || 'Unknown VAD processing error');
-        }
+        vadSegments = await runVad(audioFile.originalPath, fileSegmentsDir, vadSettings, (stage, percent) => {
+          processingEvents.progress(audioFile.id, stage as ProcessingStage, percent);
+        }, (child) => vadProcesses.set(audioFile.id, child));
+        vadProcesses.delete(audioFile.id);
+        processingEvents.stage(audioFile.id, "saving_segments");
         
         // Calculate total duration from all segments
-        const totalDuration = vadResponse.segments.reduce((total, segment) => total + segment.duration, 0);
+        const totalDuration = vadSegments.reduce((total, segment) => total + segment.duration, 0);
         
         // Update audio file with total duration
         await storage.updateAudioFile(audioFile.id, {
@@ -185,7 +539,15 @@ export async function processAudio(audioFile: AudioFile, storage: IStorage): Pro
         });
         
         // Process each segment detected by VAD
-        for (const [index, segment] of vadResponse.segments.entries()) {
+        for (let index = 0; index < vadSegments.length; index++) {
+          // Stop creating segments if the job was cancelled mid-way
+          if (await isCancelled()) {
+            console.log(`Processing of file ${audioFile.id} was cancelled while creating segments.`);
+            return;
+          }
+
+          const segment = vadSegments[index];
+
           // Create segment in database
           const segmentData: InsertAudioSegment = {
             audioFileId: audioFile.id,
@@ -199,41 +561,53 @@ export async function processAudio(audioFile: AudioFile, storage: IStorage): Pro
             reviewedBy: null,
           };
           
-          await storage.createAudioSegment(segmentData);
+          const createdSegment = await storage.createAudioSegment(segmentData);
           
           // Update audio file with number of segments processed so far
           await storage.updateAudioFile(audioFile.id, {
             segments: index + 1,
           });
+          processingEvents.publish({
+            type: "segment",
+            audioFileId: audioFile.id,
+            segmentId: createdSegment.id,
+            index: index + 1,
+            total: vadSegments.length,
+          });
+          processingEvents.progress(audioFile.id, "saving_segments", (100 * (index + 1)) / vadSegments.length);
         }
       } catch (vadError) {
+        // Cancelling kills the VAD process, which is not a failure to retry
+        if (await isCancelled()) {
+          console.log(`Processing of file ${audioFile.id} was cancelled while VAD was running.`);
+          return;
+        }
         console.error(`Error processing with VAD: ${vadError}`);
         throw vadError;
       }
       
       // Mark file as processed
       await storage.updateAudioFileStatus(audioFile.id, "processed");
-      console.log(`Successfully processed audio file ${audioFile.id} into ${vadResponse.segments.length} segments.`);
+      processingEvents.stage(audioFile.id, "completed");
+      processingEvents.publish({ type: "status", audioFileId: audioFile.id, status: "processed" });
+      console.log(`Successfully processed audio file ${audioFile.id} into ${vadSegments.length} segments.`);
     } catch (durationError) {
       console.error(`Error getting audio duration: ${durationError}`);
       throw durationError;
     }
   } catch (error) {
     console.error(`Error processing audio file ${audioFile.id}:`, error);
-    
-    // Update file status to error
-    await storage.updateAudioFile(audioFile.id, {
-      status: "error",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    throw error;
   } finally {
-    processingFiles.delete(audioFile.id);
+    vadProcesses.delete(audioFile.id);
   }
 }
 
 /**
- * Cancel processing of an audio file
+ * Stop the VAD process of an audio file whose processing job was cancelled. The job status
+ * must be set to cancelled first, since processAudio checks it to tell a kill from a failure.
  */
 export async function cancelProcessing(fileId: number): Promise<void> {
-  processingFiles.set(fileId, false);
+  vadProcesses.get(fileId)?.kill();
+  vadProcesses.delete(fileId);
 }
@@ -199,3 +199,15 @@ export function isAdmin(req: Request, res: Response, next: NextFunction) {
     }
   });
 }
+
+// Reviewer middleware (admins can do everything reviewers can)
+export function isReviewer(req: Request, res: Response, next: NextFunction) {
+  verifyToken(req, res, (err) => {
+    if (err) return next(err);
+    if (req.user && (req.user.role === "reviewer" || req.user.role === "admin")) {
+      next();
+    } else {
+      res.status(403).json({ message: "Forbidden: Reviewer access required" });
+    }
+  });
+}
@@ -0,0 +1,292 @@
+import fs from "fs";
+import * as fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  DATASET_SPLITS,
+  type AudioNormalization,
+  type DatasetSplit,
+  type SplitManifest,
+  type SplitRatios,
+} from "@shared/schema";
+import type { FormattedTranscription } from "./storage";
+import { CODEC_EXTENSIONS, describeNormalization, normalizeAudio } from "./audio-normalizer";
+import { trackEntries, writeZipArchive } from "./zip-archive";
+import { buildRecordingsManifest } from "./recording-metadata";
+
+export type MetadataFormat = "csv" | "jsonl";
+
+// Share of the work done so far, 0-1
+export type ExportProgressCallback = (fraction: number) => void;
+
+export interface DatasetSplitResult {
+  splitOf: Map<number, DatasetSplit>; // Transcription ID -> split
+  manifest: SplitManifest;
+}
+
+export interface AudiofolderExportResult {
+  records: number;
+  size: number;
+  skipped: number[]; // Transcription IDs whose audio file is missing
+  manifest: SplitManifest;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so the same seed always yields the same split
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Split transcriptions into train/validation/test by ratio, keeping every segment of a
+ * source recording in the same split so no speaker or recording leaks between them.
+ * Recordings are shuffled with the seed and each goes to the split furthest below its
+ * target share of segments. The result only depends on the input, the ratios and the seed.
+ */
+export function splitBySource(
+  items: FormattedTranscription[],
+  ratios: SplitRatios,
+  seed: number,
+): DatasetSplitResult {
+  const groups = new Map<number, FormattedTranscription[]>();
+  for (const item of items) {
+    const group = groups.get(item.audioFileId) ?? [];
+    group.push(item);
+    groups.set(item.audioFileId, group);
+  }
+
+  // Sort before shuffling so storage ordering can't change the outcome
+  const audioFileIds = Array.from(groups.keys()).sort((a, b) => a - b);
+  const random = createRandom(seed);
+  for (let i = audioFileIds.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [audioFileIds[i], audioFileIds[j]] = [audioFileIds[j], audioFileIds[i]];
+  }
+
+  const manifest: SplitManifest = {
+    seed,
+    ratios,
+    splits: {
+      train: { audioFileIds: [], segmentIds: [], records: 0, durationMs: 0 },
+      validation: { audioFileIds: [], segmentIds: [], records: 0, durationMs: 0 },
+      test: { audioFileIds: [], segmentIds: [], records: 0, durationMs: 0 },
+    },
+  };
+  const splitOf = new Map<number, DatasetSplit>();
+  const activeSplits = DATASET_SPLITS.filter(split => ratios[split] > 0);
+
+  for (const audioFileId of audioFileIds) {
+    const group = groups.get(audioFileId)!;
+    const assigned = splitOf.size + group.length;
+    // Largest shortfall against the target after adding this recording; ties go to the earlier split
+    let best = activeSplits[0];
+    let bestDeficit = -Infinity;
+    for (const split of activeSplits) {
+      const deficit = ratios[split] * assigned - manifest.splits[split].records;
+      if (deficit > bestDeficit) {
+        best = split;
+        bestDeficit = deficit;
+      }
+    }
+
+    const entry = manifest.splits[best];
+    entry.audioFileIds.push(audioFileId);
+    for (const item of group.sort((a, b) => a.segmentId - b.segmentId)) {
+      entry.segmentIds.push(item.segmentId);
+      entry.records++;
+      entry.durationMs += item.duration;
+      splitOf.set(item.id, best);
+    }
+  }
+
+  for (const split of DATASET_SPLITS) {
+    manifest.splits[split].audioFileIds.sort((a, b) => a - b);
+    manifest.splits[split].segmentIds.sort((a, b) => a - b);
+  }
+
+  return { splitOf, manifest };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function audioFileName(item: FormattedTranscription, normalization: AudioNormalization | null): string {
+  const extension = normalization ? CODEC_EXTENSIONS[normalization.codec] : path.extname(item.audioPath) || ".wav";
+  return `segment_${item.segmentId}${extension}`;
+}
+
+/**
+ * Metadata rows for one split: `file_name` (relative to the metadata file) and `transcription`,
+ * plus columns that `datasets` loads as extra features
+ */
+function buildMetadata(
+  items: FormattedTranscription[],
+  format: MetadataFormat,
+  normalization: AudioNormalization | null,
+): string {
+  // Normalized exports keep the text as transcribed next to it
+  const withRaw = items.some(item => item.rawText !== undefined);
+  const rows = items.map(item => ({
+    file_name: audioFileName(item, normalization),
+    transcription: item.text,
+    ...(withRaw && { raw_transcription: item.rawText ?? item.text }),
+    // Spans of stripped tags; a list column only fits JSON Lines
+    ...(format === "jsonl" && item.annotations && { annotations: item.annotations }),
+    segment_id: item.segmentId,
+    source_file_id: item.audioFileId,
+    duration_ms: item.duration,
+  }));
+
+  if (format === "jsonl") {
+    return rows.map(row => JSON.stringify(row)).join("\n") + (rows.length > 0 ? "\n" : "");
+  }
+
+  const header = `file_name,transcription,${withRaw ? "raw_transcription," : ""}segment_id,source_file_id,duration_ms`;
+  const lines = rows.map(row => [
+    row.file_name,
+    row.transcription,
+    ...(withRaw ? [row.raw_transcription ?? ""] : []),
+    row.segment_id,
+    row.source_file_id,
+    row.duration_ms,
+  ].map(csvField).join(","));
+  return [header, ...lines].join("\n") + "\n";
+}
+
+function buildReadme(manifest: SplitManifest, format: MetadataFormat, normalization: AudioNormalization | null): string {
+  const metadataFile = format === "csv" ? "metadata.csv" : "metadata.jsonl";
+  const splitLines = DATASET_SPLITS.map(split => {
+    const entry = manifest.splits[split];
+    return `| ${split} | ${entry.records} | ${entry.audioFileIds.length} | ${(entry.durationMs / 3600000).toFixed(2)} |`;
+  });
+
+  return `# Hassaniya Speech Dataset
+
+Approved transcriptions in the Hugging Face \`audiofolder\` layout.
+
+## Loading
+
+\`\`\`python
+from datasets import load_dataset
+
+dataset = load_dataset("audiofolder", data_dir="path/to/this/folder")
+\`\`\`
+
+Each split folder holds the audio files and a \`${metadataFile}\` with \`file_name\` and \`transcription\`
+columns (plus \`segment_id\`, \`source_file_id\` and \`duration_ms\`).
+
+## Splits
+
+Split by source recording (seed ${manifest.seed}, ratios ${manifest.ratios.train}/${manifest.ratios.validation}/${manifest.ratios.test}),
+so all segments of a recording are in the same split. \`split_manifest.json\` lists the recordings and
+segments in each split, and \`recordings.json\` the source type, region, recording date, consent reference,
+license and tags of each recording (by \`source_file_id\`).
+
+| Split | Segments | Recordings | Hours |
+|-------|----------|------------|-------|
+${splitLines.join("\n")}
+
+## Audio processing
+
+${describeNormalization(normalization).map(line => `- ${line}`).join("\n")}
+`;
+}
+
+/**
+ * Write a ZIP in the `datasets` audiofolder layout (train/, validation/, test/ each with
+ * audio files and metadata) to `destination`. Transcriptions whose audio file is missing
+ * are left out before splitting, so the manifest matches the archive. With `normalization`
+ * every segment is transcoded into a temporary directory before it is added.
+ */
+export async function writeAudiofolderExport(
+  transcriptions: FormattedTranscription[],
+  options: {
+    ratios: SplitRatios;
+    seed: number;
+    metadataFormat: MetadataFormat;
+    normalization: AudioNormalization | null;
+    destination: string;
+    entryDate?: Date; // Modification date of every archive entry, so the same input gives the same bytes
+    onProgress?: ExportProgressCallback;
+  },
+): Promise<AudiofolderExportResult> {
+  const available: FormattedTranscription[] = [];
+  const skipped: number[] = [];
+  for (const item of transcriptions) {
+    try {
+      await fsPromises.access(path.resolve(item.audioPath), fs.constants.R_OK);
+      available.push(item);
+    } catch {
+      console.warn(`Audio file not found or not readable: ${item.audioPath} for transcription ID ${item.id}`);
+      skipped.push(item.id);
+    }
+  }
+
+  const { splitOf, manifest } = splitBySource(available, options.ratios, options.seed);
+  const { normalization } = options;
+
+  // Progress counts transcoded segments and written archive entries (audio, metadata, manifests, README)
+  const splitCount = DATASET_SPLITS.filter(split => manifest.splits[split].records > 0).length;
+  const expectedEntries = available.length + splitCount + 3;
+  const totalWork = expectedEntries + (normalization ? available.length : 0);
+  let transcoded = 0;
+  let archived = 0;
+  const reportProgress = () => options.onProgress?.((transcoded + archived) / totalWork);
+
+  // Transcoded segments have to outlive finalize(), which is when archiver reads them
+  const workDir = normalization ? await fsPromises.mkdtemp(path.join(os.tmpdir(), "export-audio-")) : null;
+  try {
+    await writeZipArchive(options.destination, async archive => {
+      trackEntries(archive, expectedEntries, processed => {
+        archived = processed;
+        reportProgress();
+      });
+
+      const metadataFile = options.metadataFormat === "csv" ? "metadata.csv" : "metadata.jsonl";
+      for (const split of DATASET_SPLITS) {
+        const items = available
+          .filter(item => splitOf.get(item.id) === split)
+          .sort((a, b) => a.segmentId - b.segmentId);
+        if (items.length === 0) continue;
+
+        for (const item of items) {
+          const name = audioFileName(item, normalization);
+          let source = path.resolve(item.audioPath);
+          if (normalization && workDir) {
+            const normalized = path.join(workDir, name);
+            await normalizeAudio(source, normalized, normalization);
+            source = normalized;
+            transcoded++;
+            reportProgress();
+          }
+          archive.file(source, { name: `${split}/${name}`, date: options.entryDate });
+        }
+        archive.append(buildMetadata(items, options.metadataFormat, normalization), {
+          name: `${split}/${metadataFile}`,
+          date: options.entryDate,
+        });
+      }
+
+      archive.append(JSON.stringify(manifest, null, 2), { name: "split_manifest.json", date: options.entryDate });
+      archive.append(buildRecordingsManifest(available), { name: "recordings.json", date: options.entryDate });
+      archive.append(buildReadme(manifest, options.metadataFormat, normalization), { name: "README.md", date: options.entryDate });
+    });
+  } finally {
+    if (workDir) {
+      await fsPromises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  const stats = await fsPromises.stat(options.destination);
+  return { records: available.length, size: stats.size, skipped, manifest };
+}
@@ -0,0 +1,273 @@
+import fs from "fs";
+import * as fsPromises from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import type { DatasetVersion, ExportFilter, InsertDatasetVersionItem, TranscriptionRevision } from "@shared/schema";
+import type { FormattedDatasetVersionItem, FormattedTranscription, IStorage } from "./storage";
+import { attachSpeakers } from "./speakers";
+import { attachRecordingMetadata } from "./recording-metadata";
+
+// Copies of the segment audio of versions, named by content so versions share unchanged audio
+const frozenAudioDir = path.join(process.cwd(), "uploads", "dataset-versions", "audio");
+
+export interface DatasetVersionRequest {
+  name: string;
+  description?: string | null;
+  filter: ExportFilter;
+}
+
+interface UtteranceState {
+  revision: number;
+  text: string;
+  audioPath: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface DatasetVersionDiffEntry extends UtteranceState {
+  transcriptionId: number;
+  segmentId: number;
+  audioFileId: number;
+}
+
+export interface DatasetVersionEdit {
+  transcriptionId: number;
+  segmentId: number;
+  audioFileId: number;
+  changes: ("text" | "audio")[];
+  from: UtteranceState;
+  to: UtteranceState;
+}
+
+export interface DatasetVersionDiff {
+  from: { id: number; name: string; records: number };
+  to: { id: number; name: string; records: number };
+  summary: { added: number; removed: number; edited: number; unchanged: number };
+  added: DatasetVersionDiffEntry[];
+  removed: DatasetVersionDiffEntry[];
+  edited: DatasetVersionEdit[];
+}
+
+/**
+ * Freeze the approved transcriptions matching `filter` as a named version. Each item points at
+ * the transcription's latest revision; transcriptions whose current text has no revision yet
+ * (saved before revisions were recorded) get one, so the version never refers to mutable rows.
+ * The segment audio, the speaker's fields and the recording metadata are copied as well, since
+ * editing or re-segmenting replaces segment files and speakers and metadata can be edited;
+ * utterances whose audio is missing are left out, as exports would leave them out.
+ */
+export async function createDatasetVersion(
+  storage: IStorage,
+  request: DatasetVersionRequest,
+  createdBy: number,
+): Promise<DatasetVersion> {
+  const transcriptions = await attachRecordingMetadata(
+    storage,
+    await attachSpeakers(storage, await storage.getVerifiedTranscriptions(request.filter)),
+  );
+  const latest = new Map<number, TranscriptionRevision>(
+    (await storage.getLatestTranscriptionRevisions(transcriptions.map(t => t.id)))
+      .map(revision => [revision.transcriptionId, revision]),
+  );
+
+  const items: InsertDatasetVersionItem[] = [];
+  for (const t of transcriptions) {
+    const audioPath = await freezeSegmentAudio(t.audioPath);
+    if (!audioPath) {
+      console.warn(`Audio file not found or not readable: ${t.audioPath} for transcription ID ${t.id}`);
+      continue;
+    }
+    let revision = latest.get(t.id);
+    if (!revision || revision.text !== t.text) {
+      revision = await snapshotTranscription(storage, t.id, revision);
+    }
+    items.push({
+      transcriptionId: t.id,
+      revisionId: revision.id,
+      revision: revision.revision,
+      segmentId: t.segmentId,
+      audioFileId: t.audioFileId,
+      audioPath,
+      sourcePath: t.sourcePath,
+      duration: t.duration,
+      startTime: t.startTime ?? 0,
+      endTime: t.endTime ?? t.duration,
+      speakerId: t.speakerId ?? null,
+      speaker: t.speaker ?? null,
+      recording: t.recording ?? null,
+    });
+  }
+
+  return storage.createDatasetVersion({
+    name: request.name,
+    description: request.description ?? null,
+    filter: request.filter,
+    records: items.length,
+    durationMs: items.reduce((total, item) => total + item.duration, 0),
+    createdBy,
+  }, items);
+}
+
+/**
+ * Copy segment audio into the frozen audio directory (a hard link when the file system allows it)
+ * and return the copy's path, or null when the segment file is missing
+ */
+async function freezeSegmentAudio(audioPath: string): Promise<string | null> {
+  const hash = createHash("sha256");
+  try {
+    for await (const chunk of fs.createReadStream(audioPath)) {
+      hash.update(chunk);
+    }
+  } catch {
+    return null;
+  }
+
+  const frozenPath = path.join(frozenAudioDir, `${hash.digest("hex")}${path.extname(audioPath)}`);
+  if (!fs.existsSync(frozenPath)) {
+    await fsPromises.mkdir(frozenAudioDir, { recursive: true });
+    await fsPromises.link(audioPath, frozenPath).catch(() => fsPromises.copyFile(audioPath, frozenPath));
+  }
+  return frozenPath;
+}
+
+/**
+ * Frozen audio of a version's utterances that is no longer on disk
+ */
+export async function findMissingVersionAudio(transcriptions: FormattedTranscription[]): Promise<string[]> {
+  const missing: string[] = [];
+  for (const t of transcriptions) {
+    try {
+      await fsPromises.access(t.audioPath, fs.constants.R_OK);
+    } catch {
+      missing.push(t.audioPath);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Record the current state of a transcription as a revision, attributed to its author
+ */
+async function snapshotTranscription(
+  storage: IStorage,
+  transcriptionId: number,
+  previous: TranscriptionRevision | undefined,
+): Promise<TranscriptionRevision> {
+  const transcription = await storage.getTranscriptionById(transcriptionId);
+  if (!transcription) {
+    throw new Error(`Transcription with ID ${transcriptionId} not found`);
+  }
+  return storage.createTranscriptionRevision({
+    transcriptionId: transcription.id,
+    segmentId: transcription.segmentId,
+    text: transcription.text,
+    notes: transcription.notes,
+    reviewNotes: transcription.reviewNotes,
+    rating: transcription.rating,
+    previousStatus: previous?.status ?? null,
+    status: transcription.status,
+    authorId: transcription.createdBy,
+    authorRole: null,
+  });
+}
+
+/**
+ * The utterances of a version as export records, with the text of their frozen revisions
+ */
+export async function getDatasetVersionTranscriptions(
+  storage: IStorage,
+  datasetVersionId: number,
+): Promise<FormattedTranscription[]> {
+  const items = await storage.getDatasetVersionItems(datasetVersionId);
+  return items.map(item => ({
+    id: item.transcriptionId,
+    segmentId: item.segmentId,
+    audioFileId: item.audioFileId,
+    text: item.text,
+    audioPath: item.audioPath,
+    sourcePath: item.sourcePath,
+    duration: item.duration,
+    startTime: item.startTime,
+    endTime: item.endTime,
+    speakerId: item.speakerId,
+    // Versions frozen before speakers and metadata were copied leave it to exports to look them up
+    speaker: item.speaker ?? undefined,
+    recording: item.recording ?? undefined,
+    verified: true,
+  }));
+}
+
+function toState(item: FormattedDatasetVersionItem): UtteranceState {
+  return {
+    revision: item.revision,
+    text: item.text,
+    audioPath: item.audioPath,
+    startTime: item.startTime,
+    endTime: item.endTime,
+  };
+}
+
+function toEntry(item: FormattedDatasetVersionItem): DatasetVersionDiffEntry {
+  return {
+    transcriptionId: item.transcriptionId,
+    segmentId: item.segmentId,
+    audioFileId: item.audioFileId,
+    ...toState(item),
+  };
+}
+
+/**
+ * Utterances added, removed and edited going from one version to another, matched by transcription.
+ * An utterance is edited when its text or its segment audio (path or boundaries) differs.
+ */
+export async function diffDatasetVersions(
+  storage: IStorage,
+  from: DatasetVersion,
+  to: DatasetVersion,
+): Promise<DatasetVersionDiff> {
+  const fromItems = await storage.getDatasetVersionItems(from.id);
+  const toItems = await storage.getDatasetVersionItems(to.id);
+  const fromById = new Map(fromItems.map(item => [item.transcriptionId, item]));
+  const toIds = new Set(toItems.map(item => item.transcriptionId));
+
+  const added: DatasetVersionDiffEntry[] = [];
+  const edited: DatasetVersionEdit[] = [];
+  let unchanged = 0;
+  for (const item of toItems) {
+    const previous = fromById.get(item.transcriptionId);
+    if (!previous) {
+      added.push(toEntry(item));
+      continue;
+    }
+
+    const changes: DatasetVersionEdit["changes"] = [];
+    if (previous.text !== item.text) {
+      changes.push("text");
+    }
+    if (previous.audioPath !== item.audioPath || previous.startTime !== item.startTime || previous.endTime !== item.endTime) {
+      changes.push("audio");
+    }
+    if (changes.length === 0) {
+      unchanged++;
+      continue;
+    }
+    edited.push({
+      transcriptionId: item.transcriptionId,
+      segmentId: item.segmentId,
+      audioFileId: item.audioFileId,
+      changes,
+      from: toState(previous),
+      to: toState(item),
+    });
+  }
+  const removed = fromItems.filter(item => !toIds.has(item.transcriptionId)).map(toEntry);
+
+  return {
+    from: { id: from.id, name: from.name, records: from.records },
+    to: { id: to.id, name: to.name, records: to.records },
+    summary: { added: added.length, removed: removed.length, edited: edited.length, unchanged },
+    added,
+    removed,
+    edited,
+  };
+}
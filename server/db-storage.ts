@@ -0,0 +1,1030 @@
+import {
+  users, type User, type InsertUser,
+  audioFiles, type AudioFile, type InsertAudioFile,
+  audioSegments, type AudioSegment, type InsertAudioSegment,
+  speakers, type Speaker, type InsertSpeaker,
+  transcriptions, type Transcription, type InsertTranscription,
+  transcriptionRevisions, type TranscriptionRevision, type InsertTranscriptionRevision,
+  segmentAssignments, type SegmentAssignment, type InsertSegmentAssignment,
+  dataExports, type Export, type InsertExport,
+  exportAudits, type ExportAudit, type InsertExportAudit,
+  processingJobs, type ProcessingJob, type InsertProcessingJob,
+  projectSettings, type ProjectSetting,
+  type ExportFilter, ANNOTATION_TAG_PATTERN,
+  datasetVersions, type DatasetVersion, type InsertDatasetVersion,
+  datasetVersionItems, type InsertDatasetVersionItem, type DatasetVersionTaint
+} from "@shared/schema";
+import { and, arrayOverlaps, asc, count, desc, eq, gte, inArray, isNotNull, isNull, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { scrypt, randomBytes } from "crypto";
+import { promisify } from "util";
+import path from "path";
+import type pg from "pg";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Store as SessionStore } from "express-session";
+import type { Database } from "./db";
+import type {
+  IStorage,
+  TaskSummary,
+  TranscriptionTask,
+  UserUpdate,
+  AudioSegmentUpdate,
+  SpeakerUpdate,
+  AudioFileUpdate,
+  AudioFingerprint,
+  RecentActivity,
+  FormattedTranscription,
+  TranscriptionUpdate,
+  FormattedExport,
+  ExportUpdate,
+  FormattedDatasetVersion,
+  FormattedDatasetVersionItem,
+  FormattedTranscriptionRevision,
+  ReviewQueueItem,
+  ProcessingJobUpdate,
+  ClaimNextSegmentOptions,
+  ClaimNextSegmentResult,
+  SegmentAssignmentUpdate,
+  SegmentAssignmentFilter,
+} from "./storage";
+
+const scryptAsync = promisify(scrypt);
+const PostgresSessionStore = connectPg(session);
+
+// Folder generated by `npm run db:generate` from shared/schema.ts
+const MIGRATIONS_FOLDER = path.join(process.cwd(), "migrations");
+
+// Advisory lock namespace serializing claims per user, so the open-assignment cap holds across requests
+const CLAIM_LOCK_NAMESPACE = 7301;
+
+// Rows or IDs per statement, keeping large dataset versions under PostgreSQL's 65535 bind parameters
+const BATCH_SIZE = 1000;
+
+// Segments a user has taken but not yet submitted
+const openAssignmentFor = (userId: number) => and(
+  eq(audioSegments.assignedTo, userId),
+  inArray(audioSegments.status, ["assigned", "rejected"]),
+);
+
+/**
+ * IStorage implementation backed by PostgreSQL through Drizzle.
+ * Mirrors the behaviour of MemStorage so the two can be swapped by configuration.
+ */
+export class DbStorage implements IStorage {
+  sessionStore: SessionStore;
+
+  constructor(private db: Database, pool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    }) as SessionStore;
+  }
+
+  // Apply pending migrations and seed the default admin user
+  async init(): Promise<void> {
+    await migrate(this.db, { migrationsFolder: MIGRATIONS_FOLDER });
+    await this.createInitialAdminUser();
+  }
+
+  private async createInitialAdminUser() {
+    const existingAdmin = await this.getUserByUsername("admin");
+    if (existingAdmin) {
+      return;
+    }
+
+    const salt = randomBytes(16).toString("hex");
+    const hash = await scryptAsync("admin123", salt, 64) as Buffer;
+    const password = `${hash.toString("hex")}.${salt}`;
+
+    await this.createUser({
+      username: "admin",
+      password,
+      fullName: "Admin User",
+      role: "admin",
+    });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async updateUser(id: number, update: UserUpdate): Promise<User> {
+    const user = await this.getUser(id);
+    if (!user) {
+      throw new Error(`User with ID ${id} not found`);
+    }
+
+    const [updatedUser] = await this.db.update(users)
+      .set({
+        ...(update.username && { username: update.username }),
+        ...(update.password && { password: update.password }),
+        ...(update.fullName && { fullName: update.fullName }),
+        ...(update.role && { role: update.role }),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser ?? user;
+  }
+
+  // Audio file operations
+  async createAudioFile(file: InsertAudioFile): Promise<AudioFile> {
+    const [audioFile] = await this.db.insert(audioFiles).values(file).returning();
+    return audioFile;
+  }
+
+  async getAudioFiles(userId: number | null, isAdmin: boolean): Promise<any[]> {
+    const files = await this.db.select().from(audioFiles)
+      .where(isAdmin ? undefined : eq(audioFiles.uploadedBy, userId ?? -1))
+      .orderBy(asc(audioFiles.id));
+
+    return files.map(file => ({
+      id: file.id,
+      filename: file.filename,
+      size: file.size,
+      uploadedAt: file.createdAt ? file.createdAt.toISOString() : null,
+      status: file.status,
+      segments: file.segments,
+      sourceType: file.sourceType,
+      region: file.region,
+      recordingDate: file.recordingDate,
+      consentRef: file.consentRef,
+      license: file.license,
+      tags: file.tags,
+      consentStatus: file.consentStatus,
+      consentNote: file.consentNote,
+      duplicateOfId: file.duplicateOfId,
+      duplicateKind: file.duplicateKind,
+      duplicateSimilarity: file.duplicateSimilarity,
+      duplicateStatus: file.duplicateStatus,
+    }));
+  }
+
+  async getAudioFileById(id: number): Promise<AudioFile | undefined> {
+    const [file] = await this.db.select().from(audioFiles).where(eq(audioFiles.id, id));
+    return file;
+  }
+
+  async updateAudioFile(id: number, updates: AudioFileUpdate): Promise<AudioFile> {
+    const [updatedFile] = await this.db.update(audioFiles)
+      .set({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.processedPath !== undefined && { processedPath: updates.processedPath }),
+        ...(updates.segments !== undefined && { segments: updates.segments }),
+        ...(updates.duration !== undefined && { duration: updates.duration }),
+        ...(updates.error !== undefined && { error: updates.error }),
+        ...(updates.vadSettings !== undefined && { vadSettings: updates.vadSettings }),
+        ...(updates.sourceType !== undefined && { sourceType: updates.sourceType }),
+        ...(updates.region !== undefined && { region: updates.region }),
+        ...(updates.recordingDate !== undefined && { recordingDate: updates.recordingDate }),
+        ...(updates.consentRef !== undefined && { consentRef: updates.consentRef }),
+        ...(updates.license !== undefined && { license: updates.license }),
+        ...(updates.tags !== undefined && { tags: updates.tags }),
+        ...(updates.consentStatus !== undefined && { consentStatus: updates.consentStatus }),
+        ...(updates.consentNote !== undefined && { consentNote: updates.consentNote }),
+        ...(updates.consentUpdatedAt !== undefined && { consentUpdatedAt: updates.consentUpdatedAt }),
+        ...(updates.consentUpdatedBy !== undefined && { consentUpdatedBy: updates.consentUpdatedBy }),
+        ...(updates.fingerprint !== undefined && { fingerprint: updates.fingerprint }),
+        ...(updates.duplicateOfId !== undefined && { duplicateOfId: updates.duplicateOfId }),
+        ...(updates.duplicateKind !== undefined && { duplicateKind: updates.duplicateKind }),
+        ...(updates.duplicateSimilarity !== undefined && { duplicateSimilarity: updates.duplicateSimilarity }),
+        ...(updates.duplicateStatus !== undefined && { duplicateStatus: updates.duplicateStatus }),
+        updatedAt: new Date(),
+      })
+      .where(eq(audioFiles.id, id))
+      .returning();
+
+    if (!updatedFile) {
+      throw new Error(`Audio file with ID ${id} not found`);
+    }
+    return updatedFile;
+  }
+
+  async getAudioFilesByContentHash(contentHash: string): Promise<AudioFile[]> {
+    return this.db.select().from(audioFiles)
+      .where(and(eq(audioFiles.contentHash, contentHash), ne(audioFiles.status, "deleted")))
+      .orderBy(asc(audioFiles.id));
+  }
+
+  async getAudioFingerprints(): Promise<AudioFingerprint[]> {
+    const rows = await this.db
+      .select({ id: audioFiles.id, filename: audioFiles.filename, fingerprint: audioFiles.fingerprint })
+      .from(audioFiles)
+      .where(and(isNotNull(audioFiles.fingerprint), ne(audioFiles.status, "deleted")))
+      .orderBy(asc(audioFiles.id));
+    return rows.map(row => ({ ...row, fingerprint: row.fingerprint! }));
+  }
+
+  async updateAudioFileStatus(id: number, status: string): Promise<AudioFile> {
+    return this.updateAudioFile(id, { status });
+  }
+
+  async getAllAudioFileRecords(): Promise<AudioFile[]> {
+    return this.db.select().from(audioFiles).orderBy(asc(audioFiles.id));
+  }
+
+  async deleteAudioFile(id: number): Promise<boolean> {
+    const [file] = await this.db.update(audioFiles)
+      .set({ status: "deleted" })
+      .where(eq(audioFiles.id, id))
+      .returning({ id: audioFiles.id });
+    return !!file;
+  }
+
+  // Audio segment operations
+  async createAudioSegment(segment: InsertAudioSegment): Promise<AudioSegment> {
+    const [audioSegment] = await this.db.insert(audioSegments).values(segment).returning();
+    return audioSegment;
+  }
+
+  async getAudioSegmentById(id: number): Promise<AudioSegment | undefined> {
+    const [segment] = await this.db.select().from(audioSegments).where(eq(audioSegments.id, id));
+    return segment;
+  }
+
+  async updateAudioSegment(id: number, updates: AudioSegmentUpdate): Promise<AudioSegment> {
+    const [updatedSegment] = await this.db.update(audioSegments)
+      .set({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.assignedTo !== undefined && { assignedTo: updates.assignedTo }),
+        ...(updates.transcribedBy !== undefined && { transcribedBy: updates.transcribedBy }),
+        ...(updates.reviewedBy !== undefined && { reviewedBy: updates.reviewedBy }),
+        ...(updates.segmentPath !== undefined && { segmentPath: updates.segmentPath }),
+        ...(updates.startTime !== undefined && { startTime: updates.startTime }),
+        ...(updates.endTime !== undefined && { endTime: updates.endTime }),
+        ...(updates.duration !== undefined && { duration: updates.duration }),
+        ...(updates.leaseExpiresAt !== undefined && { leaseExpiresAt: updates.leaseExpiresAt }),
+        ...(updates.dueAt !== undefined && { dueAt: updates.dueAt }),
+        ...(updates.speakerId !== undefined && { speakerId: updates.speakerId }),
+        updatedAt: new Date(),
+      })
+      .where(eq(audioSegments.id, id))
+      .returning();
+
+    if (!updatedSegment) {
+      throw new Error(`Audio segment with ID ${id} not found`);
+    }
+    return updatedSegment;
+  }
+
+  async updateAudioSegmentStatus(id: number, status: string): Promise<AudioSegment> {
+    return this.updateAudioSegment(id, { status });
+  }
+
+  async getAudioSegmentsByFileId(fileId: number): Promise<AudioSegment[]> {
+    return this.db.select().from(audioSegments)
+      .where(eq(audioSegments.audioFileId, fileId))
+      .orderBy(asc(audioSegments.id));
+  }
+
+  async getAudioSegments(fileId: number): Promise<AudioSegment[]> {
+    return this.getAudioSegmentsByFileId(fileId);
+  }
+
+  // Speaker operations
+  async createSpeaker(speaker: InsertSpeaker): Promise<Speaker> {
+    const [newSpeaker] = await this.db.insert(speakers).values(speaker).returning();
+    return newSpeaker;
+  }
+
+  async getSpeakerById(id: number): Promise<Speaker | undefined> {
+    const [speaker] = await this.db.select().from(speakers).where(eq(speakers.id, id));
+    return speaker;
+  }
+
+  async getSpeakersByFileId(audioFileId: number): Promise<Speaker[]> {
+    return this.db.select().from(speakers)
+      .where(eq(speakers.audioFileId, audioFileId))
+      .orderBy(asc(speakers.id));
+  }
+
+  async getSpeakersByIds(ids: number[]): Promise<Speaker[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.db.select().from(speakers).where(inArray(speakers.id, ids));
+  }
+
+  async updateSpeaker(id: number, updates: SpeakerUpdate): Promise<Speaker> {
+    const [updatedSpeaker] = await this.db.update(speakers)
+      .set({
+        ...(updates.label !== undefined && { label: updates.label }),
+        ...(updates.gender !== undefined && { gender: updates.gender }),
+        ...(updates.dialectRegion !== undefined && { dialectRegion: updates.dialectRegion }),
+        ...(updates.ageBand !== undefined && { ageBand: updates.ageBand }),
+        ...(updates.source !== undefined && { source: updates.source }),
+      })
+      .where(eq(speakers.id, id))
+      .returning();
+
+    if (!updatedSpeaker) {
+      throw new Error(`Speaker with ID ${id} not found`);
+    }
+    return updatedSpeaker;
+  }
+
+  async deleteSpeaker(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(audioSegments).set({ speakerId: null }).where(eq(audioSegments.speakerId, id));
+      const [deleted] = await tx.delete(speakers).where(eq(speakers.id, id)).returning({ id: speakers.id });
+      return !!deleted;
+    });
+  }
+
+  async getAvailableSegments(): Promise<AudioSegment[]> {
+    return this.db.select().from(audioSegments)
+      .where(eq(audioSegments.status, "available"))
+      .orderBy(asc(audioSegments.createdAt), asc(audioSegments.id));
+  }
+
+  async getAllSegments(): Promise<AudioSegment[]> {
+    return this.db.select().from(audioSegments).orderBy(asc(audioSegments.id));
+  }
+
+  // Task claiming operations
+  async countOpenAssignments(userId: number): Promise<number> {
+    const [row] = await this.db.select({ open: count() })
+      .from(audioSegments)
+      .where(openAssignmentFor(userId));
+    return Number(row.open);
+  }
+
+  async claimNextSegment(userId: number, options: ClaimNextSegmentOptions): Promise<ClaimNextSegmentResult> {
+    return this.db.transaction(async (tx) => {
+      // Held until commit, so two claims by the same user can't both pass the cap check
+      await tx.execute(sql`select pg_advisory_xact_lock(${CLAIM_LOCK_NAMESPACE}, ${userId})`);
+
+      const [row] = await tx.select({ open: count() })
+        .from(audioSegments)
+        .where(openAssignmentFor(userId));
+      const openAssignments = Number(row.open);
+      if (openAssignments >= options.maxOpenAssignments) {
+        return { openAssignments };
+      }
+
+      // SKIP LOCKED hands concurrent claimers different segments instead of making them wait
+      const nextSegmentId = tx.select({ id: audioSegments.id })
+        .from(audioSegments)
+        .where(and(
+          eq(audioSegments.status, "available"),
+          options.audioFileId !== undefined ? eq(audioSegments.audioFileId, options.audioFileId) : undefined,
+          options.segmentId !== undefined ? eq(audioSegments.id, options.segmentId) : undefined,
+        ))
+        .orderBy(asc(audioSegments.createdAt), asc(audioSegments.id))
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      const [segment] = await tx.update(audioSegments)
+        .set({
+          status: "assigned",
+          assignedTo: userId,
+          leaseExpiresAt: options.leaseExpiresAt,
+          dueAt: options.dueAt,
+          updatedAt: new Date(),
+        })
+        .where(inArray(audioSegments.id, nextSegmentId))
+        .returning();
+      return { segment, openAssignments };
+    });
+  }
+
+  async releaseExpiredLeases(now: Date): Promise<AudioSegment[]> {
+    return this.db.update(audioSegments)
+      .set({ status: "available", assignedTo: null, leaseExpiresAt: null, dueAt: null, updatedAt: new Date() })
+      .where(and(eq(audioSegments.status, "assigned"), lte(audioSegments.leaseExpiresAt, now)))
+      .returning();
+  }
+
+  async deleteAudioSegment(id: number): Promise<boolean> {
+    const [segment] = await this.db.update(audioSegments)
+      .set({ status: "deleted" })
+      .where(eq(audioSegments.id, id))
+      .returning({ id: audioSegments.id });
+    return !!segment;
+  }
+
+  // Transcription operations
+  async createTranscription(transcription: InsertTranscription): Promise<Transcription> {
+    const [newTranscription] = await this.db.insert(transcriptions).values(transcription).returning();
+    return newTranscription;
+  }
+
+  async getTranscriptionById(id: number): Promise<Transcription | undefined> {
+    const [transcription] = await this.db.select().from(transcriptions).where(eq(transcriptions.id, id));
+    return transcription;
+  }
+
+  async getTranscriptionBySegmentId(segmentId: number): Promise<Transcription | undefined> {
+    const [transcription] = await this.db.select().from(transcriptions)
+      .where(eq(transcriptions.segmentId, segmentId))
+      .orderBy(asc(transcriptions.id))
+      .limit(1);
+    return transcription;
+  }
+
+  async updateTranscription(id: number, updates: TranscriptionUpdate): Promise<Transcription> {
+    const [updatedTranscription] = await this.db.update(transcriptions)
+      .set({
+        ...(updates.segmentId !== undefined && { segmentId: updates.segmentId }),
+        ...(updates.text !== undefined && { text: updates.text }),
+        ...(updates.notes !== undefined && { notes: updates.notes }),
+        ...(updates.reviewedBy !== undefined && { reviewedBy: updates.reviewedBy }),
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.rating !== undefined && { rating: updates.rating }),
+        ...(updates.reviewNotes !== undefined && { reviewNotes: updates.reviewNotes }),
+        ...(updates.flaggedReason !== undefined && { flaggedReason: updates.flaggedReason }),
+        updatedAt: new Date(),
+      })
+      .where(eq(transcriptions.id, id))
+      .returning();
+
+    if (!updatedTranscription) {
+      throw new Error(`Transcription with ID ${id} not found`);
+    }
+    return updatedTranscription;
+  }
+
+  async getTranscriptionTasks(userId: number, status?: string): Promise<TranscriptionTask[]> {
+    const user = await this.getUser(userId);
+    const isAdmin = user?.role === 'admin';
+
+    const involvesUser = or(
+      eq(audioSegments.assignedTo, userId),
+      eq(audioSegments.transcribedBy, userId),
+      eq(audioSegments.reviewedBy, userId),
+    );
+
+    // Same filter rules as MemStorage.getTranscriptionTasks
+    let condition: SQL | undefined;
+    if (status === "assigned") {
+      condition = eq(audioSegments.assignedTo, userId);
+    } else if (status === "review") {
+      condition = isAdmin
+        ? eq(audioSegments.status, "transcribed")
+        : and(eq(audioSegments.status, "transcribed"), eq(audioSegments.reviewedBy, userId));
+    } else if (status === "completed") {
+      condition = eq(audioSegments.status, "reviewed");
+    } else if (!isAdmin) {
+      condition = involvesUser;
+    }
+
+    const rows = await this.db
+      .select({ segment: audioSegments, assignee: users })
+      .from(audioSegments)
+      .leftJoin(users, eq(audioSegments.assignedTo, users.id))
+      .where(condition)
+      .orderBy(asc(audioSegments.id));
+
+    return rows.map(({ segment, assignee }) => ({
+      id: segment.id,
+      audioId: `Segment_${segment.id}`,
+      duration: segment.duration ?? 0,
+      assignedTo: assignee ? assignee.fullName : "Unassigned",
+      status: segment.status,
+      dueDate: segment.dueAt?.toISOString() ?? null,
+      overdue: !!segment.dueAt && segment.dueAt.getTime() < Date.now(),
+    }));
+  }
+
+  async getVerifiedTranscriptions(filter: ExportFilter = {}): Promise<FormattedTranscription[]> {
+    const conditions: SQL[] = [eq(transcriptions.status, 'approved')];
+    if (filter.startDate) {
+      conditions.push(gte(transcriptions.updatedAt, new Date(filter.startDate)));
+    }
+    if (filter.endDate) {
+      conditions.push(lte(transcriptions.updatedAt, new Date(filter.endDate)));
+    }
+    if (filter.audioFileIds?.length) {
+      conditions.push(inArray(audioSegments.audioFileId, filter.audioFileIds));
+    }
+    if (filter.uploaderIds?.length) {
+      conditions.push(inArray(audioFiles.uploadedBy, filter.uploaderIds));
+    }
+    if (filter.transcriberIds?.length) {
+      conditions.push(inArray(transcriptions.createdBy, filter.transcriberIds));
+    }
+    if (filter.reviewerIds?.length) {
+      conditions.push(inArray(transcriptions.reviewedBy, filter.reviewerIds));
+    }
+    if (filter.minRating !== undefined) {
+      conditions.push(gte(transcriptions.rating, filter.minRating));
+    }
+    if (filter.minDurationMs !== undefined) {
+      conditions.push(gte(audioSegments.duration, filter.minDurationMs));
+    }
+    if (filter.maxDurationMs !== undefined) {
+      conditions.push(lte(audioSegments.duration, filter.maxDurationMs));
+    }
+    if (filter.minTextLength !== undefined) {
+      conditions.push(sql`char_length(${transcriptions.text}) >= ${filter.minTextLength}`);
+    }
+    if (filter.maxTextLength !== undefined) {
+      conditions.push(sql`char_length(${transcriptions.text}) <= ${filter.maxTextLength}`);
+    }
+    if (filter.excludeWithNotes) {
+      conditions.push(or(isNull(transcriptions.notes), sql`trim(${transcriptions.notes}) = ''`)!);
+    }
+    if (filter.excludeTagged) {
+      conditions.push(sql`${transcriptions.text} !~ ${ANNOTATION_TAG_PATTERN}`);
+    }
+    if (filter.sourceTypes?.length) {
+      conditions.push(inArray(audioFiles.sourceType, filter.sourceTypes));
+    }
+    if (filter.regions?.length) {
+      conditions.push(inArray(audioFiles.region, filter.regions));
+    }
+    if (filter.licenses?.length) {
+      conditions.push(inArray(audioFiles.license, filter.licenses));
+    }
+    if (filter.recordingTags?.length) {
+      conditions.push(arrayOverlaps(audioFiles.tags, filter.recordingTags));
+    }
+    if (filter.recordedAfter) {
+      conditions.push(gte(audioFiles.recordingDate, filter.recordedAfter));
+    }
+    if (filter.recordedBefore) {
+      conditions.push(lte(audioFiles.recordingDate, filter.recordedBefore));
+    }
+    if (filter.requireConsentRef) {
+      conditions.push(sql`coalesce(${audioFiles.consentRef}, '') <> ''`);
+    }
+
+    const rows = await this.db
+      .select({ transcription: transcriptions, segment: audioSegments, sourcePath: audioFiles.originalPath })
+      .from(transcriptions)
+      .innerJoin(audioSegments, eq(transcriptions.segmentId, audioSegments.id))
+      .innerJoin(audioFiles, eq(audioSegments.audioFileId, audioFiles.id))
+      .where(and(...conditions))
+      .orderBy(asc(transcriptions.id));
+
+    return rows
+      .filter(({ segment }) => segment.status !== 'deleted' && segment.segmentPath && segment.duration !== null)
+      .map(({ transcription, segment, sourcePath }) => ({
+        id: transcription.id,
+        segmentId: segment.id,
+        audioFileId: segment.audioFileId,
+        text: transcription.text,
+        audioPath: segment.segmentPath,
+        sourcePath,
+        duration: segment.duration,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        speakerId: segment.speakerId,
+        verified: transcription.status === 'approved'
+      }));
+  }
+
+  // Review routing operations
+  async getReviewQueue(reviewerId: number | null): Promise<ReviewQueueItem[]> {
+    const transcribers = alias(users, "transcribers");
+    const reviewers = alias(users, "reviewers");
+    const conditions: SQL[] = [eq(audioSegments.status, "transcribed")];
+    if (reviewerId !== null) {
+      conditions.push(eq(audioSegments.reviewedBy, reviewerId));
+    }
+
+    const rows = await this.db
+      .select({ segment: audioSegments, transcription: transcriptions, transcriber: transcribers, reviewer: reviewers })
+      .from(audioSegments)
+      .leftJoin(transcriptions, eq(transcriptions.segmentId, audioSegments.id))
+      .leftJoin(transcribers, eq(audioSegments.transcribedBy, transcribers.id))
+      .leftJoin(reviewers, eq(audioSegments.reviewedBy, reviewers.id))
+      .where(and(...conditions))
+      .orderBy(asc(transcriptions.updatedAt), asc(audioSegments.id));
+
+    return rows.map(({ segment, transcription, transcriber, reviewer }) => ({
+      segmentId: segment.id,
+      audioId: `Segment_${segment.id}`,
+      audioFileId: segment.audioFileId,
+      duration: segment.duration,
+      transcriptionId: transcription?.id ?? null,
+      transcribedBy: segment.transcribedBy,
+      transcriberName: transcriber?.fullName || (segment.transcribedBy ? `User ${segment.transcribedBy}` : "Unknown"),
+      reviewerId: segment.reviewedBy,
+      reviewerName: reviewer?.fullName ?? (segment.reviewedBy ? `User ${segment.reviewedBy}` : null),
+      submittedAt: transcription?.updatedAt?.toISOString() ?? null,
+    }));
+  }
+
+  async getPendingReviewCounts(): Promise<Record<number, number>> {
+    const rows = await this.db
+      .select({ reviewerId: audioSegments.reviewedBy, pending: count() })
+      .from(audioSegments)
+      .where(and(eq(audioSegments.status, "transcribed"), sql`${audioSegments.reviewedBy} is not null`))
+      .groupBy(audioSegments.reviewedBy);
+
+    const counts: Record<number, number> = {};
+    for (const row of rows) {
+      counts[row.reviewerId!] = Number(row.pending);
+    }
+    return counts;
+  }
+
+  // Segment assignment operations
+  async createSegmentAssignment(assignment: InsertSegmentAssignment): Promise<SegmentAssignment> {
+    const [newAssignment] = await this.db.insert(segmentAssignments).values(assignment).returning();
+    return newAssignment;
+  }
+
+  async getOpenSegmentAssignment(segmentId: number): Promise<SegmentAssignment | undefined> {
+    const [assignment] = await this.db.select().from(segmentAssignments)
+      .where(and(eq(segmentAssignments.segmentId, segmentId), isNull(segmentAssignments.closedAt)))
+      .orderBy(desc(segmentAssignments.id))
+      .limit(1);
+    return assignment;
+  }
+
+  async updateSegmentAssignment(id: number, updates: SegmentAssignmentUpdate): Promise<SegmentAssignment> {
+    const [updatedAssignment] = await this.db.update(segmentAssignments)
+      .set({
+        ...(updates.segmentId !== undefined && { segmentId: updates.segmentId }),
+        ...(updates.dueAt !== undefined && { dueAt: updates.dueAt }),
+        ...(updates.overdueAt !== undefined && { overdueAt: updates.overdueAt }),
+        ...(updates.closedAt !== undefined && { closedAt: updates.closedAt }),
+        ...(updates.outcome !== undefined && { outcome: updates.outcome }),
+      })
+      .where(eq(segmentAssignments.id, id))
+      .returning();
+
+    if (!updatedAssignment) {
+      throw new Error(`Segment assignment with ID ${id} not found`);
+    }
+    return updatedAssignment;
+  }
+
+  async getSegmentAssignments(filter: SegmentAssignmentFilter = {}): Promise<SegmentAssignment[]> {
+    const conditions: SQL[] = [];
+    if (filter.userId !== undefined) {
+      conditions.push(eq(segmentAssignments.userId, filter.userId));
+    }
+    if (filter.since !== undefined) {
+      conditions.push(gte(segmentAssignments.assignedAt, filter.since));
+    }
+    if (filter.open !== undefined) {
+      conditions.push(filter.open ? isNull(segmentAssignments.closedAt) : isNotNull(segmentAssignments.closedAt));
+    }
+
+    return this.db.select().from(segmentAssignments)
+      .where(and(...conditions))
+      .orderBy(asc(segmentAssignments.id));
+  }
+
+  async getOverdueSegmentAssignments(now: Date): Promise<SegmentAssignment[]> {
+    return this.db.select().from(segmentAssignments)
+      .where(and(isNull(segmentAssignments.closedAt), lte(segmentAssignments.dueAt, now)))
+      .orderBy(asc(segmentAssignments.dueAt), asc(segmentAssignments.id));
+  }
+
+  // Transcription revision operations
+  async createTranscriptionRevision(revision: InsertTranscriptionRevision): Promise<TranscriptionRevision> {
+    // Numbered in the insert itself; the unique index rejects a concurrent save that picked the same number
+    const nextRevision = sql<number>`(
+      select coalesce(max(${transcriptionRevisions.revision}), 0) + 1
+      from ${transcriptionRevisions}
+      where ${transcriptionRevisions.transcriptionId} = ${revision.transcriptionId}
+    )`;
+    const [newRevision] = await this.db.insert(transcriptionRevisions)
+      .values({ ...revision, revision: nextRevision })
+      .returning();
+    return newRevision;
+  }
+
+  async getTranscriptionRevisions(transcriptionId: number): Promise<FormattedTranscriptionRevision[]> {
+    const rows = await this.db
+      .select({ revision: transcriptionRevisions, author: users })
+      .from(transcriptionRevisions)
+      .leftJoin(users, eq(transcriptionRevisions.authorId, users.id))
+      .where(eq(transcriptionRevisions.transcriptionId, transcriptionId))
+      .orderBy(asc(transcriptionRevisions.revision));
+
+    return rows.map(({ revision, author }) => ({
+      ...revision,
+      authorName: author?.fullName || `User ${revision.authorId}`,
+    }));
+  }
+
+  async getLatestTranscriptionRevisions(transcriptionIds: number[]): Promise<TranscriptionRevision[]> {
+    const latest: TranscriptionRevision[] = [];
+    for (let i = 0; i < transcriptionIds.length; i += BATCH_SIZE) {
+      const batch = transcriptionIds.slice(i, i + BATCH_SIZE);
+      latest.push(...await this.db
+        .selectDistinctOn([transcriptionRevisions.transcriptionId])
+        .from(transcriptionRevisions)
+        .where(inArray(transcriptionRevisions.transcriptionId, batch))
+        .orderBy(asc(transcriptionRevisions.transcriptionId), desc(transcriptionRevisions.revision)));
+    }
+    return latest;
+  }
+
+  // Dataset version operations
+  async createDatasetVersion(version: InsertDatasetVersion, items: InsertDatasetVersionItem[]): Promise<DatasetVersion> {
+    return this.db.transaction(async (tx) => {
+      const [datasetVersion] = await tx.insert(datasetVersions).values(version).returning();
+      for (let i = 0; i < items.length; i += BATCH_SIZE) {
+        await tx.insert(datasetVersionItems).values(
+          items.slice(i, i + BATCH_SIZE).map(item => ({ ...item, datasetVersionId: datasetVersion.id })),
+        );
+      }
+      return datasetVersion;
+    });
+  }
+
+  async getDatasetVersions(): Promise<FormattedDatasetVersion[]> {
+    const rows = await this.db
+      .select({ version: datasetVersions, creator: users })
+      .from(datasetVersions)
+      .leftJoin(users, eq(datasetVersions.createdBy, users.id))
+      .orderBy(asc(datasetVersions.id));
+
+    return rows.map(({ version, creator }) => ({
+      ...version,
+      createdByName: creator?.fullName || `User ${version.createdBy}`,
+    }));
+  }
+
+  async getDatasetVersionById(id: number): Promise<DatasetVersion | undefined> {
+    const [version] = await this.db.select().from(datasetVersions).where(eq(datasetVersions.id, id));
+    return version;
+  }
+
+  async getDatasetVersionByName(name: string): Promise<DatasetVersion | undefined> {
+    const [version] = await this.db.select().from(datasetVersions).where(eq(datasetVersions.name, name));
+    return version;
+  }
+
+  async getDatasetVersionItems(datasetVersionId: number): Promise<FormattedDatasetVersionItem[]> {
+    const rows = await this.db
+      .select({ item: datasetVersionItems, text: transcriptionRevisions.text })
+      .from(datasetVersionItems)
+      .innerJoin(transcriptionRevisions, eq(datasetVersionItems.revisionId, transcriptionRevisions.id))
+      .where(eq(datasetVersionItems.datasetVersionId, datasetVersionId))
+      .orderBy(asc(datasetVersionItems.transcriptionId));
+
+    return rows.map(({ item, text }) => ({ ...item, text }));
+  }
+
+  async taintDatasetVersions(taint: DatasetVersionTaint): Promise<DatasetVersion[]> {
+    return this.db.transaction(async (tx) => {
+      const versions = await tx.select().from(datasetVersions)
+        .where(inArray(
+          datasetVersions.id,
+          tx.select({ id: datasetVersionItems.datasetVersionId })
+            .from(datasetVersionItems)
+            .where(eq(datasetVersionItems.audioFileId, taint.audioFileId)),
+        ))
+        .orderBy(asc(datasetVersions.id))
+        .for("update");
+
+      const tainted: DatasetVersion[] = [];
+      for (const version of versions) {
+        if (version.taints.some(t => t.audioFileId === taint.audioFileId)) {
+          continue;
+        }
+        const [updated] = await tx.update(datasetVersions)
+          .set({
+            taintedAt: version.taintedAt ?? new Date(taint.revokedAt),
+            taints: [...version.taints, taint],
+          })
+          .where(eq(datasetVersions.id, version.id))
+          .returning();
+        tainted.push(updated);
+      }
+      return tainted;
+    });
+  }
+
+  // Export operations
+  async createExport(exportData: InsertExport): Promise<Export> {
+    const [newExport] = await this.db.insert(dataExports).values(exportData).returning();
+    return newExport;
+  }
+
+  async getExports(): Promise<FormattedExport[]> {
+    const rows = await this.db
+      .select({ exportRecord: dataExports, creator: users })
+      .from(dataExports)
+      .leftJoin(users, eq(dataExports.createdBy, users.id))
+      .orderBy(asc(dataExports.id));
+
+    return rows.map(({ exportRecord, creator }) => {
+      const { createdBy, ...restOfExport } = exportRecord;
+      return {
+        ...restOfExport,
+        createdByName: creator?.fullName || `User ${createdBy}`
+      };
+    });
+  }
+
+  async getExportById(id: number): Promise<Export | undefined> {
+    const [exportRecord] = await this.db.select().from(dataExports).where(eq(dataExports.id, id));
+    return exportRecord;
+  }
+
+  async updateExport(id: number, updates: ExportUpdate): Promise<Export> {
+    const [updatedExport] = await this.db.update(dataExports)
+      .set({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.progress !== undefined && { progress: updates.progress }),
+        ...(updates.error !== undefined && { error: updates.error }),
+        ...(updates.checksum !== undefined && { checksum: updates.checksum }),
+        ...(updates.records !== undefined && { records: updates.records }),
+        ...(updates.size !== undefined && { size: updates.size }),
+        ...(updates.splitManifest !== undefined && { splitManifest: updates.splitManifest }),
+        ...(updates.completedAt !== undefined && { completedAt: updates.completedAt }),
+      })
+      .where(eq(dataExports.id, id))
+      .returning();
+
+    if (!updatedExport) {
+      throw new Error(`Export with ID ${id} not found`);
+    }
+    return updatedExport;
+  }
+
+  async getExportsByStatus(statuses: string[]): Promise<Export[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+    return this.db.select().from(dataExports)
+      .where(inArray(dataExports.status, statuses))
+      .orderBy(asc(dataExports.id));
+  }
+
+  async createExportAudit(audit: InsertExportAudit): Promise<ExportAudit> {
+    const [exportAudit] = await this.db.insert(exportAudits).values(audit).returning();
+    return exportAudit;
+  }
+
+  async getExportAudits(exportId: number): Promise<ExportAudit[]> {
+    return this.db.select().from(exportAudits)
+      .where(eq(exportAudits.exportId, exportId))
+      .orderBy(desc(exportAudits.id));
+  }
+
+  // Processing job operations
+  async createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob> {
+    const [processingJob] = await this.db.insert(processingJobs).values(job).returning();
+    return processingJob;
+  }
+
+  async getProcessingJobById(id: number): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job;
+  }
+
+  async getLatestProcessingJobForFile(audioFileId: number): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.select().from(processingJobs)
+      .where(eq(processingJobs.audioFileId, audioFileId))
+      .orderBy(desc(processingJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async getProcessingJobsByStatus(statuses: string[]): Promise<ProcessingJob[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+    return this.db.select().from(processingJobs)
+      .where(inArray(processingJobs.status, statuses))
+      .orderBy(asc(processingJobs.id));
+  }
+
+  async updateProcessingJob(id: number, updates: ProcessingJobUpdate): Promise<ProcessingJob> {
+    const [updatedJob] = await this.db.update(processingJobs)
+      .set({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.attempts !== undefined && { attempts: updates.attempts }),
+        ...(updates.runAt !== undefined && { runAt: updates.runAt }),
+        ...(updates.lastError !== undefined && { lastError: updates.lastError }),
+        ...(updates.history !== undefined && { history: updates.history }),
+        ...(updates.result !== undefined && { result: updates.result }),
+        updatedAt: new Date(),
+      })
+      .where(eq(processingJobs.id, id))
+      .returning();
+
+    if (!updatedJob) {
+      throw new Error(`Processing job with ID ${id} not found`);
+    }
+    return updatedJob;
+  }
+
+  async claimNextProcessingJob(): Promise<ProcessingJob | undefined> {
+    // SKIP LOCKED lets several server instances share the queue without double-claiming
+    const nextJobId = this.db.select({ id: processingJobs.id })
+      .from(processingJobs)
+      .where(and(eq(processingJobs.status, "queued"), lte(processingJobs.runAt, new Date())))
+      .orderBy(asc(processingJobs.runAt), asc(processingJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await this.db.update(processingJobs)
+      .set({
+        status: "processing",
+        attempts: sql`${processingJobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(processingJobs.id, nextJobId))
+      .returning();
+    return job;
+  }
+
+  // Project settings operations
+  async getProjectSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await this.db.select().from(projectSettings).where(eq(projectSettings.key, key));
+    return setting?.value as T | undefined;
+  }
+
+  async setProjectSetting<T>(key: string, value: T, updatedBy: number | null): Promise<ProjectSetting> {
+    const [setting] = await this.db.insert(projectSettings)
+      .values({ key, value, updatedBy, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: projectSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  // Dashboard operations
+  async getTaskSummary(userId: number): Promise<TaskSummary> {
+    const user = await this.getUser(userId);
+    const isAdmin = user?.role === 'admin';
+
+    // Count assigned tasks (tasks assigned to this user that aren't completed)
+    const [{ assigned }] = await this.db
+      .select({ assigned: count() })
+      .from(audioSegments)
+      .where(and(eq(audioSegments.assignedTo, userId), ne(audioSegments.status, "reviewed")));
+
+    // Count completed tasks (all for admins, otherwise ones this user worked on)
+    const [{ completed }] = await this.db
+      .select({ completed: count() })
+      .from(audioSegments)
+      .where(isAdmin
+        ? eq(audioSegments.status, "reviewed")
+        : and(
+            eq(audioSegments.status, "reviewed"),
+            or(eq(audioSegments.transcribedBy, userId), eq(audioSegments.reviewedBy, userId)),
+          ));
+
+    // Count pending review (segments with status "transcribed" that this user can review)
+    const [{ pendingReview }] = await this.db
+      .select({ pendingReview: count() })
+      .from(audioSegments)
+      .where(isAdmin
+        ? eq(audioSegments.status, "transcribed")
+        : and(eq(audioSegments.status, "transcribed"), eq(audioSegments.reviewedBy, userId)));
+
+    return {
+      assigned,
+      completed,
+      pendingReview
+    };
+  }
+
+  async getRecentActivities(userId: number, isAdmin: boolean): Promise<RecentActivity[]> {
+    const segments = await this.db.select().from(audioSegments)
+      .where(isAdmin ? undefined : or(
+        eq(audioSegments.assignedTo, userId),
+        eq(audioSegments.transcribedBy, userId),
+        eq(audioSegments.reviewedBy, userId),
+      ))
+      .orderBy(desc(audioSegments.updatedAt))
+      .limit(10);
+
+    return segments.map(s => {
+      let type = "Transcription";
+      if (s.status === "transcribed" || s.status === "reviewed" || s.status === "rejected") {
+        type = "Verification";
+      } else if (s.status === "available") {
+        type = "Processing";
+      }
+
+      return {
+        id: s.id,
+        type,
+        status: s.status,
+        updatedAt: s.updatedAt instanceof Date ? s.updatedAt.toISOString() : '',
+        task: `Audio Segment ${s.id}`,
+      };
+    });
+  }
+}
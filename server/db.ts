@@ -0,0 +1,17 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+const { Pool } = pg;
+
+/**
+ * Create a PostgreSQL connection pool and a Drizzle client bound to the shared schema
+ * @param connectionString Postgres connection URL (usually DATABASE_URL)
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { pool, db };
+}
+
+export type Database = ReturnType<typeof createDatabase>["db"];
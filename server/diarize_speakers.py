@@ -0,0 +1,94 @@
+"""Propose speaker clusters for the segments of one recording.
+
+Each segment is summarised by the mean and standard deviation of its MFCCs. The summaries are
+standardised across the recording and grouped by average-linkage clustering on cosine distance.
+This is a light, local approximation of diarization: the clusters are proposals for people to
+check, not final labels.
+"""
+import argparse
+import json
+import sys
+
+import librosa
+import numpy as np
+from scipy.cluster.hierarchy import fcluster, linkage
+
+SAMPLING_RATE = 16000
+N_MFCC = 20
+# Shorter segments are padded so every segment yields at least a few frames
+MIN_SAMPLES = SAMPLING_RATE // 10
+
+DEFAULT_THRESHOLD = 1.0
+
+
+def report_progress(percent):
+    """Progress line on stderr, parsed by the Node side as `PROGRESS {json}`."""
+    print(f"PROGRESS {json.dumps({'stage': 'diarizing', 'percent': round(percent, 1)})}", file=sys.stderr, flush=True)
+
+
+def embed(path):
+    audio, _ = librosa.load(path, sr=SAMPLING_RATE, mono=True)
+    if len(audio) < MIN_SAMPLES:
+        audio = np.pad(audio, (0, MIN_SAMPLES - len(audio)))
+    mfcc = librosa.feature.mfcc(y=audio, sr=SAMPLING_RATE, n_mfcc=N_MFCC)
+    return np.concatenate([mfcc.mean(axis=1), mfcc.std(axis=1)])
+
+
+def cluster(features, threshold, max_speakers):
+    """Cluster numbers, 1-based and in order of first appearance."""
+    if len(features) == 1:
+        return [1]
+
+    std = features.std(axis=0)
+    std[std == 0] = 1
+    normalized = (features - features.mean(axis=0)) / std
+
+    tree = linkage(normalized, method='average', metric='cosine')
+    labels = fcluster(tree, t=threshold, criterion='distance')
+    if max_speakers and labels.max() > max_speakers:
+        labels = fcluster(tree, t=max_speakers, criterion='maxclust')
+
+    numbers = {}
+    return [numbers.setdefault(label, len(numbers) + 1) for label in labels]
+
+
+def diarize(segments, threshold, max_speakers):
+    if not segments:
+        return []
+
+    features = []
+    last_reported = -1
+    for i, segment in enumerate(segments):
+        features.append(embed(segment['path']))
+        percent = int(90 * (i + 1) / len(segments))
+        if percent != last_reported:
+            last_reported = percent
+            report_progress(percent)
+
+    speakers = cluster(np.array(features), threshold, max_speakers)
+    report_progress(100)
+    return [{'id': segment['id'], 'speaker': speaker} for segment, speaker in zip(segments, speakers)]
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description='Group the segments of a recording by speaker')
+    parser.add_argument('segments_file', help='JSON list of {"id": ..., "path": ...}, in recording order')
+    parser.add_argument('--threshold', type=float, default=DEFAULT_THRESHOLD)
+    parser.add_argument('--max-speakers', type=int, default=None)
+
+    try:
+        args = parser.parse_args()
+    except SystemExit:
+        print(json.dumps({
+            'status': 'error',
+            'error': 'Invalid arguments. Usage: python diarize_speakers.py <segments_file> [--threshold T] [--max-speakers N]'
+        }))
+        sys.exit(1)
+
+    try:
+        with open(args.segments_file) as f:
+            segments = json.load(f)
+        assignments = diarize(segments, args.threshold, args.max_speakers)
+        print(json.dumps({'status': 'success', 'assignments': assignments}))
+    except Exception as e:
+        print(json.dumps({'status': 'error', 'error': str(e)}))
@@ -0,0 +1,216 @@
+import * as fsPromises from "fs/promises";
+import {
+  DEFAULT_DUPLICATE_DETECTION_SETTINGS,
+  duplicateDetectionSettingsSchema,
+  type AudioFile,
+  type DuplicateDetectionSettings,
+  type DuplicateKind,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+import { fingerprintAudio } from "./audio-processor";
+import { sha256File } from "./export-queue";
+
+export const DUPLICATE_DETECTION_SETTINGS_KEY = "uploads.duplicate_detection";
+
+// Fingerprint frames are 128 ms apart
+const FRAME_MS = 128;
+// Near duplicates must overlap for at least this long, and for at least half of the shorter recording
+const MIN_OVERLAP_FRAMES = Math.round(10000 / FRAME_MS);
+// Frame hashes this common in a recording (silence, steady tones) don't help align two recordings
+const MAX_FRAME_OCCURRENCES = 16;
+// Alignments, by number of identical frames, that get the full bit-by-bit comparison
+const CANDIDATE_OFFSETS = 5;
+
+export class DuplicateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface DuplicateMatch {
+  id: number; // The earlier upload
+  filename: string;
+  kind: DuplicateKind;
+  similarity: number; // 0-1
+  url: string;
+}
+
+export interface UploadCheck {
+  contentHash: string;
+  match: DuplicateMatch | null;
+  action: "accept" | "warn" | "reject";
+}
+
+export interface NearDuplicateCheck {
+  match: DuplicateMatch;
+  action: "warn" | "reject";
+}
+
+export async function getDuplicateDetectionSettings(storage: IStorage): Promise<DuplicateDetectionSettings> {
+  return getProjectSettings(storage, DUPLICATE_DETECTION_SETTINGS_KEY, duplicateDetectionSettingsSchema, DEFAULT_DUPLICATE_DETECTION_SETTINGS);
+}
+
+function decodeFingerprint(encoded: string): Uint32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  const frames = new Uint32Array(Math.floor(bytes.length / 4));
+  for (let i = 0; i < frames.length; i++) {
+    frames[i] = bytes.readUInt32LE(i * 4);
+  }
+  return frames;
+}
+
+function bitCount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+/**
+ * Share of identical fingerprint bits where two recordings line up best, from 0 to 1 (0 when
+ * nothing lines up). Unrelated audio agrees on about half the bits at any one alignment, and since
+ * the best of several alignments is taken it can score a few points above 0.5, more so for short
+ * overlaps; the same audio re-encoded scores well above 0.85. The similarity threshold can't go
+ * below 0.6 for that reason. Alignments are found from frames with identical hashes, so one
+ * recording may start anywhere in the other.
+ */
+export function fingerprintSimilarity(a: Uint32Array, b: Uint32Array): number {
+  const positions = new Map<number, number[]>();
+  for (let i = 0; i < a.length; i++) {
+    const list = positions.get(a[i]);
+    if (list) {
+      list.push(i);
+    } else {
+      positions.set(a[i], [i]);
+    }
+  }
+
+  // Offset of b against a, voted for by every pair of identical frames
+  const votes = new Map<number, number>();
+  for (let j = 0; j < b.length; j++) {
+    const list = positions.get(b[j]);
+    if (!list || list.length > MAX_FRAME_OCCURRENCES) continue;
+    for (const i of list) {
+      votes.set(i - j, (votes.get(i - j) ?? 0) + 1);
+    }
+  }
+
+  const offsets = Array.from(votes.entries())
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, CANDIDATE_OFFSETS)
+    .map(([offset]) => offset);
+  const minOverlap = Math.max(MIN_OVERLAP_FRAMES, Math.floor(Math.min(a.length, b.length) / 2));
+
+  let best = 0;
+  for (const offset of offsets) {
+    const start = Math.max(0, -offset);
+    const end = Math.min(b.length, a.length - offset);
+    if (end - start < minOverlap) continue;
+    let differentBits = 0;
+    for (let j = start; j < end; j++) {
+      differentBits += bitCount(a[j + offset] ^ b[j]);
+    }
+    best = Math.max(best, 1 - differentBits / ((end - start) * 32));
+  }
+  return best;
+}
+
+function toMatch(file: Pick<AudioFile, "id" | "filename">, kind: DuplicateKind, similarity: number): DuplicateMatch {
+  return { id: file.id, filename: file.filename, kind, similarity, url: `/api/audio/${file.id}` };
+}
+
+// e.g. "This recording matches show-0412.mp3 (93% similar)"
+export function describeDuplicate(match: DuplicateMatch): string {
+  return match.kind === "exact"
+    ? `This file was already uploaded as ${match.filename}`
+    : `This recording matches ${match.filename} (${Math.round(match.similarity * 100)}% similar)`;
+}
+
+/**
+ * Hash an upload and look for an earlier upload with the same content (exact duplicate). Near
+ * duplicates are looked for by the processing job (checkNearDuplicate), since fingerprinting
+ * decodes the whole recording.
+ */
+export async function checkUpload(storage: IStorage, filePath: string): Promise<UploadCheck> {
+  const settings = await getDuplicateDetectionSettings(storage);
+  const contentHash = await sha256File(filePath);
+
+  const [original] = await storage.getAudioFilesByContentHash(contentHash);
+  if (original) {
+    return { contentHash, match: toMatch(original, "exact", 1), action: settings.exactDuplicates };
+  }
+  return { contentHash, match: null, action: "accept" };
+}
+
+/**
+ * Fingerprint a queued upload, store the fingerprint and compare it with those of the other
+ * uploads (audio that lines up with it is a near duplicate). Uploads that already have a
+ * fingerprint (a retried job) or that an admin kept despite a match aren't compared again, and
+ * processing goes ahead without a fingerprint when it can't be computed.
+ */
+export async function checkNearDuplicate(storage: IStorage, audioFile: AudioFile): Promise<NearDuplicateCheck | null> {
+  if (audioFile.fingerprint !== null) {
+    return null;
+  }
+
+  let fingerprint: string;
+  try {
+    fingerprint = await fingerprintAudio(audioFile.originalPath);
+  } catch (error) {
+    console.warn(`Could not fingerprint ${audioFile.originalPath}, skipping the near duplicate check:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+  await storage.updateAudioFile(audioFile.id, { fingerprint });
+
+  const settings = await getDuplicateDetectionSettings(storage);
+  if (settings.nearDuplicates === "off" || audioFile.duplicateStatus === "ignored") {
+    return null;
+  }
+
+  const frames = decodeFingerprint(fingerprint);
+  let match: DuplicateMatch | null = null;
+  for (const candidate of await storage.getAudioFingerprints()) {
+    if (candidate.id === audioFile.id) continue;
+    const similarity = fingerprintSimilarity(decodeFingerprint(candidate.fingerprint), frames);
+    if (similarity >= settings.similarityThreshold && (!match || similarity > match.similarity)) {
+      match = toMatch(candidate, "near", Math.round(similarity * 1000) / 1000);
+    }
+  }
+  return match && { match, action: settings.nearDuplicates };
+}
+
+/**
+ * Settle an upload held as a possible duplicate. Ignoring it keeps it as a recording of its own
+ * (the caller queues it for processing); merging folds its metadata into the original (tags are
+ * combined, fields the original lacks are copied) and deletes it along with its file.
+ */
+export async function resolveDuplicate(
+  storage: IStorage,
+  audioFile: AudioFile,
+  action: "merge" | "ignore",
+): Promise<AudioFile> {
+  if (audioFile.duplicateStatus !== "pending" || audioFile.duplicateOfId === null) {
+    throw new DuplicateError("This upload isn't waiting for a duplicate decision", 409);
+  }
+
+  if (action === "ignore") {
+    return storage.updateAudioFile(audioFile.id, { status: "queued", duplicateStatus: "ignored" });
+  }
+
+  const original = await storage.getAudioFileById(audioFile.duplicateOfId);
+  if (!original || original.status === "deleted") {
+    throw new DuplicateError("The original upload no longer exists; keep this one instead", 409);
+  }
+  await storage.updateAudioFile(original.id, {
+    sourceType: original.sourceType ?? audioFile.sourceType,
+    region: original.region ?? audioFile.region,
+    recordingDate: original.recordingDate ?? audioFile.recordingDate,
+    consentRef: original.consentRef ?? audioFile.consentRef,
+    license: original.license ?? audioFile.license,
+    tags: Array.from(new Set([...original.tags, ...audioFile.tags])),
+  });
+  await fsPromises.unlink(audioFile.originalPath).catch(() => {});
+  await storage.updateAudioFile(audioFile.id, { duplicateStatus: "merged" });
+  await storage.deleteAudioFile(audioFile.id);
+  return (await storage.getAudioFileById(audioFile.id))!;
+}
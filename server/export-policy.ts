@@ -0,0 +1,122 @@
+import {
+  DEFAULT_EXPORT_POLICY,
+  exportPolicySchema,
+  type AudioFile,
+  type ConsentStatusUpdate,
+  type DatasetVersion,
+  type ExportExclusion,
+  type ExportPolicy,
+} from "@shared/schema";
+import type { FormattedTranscription, IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+export const EXPORT_POLICY_KEY = "exports.policy";
+
+export class ConsentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface ExportPolicyResult {
+  included: FormattedTranscription[];
+  excluded: ExportExclusion[];
+}
+
+export interface ConsentChange {
+  audioFile: AudioFile;
+  taintedVersions: DatasetVersion[];
+}
+
+export async function getExportPolicy(storage: IStorage): Promise<ExportPolicy> {
+  return getProjectSettings(storage, EXPORT_POLICY_KEY, exportPolicySchema, DEFAULT_EXPORT_POLICY);
+}
+
+/**
+ * Why the policy keeps a recording out of exports, or null when it may be exported
+ */
+export function exclusionReason(
+  file: AudioFile,
+  policy: ExportPolicy,
+): Pick<ExportExclusion, "reason" | "detail"> | null {
+  if (file.consentStatus === "revoked") {
+    return { reason: "consent_revoked", detail: file.consentNote };
+  }
+  if (file.consentStatus === "restricted" && policy.excludeRestricted) {
+    return { reason: "restricted", detail: file.consentNote };
+  }
+  if (file.license && policy.blockedLicenses.includes(file.license)) {
+    return { reason: "license_blocked", detail: file.license };
+  }
+  return null;
+}
+
+/**
+ * Split transcriptions into those the policy lets through and, per recording, those it leaves out.
+ * Transcriptions of recordings that no longer exist are let through, as before the policy.
+ */
+export async function applyExportPolicy(
+  storage: IStorage,
+  transcriptions: FormattedTranscription[],
+  policy: ExportPolicy,
+): Promise<ExportPolicyResult> {
+  const exclusions = new Map<number, ExportExclusion>();
+  for (const audioFileId of Array.from(new Set(transcriptions.map(t => t.audioFileId)))) {
+    const file = await storage.getAudioFileById(audioFileId);
+    const reason = file && exclusionReason(file, policy);
+    if (file && reason) {
+      exclusions.set(audioFileId, { audioFileId, filename: file.filename, ...reason, segments: 0 });
+    }
+  }
+
+  const included: FormattedTranscription[] = [];
+  for (const t of transcriptions) {
+    const exclusion = exclusions.get(t.audioFileId);
+    if (exclusion) {
+      exclusion.segments++;
+    } else {
+      included.push(t);
+    }
+  }
+  return {
+    included,
+    excluded: Array.from(exclusions.values()).sort((a, b) => a.audioFileId - b.audioFileId),
+  };
+}
+
+/**
+ * Set the consent status of a recording. Revoking it taints every dataset version that froze
+ * segments of it, since exports of those versions no longer match what was published.
+ */
+export async function setConsentStatus(
+  storage: IStorage,
+  audioFileId: number,
+  update: ConsentStatusUpdate,
+  userId: number,
+): Promise<ConsentChange> {
+  const file = await storage.getAudioFileById(audioFileId);
+  if (!file) {
+    throw new ConsentError("Audio file not found", 404);
+  }
+
+  const now = new Date();
+  const audioFile = await storage.updateAudioFile(audioFileId, {
+    consentStatus: update.status,
+    consentNote: update.note ?? null,
+    consentUpdatedAt: now,
+    consentUpdatedBy: userId,
+  });
+
+  const taintedVersions = update.status === "revoked"
+    ? await storage.taintDatasetVersions({
+      audioFileId,
+      filename: file.filename,
+      note: update.note ?? null,
+      revokedAt: now.toISOString(),
+    })
+    : [];
+  if (taintedVersions.length > 0) {
+    console.log(`Consent for audio file ${audioFileId} revoked; tainted dataset versions ${taintedVersions.map(v => v.name).join(", ")}`);
+  }
+  return { audioFile, taintedVersions };
+}
@@ -0,0 +1,131 @@
+import fs from "fs";
+import * as fsPromises from "fs/promises";
+import { createHash } from "crypto";
+import type { Export } from "@shared/schema";
+import { IStorage } from "./storage";
+import { writeExport } from "./export-writer";
+
+const POLL_INTERVAL_MS = 5000;
+// Progress is written to storage at most this often
+const PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * SHA-256 of a file as hex, read as a stream so large archives aren't loaded into memory
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Background worker for exports. Export records are the jobs: they are created as 'queued'
+ * with everything needed to build the file, and are written one at a time to their `path`.
+ * Exports interrupted by a restart are queued again, since their options (and split seed) are stored.
+ */
+export class ExportQueue {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private storage: IStorage) {}
+
+  async start(): Promise<void> {
+    const interrupted = await this.storage.getExportsByStatus(["running"]);
+    for (const exportRecord of interrupted) {
+      await this.storage.updateExport(exportRecord.id, { status: "queued", progress: 0 });
+      console.log(`Requeued export ${exportRecord.id} interrupted by a restart`);
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.pump();
+    }, POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+
+    this.pump();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Start working on a newly created export (it is picked up by the next poll otherwise)
+   */
+  enqueue(exportRecord: Export): void {
+    console.log(`Queued ${exportRecord.format} export ${exportRecord.id}`);
+    this.pump();
+  }
+
+  /**
+   * Run queued exports one after another until none are left
+   */
+  private async pump(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      while (true) {
+        const [next] = await this.storage.getExportsByStatus(["queued"]);
+        if (!next) {
+          break;
+        }
+        await this.run(next);
+      }
+    } catch (error) {
+      console.error("Error picking up queued exports:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(exportRecord: Export): Promise<void> {
+    await this.storage.updateExport(exportRecord.id, { status: "running", progress: 0, error: null });
+
+    let lastPercent = 0;
+    let lastSavedAt = 0;
+    let saving: Promise<unknown> = Promise.resolve();
+    const onProgress = (fraction: number) => {
+      // 100 is only reported once the checksum is done
+      const percent = Math.min(99, Math.floor(fraction * 100));
+      const now = Date.now();
+      if (percent <= lastPercent || now - lastSavedAt < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastPercent = percent;
+      lastSavedAt = now;
+      saving = saving
+        .then(() => this.storage.updateExport(exportRecord.id, { progress: percent }))
+        .catch(error => console.error(`Failed to save progress of export ${exportRecord.id}:`, error));
+    };
+
+    try {
+      const result = await writeExport(this.storage, exportRecord, onProgress);
+      const stats = await fsPromises.stat(exportRecord.path);
+      const checksum = await sha256File(exportRecord.path);
+      await saving;
+
+      await this.storage.updateExport(exportRecord.id, {
+        status: "completed",
+        progress: 100,
+        records: result.records,
+        size: stats.size,
+        checksum,
+        ...(result.splitManifest && { splitManifest: result.splitManifest }),
+        completedAt: new Date(),
+      });
+      console.log(`Export ${exportRecord.id} completed: ${result.records} records, ${stats.size} bytes, sha256 ${checksum}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await saving;
+      await this.storage.updateExport(exportRecord.id, { status: "failed", error: message });
+      console.error(`Export ${exportRecord.id} failed: ${message}`);
+    }
+  }
+}
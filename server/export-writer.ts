@@ -0,0 +1,326 @@
+import fs from "fs";
+import * as fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_SPLIT_RATIOS,
+  type AudioNormalization,
+  type Export,
+  type ExportExclusion,
+  type ExportFilter,
+  type SplitManifest,
+} from "@shared/schema";
+import { normalizeText } from "@shared/text-normalization";
+import { applyAnnotationTagOptions, parseAnnotations } from "@shared/annotation-tags";
+import type { FormattedTranscription, IStorage } from "./storage";
+import { writeAudiofolderExport, type ExportProgressCallback } from "./dataset-export";
+import { buildNemoManifest, writeKaldiExport } from "./training-manifests";
+import { CODEC_EXTENSIONS, describeNormalization, normalizeAudio } from "./audio-normalizer";
+import { trackEntries, writeZipArchive } from "./zip-archive";
+import { findMissingVersionAudio, getDatasetVersionTranscriptions } from "./dataset-versions";
+import { attachSpeakers } from "./speakers";
+import { attachRecordingMetadata, buildRecordingsManifest, recordingEntry } from "./recording-metadata";
+import { applyExportPolicy, getExportPolicy } from "./export-policy";
+
+export interface ExportWriteResult {
+  records: number;
+  splitManifest?: SplitManifest;
+}
+
+export interface ExportPreview {
+  records: number;
+  audioFiles: number;
+  durationMs: number;
+  hours: number;
+  excluded: ExportExclusion[]; // Recordings the export policy leaves out
+}
+
+/**
+ * What an export with this filter would contain, without building it
+ */
+export async function previewExport(storage: IStorage, filter: ExportFilter): Promise<ExportPreview> {
+  const { included: transcriptions, excluded } = await applyExportPolicy(
+    storage,
+    await storage.getVerifiedTranscriptions(filter),
+    await getExportPolicy(storage),
+  );
+  const durationMs = transcriptions.reduce((total, t) => total + t.duration, 0);
+  return {
+    records: transcriptions.length,
+    audioFiles: new Set(transcriptions.map(t => t.audioFileId)).size,
+    durationMs,
+    hours: Math.round(durationMs / 36000) / 100,
+    excluded,
+  };
+}
+
+// Speaker fields of a whisper/standard record; unassigned segments get none
+function speakerFields(t: FormattedTranscription) {
+  if (!t.speaker) {
+    return {};
+  }
+  const { id, label, gender, dialectRegion, ageBand } = t.speaker;
+  return {
+    speaker: label,
+    speaker_id: id,
+    ...(gender ? { gender } : {}),
+    ...(dialectRegion ? { dialect_region: dialectRegion } : {}),
+    ...(ageBand ? { age_band: ageBand } : {}),
+  };
+}
+
+/**
+ * Records of the single-file formats: a JSON array, or JSON Lines for NeMo
+ */
+function buildJsonExport(exportRecord: Export, transcriptions: FormattedTranscription[]): string {
+  const { includeSpeaker, includeTimestamps, includeConfidence } = exportRecord.options ?? {};
+
+  switch (exportRecord.format) {
+    case "nemo":
+      return buildNemoManifest(transcriptions);
+    case "whisper":
+      return JSON.stringify(transcriptions.map(t => ({
+        audio_filepath: t.audioPath,
+        text: t.text,
+        ...(t.rawText !== undefined ? { raw_text: t.rawText } : {}),
+        ...(t.annotations ? { annotations: t.annotations } : {}),
+        ...(includeSpeaker ? speakerFields(t) : {}),
+        ...recordingEntry(t),
+        ...(includeTimestamps ? {
+          start: t.startTime,
+          end: t.endTime
+        } : {}),
+        ...(includeConfidence && t.confidence ? { confidence: t.confidence } : {})
+      })), null, 2);
+    case "standard":
+      return JSON.stringify(transcriptions.map(t => ({
+        id: t.id,
+        text: t.text,
+        ...(t.rawText !== undefined ? { raw_text: t.rawText } : {}),
+        ...(t.annotations ? { annotations: t.annotations } : {}),
+        audio_path: t.audioPath,
+        duration: t.duration,
+        ...(includeSpeaker ? speakerFields(t) : {}),
+        ...recordingEntry(t),
+        ...(includeTimestamps ? {
+          start_time: t.startTime,
+          end_time: t.endTime
+        } : {}),
+        ...(includeConfidence && t.confidence ? { confidence: t.confidence } : {})
+      })), null, 2);
+    default:
+      // Custom format
+      return JSON.stringify(transcriptions, null, 2);
+  }
+}
+
+// README note on the optional transcript fields
+function describeTranscriptFields(transcriptions: FormattedTranscription[]): string {
+  if (!transcriptions.some(t => t.rawText !== undefined)) {
+    return "";
+  }
+  const annotations = transcriptions.some(t => t.annotations)
+    ? ", and `annotations` lists the stripped tags with offsets into `text`"
+    : "";
+  return `. \`text\` is cleaned up for training; \`raw_text\` is the text as transcribed${annotations}`;
+}
+
+/**
+ * ZIP with audio/segment_<id>.<ext> and a matching transcripts/segment_<id>.json per transcription
+ */
+async function writeWhisperTrainingExport(
+  transcriptions: FormattedTranscription[],
+  options: {
+    normalization: AudioNormalization | null;
+    destination: string;
+    entryDate: Date;
+    onProgress: ExportProgressCallback;
+  },
+): Promise<number> {
+  const { normalization } = options;
+  const available: FormattedTranscription[] = [];
+  for (const transcription of transcriptions) {
+    try {
+      await fsPromises.access(path.resolve(transcription.audioPath), fs.constants.R_OK);
+      available.push(transcription);
+    } catch {
+      console.warn(`Audio file not found or not readable: ${transcription.audioPath} for transcription ID ${transcription.id}`);
+    }
+  }
+
+  const expectedEntries = available.length * 2 + 2;
+  const totalWork = expectedEntries + (normalization ? available.length : 0);
+  let transcoded = 0;
+  let archived = 0;
+  const reportProgress = () => options.onProgress((transcoded + archived) / totalWork);
+
+  const workDir = normalization ? await fsPromises.mkdtemp(path.join(os.tmpdir(), "export-audio-")) : null;
+  try {
+    await writeZipArchive(options.destination, async archive => {
+      trackEntries(archive, expectedEntries, processed => {
+        archived = processed;
+        reportProgress();
+      });
+
+      for (const transcription of available) {
+        const audioFilePath = path.resolve(transcription.audioPath);
+        const fileBasename = `segment_${transcription.id}`;
+
+        // Keep the real extension unless the audio is transcoded
+        if (normalization && workDir) {
+          const normalizedPath = path.join(workDir, `${fileBasename}${CODEC_EXTENSIONS[normalization.codec]}`);
+          await normalizeAudio(audioFilePath, normalizedPath, normalization);
+          archive.file(normalizedPath, { name: `audio/${path.basename(normalizedPath)}`, date: options.entryDate });
+          transcoded++;
+          reportProgress();
+        } else {
+          archive.file(audioFilePath, {
+            name: `audio/${fileBasename}${path.extname(audioFilePath) || ".wav"}`,
+            date: options.entryDate,
+          });
+        }
+
+        const transcriptJson = {
+          text: transcription.text,
+          ...(transcription.rawText !== undefined && { raw_text: transcription.rawText }),
+          ...(transcription.annotations && { annotations: transcription.annotations }),
+          start_time: transcription.startTime,
+          end_time: transcription.endTime,
+          duration: transcription.duration,
+          ...recordingEntry(transcription),
+        };
+        archive.append(JSON.stringify(transcriptJson, null, 2), { name: `transcripts/${fileBasename}.json`, date: options.entryDate });
+      }
+
+      archive.append(buildRecordingsManifest(available), { name: "recordings.json", date: options.entryDate });
+      archive.append(`# Whisper Training Export
+
+Generated: ${options.entryDate.toISOString()}
+
+## Contents
+- ${available.length} audio files in "audio/" directory
+- ${available.length} corresponding transcription files (.json) in "transcripts/" directory
+- "recordings.json" with the metadata of each source recording (source type, region, recording date, consent reference, license, tags)
+
+## Format
+Each audio file in the "audio/" directory has a matching JSON file with the same name in the "transcripts/" directory.
+The JSON files contain the transcribed text and timing information${describeTranscriptFields(available)}.
+
+## Audio Processing
+${describeNormalization(normalization).map(line => `- ${line}`).join("\n")}
+
+## Usage for Whisper Fine-tuning
+1. Use this dataset directly with Whisper fine-tuning scripts
+2. Format follows the structure expected by Whisper training pipelines
+`, { name: "README.md", date: options.entryDate });
+    });
+  } finally {
+    if (workDir) {
+      await fsPromises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  return available.length;
+}
+
+/**
+ * Produce the file of an export record at its `path`, according to its format and options
+ */
+export async function writeExport(
+  storage: IStorage,
+  exportRecord: Export,
+  onProgress: ExportProgressCallback,
+): Promise<ExportWriteResult> {
+  const options = exportRecord.options ?? {};
+
+  // Exports of a dataset version read its frozen revisions, audio, speakers and recording metadata
+  // and are dated by the version. Rebuilding one with the same options reproduces the file byte for
+  // byte as long as the export policy leaves out the same recordings; if frozen audio has gone
+  // missing the export fails rather than leaving utterances out.
+  let transcriptions: FormattedTranscription[];
+  let entryDate: Date;
+  if (exportRecord.datasetVersionId !== null) {
+    const version = await storage.getDatasetVersionById(exportRecord.datasetVersionId);
+    if (!version) {
+      throw new Error(`Dataset version with ID ${exportRecord.datasetVersionId} not found`);
+    }
+    transcriptions = await getDatasetVersionTranscriptions(storage, version.id);
+    const missing = await findMissingVersionAudio(transcriptions);
+    if (missing.length > 0) {
+      throw new Error(`Audio of ${missing.length} utterance(s) of dataset version ${version.name} is missing, e.g. ${missing[0]}`);
+    }
+    entryDate = version.createdAt;
+    console.log(`Exporting ${transcriptions.length} transcriptions of dataset version ${version.name} for export ${exportRecord.id}`);
+  } else {
+    transcriptions = await storage.getVerifiedTranscriptions(options);
+    entryDate = exportRecord.createdAt ?? new Date();
+    console.log(`Found ${transcriptions.length} verified transcriptions for export ${exportRecord.id}`);
+  }
+
+  // Every run is audited, including the recordings the policy left out and why
+  const policy = await getExportPolicy(storage);
+  const { included, excluded } = await applyExportPolicy(storage, transcriptions, policy);
+  await storage.createExportAudit({
+    exportId: exportRecord.id,
+    datasetVersionId: exportRecord.datasetVersionId,
+    createdBy: exportRecord.createdBy,
+    policy,
+    included: included.length,
+    excluded,
+  });
+  if (excluded.length > 0) {
+    console.log(`Export ${exportRecord.id} left out ${transcriptions.length - included.length} transcription(s) of ${excluded.length} recording(s) under the export policy`);
+  }
+  transcriptions = included;
+  transcriptions = await attachSpeakers(storage, transcriptions);
+  transcriptions = await attachRecordingMetadata(storage, transcriptions);
+
+  const { textNormalization } = options;
+  if (textNormalization) {
+    transcriptions = transcriptions.map(t => ({ ...t, rawText: t.text, text: normalizeText(t.text, textNormalization) }));
+  }
+  const { annotationTags } = options;
+  if (annotationTags?.policy === "strip") {
+    // Clean text for the model, with the tags still available as spans
+    transcriptions = transcriptions.map(t => {
+      const parsed = parseAnnotations(t.text);
+      return { ...t, rawText: t.rawText ?? t.text, text: parsed.text, annotations: parsed.spans };
+    });
+  } else if (annotationTags?.policy === "map") {
+    transcriptions = transcriptions.map(t => ({ ...t, rawText: t.rawText ?? t.text, text: applyAnnotationTagOptions(t.text, annotationTags) }));
+  }
+
+  switch (exportRecord.format) {
+    case "hf_audiofolder": {
+      const result = await writeAudiofolderExport(transcriptions, {
+        ratios: options.splitRatios ?? DEFAULT_SPLIT_RATIOS,
+        seed: exportRecord.splitSeed ?? 0,
+        metadataFormat: options.metadataFormat ?? "csv",
+        normalization: exportRecord.audioNormalization,
+        destination: exportRecord.path,
+        entryDate,
+        onProgress,
+      });
+      if (result.skipped.length > 0) {
+        console.warn(`Export ${exportRecord.id} left out ${result.skipped.length} transcription(s) without audio`);
+      }
+      return { records: result.records, splitManifest: result.manifest };
+    }
+    case "kaldi": {
+      const result = await writeKaldiExport(transcriptions, exportRecord.path, entryDate);
+      return { records: result.records };
+    }
+    case "whisper_training": {
+      const records = await writeWhisperTrainingExport(transcriptions, {
+        normalization: exportRecord.audioNormalization,
+        destination: exportRecord.path,
+        entryDate,
+        onProgress,
+      });
+      return { records };
+    }
+    default:
+      await fsPromises.writeFile(exportRecord.path, buildJsonExport(exportRecord, transcriptions));
+      return { records: transcriptions.length };
+  }
+}
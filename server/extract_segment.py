@@ -0,0 +1,61 @@
+import json
+import sys
+import argparse
+
+import librosa
+import soundfile
+import torchaudio
+
+# Same output format as vad_processor.py so edited segments match VAD segments
+SAMPLING_RATE = 16000
+
+
+def extract_segment(input_path, output_path, start_ms, end_ms):
+    try:
+        waveform, original_sr = torchaudio.load(input_path)
+        audio = waveform.numpy()[0]
+
+        if original_sr != SAMPLING_RATE:
+            audio = librosa.resample(audio, orig_sr=original_sr, target_sr=SAMPLING_RATE)
+
+        samples_per_ms = SAMPLING_RATE // 1000
+        start = max(0, int(start_ms * samples_per_ms))
+        end = min(len(audio), int(end_ms * samples_per_ms))
+        if end <= start:
+            raise ValueError(f"Requested range {start_ms}-{end_ms}ms is outside the audio ({len(audio) / samples_per_ms:.0f}ms)")
+
+        soundfile.write(output_path, audio[start:end], SAMPLING_RATE, subtype='PCM_16')
+
+        return json.dumps({
+            'status': 'success',
+            'path': output_path,
+            'start_time': start / samples_per_ms,
+            'end_time': end / samples_per_ms,
+            'duration': (end - start) / samples_per_ms,
+            'audio_duration': len(audio) / samples_per_ms,
+        })
+    except Exception as e:
+        print(f"Error in extract_segment: {str(e)}", file=sys.stderr)
+        return json.dumps({
+            'status': 'error',
+            'error': str(e)
+        })
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description='Cut a time range out of an audio file as 16kHz mono WAV')
+    parser.add_argument('input_file')
+    parser.add_argument('output_file')
+    parser.add_argument('start_ms', type=float)
+    parser.add_argument('end_ms', type=float)
+
+    try:
+        args = parser.parse_args()
+    except SystemExit:
+        print(json.dumps({
+            'status': 'error',
+            'error': 'Invalid arguments. Usage: python extract_segment.py <input_file> <output_file> <start_ms> <end_ms>'
+        }))
+        sys.exit(1)
+
+    print(extract_segment(args.input_file, args.output_file, args.start_ms, args.end_ms))
@@ -0,0 +1,56 @@
+"""Acoustic fingerprint of a recording, used to find re-encoded or trimmed copies of it.
+
+The audio is resampled to 8 kHz mono and described every 128 ms by 32 bits: for each pair of
+neighbouring mel bands between 300 Hz and 3 kHz, whether their energy difference grew since the
+previous frame (after Haitsma and Kalker). Volume changes don't affect the bits and re-encoding
+flips few of them, while unrelated audio differs in about half.
+"""
+import base64
+import json
+import sys
+
+import librosa
+import numpy as np
+
+SAMPLING_RATE = 8000
+WINDOW_SAMPLES = 4096
+HOP_SAMPLES = 1024
+N_BANDS = 33  # 32 differences between neighbouring bands, one bit each
+FMIN = 300
+FMAX = 3000
+
+
+def fingerprint(path):
+    audio, _ = librosa.load(path, sr=SAMPLING_RATE, mono=True)
+    if len(audio) < WINDOW_SAMPLES:
+        audio = np.pad(audio, (0, WINDOW_SAMPLES - len(audio)))
+
+    mel = librosa.feature.melspectrogram(
+        y=audio, sr=SAMPLING_RATE, n_fft=WINDOW_SAMPLES, hop_length=HOP_SAMPLES,
+        n_mels=N_BANDS, fmin=FMIN, fmax=FMAX,
+    )
+    energy = np.log(mel + 1e-10)
+    band_differences = energy[:-1, :] - energy[1:, :]
+    bits = np.diff(band_differences, axis=1) > 0
+
+    weights = np.left_shift(np.uint64(1), np.arange(N_BANDS - 1, dtype=np.uint64))
+    frames = (bits.T.astype(np.uint64) * weights).sum(axis=1).astype('<u4')
+    return {
+        'frames': int(len(frames)),
+        'duration': len(audio) / SAMPLING_RATE,
+        'fingerprint': base64.b64encode(frames.tobytes()).decode('ascii'),
+    }
+
+
+if __name__ == "__main__":
+    if len(sys.argv) != 2:
+        print(json.dumps({
+            'status': 'error',
+            'error': 'Invalid arguments. Usage: python fingerprint_audio.py <audio_file>'
+        }))
+        sys.exit(1)
+
+    try:
+        print(json.dumps({'status': 'success', **fingerprint(sys.argv[1])}))
+    except Exception as e:
+        print(json.dumps({'status': 'error', 'error': str(e)}))
@@ -0,0 +1,147 @@
+import { EventEmitter } from "events";
+
+// Steps a file goes through between upload and the final status
+export type ProcessingStage =
+  | "queued"
+  | "preparing"
+  | "loading_model"
+  | "detecting_speech"
+  | "writing_segments"
+  | "saving_segments"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type ProcessingEvent =
+  | { type: "stage"; audioFileId: number; stage: ProcessingStage; timestamp: string }
+  | { type: "progress"; audioFileId: number; stage: ProcessingStage; percent: number; timestamp: string }
+  | { type: "segment"; audioFileId: number; segmentId: number; index: number; total: number; timestamp: string }
+  | { type: "status"; audioFileId: number; status: string; error?: string | null; timestamp: string };
+
+// Omit applied to each variant separately so the union keeps its discriminant
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type EventInput = DistributiveOmit<ProcessingEvent, "timestamp">;
+
+export interface ProcessingSnapshot {
+  audioFileId: number;
+  stage: ProcessingStage;
+  percent: number; // overall progress, 0-100
+  segmentsCreated: number;
+  totalSegments: number | null;
+  status: string | null;
+  error: string | null;
+  updatedAt: string;
+}
+
+// Share of the overall progress bar given to each stage
+const STAGE_RANGES: Partial<Record<ProcessingStage, [number, number]>> = {
+  preparing: [0, 5],
+  loading_model: [5, 10],
+  detecting_speech: [10, 70],
+  writing_segments: [70, 85],
+  saving_segments: [85, 100],
+};
+
+// Finished files are forgotten after this long
+const SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * In-process event bus for audio processing progress.
+ * Producers (queue, audio processor) publish events; the SSE endpoint subscribes.
+ * The latest state per file is kept so new subscribers can start from a snapshot.
+ */
+export class ProcessingEvents {
+  private emitter = new EventEmitter();
+  private snapshots = new Map<number, ProcessingSnapshot>();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(input: EventInput): void {
+    const event = { ...input, timestamp: new Date().toISOString() } as ProcessingEvent;
+    this.updateSnapshot(event);
+    this.emitter.emit("event", event);
+  }
+
+  stage(audioFileId: number, stage: ProcessingStage): void {
+    this.publish({ type: "stage", audioFileId, stage });
+  }
+
+  /**
+   * Progress within a stage (0-100), mapped onto the overall bar
+   */
+  progress(audioFileId: number, stage: ProcessingStage, stagePercent: number): void {
+    const [from, to] = STAGE_RANGES[stage] ?? [0, 100];
+    const clamped = Math.min(100, Math.max(0, stagePercent));
+    const percent = Math.round(from + ((to - from) * clamped) / 100);
+    this.publish({ type: "progress", audioFileId, stage, percent });
+  }
+
+  subscribe(listener: (event: ProcessingEvent) => void): () => void {
+    this.emitter.on("event", listener);
+    return () => {
+      this.emitter.off("event", listener);
+    };
+  }
+
+  getSnapshot(audioFileId: number): ProcessingSnapshot | undefined {
+    return this.snapshots.get(audioFileId);
+  }
+
+  getSnapshots(): ProcessingSnapshot[] {
+    return Array.from(this.snapshots.values());
+  }
+
+  private updateSnapshot(event: ProcessingEvent): void {
+    const previous = this.snapshots.get(event.audioFileId);
+    const snapshot: ProcessingSnapshot = previous ? { ...previous } : {
+      audioFileId: event.audioFileId,
+      stage: "queued",
+      percent: 0,
+      segmentsCreated: 0,
+      totalSegments: null,
+      status: null,
+      error: null,
+      updatedAt: event.timestamp,
+    };
+    snapshot.updatedAt = event.timestamp;
+
+    switch (event.type) {
+      case "stage":
+        snapshot.stage = event.stage;
+        snapshot.percent = event.stage === "completed" ? 100 : (STAGE_RANGES[event.stage]?.[0] ?? 0);
+        if (event.stage === "preparing") {
+          snapshot.segmentsCreated = 0;
+          snapshot.totalSegments = null;
+          snapshot.error = null;
+        }
+        break;
+      case "progress":
+        snapshot.stage = event.stage;
+        snapshot.percent = event.percent;
+        break;
+      case "segment":
+        snapshot.segmentsCreated = event.index;
+        snapshot.totalSegments = event.total;
+        break;
+      case "status":
+        snapshot.status = event.status;
+        snapshot.error = event.error ?? null;
+        break;
+    }
+
+    this.snapshots.set(event.audioFileId, snapshot);
+
+    if (event.type === "status" && ["processed", "error", "cancelled", "deleted"].includes(event.status)) {
+      setTimeout(() => {
+        if (this.snapshots.get(event.audioFileId)?.updatedAt === snapshot.updatedAt) {
+          this.snapshots.delete(event.audioFileId);
+        }
+      }, SNAPSHOT_TTL_MS).unref();
+    }
+  }
+}
+
+export const processingEvents = new ProcessingEvents();
@@ -0,0 +1,358 @@
+import { type AudioFile, type ProcessingJob, type ProcessingJobAttempt, type VadSettings } from "@shared/schema";
+import { processAudio, cancelProcessing } from "./audio-processor";
+import { IStorage } from "./storage";
+import { processingEvents } from "./processing-events";
+import { diarizeIfEnabled } from "./speakers";
+import { resegmentAudio, ResegmentError } from "./resegment";
+import { checkNearDuplicate, describeDuplicate, type NearDuplicateCheck } from "./duplicate-detection";
+
+// Queue settings (overridable through the environment)
+const PROCESSING_CONCURRENCY = Math.max(1, parseInt(process.env.PROCESSING_CONCURRENCY || "2", 10));
+const PROCESSING_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.PROCESSING_MAX_ATTEMPTS || "3", 10));
+const RETRY_BASE_DELAY_MS = parseInt(process.env.PROCESSING_RETRY_BASE_MS || "10000", 10);
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000; // 10 minutes
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped at RETRY_MAX_DELAY_MS
+ */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Status a file returns to when its job fails for good. A failed re-segmentation leaves the
+ * existing segments untouched (they are only changed once VAD has succeeded), so the file stays usable.
+ */
+function failedFileStatus(job: ProcessingJob): string {
+  return job.kind === "resegment" ? "processed" : "error";
+}
+
+/**
+ * Persisted queue for audio processing jobs: segmenting uploads and re-segmenting processed files.
+ * Jobs live in storage so that a restart can pick up work that was interrupted,
+ * and at most PROCESSING_CONCURRENCY VAD processes run at the same time.
+ */
+export class ProcessingQueue {
+  private runningJobs = new Set<number>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pumping = false;
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Recover jobs interrupted by a crash and start polling for due jobs
+   */
+  async start(): Promise<void> {
+    await this.recoverInterruptedJobs();
+
+    this.pollTimer = setInterval(() => {
+      this.pump();
+    }, POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+
+    this.pump();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Add an uploaded file to the queue
+   */
+  async enqueue(audioFile: AudioFile): Promise<ProcessingJob> {
+    const job = await this.storage.createProcessingJob({
+      audioFileId: audioFile.id,
+      status: "queued",
+      maxAttempts: PROCESSING_MAX_ATTEMPTS,
+      runAt: new Date(),
+    });
+
+    await this.setFileStatus(audioFile.id, "queued", null);
+    processingEvents.stage(audioFile.id, "queued");
+    console.log(`Queued processing job ${job.id} for audio file ${audioFile.id}`);
+
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Queue a processed file to be segmented again with new VAD settings
+   */
+  async enqueueResegment(audioFile: AudioFile, vadSettings: VadSettings): Promise<ProcessingJob> {
+    const job = await this.storage.createProcessingJob({
+      audioFileId: audioFile.id,
+      kind: "resegment",
+      status: "queued",
+      maxAttempts: PROCESSING_MAX_ATTEMPTS,
+      runAt: new Date(),
+      vadSettings,
+    });
+
+    await this.setFileStatus(audioFile.id, "queued", null);
+    processingEvents.stage(audioFile.id, "queued");
+    console.log(`Queued re-segmentation job ${job.id} for audio file ${audioFile.id}`);
+
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Cancel the active job for a file, whether it is waiting or running (a running VAD process is killed).
+   * Re-segmentation can only be cancelled while it waits, since it replaces segments once VAD is done.
+   * Returns the cancelled job, if there was one.
+   */
+  async cancel(audioFileId: number): Promise<ProcessingJob | undefined> {
+    const job = await this.storage.getLatestProcessingJobForFile(audioFileId);
+    if (!job || (job.status !== "queued" && job.status !== "processing")) {
+      return undefined;
+    }
+    if (job.kind === "resegment" && job.status === "processing") {
+      throw new ResegmentError("Re-segmentation can't be cancelled once it has started", 409);
+    }
+
+    await this.storage.updateProcessingJob(job.id, {
+      status: "cancelled",
+      history: this.finishLastAttempt(job.history, "cancelled"),
+    });
+
+    if (job.status === "processing") {
+      await cancelProcessing(audioFileId);
+    }
+    processingEvents.stage(audioFileId, "cancelled");
+    return job;
+  }
+
+  /**
+   * 1-based position of every waiting file, keyed by audio file ID
+   */
+  async getQueuePositions(): Promise<Map<number, number>> {
+    const queuedJobs = await this.storage.getProcessingJobsByStatus(["queued"]);
+    const ordered = queuedJobs.sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id);
+
+    const positions = new Map<number, number>();
+    ordered.forEach((job, index) => {
+      positions.set(job.audioFileId, index + 1);
+    });
+    return positions;
+  }
+
+  /**
+   * Jobs still marked 'processing' at boot were running when the server died.
+   * Record the interrupted attempt and either requeue them or give up.
+   */
+  private async recoverInterruptedJobs(): Promise<void> {
+    const interruptedJobs = await this.storage.getProcessingJobsByStatus(["processing"]);
+
+    for (const job of interruptedJobs) {
+      const history = this.finishLastAttempt(job.history, "interrupted", "Server restarted during processing");
+
+      if (job.attempts < job.maxAttempts) {
+        await this.storage.updateProcessingJob(job.id, {
+          status: "queued",
+          runAt: new Date(),
+          history,
+        });
+        await this.setFileStatus(job.audioFileId, "queued");
+        console.log(`Recovered interrupted processing job ${job.id} for audio file ${job.audioFileId}`);
+      } else {
+        await this.storage.updateProcessingJob(job.id, {
+          status: "failed",
+          lastError: "Server restarted during the final attempt",
+          history,
+        });
+        await this.setFileStatus(job.audioFileId, failedFileStatus(job), "Processing was interrupted and no attempts are left");
+      }
+    }
+  }
+
+  /**
+   * Claim due jobs until the concurrency limit is reached
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      return;
+    }
+    this.pumping = true;
+
+    try {
+      while (this.runningJobs.size < PROCESSING_CONCURRENCY) {
+        const job = await this.storage.claimNextProcessingJob();
+        if (!job) {
+          break;
+        }
+
+        this.runningJobs.add(job.id);
+        this.run(job).finally(() => {
+          this.runningJobs.delete(job.id);
+          this.pump();
+        });
+      }
+    } catch (error) {
+      console.error("Error claiming processing jobs:", error);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async run(job: ProcessingJob): Promise<void> {
+    const attempt: ProcessingJobAttempt = {
+      attempt: job.attempts,
+      startedAt: new Date().toISOString(),
+    };
+    const history = [...job.history, attempt];
+
+    try {
+      const audioFile = await this.storage.getAudioFileById(job.audioFileId);
+      if (!audioFile || audioFile.status === "deleted" || audioFile.status === "cancelled") {
+        await this.storage.updateProcessingJob(job.id, {
+          status: "cancelled",
+          lastError: audioFile?.status === "cancelled" ? null : "Audio file no longer exists",
+          history: this.finishLastAttempt(history, "cancelled"),
+        });
+        return;
+      }
+
+      await this.storage.updateProcessingJob(job.id, { history });
+      await this.setFileStatus(audioFile.id, "processing", null);
+
+      console.log(`Starting ${job.kind} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts}) for audio file ${audioFile.id}`);
+      if (job.kind === "resegment") {
+        const result = await resegmentAudio(audioFile, job.vadSettings!, this.storage);
+        await this.storage.updateProcessingJob(job.id, {
+          status: "completed",
+          lastError: null,
+          history: this.finishLastAttempt(history, "succeeded"),
+          result,
+        });
+        return;
+      }
+      const duplicate = await checkNearDuplicate(this.storage, audioFile);
+      if (duplicate) {
+        await this.stopForDuplicate(job, history, duplicate);
+        return;
+      }
+      await processAudio(audioFile, this.storage, job.id);
+
+      // The cancel endpoint may have flagged the job while VAD was running, or between claiming
+      // it and setting the file to processing above
+      const latestJob = await this.storage.getProcessingJobById(job.id);
+      if (latestJob?.status === "cancelled") {
+        await this.setFileStatus(audioFile.id, "cancelled");
+        return;
+      }
+      await diarizeIfEnabled(this.storage, audioFile.id);
+
+      await this.storage.updateProcessingJob(job.id, {
+        status: "completed",
+        lastError: null,
+        history: this.finishLastAttempt(history, "succeeded"),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.handleFailure(job, history, message);
+    }
+  }
+
+  /**
+   * Don't segment an upload that turned out to be a near duplicate: a warned one waits for an admin
+   * to merge or keep it (keeping it queues a new job), a rejected one ends with an error
+   */
+  private async stopForDuplicate(job: ProcessingJob, history: ProcessingJobAttempt[], duplicate: NearDuplicateCheck): Promise<void> {
+    const { match, action } = duplicate;
+    const message = action === "warn"
+      ? `${describeDuplicate(match)}. It is held until an admin merges it or keeps it.`
+      : `${describeDuplicate(match)}. Near duplicates are rejected.`;
+
+    await this.storage.updateProcessingJob(job.id, {
+      status: action === "warn" ? "cancelled" : "failed",
+      lastError: message,
+      history: this.finishLastAttempt(history, action === "warn" ? "cancelled" : "failed", message),
+    });
+    await this.storage.updateAudioFile(job.audioFileId, {
+      duplicateOfId: match.id,
+      duplicateKind: match.kind,
+      duplicateSimilarity: match.similarity,
+      duplicateStatus: action === "warn" ? "pending" : "rejected",
+    });
+    await this.setFileStatus(job.audioFileId, action === "warn" ? "duplicate" : "error", message);
+    processingEvents.stage(job.audioFileId, action === "warn" ? "cancelled" : "failed");
+    console.log(`Processing job ${job.id} stopped: ${message}`);
+  }
+
+  private async handleFailure(job: ProcessingJob, history: ProcessingJobAttempt[], message: string): Promise<void> {
+    try {
+      const latestJob = await this.storage.getProcessingJobById(job.id);
+      if (latestJob?.status === "cancelled") {
+        return;
+      }
+
+      const finishedHistory = this.finishLastAttempt(history, "failed", message);
+
+      if (job.attempts < job.maxAttempts) {
+        const delay = getRetryDelay(job.attempts);
+        await this.storage.updateProcessingJob(job.id, {
+          status: "queued",
+          runAt: new Date(Date.now() + delay),
+          lastError: message,
+          history: finishedHistory,
+        });
+        await this.setFileStatus(job.audioFileId, "queued", message);
+        processingEvents.stage(job.audioFileId, "queued");
+        setTimeout(() => this.pump(), delay).unref();
+        console.warn(`Processing job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`);
+      } else {
+        await this.storage.updateProcessingJob(job.id, {
+          status: "failed",
+          lastError: message,
+          history: finishedHistory,
+        });
+        await this.setFileStatus(job.audioFileId, failedFileStatus(job), message);
+        processingEvents.stage(job.audioFileId, "failed");
+        console.error(`Processing job ${job.id} failed permanently after ${job.attempts} attempts: ${message}`);
+      }
+    } catch (error) {
+      console.error(`Error recording failure of processing job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Update the file status and tell live subscribers about it
+   */
+  private async setFileStatus(audioFileId: number, status: string, error?: string | null): Promise<void> {
+    await this.storage.updateAudioFile(audioFileId, {
+      status,
+      ...(error !== undefined && { error }),
+    });
+    processingEvents.publish({ type: "status", audioFileId, status, error });
+  }
+
+  private finishLastAttempt(
+    history: ProcessingJobAttempt[],
+    outcome: NonNullable<ProcessingJobAttempt["outcome"]>,
+    error?: string,
+  ): ProcessingJobAttempt[] {
+    if (history.length === 0) {
+      return history;
+    }
+
+    const last = history[history.length - 1];
+    if (last.finishedAt) {
+      return history;
+    }
+
+    return [
+      ...history.slice(0, -1),
+      {
+        ...last,
+        finishedAt: new Date().toISOString(),
+        outcome,
+        ...(error && { error }),
+      },
+    ];
+  }
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { claimingSettingsSchema, DEFAULT_CLAIMING_SETTINGS } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+describe("getProjectSettings", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.init();
+  });
+
+  const load = () => getProjectSettings(storage, "tasks.claiming", claimingSettingsSchema, DEFAULT_CLAIMING_SETTINGS);
+
+  it("returns the defaults until the setting is saved", async () => {
+    assert.deepEqual(await load(), DEFAULT_CLAIMING_SETTINGS);
+  });
+
+  it("fills fields the saved value lacks from the defaults", async () => {
+    await storage.setProjectSetting("tasks.claiming", { maxOpenAssignments: 2 }, 1);
+    assert.deepEqual(await load(), { ...DEFAULT_CLAIMING_SETTINGS, maxOpenAssignments: 2 });
+  });
+
+  it("falls back to the defaults when the saved value no longer fits the schema", async () => {
+    await storage.setProjectSetting("tasks.claiming", { maxOpenAssignments: "many" }, 1);
+    assert.deepEqual(await load(), DEFAULT_CLAIMING_SETTINGS);
+  });
+});
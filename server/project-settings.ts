@@ -0,0 +1,17 @@
+import { z } from "zod";
+import type { IStorage } from "./storage";
+
+/**
+ * A project setting saved under `key`, with fields it lacks taken from `defaults` (settings saved
+ * before a field existed). Falls back to the defaults when what is saved no longer fits the schema.
+ */
+export async function getProjectSettings<T extends object>(
+  storage: IStorage,
+  key: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  defaults: T,
+): Promise<T> {
+  const saved = await storage.getProjectSetting<Partial<T>>(key);
+  const parsed = schema.safeParse({ ...defaults, ...saved });
+  return parsed.success ? parsed.data : defaults;
+}
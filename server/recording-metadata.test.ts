@@ -0,0 +1,47 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AudioFile, User } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { RecordingMetadataError, updateRecordingMetadata } from "./recording-metadata";
+
+describe("updateRecordingMetadata", () => {
+  let storage: MemStorage;
+  let uploader: User;
+  let audioFile: AudioFile;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.init();
+    uploader = await storage.createUser({ username: "uploader", password: "x", fullName: "Uploader", role: "transcriber" });
+    audioFile = await storage.createAudioFile({
+      filename: "show.wav",
+      originalPath: "uploads/show.wav",
+      uploadedBy: uploader.id,
+      status: "processed",
+      license: "proprietary",
+    });
+  });
+
+  it("rejects a license change by a non-admin", async () => {
+    await assert.rejects(
+      updateRecordingMetadata(storage, audioFile, { license: "CC-BY-4.0" }, uploader),
+      (error: unknown) => error instanceof RecordingMetadataError && error.status === 403,
+    );
+    await assert.rejects(
+      updateRecordingMetadata(storage, audioFile, { license: "" }, uploader),
+      (error: unknown) => error instanceof RecordingMetadataError && error.status === 403,
+    );
+    assert.equal((await storage.getAudioFileById(audioFile.id))?.license, "proprietary");
+  });
+
+  it("lets a non-admin edit other fields while sending the current license back", async () => {
+    const updated = await updateRecordingMetadata(storage, audioFile, { region: "Nouakchott", license: "proprietary" }, uploader);
+    assert.equal(updated?.region, "Nouakchott");
+    assert.equal(updated?.license, "proprietary");
+  });
+
+  it("lets an admin change the license", async () => {
+    const updated = await updateRecordingMetadata(storage, audioFile, { license: "CC-BY-4.0" }, { id: 1, role: "admin" });
+    assert.equal(updated?.license, "CC-BY-4.0");
+  });
+});
@@ -0,0 +1,135 @@
+import { fromZodError } from "zod-validation-error";
+import {
+  recordingMetadataSchema,
+  type AudioFile,
+  type ExportFilter,
+  type RecordingMetadata,
+  type User,
+} from "@shared/schema";
+import type { FormattedTranscription, IStorage } from "./storage";
+
+export class RecordingMetadataError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Validate recording metadata from a request, as an object or a JSON string (multipart uploads)
+ */
+export function parseRecordingMetadata(raw: unknown): RecordingMetadata {
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = raw.trim() ? JSON.parse(raw) : {};
+    } catch {
+      throw new RecordingMetadataError("metadata must be valid JSON");
+    }
+  }
+
+  const result = recordingMetadataSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    throw new RecordingMetadataError(fromZodError(result.error).message);
+  }
+  return result.data;
+}
+
+/**
+ * Apply a metadata edit from the recording's owner or an admin. Only admins may change the license,
+ * since the export policy blocks recordings by license; sending the current license back is fine.
+ */
+export async function updateRecordingMetadata(
+  storage: IStorage,
+  audioFile: AudioFile,
+  raw: unknown,
+  editor: Pick<User, "id" | "role">,
+): Promise<AudioFile | undefined> {
+  const metadata = parseRecordingMetadata(raw);
+  if (metadata.license !== undefined && (metadata.license ?? null) !== audioFile.license && editor.role !== "admin") {
+    throw new RecordingMetadataError("Only admins can change the license of a recording", 403);
+  }
+  return storage.updateAudioFile(audioFile.id, metadata);
+}
+
+export function pickRecordingMetadata(file: AudioFile): RecordingMetadata {
+  return {
+    sourceType: file.sourceType as RecordingMetadata["sourceType"],
+    region: file.region,
+    recordingDate: file.recordingDate,
+    consentRef: file.consentRef,
+    license: file.license,
+    tags: file.tags,
+  };
+}
+
+/**
+ * Whether a recording passes the metadata part of an export filter (MemStorage; DbStorage
+ * builds the same conditions in SQL)
+ */
+export function matchesRecordingFilter(file: AudioFile, filter: ExportFilter): boolean {
+  const inList = (value: string | null, list?: string[]) => !list?.length || (value !== null && list.includes(value));
+  return inList(file.sourceType, filter.sourceTypes)
+    && inList(file.region, filter.regions)
+    && inList(file.license, filter.licenses)
+    && (!filter.recordingTags?.length || file.tags.some(tag => filter.recordingTags!.includes(tag)))
+    && (!filter.recordedAfter || (file.recordingDate !== null && file.recordingDate >= filter.recordedAfter))
+    && (!filter.recordedBefore || (file.recordingDate !== null && file.recordingDate <= filter.recordedBefore))
+    && (!filter.requireConsentRef || !!file.consentRef);
+}
+
+/**
+ * Look up the metadata of each transcription's source recording, unless it already carries it
+ * (the utterances of a dataset version carry the metadata as it was frozen)
+ */
+export async function attachRecordingMetadata(
+  storage: IStorage,
+  transcriptions: FormattedTranscription[],
+): Promise<FormattedTranscription[]> {
+  const recordings = new Map<number, RecordingMetadata>();
+  for (const audioFileId of Array.from(new Set(transcriptions.flatMap(t => t.recording ? [] : [t.audioFileId])))) {
+    const file = await storage.getAudioFileById(audioFileId);
+    if (file) {
+      recordings.set(audioFileId, pickRecordingMetadata(file));
+    }
+  }
+  return transcriptions.map(t => t.recording ? t : { ...t, recording: recordings.get(t.audioFileId) });
+}
+
+/**
+ * The metadata as export manifests write it: snake_case keys, unset fields left out
+ */
+export function recordingManifestFields(metadata: RecordingMetadata | undefined): Record<string, string | string[]> {
+  if (!metadata) {
+    return {};
+  }
+  return {
+    ...(metadata.sourceType ? { source_type: metadata.sourceType } : {}),
+    ...(metadata.region ? { region: metadata.region } : {}),
+    ...(metadata.recordingDate ? { recording_date: metadata.recordingDate } : {}),
+    ...(metadata.consentRef ? { consent_ref: metadata.consentRef } : {}),
+    ...(metadata.license ? { license: metadata.license } : {}),
+    ...(metadata.tags?.length ? { tags: metadata.tags } : {}),
+  };
+}
+
+/**
+ * `recording` entry of a per-segment export record; left out when the recording has no metadata
+ */
+export function recordingEntry(t: FormattedTranscription): { recording?: Record<string, string | string[]> } {
+  const fields = recordingManifestFields(t.recording);
+  return Object.keys(fields).length > 0 ? { recording: fields } : {};
+}
+
+/**
+ * `recordings.json` of archive exports: the metadata of every recording in the export, by ID
+ */
+export function buildRecordingsManifest(transcriptions: FormattedTranscription[]): string {
+  const recordings = new Map<number, RecordingMetadata | undefined>();
+  for (const t of transcriptions) {
+    recordings.set(t.audioFileId, t.recording);
+  }
+  const entries = Array.from(recordings.keys())
+    .sort((a, b) => a - b)
+    .map(audioFileId => ({ audio_file_id: audioFileId, ...recordingManifestFields(recordings.get(audioFileId)) }));
+  return JSON.stringify(entries, null, 2);
+}
@@ -0,0 +1,126 @@
+import type { AudioFile } from "@shared/schema";
+import { applyAnnotationTagOptions, type AnnotationTagOptions } from "@shared/annotation-tags";
+import { IStorage } from "./storage";
+
+export const TRANSCRIPT_FORMATS = ["srt", "vtt", "txt", "json"] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+// Text shown for stretches of speech nobody has transcribed (yet)
+export const GAP_MARKER = "[untranscribed]";
+
+export interface TranscriptCue {
+  start: number; // in milliseconds from the start of the recording
+  end: number; // in milliseconds
+  text: string;
+  gap: boolean; // True for consecutive segments without (approved) text
+  segmentIds: number[];
+}
+
+export interface RecordingTranscript {
+  audioFileId: number;
+  filename: string;
+  approvedOnly: boolean;
+  cues: TranscriptCue[];
+}
+
+export interface TranscriptOptions {
+  approvedOnly: boolean; // Treat segments whose transcription is not approved as gaps
+  includeGaps: boolean; // Mark gaps with a cue; false leaves them out
+  annotationTags: AnnotationTagOptions; // What happens to [noise]-style tags, as in exports
+}
+
+/**
+ * Join the transcriptions of all segments of a recording in time order. Runs of segments
+ * without usable text (none, rejected, or not approved with `approvedOnly`) become a single gap
+ * cue spanning them. Segments whose text is only tags (e.g. `[noise]`) get no cue once the tags are stripped.
+ */
+export async function buildRecordingTranscript(
+  storage: IStorage,
+  audioFile: AudioFile,
+  options: TranscriptOptions,
+): Promise<RecordingTranscript> {
+  const segments = (await storage.getAudioSegmentsByFileId(audioFile.id))
+    .filter(segment => segment.status !== "deleted")
+    .sort((a, b) => a.startTime - b.startTime || a.id - b.id);
+
+  const cues: TranscriptCue[] = [];
+  let inGap = false;
+  for (const segment of segments) {
+    const transcription = await storage.getTranscriptionBySegmentId(segment.id);
+    const usable = transcription !== undefined
+      && transcription.text.trim() !== ""
+      && transcription.status !== "rejected"
+      && (!options.approvedOnly || transcription.status === "approved");
+
+    if (usable) {
+      inGap = false;
+      const text = applyAnnotationTagOptions(transcription.text, options.annotationTags).trim();
+      if (text !== "") {
+        cues.push({ start: segment.startTime, end: segment.endTime, text, gap: false, segmentIds: [segment.id] });
+      }
+      continue;
+    }
+
+    const previous = cues[cues.length - 1];
+    if (inGap && previous?.gap) {
+      previous.end = Math.max(previous.end, segment.endTime);
+      previous.segmentIds.push(segment.id);
+    } else {
+      cues.push({ start: segment.startTime, end: segment.endTime, text: GAP_MARKER, gap: true, segmentIds: [segment.id] });
+    }
+    inGap = true;
+  }
+
+  return {
+    audioFileId: audioFile.id,
+    filename: audioFile.filename,
+    approvedOnly: options.approvedOnly,
+    cues: options.includeGaps ? cues : cues.filter(cue => !cue.gap),
+  };
+}
+
+// HH:MM:SS followed by `separator` and milliseconds (',' for SRT, '.' for WebVTT)
+function formatTimestamp(ms: number, separator: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// Blank lines end a cue in both subtitle formats, so they can't appear inside the text
+function cueText(text: string): string {
+  return text.replace(/\r?\n\s*\n/g, "\n");
+}
+
+/**
+ * Serialize a transcript as SubRip, WebVTT, plain text or JSON
+ */
+export function formatTranscript(transcript: RecordingTranscript, format: TranscriptFormat): string {
+  switch (format) {
+    case "srt":
+      return transcript.cues
+        .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cueText(cue.text)}\n`)
+        .join("\n");
+    case "vtt":
+      return "WEBVTT\n\n" + transcript.cues
+        .map(cue => `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cueText(cue.text)}\n`)
+        .join("\n");
+    case "txt":
+      return transcript.cues
+        .map(cue => `[${formatTimestamp(cue.start, ".")}] ${cue.text.replace(/\s*\n\s*/g, " ")}\n`)
+        .join("");
+    case "json":
+      return JSON.stringify({
+        ...transcript,
+        cues: transcript.cues.map(cue => ({ ...cue, start: cue.start / 1000, end: cue.end / 1000 })),
+      }, null, 2);
+  }
+}
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
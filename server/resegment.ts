@@ -0,0 +1,302 @@
+import path from "path";
+import fs from "fs/promises";
+import {
+  type AudioFile,
+  type AudioSegment,
+  type ResegmentReport,
+  type SegmentSpan,
+  type Transcription,
+  type VadSettings,
+} from "@shared/schema";
+import { runVad, type VadSegment } from "./audio-processor";
+import { IStorage } from "./storage";
+import { processingEvents, type ProcessingStage } from "./processing-events";
+import { closeSegmentAssignment, moveSegmentAssignment } from "./assignment-due";
+
+// Old and new boundaries closer than this are treated as the same segment
+const BOUNDARY_TOLERANCE_MS = 100;
+// Minimum intersection-over-union for a transcription to follow its segment to a new one
+const MAPPING_MIN_OVERLAP = 0.8;
+// Transcriptions that count as work worth preserving
+const PROTECTED_TRANSCRIPTION_STATUSES = ["approved", "pending_review"];
+// Segments a transcriber holds
+const HELD_SEGMENT_STATUSES = ["assigned", "rejected"];
+
+export class ResegmentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+interface ExistingSegment {
+  segment: AudioSegment;
+  transcription?: Transcription;
+}
+
+interface DetectedSegment {
+  vad: VadSegment;
+  startTime: number;
+  endTime: number;
+  duration: number;
+}
+
+interface ResegmentPlan {
+  unchanged: { existing: ExistingSegment; detected: DetectedSegment }[];
+  mapped: { existing: ExistingSegment; detected: DetectedSegment; overlap: number }[];
+  keptWithTranscription: ExistingSegment[];
+  added: DetectedSegment[];
+  skipped: DetectedSegment[];
+  removed: ExistingSegment[];
+}
+
+function toSpan(segment: { id?: number; startTime: number; endTime: number; duration: number }): SegmentSpan {
+  return {
+    ...(segment.id !== undefined && { id: segment.id }),
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    duration: segment.duration,
+  };
+}
+
+function overlapMs(a: { startTime: number; endTime: number }, b: { startTime: number; endTime: number }): number {
+  return Math.max(0, Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime));
+}
+
+function intersectionOverUnion(a: { startTime: number; endTime: number }, b: { startTime: number; endTime: number }): number {
+  const intersection = overlapMs(a, b);
+  const union = Math.max(a.endTime, b.endTime) - Math.min(a.startTime, b.startTime);
+  return union > 0 ? intersection / union : 0;
+}
+
+function isProtected(existing: ExistingSegment): boolean {
+  return !!existing.transcription && PROTECTED_TRANSCRIPTION_STATUSES.includes(existing.transcription.status);
+}
+
+/**
+ * Decide what happens to every old and new segment.
+ * 1. Old segments whose boundaries barely moved are kept as they are.
+ * 2. Old segments with approved/pending work move their transcription to the new segment
+ *    that overlaps them best, or are kept if no new segment is close enough.
+ * 3. New segments overlapping a kept segment are skipped; the rest are added.
+ * 4. Every other old segment is removed.
+ */
+function planResegmentation(existing: ExistingSegment[], detected: DetectedSegment[]): ResegmentPlan {
+  const plan: ResegmentPlan = {
+    unchanged: [],
+    mapped: [],
+    keptWithTranscription: [],
+    added: [],
+    skipped: [],
+    removed: [],
+  };
+  const claimed = new Set<DetectedSegment>();
+  const pending: ExistingSegment[] = [];
+
+  for (const old of existing) {
+    const match = detected.find(candidate =>
+      !claimed.has(candidate) &&
+      Math.abs(candidate.startTime - old.segment.startTime) <= BOUNDARY_TOLERANCE_MS &&
+      Math.abs(candidate.endTime - old.segment.endTime) <= BOUNDARY_TOLERANCE_MS
+    );
+    if (match) {
+      claimed.add(match);
+      plan.unchanged.push({ existing: old, detected: match });
+    } else {
+      pending.push(old);
+    }
+  }
+
+  for (const old of pending) {
+    if (!isProtected(old)) {
+      plan.removed.push(old);
+      continue;
+    }
+
+    let best: DetectedSegment | undefined;
+    let bestOverlap = 0;
+    for (const candidate of detected) {
+      if (claimed.has(candidate)) continue;
+      const overlap = intersectionOverUnion(old.segment, candidate);
+      if (overlap > bestOverlap) {
+        best = candidate;
+        bestOverlap = overlap;
+      }
+    }
+
+    if (best && bestOverlap >= MAPPING_MIN_OVERLAP) {
+      claimed.add(best);
+      plan.mapped.push({ existing: old, detected: best, overlap: Math.round(bestOverlap * 1000) / 1000 });
+    } else {
+      plan.keptWithTranscription.push(old);
+    }
+  }
+
+  const keptSegments = [
+    ...plan.unchanged.map(entry => entry.existing.segment),
+    ...plan.keptWithTranscription.map(entry => entry.segment),
+  ];
+  for (const candidate of detected) {
+    if (claimed.has(candidate)) continue;
+    if (keptSegments.some(segment => overlapMs(segment, candidate) > 0)) {
+      plan.skipped.push(candidate);
+    } else {
+      plan.added.push(candidate);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Check that a file can be queued for re-segmentation: it must be processed and its original
+ * audio must still be on disk
+ */
+export async function checkResegmentable(audioFile: AudioFile): Promise<void> {
+  if (audioFile.status !== "processed") {
+    throw new ResegmentError(`Only processed files can be re-segmented (current status: ${audioFile.status})`, 409);
+  }
+
+  try {
+    await fs.access(audioFile.originalPath, fs.constants.R_OK);
+  } catch {
+    throw new ResegmentError("Original audio file is no longer available", 410);
+  }
+}
+
+/**
+ * Rerun VAD on a processed file with new settings and reconcile the result with the
+ * existing segments, keeping segments (and their transcriptions) that already have work.
+ * Runs as a processing queue job, which sets the file status around it.
+ */
+export async function resegmentAudio(
+  audioFile: AudioFile,
+  vadSettings: VadSettings,
+  storage: IStorage,
+): Promise<ResegmentReport> {
+  processingEvents.stage(audioFile.id, "preparing");
+
+  // Write the new segments next to the old ones so kept segments keep their audio
+  const fileSegmentsDir = audioFile.processedPath
+    ?? path.join(process.cwd(), "uploads", "segments", `file_${audioFile.id}`);
+  const outputDir = path.join(fileSegmentsDir, `resegment_${Date.now()}`);
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const vadSegments = await runVad(audioFile.originalPath, outputDir, vadSettings, (stage, percent) => {
+    processingEvents.progress(audioFile.id, stage as ProcessingStage, percent);
+  });
+  processingEvents.stage(audioFile.id, "saving_segments");
+  const detected: DetectedSegment[] = vadSegments.map(vad => ({
+    vad,
+    startTime: Math.round(vad.start_time),
+    endTime: Math.round(vad.end_time),
+    duration: Math.round(vad.duration),
+  }));
+
+  const segments = (await storage.getAudioSegmentsByFileId(audioFile.id))
+    .filter(segment => segment.status !== "deleted")
+    .sort((a, b) => a.startTime - b.startTime);
+  const existing: ExistingSegment[] = [];
+  for (const segment of segments) {
+    const transcription = await storage.getTranscriptionBySegmentId(segment.id);
+    existing.push({ segment, transcription });
+  }
+
+  const plan = planResegmentation(existing, detected);
+  const report: ResegmentReport = {
+    audioFileId: audioFile.id,
+    vadSettings,
+    added: [],
+    removed: [],
+    released: [],
+    kept: [],
+    mapped: [],
+    skipped: plan.skipped.map(toSpan),
+  };
+
+  for (const { existing: old } of plan.unchanged) {
+    report.kept.push({ ...toSpan(old.segment), reason: "unchanged", transcriptionId: old.transcription?.id });
+  }
+  for (const old of plan.keptWithTranscription) {
+    report.kept.push({ ...toSpan(old.segment), reason: "has_transcription", transcriptionId: old.transcription?.id });
+  }
+
+  for (const { existing: old, detected: target, overlap } of plan.mapped) {
+    const newSegment = await storage.createAudioSegment({
+      audioFileId: audioFile.id,
+      segmentPath: target.vad.path,
+      startTime: target.startTime,
+      endTime: target.endTime,
+      duration: target.duration,
+      status: old.segment.status,
+      assignedTo: old.segment.assignedTo,
+      transcribedBy: old.segment.transcribedBy,
+      reviewedBy: old.segment.reviewedBy,
+      speakerId: old.segment.speakerId,
+    });
+    // Whoever holds the segment keeps it, with the same lease and due date
+    const mappedSegment = await storage.updateAudioSegment(newSegment.id, {
+      leaseExpiresAt: old.segment.leaseExpiresAt,
+      dueAt: old.segment.dueAt,
+    });
+    await moveSegmentAssignment(storage, old.segment.id, mappedSegment.id);
+    await storage.updateTranscription(old.transcription!.id, { segmentId: newSegment.id });
+    await storage.deleteAudioSegment(old.segment.id);
+    report.mapped.push({
+      from: toSpan(old.segment),
+      to: toSpan(newSegment),
+      transcriptionId: old.transcription!.id,
+      overlap,
+    });
+  }
+
+  for (const target of plan.added) {
+    const newSegment = await storage.createAudioSegment({
+      audioFileId: audioFile.id,
+      segmentPath: target.vad.path,
+      startTime: target.startTime,
+      endTime: target.endTime,
+      duration: target.duration,
+      status: "available",
+      assignedTo: null,
+      transcribedBy: null,
+      reviewedBy: null,
+    });
+    report.added.push(toSpan(newSegment));
+  }
+
+  for (const old of plan.removed) {
+    await storage.deleteAudioSegment(old.segment.id);
+    report.removed.push(toSpan(old.segment));
+    if (HELD_SEGMENT_STATUSES.includes(old.segment.status) && old.segment.assignedTo !== null) {
+      await closeSegmentAssignment(storage, old.segment.id, "released");
+      report.released.push({
+        ...toSpan(old.segment),
+        assignedTo: old.segment.assignedTo,
+        ...(old.transcription && { transcriptionId: old.transcription.id }),
+      });
+    }
+  }
+
+  // New audio that didn't become a segment is not needed
+  for (const unused of [...plan.unchanged.map(entry => entry.detected), ...plan.skipped]) {
+    await fs.unlink(unused.vad.path).catch(() => {});
+  }
+
+  const activeSegments = (await storage.getAudioSegmentsByFileId(audioFile.id))
+    .filter(segment => segment.status !== "deleted");
+  await storage.updateAudioFile(audioFile.id, {
+    status: "processed",
+    vadSettings,
+    segments: activeSegments.length,
+    duration: activeSegments.reduce((total, segment) => total + segment.duration, 0),
+  });
+
+  processingEvents.stage(audioFile.id, "completed");
+  processingEvents.publish({ type: "status", audioFileId: audioFile.id, status: "processed" });
+
+  console.log(
+    `Re-segmented audio file ${audioFile.id}: ${report.added.length} added, ${report.removed.length} removed, ` +
+    `${report.kept.length} kept, ${report.mapped.length} mapped, ${report.skipped.length} skipped`
+  );
+  return report;
+}
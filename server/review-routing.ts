@@ -0,0 +1,63 @@
+import {
+  DEFAULT_REVIEW_ROUTING,
+  reviewRoutingSettingsSchema,
+  type ReviewRoutingSettings,
+  type User,
+} from "@shared/schema";
+import { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+export const REVIEW_ROUTING_KEY = "review.routing";
+// Last reviewer picked by round-robin, so turns survive restarts
+const ROUND_ROBIN_CURSOR_KEY = "review.routing.last_reviewer";
+
+/**
+ * Project-wide review routing settings (falls back to least-loaded routing)
+ */
+export async function getReviewRoutingSettings(storage: IStorage): Promise<ReviewRoutingSettings> {
+  return getProjectSettings(storage, REVIEW_ROUTING_KEY, reviewRoutingSettingsSchema, DEFAULT_REVIEW_ROUTING);
+}
+
+/**
+ * Users who may review work by `transcriberId`: every reviewer except the transcriber.
+ * Admins can review too but are never routed work automatically.
+ */
+async function getEligibleReviewers(storage: IStorage, transcriberId: number | null): Promise<User[]> {
+  const allUsers = await storage.getAllUsers();
+  return allUsers
+    .filter(user => user.role === "reviewer" && user.id !== transcriberId)
+    .sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Pick the reviewer for a newly submitted transcription according to the routing strategy.
+ * Returns null when routing is manual or nobody is eligible; the segment then waits for an admin.
+ */
+export async function pickReviewer(storage: IStorage, transcriberId: number | null): Promise<number | null> {
+  const { strategy } = await getReviewRoutingSettings(storage);
+  if (strategy === "manual") {
+    return null;
+  }
+
+  const reviewers = await getEligibleReviewers(storage, transcriberId);
+  if (reviewers.length === 0) {
+    return null;
+  }
+
+  if (strategy === "round_robin") {
+    const lastReviewerId = await storage.getProjectSetting<number>(ROUND_ROBIN_CURSOR_KEY) ?? 0;
+    const next = reviewers.find(reviewer => reviewer.id > lastReviewerId) ?? reviewers[0];
+    await storage.setProjectSetting(ROUND_ROBIN_CURSOR_KEY, next.id, null);
+    return next.id;
+  }
+
+  // least_loaded: fewest segments waiting for review, lowest ID on a tie
+  const pending = await storage.getPendingReviewCounts();
+  let best = reviewers[0];
+  for (const reviewer of reviewers) {
+    if ((pending[reviewer.id] ?? 0) < (pending[best.id] ?? 0)) {
+      best = reviewer;
+    }
+  }
+  return best.id;
+}
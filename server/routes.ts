@@ -1,14 +1,103 @@
 import type { Express, Request, Response, NextFunction } from "express"; // Import types only
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated, isAdmin } from "./auth";
+import { storage, type IStorage } from "./storage";
+import { setupAuth, isAuthenticated, isAdmin, isReviewer } from "./auth";
 import multer from "multer";
 import path from "path";
+import os from "os";
 import fs from "fs";
 import * as fsPromises from "fs/promises";
 import { existsSync } from "fs";
-import { processAudio, cancelProcessing } from "./audio-processor";
-import { randomUUID } from "crypto";
+import { ProcessingQueue } from "./processing-queue";
+import { processingEvents, type ProcessingEvent } from "./processing-events";
+import { getProjectVadSettings, resolveVadSettings, VadSettingsError, VAD_SETTINGS_KEY } from "./audio-processor";
+import { checkResegmentable, ResegmentError } from "./resegment";
+import { parseRecordingMetadata, RecordingMetadataError, updateRecordingMetadata } from "./recording-metadata";
+import {
+  getSegmentContext,
+  extractContextAudio,
+  updateSegmentBoundaries,
+  splitSegment,
+  mergeSegments,
+  SegmentEditError,
+} from "./segment-editor";
+import {
+  assignReviewer,
+  claimNextSegment,
+  getAllowedActions,
+  performWorkflowAction,
+  setAssignmentDueDate,
+  TranscriptionValidationError,
+  WorkflowError,
+} from "./workflow";
+import { getReviewRoutingSettings, REVIEW_ROUTING_KEY } from "./review-routing";
+import { getClaimingSettings, CLAIMING_SETTINGS_KEY } from "./task-claiming";
+import { getTextNormalizationSettings, TEXT_NORMALIZATION_SETTINGS_KEY } from "./text-normalization";
+import { getTranscriptionValidationSettings, TRANSCRIPTION_VALIDATION_SETTINGS_KEY } from "./transcription-validation";
+import { getAssignmentDueSettings, getSlaReport, ASSIGNMENT_DUE_SETTINGS_KEY } from "./assignment-due";
+import { AssignmentSweeper } from "./assignment-sweeper";
+import { ExportQueue } from "./export-queue";
+import { previewExport } from "./export-writer";
+import { ConsentError, EXPORT_POLICY_KEY, getExportPolicy, setConsentStatus } from "./export-policy";
+import {
+  checkUpload,
+  describeDuplicate,
+  getDuplicateDetectionSettings,
+  resolveDuplicate,
+  DuplicateError,
+  DUPLICATE_DETECTION_SETTINGS_KEY,
+} from "./duplicate-detection";
+import { createDatasetVersion, diffDatasetVersions } from "./dataset-versions";
+import {
+  addSpeaker,
+  assignSegmentSpeaker,
+  diarizeRecording,
+  editSpeaker,
+  getDiarizationSettings,
+  SpeakerError,
+  DIARIZATION_SETTINGS_KEY,
+} from "./speakers";
+import {
+  buildRecordingTranscript,
+  formatTranscript,
+  TRANSCRIPT_CONTENT_TYPES,
+  TRANSCRIPT_FORMATS,
+  type TranscriptFormat,
+} from "./recording-transcript";
+import {
+  vadSettingsSchema,
+  VAD_PRESETS,
+  reviewRoutingSettingsSchema,
+  claimingSettingsSchema,
+  assignmentDueSettingsSchema,
+  splitRatiosSchema,
+  DEFAULT_SPLIT_RATIOS,
+  audioNormalizationSchema,
+  EXPORT_FORMATS,
+  exportFilterSchema,
+  insertSpeakerSchema,
+  updateSpeakerSchema,
+  diarizationSettingsSchema,
+  consentStatusUpdateSchema,
+  exportPolicySchema,
+  duplicateDetectionSettingsSchema,
+  duplicateResolutionSchema,
+  type AudioFile,
+  type AudioNormalization,
+  type AudioSegment,
+  type Export,
+  type ExportFormat,
+  type ExportOptions,
+  type SplitRatios,
+  type User,
+  type WorkflowAction,
+} from "@shared/schema";
+import { textNormalizationSchema, type TextNormalization } from "@shared/text-normalization";
+import { transcriptionValidationSettingsSchema } from "@shared/transcription-validation";
+import { annotationTagOptionsSchema, type AnnotationTagOptions } from "@shared/annotation-tags";
+import type { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { randomInt, randomUUID } from "crypto";
 import jwt from "jsonwebtoken";
 import archiver from "archiver";
 
@@ -45,6 +134,191 @@ const storage_config = multer.diskStorage({
   },
 });
 
+const processingQueue = new ProcessingQueue(storage);
+const assignmentSweeper = new AssignmentSweeper(storage);
+const exportQueue = new ExportQueue(storage);
+
+interface ExportSettings {
+  format: ExportFormat;
+  options: ExportOptions;
+  splitSeed?: number;
+  audioNormalization: AudioNormalization | null;
+}
+
+const EXPORT_FILE_NAMES: Record<ExportFormat, (timestamp: number) => string> = {
+  whisper: timestamp => `export_${timestamp}.json`,
+  standard: timestamp => `export_${timestamp}.json`,
+  custom: timestamp => `export_${timestamp}.json`,
+  nemo: timestamp => `export_${timestamp}.jsonl`,
+  hf_audiofolder: timestamp => `dataset_${timestamp}.zip`,
+  kaldi: timestamp => `kaldi_${timestamp}.zip`,
+  whisper_training: timestamp => `whisper_training_export_${timestamp}.zip`,
+};
+
+/**
+ * Format and format-specific options of an export request body, or the reason they are invalid
+ */
+function parseExportSettings(body: any): ExportSettings | { error: string } {
+  const { format, includeSpeaker, includeTimestamps, includeConfidence } = body;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` };
+  }
+
+  // Hugging Face `datasets` audiofolder ZIP with train/validation/test splits
+  let splitRatios: SplitRatios | undefined;
+  let splitSeed: number | undefined;
+  let metadataFormat: "csv" | "jsonl" | undefined;
+  if (format === "hf_audiofolder") {
+    const ratios = splitRatiosSchema.safeParse(body.splitRatios ?? DEFAULT_SPLIT_RATIOS);
+    if (!ratios.success) {
+      return { error: fromZodError(ratios.error).message };
+    }
+    const seed = body.splitSeed;
+    if (seed !== undefined && seed !== null && (!Number.isInteger(seed) || seed < 0 || seed > 2147483647)) {
+      return { error: "splitSeed must be an integer from 0 to 2147483647" };
+    }
+    metadataFormat = body.metadataFormat ?? "csv";
+    if (metadataFormat !== "csv" && metadataFormat !== "jsonl") {
+      return { error: "metadataFormat must be csv or jsonl" };
+    }
+    splitRatios = ratios.data;
+    // Picked now and stored, so a rerun after a restart gives the same split
+    splitSeed = seed ?? randomInt(0, 2147483647);
+  }
+
+  // Audio processing only applies to archives that contain audio
+  let audioNormalization: AudioNormalization | null = null;
+  if (body.audioNormalization && (format === "hf_audiofolder" || format === "whisper_training")) {
+    const parsed = audioNormalizationSchema.safeParse(body.audioNormalization);
+    if (!parsed.success) {
+      return { error: fromZodError(parsed.error).message };
+    }
+    audioNormalization = parsed.data;
+  }
+
+  // Rules are copied into the export's options, so later changes to the project rules don't affect it
+  let textNormalization: TextNormalization | undefined;
+  if (body.textNormalization) {
+    const parsed = textNormalizationSchema.safeParse(body.textNormalization);
+    if (!parsed.success) {
+      return { error: fromZodError(parsed.error).message };
+    }
+    textNormalization = parsed.data;
+  }
+
+  let annotationTags: AnnotationTagOptions | undefined;
+  if (body.annotationTags) {
+    const parsed = annotationTagOptionsSchema.safeParse(body.annotationTags);
+    if (!parsed.success) {
+      return { error: fromZodError(parsed.error).message };
+    }
+    annotationTags = parsed.data;
+  }
+
+  return {
+    format,
+    options: {
+      includeSpeaker, includeTimestamps, includeConfidence, splitRatios, metadataFormat, textNormalization, annotationTags,
+    },
+    splitSeed,
+    audioNormalization,
+  };
+}
+
+/**
+ * Export filter of a request body: the `filter` object, with the older top-level date range as a fallback
+ */
+function parseExportFilter(body: any) {
+  return exportFilterSchema.safeParse({
+    startDate: body.startDate,
+    endDate: body.endDate,
+    ...body.filter,
+  });
+}
+
+/**
+ * Admins, the uploader and the people who worked on a segment can open it
+ */
+function canAccessSegment(user: Pick<User, "id" | "role">, segment: AudioSegment, audioFile: AudioFile): boolean {
+  return user.role === "admin" ||
+    audioFile.uploadedBy === user.id ||
+    segment.assignedTo === user.id ||
+    segment.transcribedBy === user.id ||
+    segment.reviewedBy === user.id;
+}
+
+interface SettingsRoute<T> {
+  key: string; // Project setting key
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  load: (storage: IStorage) => Promise<T>; // The module's getter, which fills in the defaults
+  adminOnly?: boolean; // Only admins may read them as well
+  toResponse?: (settings: T) => unknown; // Body of both responses; the settings by default
+}
+
+/**
+ * GET and PUT `path` for a project setting. Only admins change settings, and PUT validates the
+ * whole value against the schema before saving it.
+ */
+function registerSettingsRoutes<T>(app: Express, path: string, route: SettingsRoute<T>): void {
+  const toResponse = route.toResponse ?? ((settings: T) => settings);
+  const readAccess = route.adminOnly ? [isAuthenticated, isAdmin] : [isAuthenticated];
+
+  app.get(path, ...readAccess, async (req: Request, res: Response) => {
+    try {
+      res.json(toResponse(await route.load(storage)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put(path, isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    try {
+      const result = route.schema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      
+      await storage.setProjectSetting(route.key, result.data, req.user!.id);
+      res.json(toResponse(result.data));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+}
+
+/**
+ * Record a queued export and hand it to the background worker, which writes it to uploads/exports
+ */
+async function createExportJob(
+  userId: number,
+  format: ExportFormat,
+  options: ExportOptions,
+  extra: { splitSeed?: number; audioNormalization?: AudioNormalization | null; datasetVersionId?: number } = {},
+): Promise<Export> {
+  const filename = EXPORT_FILE_NAMES[format](Date.now());
+  const exportRecord = await storage.createExport({
+    filename,
+    path: path.join(exportsDir, filename),
+    format,
+    createdBy: userId,
+    records: 0,
+    size: 0,
+    status: "queued",
+    progress: 0,
+    includeSpeaker: options.includeSpeaker ?? false,
+    includeTimestamps: options.includeTimestamps ?? false,
+    includeConfidence: options.includeConfidence ?? false,
+    startDate: options.startDate ? new Date(options.startDate) : undefined,
+    endDate: options.endDate ? new Date(options.endDate) : undefined,
+    splitSeed: extra.splitSeed,
+    audioNormalization: extra.audioNormalization,
+    datasetVersionId: extra.datasetVersionId,
+    options,
+  });
+  exportQueue.enqueue(exportRecord);
+  return exportRecord;
+}
+
 const upload = multer({
   storage: storage_config,
   limits: { fileSize: 200 * 1024 * 1024 }, // 200MB limit
@@ -71,6 +345,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
 
+  // Resume interrupted processing jobs and start the worker loop
+  await processingQueue.start();
+
+  // Release expired claims and flag or reclaim overdue assignments
+  assignmentSweeper.start();
+
+  // Resume interrupted exports and write queued ones in the background
+  await exportQueue.start();
+
   // Healthcheck route with enhanced error handling
   app.get("/", async (req, res) => {
     try {
@@ -84,6 +367,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         service: "hassaniya-transcriber",
         version: process.env.npm_package_version || "1.0.0",
         uptime: process.uptime()
+      });
+    } catch (error: any) {
+      console.error("Healthcheck error:", error);
+      res.status(500).json({ status: "error", message: error.message });
+    }
   });
 
   // User routes
@@ -176,31 +464,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fileSize = req.file.size;
       const filename = path.basename(req.file.originalname);
       
+      // Resolve the VAD parameters for this upload (preset or project default plus overrides)
+      let vadSettings;
+      let metadata;
+      try {
+        vadSettings = await resolveVadSettings(storage, req.body.vadProfile, req.body.vadSettings);
+        metadata = parseRecordingMetadata(req.body.metadata);
+      } catch (error) {
+        if (error instanceof VadSettingsError || error instanceof RecordingMetadataError) {
+          await fsPromises.unlink(originalPath).catch(() => {});
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      // Look for an identical earlier upload (the processing job looks for near duplicates):
+      // rejected duplicates aren't kept, warned ones wait for an admin
+      const check = await checkUpload(storage, originalPath);
+      if (check.match && check.action === "reject") {
+        await fsPromises.unlink(originalPath).catch(() => {});
+        return res.status(409).json({
+          message: describeDuplicate(check.match),
+          duplicateOf: check.match,
+        });
+      }
+      const held = check.match !== null && check.action === "warn";
+      
       // Create a record in the database
       const audioFile = await storage.createAudioFile({
         filename,
         originalPath,
         processedPath: null,
         uploadedBy: req.user!.id,
-        status: "processing",
+        status: held ? "duplicate" : "queued",
         segments: 0,
         duration: 0,
         size: fileSize,
+        vadSettings,
+        ...metadata,
+        contentHash: check.contentHash,
+        ...(held && check.match && {
+          duplicateOfId: check.match.id,
+          duplicateKind: check.match.kind,
+          duplicateSimilarity: check.match.similarity,
+          duplicateStatus: "pending",
+        }),
       });
       
-      // Process the audio file asynchronously
-      processAudio(audioFile, storage);
+      if (held) {
+        return res.status(201).json({
+          id: audioFile.id,
+          filename,
+          status: audioFile.status,
+          duplicateOf: check.match,
+          warning: `${describeDuplicate(check.match!)}. It is held until an admin merges it or keeps it.`,
+        });
+      }
+      
+      // Hand the file to the persistent processing queue
+      await processingQueue.enqueue(audioFile);
+      const queuePositions = await processingQueue.getQueuePositions();
       
-      res.status(201).json({ id: audioFile.id, filename, status: "processing" });
+      res.status(201).json({
+        id: audioFile.id,
+        filename,
+        status: "queued",
+        queuePosition: queuePositions.get(audioFile.id),
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // VAD settings: presets and the project-wide default used when an upload doesn't pick a preset
+  registerSettingsRoutes(app, "/api/settings/vad", {
+    key: VAD_SETTINGS_KEY,
+    schema: vadSettingsSchema,
+    load: getProjectVadSettings,
+    toResponse: projectDefault => ({ projectDefault, presets: VAD_PRESETS }),
+  });
+
+  registerSettingsRoutes(app, "/api/settings/review-routing", {
+    key: REVIEW_ROUTING_KEY,
+    schema: reviewRoutingSettingsSchema,
+    load: getReviewRoutingSettings,
+    adminOnly: true,
+  });
+
+  registerSettingsRoutes(app, "/api/settings/claiming", {
+    key: CLAIMING_SETTINGS_KEY,
+    schema: claimingSettingsSchema,
+    load: getClaimingSettings,
+  });
+
+  // Orthography normalization rules; transcribers see them in the editor preview
+  registerSettingsRoutes(app, "/api/settings/text-normalization", {
+    key: TEXT_NORMALIZATION_SETTINGS_KEY,
+    schema: textNormalizationSchema,
+    load: getTextNormalizationSettings,
+  });
+
+  // Project script the transcription checks assume; the editor runs the same checks
+  registerSettingsRoutes(app, "/api/settings/transcription-validation", {
+    key: TRANSCRIPTION_VALIDATION_SETTINGS_KEY,
+    schema: transcriptionValidationSettingsSchema,
+    load: getTranscriptionValidationSettings,
+  });
+
+  // Whether processing proposes speakers for new recordings, and how eagerly it splits them
+  registerSettingsRoutes(app, "/api/settings/diarization", {
+    key: DIARIZATION_SETTINGS_KEY,
+    schema: diarizationSettingsSchema,
+    load: getDiarizationSettings,
+  });
+
+  // Whether uploads matching an earlier one are rejected or held for an admin
+  registerSettingsRoutes(app, "/api/settings/duplicate-detection", {
+    key: DUPLICATE_DETECTION_SETTINGS_KEY,
+    schema: duplicateDetectionSettingsSchema,
+    load: getDuplicateDetectionSettings,
+  });
+
+  // Which recordings exports leave out because of their consent status or license
+  registerSettingsRoutes(app, "/api/settings/export-policy", {
+    key: EXPORT_POLICY_KEY,
+    schema: exportPolicySchema,
+    load: getExportPolicy,
+    adminOnly: true,
+  });
+
+  registerSettingsRoutes(app, "/api/settings/assignment-due", {
+    key: ASSIGNMENT_DUE_SETTINGS_KEY,
+    schema: assignmentDueSettingsSchema,
+    load: getAssignmentDueSettings,
+    adminOnly: true,
+  });
+
+  // Live processing progress as Server-Sent Events.
+  // Starts with a snapshot of every file currently in flight, then streams stage,
+  // progress, segment and status events for files the user can see.
+  app.get("/api/audio/events", isAuthenticated, async (req, res) => {
+    const isAdminUser = req.user!.role === "admin";
+    const userId = req.user!.id;
+    const fileFilter = req.query.fileId ? parseInt(req.query.fileId as string) : null;
+    const visibility = new Map<number, boolean>();
+
+    const canSee = async (audioFileId: number): Promise<boolean> => {
+      if (fileFilter !== null && audioFileId !== fileFilter) return false;
+      if (isAdminUser) return true;
+      if (!visibility.has(audioFileId)) {
+        const audioFile = await storage.getAudioFileById(audioFileId);
+        visibility.set(audioFileId, audioFile?.uploadedBy === userId);
+      }
+      return visibility.get(audioFileId)!;
+    };
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const send = (eventName: string, data: unknown) => {
+      res.write(`event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const snapshots = [];
+    for (const snapshot of processingEvents.getSnapshots()) {
+      if (await canSee(snapshot.audioFileId)) {
+        snapshots.push(snapshot);
+      }
+    }
+    send("snapshot", snapshots);
+
+    const unsubscribe = processingEvents.subscribe((event: ProcessingEvent) => {
+      canSee(event.audioFileId)
+        .then(visible => {
+          if (visible) send(event.type, event);
+        })
+        .catch(error => console.error("Error filtering processing event:", error));
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   app.get("/api/audio", isAuthenticated, async (req, res) => {
     try {
       const audioFiles = await storage.getAudioFiles(req.user!.id, req.user!.role === "admin");
-      res.json(audioFiles);
+      const queuePositions = await processingQueue.getQueuePositions();
+      res.json(audioFiles.map(file => {
+        const snapshot = processingEvents.getSnapshot(file.id);
+        return {
+          ...file,
+          queuePosition: queuePositions.get(file.id),
+          processingStage: file.status === "processing" ? snapshot?.stage : undefined,
+          processingProgress: file.status === "processing" ? snapshot?.percent : undefined,
+        };
+      }));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -230,7 +698,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           startTime: segment.startTime / 1000, // Convert to seconds for display
           endTime: segment.endTime / 1000, // Convert to seconds for display
           duration: segment.duration / 1000, // Convert to seconds for display
-          status: segment.status
+          status: segment.status,
+          speakerId: segment.speakerId,
         }))
       });
     } catch (error: any) {
@@ -238,6 +707,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Edit the provenance of a recording; fields left out of the body are kept
+  app.patch("/api/audio/:id/metadata", isAuthenticated, async (req, res) => {
+    try {
+      const audioFile = await storage.getAudioFileById(parseInt(req.params.id));
+      if (!audioFile || audioFile.status === "deleted") {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      
+      // Check if user has access to this file
+      if (audioFile.uploadedBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You don't have access to this file" });
+      }
+      
+      const updated = await updateRecordingMetadata(storage, audioFile, req.body, req.user!);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof RecordingMetadataError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Clear, restrict or revoke the use of a recording; revoking taints the dataset versions containing it
+  app.put("/api/audio/:id/consent", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const result = consentStatusUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      
+      res.json(await setConsentStatus(storage, parseInt(req.params.id), result.data, req.user!.id));
+    } catch (error: any) {
+      if (error instanceof ConsentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Time-aligned transcript of a whole recording, e.g. to subtitle it
+  app.get("/api/audio/:id/transcript", isAuthenticated, async (req, res) => {
+    try {
+      const audioFile = await storage.getAudioFileById(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      
+      // Check if user has access to this file
+      if (audioFile.uploadedBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You don't have access to this file" });
+      }
+      
+      const format = (req.query.format ?? "srt") as TranscriptFormat;
+      if (!TRANSCRIPT_FORMATS.includes(format)) {
+        return res.status(400).json({ message: `format must be one of ${TRANSCRIPT_FORMATS.join(", ")}` });
+      }
+      
+      const tags = req.query.tags ?? "strip";
+      if (tags !== "strip" && tags !== "keep") {
+        return res.status(400).json({ message: "tags must be strip or keep" });
+      }
+      
+      const transcript = await buildRecordingTranscript(storage, audioFile, {
+        approvedOnly: req.query.approvedOnly === "true",
+        includeGaps: req.query.gaps !== "false",
+        annotationTags: { policy: tags },
+      });
+      
+      // attachment() guesses a content type from the extension, so set ours afterwards
+      res.attachment(`${audioFile.filename.replace(/\.[^/.]+$/, "")}.${format}`);
+      res.type(TRANSCRIPT_CONTENT_TYPES[format]);
+      res.send(formatTranscript(transcript, format));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.delete("/api/audio/:id", isAuthenticated, async (req, res) => {
     try {
       const fileId = parseInt(req.params.id);
@@ -272,6 +819,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Delete audio file from database
       await storage.deleteAudioFile(fileId);
+      processingEvents.publish({ type: "status", audioFileId: fileId, status: "deleted" });
       
       res.json({ success: true });
     } catch (error: any) {
@@ -279,6 +827,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin decision on an upload held as a possible duplicate: merge it into the original or keep it
+  app.post("/api/audio/:id/duplicate", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const result = duplicateResolutionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      
+      const audioFile = await storage.getAudioFileById(parseInt(req.params.id));
+      if (!audioFile || audioFile.status === "deleted") {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      
+      const updated = await resolveDuplicate(storage, audioFile, result.data.action);
+      if (result.data.action === "ignore") {
+        await processingQueue.enqueue(updated);
+      }
+      processingEvents.publish({ type: "status", audioFileId: updated.id, status: updated.status });
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof DuplicateError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Latest processing job for a file, including its attempt history
+  app.get("/api/audio/:id/processing-job", isAuthenticated, async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const audioFile = await storage.getAudioFileById(fileId);
+      
+      if (!audioFile) {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      
+      // Check if user has access to this file
+      if (audioFile.uploadedBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You don't have access to this file" });
+      }
+      
+      const job = await storage.getLatestProcessingJobForFile(fileId);
+      if (!job) {
+        return res.status(404).json({ message: "No processing job found for this file" });
+      }
+      
+      const queuePositions = await processingQueue.getQueuePositions();
+      res.json({ ...job, queuePosition: queuePositions.get(fileId) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // One processing job by ID, e.g. to read the report of a re-segmentation after later jobs ran
+  app.get("/api/processing-jobs/:id", isAuthenticated, async (req, res) => {
+    try {
+      const job = await storage.getProcessingJobById(parseInt(req.params.id));
+      const audioFile = job && await storage.getAudioFileById(job.audioFileId);
+      if (!job || !audioFile) {
+        return res.status(404).json({ message: "Processing job not found" });
+      }
+      
+      // Check if user has access to this file
+      if (audioFile.uploadedBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You don't have access to this file" });
+      }
+      
+      const queuePositions = await processingQueue.getQueuePositions();
+      res.json({ ...job, queuePosition: queuePositions.get(job.audioFileId) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/audio/:id/cancel", isAuthenticated, async (req, res) => {
     try {
       const fileId = parseInt(req.params.id);
@@ -293,16 +916,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have access to this file" });
       }
       
-      // Cancel processing
-      await cancelProcessing(fileId);
-      await storage.updateAudioFileStatus(fileId, "cancelled");
+      // Cancel processing; a file waiting to be re-segmented keeps its current segments
+      const job = await processingQueue.cancel(fileId);
+      const status = job?.kind === "resegment" ? "processed" : "cancelled";
+      await storage.updateAudioFileStatus(fileId, status);
+      processingEvents.publish({ type: "status", audioFileId: fileId, status });
+      
+      res.json({ message: job?.kind === "resegment" ? "Re-segmentation cancelled" : "Processing cancelled" });
+    } catch (error: any) {
+      if (error instanceof ResegmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Queue a rerun of VAD on a processed file, keeping segments that already have transcriptions.
+  // The report is stored on the job (`result`, see GET /api/processing-jobs/:id) once it has run.
+  app.post("/api/audio/:id/resegment", isAuthenticated, async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const audioFile = await storage.getAudioFileById(fileId);
+      
+      if (!audioFile || audioFile.status === "deleted") {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      
+      // Check if user has access to this file
+      if (audioFile.uploadedBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You don't have access to this file" });
+      }
+      
+      // Without a profile, overrides apply on top of the settings used last time
+      const vadSettings = await resolveVadSettings(
+        storage,
+        req.body.vadProfile,
+        req.body.vadSettings,
+        audioFile.vadSettings ?? undefined,
+      );
+      
+      await checkResegmentable(audioFile);
+      const job = await processingQueue.enqueueResegment(audioFile, vadSettings);
+      const queuePositions = await processingQueue.getQueuePositions();
+      res.status(202)
+        .location(`/api/processing-jobs/${job.id}`)
+        .json({ ...job, queuePosition: queuePositions.get(fileId) });
+    } catch (error: any) {
+      if (error instanceof VadSettingsError || error instanceof ResegmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/audio/:id/speakers", isAuthenticated, async (req, res) => {
+    try {
+      const audioFile = await storage.getAudioFileById(parseInt(req.params.id));
+      if (!audioFile || audioFile.status === "deleted") {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      
+      // Check if user has access to this file
+      if (audioFile.uploadedBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You don't have access to this file" });
+      }
       
-      res.json({ message: "Processing cancelled" });
+      res.json(await storage.getSpeakersByFileId(audioFile.id));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Propose speakers for the segments that don't have one, whether or not diarization is enabled
+  app.post("/api/audio/:id/diarize", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const audioFile = await storage.getAudioFileById(parseInt(req.params.id));
+      if (!audioFile || audioFile.status === "deleted") {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+      if (audioFile.status !== "processed") {
+        return res.status(409).json({ message: `Only processed files can be diarized (current status: ${audioFile.status})` });
+      }
+      
+      const report = await diarizeRecording(storage, audioFile.id, await getDiarizationSettings(storage));
+      res.json(report);
+    } catch (error: any) {
+      if (error instanceof SpeakerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Segments and transcriptions routes
   app.get("/api/segments/:id", isAuthenticated, async (req, res) => {
     try {
@@ -319,14 +1024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Associated audio file not found" });
       }
       
-      const canAccess = 
-        req.user!.role === "admin" || 
-        audioFile.uploadedBy === req.user!.id || 
-        segment.assignedTo === req.user!.id ||
-        segment.transcribedBy === req.user!.id ||
-        segment.reviewedBy === req.user!.id;
-      
-      if (!canAccess) {
+      if (!canAccessSegment(req.user!, segment, audioFile)) {
         return res.status(403).json({ message: "You don't have access to this segment" });
       }
       
@@ -341,6 +1039,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         transcription,
         audioUrl,
         audioId: `Segment_${segment.id}`,
+        allowedActions: getAllowedActions(segment, transcription, req.user!),
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -363,87 +1062,328 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Associated audio file not found" });
       }
       
-      // Check if user can access this segment
-      const canAccess = 
-        req.user!.role === "admin" || 
-        audioFile.uploadedBy === req.user!.id || 
-        segment.assignedTo === req.user!.id ||
-        segment.transcribedBy === req.user!.id ||
-        segment.reviewedBy === req.user!.id;
+      // Check if user can access this segment
+      if (!canAccessSegment(req.user!, segment, audioFile)) {
+        return res.status(403).json({ message: "You don't have access to this segment" });
+      }
+      
+      // Log successful access
+      console.log(`User ${req.user!.username} accessing audio segment ${segmentId}`);
+      
+      // Serve the audio file
+      res.sendFile(segment.segmentPath, { root: "/" });
+      
+    } catch (error: any) {
+      console.error(`Error serving audio segment ${req.params.id}:`, error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Segment boundary editor: neighbours and the surrounding audio window
+  app.get("/api/segments/:id/context", isReviewer, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      
+      const context = await getSegmentContext(storage, segment);
+      res.json({
+        ...context,
+        audioUrl: `/api/segments/${segment.id}/context/audio`,
+      });
+    } catch (error: any) {
+      if (error instanceof SegmentEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/segments/:id/context/audio", isReviewer, async (req, res) => {
+    const tempPath = path.join(os.tmpdir(), `segment_context_${req.params.id}_${randomUUID()}.wav`);
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      
+      await extractContextAudio(storage, segment, tempPath);
+      res.sendFile(tempPath, (err) => {
+        fsPromises.unlink(tempPath).catch(() => {});
+        if (err && !res.headersSent) {
+          res.status(500).json({ message: err.message });
+        }
+      });
+    } catch (error: any) {
+      fsPromises.unlink(tempPath).catch(() => {});
+      if (error instanceof SegmentEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/segments/:id/boundaries", isReviewer, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      
+      const updated = await updateSegmentBoundaries(
+        storage,
+        segment,
+        Number(req.body.startTime),
+        Number(req.body.endTime),
+      );
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof SegmentEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/segments/:id/split", isReviewer, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      
+      const segments = await splitSegment(storage, segment, Number(req.body.at));
+      res.status(201).json({ segments });
+    } catch (error: any) {
+      if (error instanceof SegmentEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/segments/:id/merge", isReviewer, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      
+      const merged = await mergeSegments(storage, segment, parseInt(req.body.withSegmentId), req.user!);
+      res.json(merged);
+    } catch (error: any) {
+      if (error instanceof SegmentEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Speakers of a recording, as the people working on one of its segments see them
+  app.get("/api/segments/:id/speakers", isAuthenticated, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      const audioFile = await storage.getAudioFileById(segment.audioFileId);
+      if (!audioFile) {
+        return res.status(404).json({ message: "Associated audio file not found" });
+      }
+      if (!canAccessSegment(req.user!, segment, audioFile)) {
+        return res.status(403).json({ message: "You don't have access to this segment" });
+      }
+      
+      res.json(await storage.getSpeakersByFileId(segment.audioFileId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add a speaker to the segment's recording and assign it to the segment
+  app.post("/api/segments/:id/speakers", isAuthenticated, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      const audioFile = await storage.getAudioFileById(segment.audioFileId);
+      if (!audioFile) {
+        return res.status(404).json({ message: "Associated audio file not found" });
+      }
+      if (!canAccessSegment(req.user!, segment, audioFile)) {
+        return res.status(403).json({ message: "You don't have access to this segment" });
+      }
+      
+      const result = insertSpeakerSchema.omit({ audioFileId: true, source: true }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      
+      const speaker = await addSpeaker(storage, { ...result.data, audioFileId: segment.audioFileId });
+      const updated = await assignSegmentSpeaker(storage, segment, speaker.id);
+      res.status(201).json({ speaker, segment: updated });
+    } catch (error: any) {
+      if (error instanceof SpeakerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Assign one of the recording's speakers to the segment, or clear it with null
+  app.put("/api/segments/:id/speaker", isAuthenticated, async (req, res) => {
+    try {
+      const segment = await storage.getAudioSegmentById(parseInt(req.params.id));
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      const audioFile = await storage.getAudioFileById(segment.audioFileId);
+      if (!audioFile) {
+        return res.status(404).json({ message: "Associated audio file not found" });
+      }
+      if (!canAccessSegment(req.user!, segment, audioFile)) {
+        return res.status(403).json({ message: "You don't have access to this segment" });
+      }
+      
+      const { speakerId } = req.body ?? {};
+      if (speakerId !== null && !Number.isInteger(speakerId)) {
+        return res.status(400).json({ message: "speakerId must be a speaker ID or null" });
+      }
+      
+      res.json(await assignSegmentSpeaker(storage, segment, speakerId));
+    } catch (error: any) {
+      if (error instanceof SpeakerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/speakers/:id", isReviewer, async (req, res) => {
+    try {
+      const speaker = await storage.getSpeakerById(parseInt(req.params.id));
+      if (!speaker) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      
+      const result = updateSpeakerSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      
+      res.json(await editSpeaker(storage, speaker, result.data));
+    } catch (error: any) {
+      if (error instanceof SpeakerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Segments of a deleted speaker are left without one
+  app.delete("/api/speakers/:id", isReviewer, async (req, res) => {
+    try {
+      const deleted = await storage.deleteSpeaker(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Save a transcription through the workflow: `status` picks the action
+  // (approved -> approve, rejected -> reject, anything else -> submit)
+  app.post("/api/transcriptions/:segmentId", isAuthenticated, async (req, res) => {
+    try {
+      const segmentId = parseInt(req.params.segmentId);
+      const { text, notes, status, rating, reviewNotes } = req.body;
+      
+      const action: WorkflowAction =
+        status === "approved" ? "approve" : status === "rejected" ? "reject" : "submit";
+      const existingTranscription = await storage.getTranscriptionBySegmentId(segmentId);
+      
+      const result = await performWorkflowAction(storage, segmentId, action, req.user!, {
+        text,
+        notes,
+        rating,
+        reviewNotes,
+      });
+      
+      res.status(existingTranscription ? 200 : 201).json(result.transcription);
+    } catch (error: any) {
+      if (error instanceof TranscriptionValidationError) {
+        return res.status(error.status).json({ message: error.message, issues: error.issues });
+      }
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Explicit workflow actions on a segment
+  app.post("/api/segments/:id/:action(claim|submit|approve|reject|reopen|unassign)", isAuthenticated, async (req, res) => {
+    try {
+      const { text, notes, rating, reviewNotes } = req.body ?? {};
+      const result = await performWorkflowAction(
+        storage,
+        parseInt(req.params.id),
+        req.params.action as WorkflowAction,
+        req.user!,
+        { text, notes, rating, reviewNotes },
+      );
+      
+      res.json({
+        ...result.segment,
+        transcription: result.transcription,
+        allowedActions: getAllowedActions(result.segment, result.transcription, req.user!),
+      });
+    } catch (error: any) {
+      if (error instanceof TranscriptionValidationError) {
+        return res.status(error.status).json({ message: error.message, issues: error.issues });
+      }
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/transcriptions/:id/revisions", isAuthenticated, async (req, res) => {
+    try {
+      const transcription = await storage.getTranscriptionById(parseInt(req.params.id));
+      if (!transcription) {
+        return res.status(404).json({ message: "Transcription not found" });
+      }
+      
+      const segment = await storage.getAudioSegmentById(transcription.segmentId);
+      const canAccess =
+        req.user!.role === "admin" ||
+        req.user!.role === "reviewer" ||
+        transcription.createdBy === req.user!.id ||
+        segment?.assignedTo === req.user!.id ||
+        segment?.transcribedBy === req.user!.id;
       
       if (!canAccess) {
-        return res.status(403).json({ message: "You don't have access to this segment" });
+        return res.status(403).json({ message: "You don't have access to this transcription" });
       }
       
-      // Log successful access
-      console.log(`User ${req.user!.username} accessing audio segment ${segmentId}`);
-      
-      // Serve the audio file
-      res.sendFile(segment.segmentPath, { root: "/" });
-      
+      const revisions = await storage.getTranscriptionRevisions(transcription.id);
+      res.json(revisions);
     } catch (error: any) {
-      console.error(`Error serving audio segment ${req.params.id}:`, error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/transcriptions/:segmentId", isAuthenticated, async (req, res) => {
+  // Segments waiting for review: a reviewer's own queue, or every queue for admins
+  app.get("/api/review-queue", isReviewer, async (req, res) => {
     try {
-      const segmentId = parseInt(req.params.segmentId);
-      const { text, notes, status, rating, reviewNotes } = req.body;
-      
-      const segment = await storage.getAudioSegmentById(segmentId);
-      if (!segment) {
-        return res.status(404).json({ message: "Segment not found" });
-      }
-      
-      // Get existing transcription if any
-      const existingTranscription = await storage.getTranscriptionBySegmentId(segmentId);
-      
-      if (existingTranscription) {
-        // Update existing transcription
-        const updatedTranscription = await storage.updateTranscription(existingTranscription.id, {
-          text: text || existingTranscription.text,
-          notes: notes !== undefined ? notes : existingTranscription.notes,
-          reviewedBy: req.user!.role === "reviewer" || req.user!.role === "admin" ? req.user!.id : existingTranscription.reviewedBy,
-          status: status || existingTranscription.status,
-          rating: rating !== undefined ? rating : existingTranscription.rating,
-          reviewNotes: reviewNotes !== undefined ? reviewNotes : existingTranscription.reviewNotes,
-        });
-        
-        // Update segment status based on transcription status
-        if (status) {
-          let segmentStatus = segment.status;
-          if (status === "approved") {
-            segmentStatus = "reviewed";
-          } else if (status === "rejected") {
-            segmentStatus = "rejected";
-          }
-          await storage.updateAudioSegmentStatus(segmentId, segmentStatus);
-        }
-        
-        res.json(updatedTranscription);
-      } else {
-        // Create new transcription
-        const transcription = await storage.createTranscription({
-          segmentId,
-          text,
-          createdBy: req.user!.id,
-          reviewedBy: req.user!.role === "reviewer" || req.user!.role === "admin" ? req.user!.id : null,
-          status: status || "pending_review",
-          notes,
-          rating,
-          reviewNotes,
-        });
-        
-        // Update segment status
-        await storage.updateAudioSegment(segmentId, {
-          status: "transcribed",
-          transcribedBy: req.user!.id,
-        });
-        
-        res.status(201).json(transcription);
-      }
+      const queue = await storage.getReviewQueue(req.user!.role === "admin" ? null : req.user!.id);
+      res.json(queue);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -469,6 +1409,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What the current user can claim: audio files with available segments and their open-assignment count
+  app.get("/api/tasks/claimable", isAuthenticated, async (req, res) => {
+    try {
+      const settings = await getClaimingSettings(storage);
+      const openAssignments = await storage.countOpenAssignments(req.user!.id);
+      const availableByFile = new Map<number, number>();
+      for (const segment of await storage.getAvailableSegments()) {
+        availableByFile.set(segment.audioFileId, (availableByFile.get(segment.audioFileId) ?? 0) + 1);
+      }
+      
+      const files = [];
+      for (const [audioFileId, availableSegments] of Array.from(availableByFile.entries())) {
+        const audioFile = await storage.getAudioFileById(audioFileId);
+        files.push({ audioFileId, filename: audioFile?.filename ?? `File ${audioFileId}`, availableSegments });
+      }
+      
+      res.json({ ...settings, openAssignments, files });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Self-service assignment: atomically claim the next available segment (optionally from one file)
+  app.post("/api/tasks/claim-next", isAuthenticated, async (req, res) => {
+    try {
+      const { audioFileId } = req.body ?? {};
+      if (audioFileId !== undefined && audioFileId !== null && !Number.isInteger(audioFileId)) {
+        return res.status(400).json({ message: "audioFileId must be an integer" });
+      }
+      
+      const segment = await claimNextSegment(storage, req.user!, audioFileId ?? undefined);
+      const transcription = await storage.getTranscriptionBySegmentId(segment.id);
+      res.json({
+        ...segment,
+        transcription,
+        allowedActions: getAllowedActions(segment, transcription, req.user!),
+      });
+    } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Recent activities
   app.get("/api/activities/recent", isAuthenticated, async (req, res) => {
     try {
@@ -515,6 +1500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!segmentId || !userId) {
         return res.status(400).json({ message: "segmentId and userId are required" });
       }
+      const dueAt = req.body.dueAt ? new Date(req.body.dueAt) : undefined;
       
       const segment = await storage.getAudioSegmentById(segmentId);
       if (!segment) {
@@ -526,19 +1512,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Only allow assignment if segment status is 'available'
-      if (segment.status !== "available") {
-        return res.status(400).json({ message: "Segment is not available for assignment" });
-      }
-      
-      // Update segment
-      const updatedSegment = await storage.updateAudioSegment(segmentId, {
-        assignedTo: userId,
-        status: "assigned"
-      });
+      const { segment: updatedSegment } = await performWorkflowAction(storage, segmentId, "assign", req.user!, { userId, dueAt });
       
       res.status(200).json(updatedSegment);
     } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -552,6 +1532,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "segmentIds array and userId are required" });
       }
       
+      const dueAt = req.body.dueAt ? new Date(req.body.dueAt) : undefined;
+      if (dueAt && (isNaN(dueAt.getTime()) || dueAt.getTime() <= Date.now())) {
+        return res.status(400).json({ message: "dueAt must be a valid date in the future" });
+      }
+      
       // Verify user exists
       const user = await storage.getUser(userId);
       if (!user) {
@@ -564,25 +1549,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       for (const segmentId of segmentIds) {
         try {
-          // Get segment
-          const segment = await storage.getAudioSegmentById(segmentId);
-          if (!segment) {
-            errors.push({ segmentId, error: "Segment not found" });
-            continue;
-          }
-          
-          // Verify segment is available
-          if (segment.status !== "available") {
-            errors.push({ segmentId, error: "Segment is not available for assignment" });
-            continue;
-          }
-          
-          // Update segment
-          const updatedSegment = await storage.updateAudioSegment(segmentId, {
-            assignedTo: userId,
-            status: "assigned"
-          });
-          
+          const { segment: updatedSegment } = await performWorkflowAction(storage, segmentId, "assign", req.user!, { userId, dueAt });
           results.push(updatedSegment);
         } catch (err) {
           errors.push({ segmentId, error: err instanceof Error ? err.message : "Unknown error" });
@@ -599,89 +1566,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export routes
-  app.post("/api/exports", isAuthenticated, isAdmin, async (req, res) => {
+  // Move the due date of a segment's current assignment
+  app.put("/api/admin/segments/:id/due-date", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { 
-        startDate, 
-        endDate, 
-        exportType, 
-        format, 
-        includeSpeaker, 
-        includeTimestamps, 
-        includeConfidence 
-      } = req.body;
-      
-      // Generate a unique filename
-      const filename = `export_${Date.now()}.json`;
-      const filePath = path.join(exportsDir, filename);
-      
-      // Get fully validated transcriptions based on criteria
-      let transcriptions;
-      if (exportType === "all_verified") {
-        transcriptions = await storage.getVerifiedTranscriptions(startDate, endDate);
-        console.log(`Found ${transcriptions.length} verified transcriptions for export`);
-      } else {
-        // For selected files, we would need file IDs
-        // This is a simplified implementation
-        transcriptions = await storage.getVerifiedTranscriptions(startDate, endDate);
-        console.log(`Found ${transcriptions.length} verified transcriptions for export`);
-      }
-      
-      // Format the data according to the selected format
-      let exportData;
-      if (format === "whisper") {
-        exportData = transcriptions.map(t => ({
-          audio_filepath: t.audioPath,
-          text: t.text,
-          ...(includeSpeaker && t.speaker ? { speaker: t.speaker } : {}),
-          ...(includeTimestamps ? { 
-            start: t.startTime,
-            end: t.endTime 
-          } : {}),
-          ...(includeConfidence && t.confidence ? { confidence: t.confidence } : {})
-        }));
-        console.log(`Formatted ${exportData.length} transcriptions for Whisper export`);
-      } else if (format === "standard") {
-        exportData = transcriptions.map(t => ({
-          id: t.id,
-          text: t.text,
-          audio_path: t.audioPath,
-          duration: t.duration,
-          ...(includeSpeaker && t.speaker ? { speaker: t.speaker } : {}),
-          ...(includeTimestamps ? { 
-            start_time: t.startTime,
-            end_time: t.endTime 
-          } : {}),
-          ...(includeConfidence && t.confidence ? { confidence: t.confidence } : {})
-        }));
-      } else {
-        // Custom format
-        exportData = transcriptions;
+      if (!req.body?.dueAt) {
+        return res.status(400).json({ message: "dueAt is required" });
+      }
+      
+      const segment = await setAssignmentDueDate(storage, parseInt(req.params.id), new Date(req.body.dueAt));
+      res.json(segment);
+    } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // SLA compliance per transcriber, optionally only for assignments made since a date
+  app.get("/api/admin/sla", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "since must be a valid date" });
       }
       
-      // Write to file
-      await fsPromises.writeFile(filePath, JSON.stringify(exportData, null, 2));
+      res.json(await getSlaReport(storage, since));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Route segments waiting for review to a reviewer
+  app.post("/api/admin/assign-reviewer", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { segmentIds, reviewerId } = req.body;
       
-      // Calculate file size
-      const stats = await fsPromises.stat(filePath);
+      if (!segmentIds || !Array.isArray(segmentIds) || segmentIds.length === 0 || !reviewerId) {
+        return res.status(400).json({ message: "segmentIds array and reviewerId are required" });
+      }
       
-      // Create export record in database
-      const exportRecord = await storage.createExport({
-        filename,
-        path: filePath,
-        format,
-        createdBy: req.user!.id,
-        records: transcriptions.length,
-        size: stats.size,
-        includeSpeaker,
-        includeTimestamps,
-        includeConfidence,
-        startDate: startDate ? new Date(startDate) : undefined,
-        endDate: endDate ? new Date(endDate) : undefined,
+      const results = [];
+      const errors = [];
+      
+      for (const segmentId of segmentIds) {
+        try {
+          results.push(await assignReviewer(storage, segmentId, reviewerId));
+        } catch (err) {
+          errors.push({ segmentId, error: err instanceof Error ? err.message : "Unknown error" });
+        }
+      }
+      
+      res.status(200).json({
+        success: results.length,
+        errors: errors.length > 0 ? errors : undefined,
+        segments: results
       });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Export routes
+  app.post("/api/exports", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const settings = parseExportSettings(req.body);
+      if ("error" in settings) {
+        return res.status(400).json({ message: settings.error });
+      }
+      
+      const filter = parseExportFilter(req.body);
+      if (!filter.success) {
+        return res.status(400).json({ message: fromZodError(filter.error).message });
+      }
+      if (req.body.exportType === "selected_files" && !filter.data.audioFileIds?.length) {
+        return res.status(400).json({ message: "Select at least one audio file to export" });
+      }
+      
+      const exportRecord = await createExportJob(req.user!.id, settings.format, {
+        ...filter.data,
+        ...settings.options,
+      }, { splitSeed: settings.splitSeed, audioNormalization: settings.audioNormalization });
       
-      res.status(201).json(exportRecord);
+      res.status(202).json(exportRecord);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Record count and total audio an export with the given filter would contain
+  app.post("/api/exports/preview", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const filter = parseExportFilter(req.body);
+      if (!filter.success) {
+        return res.status(400).json({ message: fromZodError(filter.error).message });
+      }
+      res.json(await previewExport(storage, filter.data));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -696,6 +1676,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Status and progress of a single export
+  app.get("/api/exports/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const exportRecord = await storage.getExportById(parseInt(req.params.id));
+      if (!exportRecord) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      res.json(exportRecord);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // What the export policy left out of each run of an export, newest first
+  app.get("/api/exports/:id/audit", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const exportRecord = await storage.getExportById(parseInt(req.params.id));
+      if (!exportRecord) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      res.json(await storage.getExportAudits(exportRecord.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/exports/:id/download", isAuthenticated, isAdmin, async (req, res) => {
     try {
       const exportId = parseInt(req.params.id);
@@ -705,14 +1711,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Export not found" });
       }
       
+      if (exportRecord.status !== "completed") {
+        return res.status(409).json({ message: `Export is ${exportRecord.status}`, status: exportRecord.status, progress: exportRecord.progress });
+      }
+      
       // Verify path exists
       const filePath = exportRecord.path;
       if (!fs.existsSync(filePath)) {
         return res.status(404).json({ message: "Export file not found on server" });
       }
       
-      // Use res.download for proper file download handling
-      return res.download(filePath, exportRecord.filename, (err) => {
+      // A strong ETag from the checksum lets clients resume with Range + If-Range
+      // without risking a mix of two different files
+      if (exportRecord.checksum) {
+        res.setHeader("ETag", `"${exportRecord.checksum}"`);
+        res.setHeader("Digest", `sha-256=${Buffer.from(exportRecord.checksum, "hex").toString("base64")}`);
+      }
+      
+      // res.download answers Range requests with 206 Partial Content
+      return res.download(filePath, exportRecord.filename, { acceptRanges: true }, (err) => {
         if (err) {
           console.error('Download error:', err);
           // Only respond if headers haven't been sent yet
@@ -727,6 +1744,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rebuild an export of a dataset version with the same format and options, to get the original's checksum again
+  app.post("/api/exports/:id/regenerate", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const original = await storage.getExportById(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      if (original.datasetVersionId === null) {
+        return res.status(409).json({ message: "Only exports of a dataset version can be regenerated; other exports read live data" });
+      }
+
+      const exportRecord = await createExportJob(req.user!.id, original.format as ExportFormat, original.options ?? {}, {
+        splitSeed: original.splitSeed ?? undefined,
+        audioNormalization: original.audioNormalization,
+        datasetVersionId: original.datasetVersionId,
+      });
+      res.status(202).json(exportRecord);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Dataset versions: named, frozen sets of transcription revisions
+  app.get("/api/dataset-versions", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getDatasetVersions());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/dataset-versions", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name || name.length > 100) {
+        return res.status(400).json({ message: "name is required and must be at most 100 characters" });
+      }
+      const filter = parseExportFilter(req.body);
+      if (!filter.success) {
+        return res.status(400).json({ message: fromZodError(filter.error).message });
+      }
+      if (await storage.getDatasetVersionByName(name)) {
+        return res.status(409).json({ message: `Dataset version ${name} already exists` });
+      }
+
+      const version = await createDatasetVersion(storage, {
+        name,
+        description: typeof req.body.description === "string" && req.body.description.trim() ? req.body.description.trim() : null,
+        filter: filter.data,
+      }, req.user!.id);
+      res.status(201).json(version);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Utterances added, removed and edited between two versions
+  app.get("/api/dataset-versions/diff", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const from = await storage.getDatasetVersionById(parseInt(req.query.from as string));
+      const to = await storage.getDatasetVersionById(parseInt(req.query.to as string));
+      if (!from || !to) {
+        return res.status(404).json({ message: "Dataset version not found" });
+      }
+      res.json(await diffDatasetVersions(storage, from, to));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/dataset-versions/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const version = await storage.getDatasetVersionById(parseInt(req.params.id));
+      if (!version) {
+        return res.status(404).json({ message: "Dataset version not found" });
+      }
+      const items = await storage.getDatasetVersionItems(version.id);
+      res.json({ ...version, items });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Export a version in any format; the same format and options always give the same file
+  app.post("/api/dataset-versions/:id/exports", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const version = await storage.getDatasetVersionById(parseInt(req.params.id));
+      if (!version) {
+        return res.status(404).json({ message: "Dataset version not found" });
+      }
+      const settings = parseExportSettings(req.body);
+      if ("error" in settings) {
+        return res.status(400).json({ message: settings.error });
+      }
+
+      const exportRecord = await createExportJob(req.user!.id, settings.format, settings.options, {
+        splitSeed: settings.splitSeed,
+        audioNormalization: settings.audioNormalization,
+        datasetVersionId: version.id,
+      });
+      res.status(202).json(exportRecord);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Add transcription download endpoint
   app.get("/api/transcriptions/download", isAuthenticated, async (req, res) => {
     try {
@@ -1805,142 +2928,6 @@ ${addedSegments.map(s => `- ${s.filename}`).join('\n')}
     });
   }
 
-  // +++ ADD Whisper Training Export Endpoint +++
-  app.get("/api/whisper-training-export", isAuthenticated, isAdmin, async (req: Request, res: Response) => {
-    console.log(`Admin ${req.user!.id} requested Whisper training export.`);
-
-    try {
-      // 1. Fetch verified transcriptions from storage
-      const startDate = req.query.startDate as string | undefined;
-      const endDate = req.query.endDate as string | undefined;
-      const verifiedTranscriptions = await storage.getVerifiedTranscriptions(startDate, endDate);
-      
-      if (!verifiedTranscriptions || verifiedTranscriptions.length === 0) {
-        return res.status(404).json({ message: "No verified transcriptions found to export." });
-      }
-      
-      console.log(`Found ${verifiedTranscriptions.length} verified transcriptions to export.`);
-
-      // 2. Prepare ZIP Archive
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const zipFilename = `whisper_training_export_${timestamp}.zip`;
-      const archive = archiver('zip', { zlib: { level: 9 } });
-
-      // Set headers for direct download
-      res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', `attachment; filename="${zipFilename}"`);
-
-      // Handle archive warnings and errors
-      archive.on('warning', (err) => {
-        if (err.code === 'ENOENT') {
-          console.warn('Archiver warning (likely file not found):', err);
-        } else {
-          console.error('Archiver warning:', err);
-        }
-      });
-      
-      archive.on('error', (err: Error) => {
-        console.error('Archiver error:', err);
-        if (!res.headersSent) {
-           res.status(500).json({ message: "Failed to create Whisper training archive.", error: err.message });
-        } else {
-           res.end();
-        }
-      });
-
-      // Pipe archive data to the response
-      archive.pipe(res);
-
-      // 3. Prepare files in Whisper training format
-      let audioFilesAdded = 0;
-      let jsonFilesAdded = 0;
-
-      // Create audio and transcripts directories
-      archive.append('', { name: 'audio/' });
-      archive.append('', { name: 'transcripts/' });
-      
-      for (const transcription of verifiedTranscriptions) {
-        try {
-          // Check if audio file exists
-          if (!transcription.audioPath) {
-            console.warn(`Transcription ${transcription.id} has no audio path, skipping.`);
-            continue;
-          }
-          
-          const audioFilePath = path.resolve(transcription.audioPath);
-          
-          try {
-            // Check if file exists and is readable
-            await fsPromises.access(audioFilePath, fs.constants.R_OK);
-            
-            // Create a clean file basename (without extension)
-            const fileBasename = `segment_${transcription.id}`;
-            
-            // 3.1. Add audio file to archive
-            archive.file(audioFilePath, { name: `audio/${fileBasename}.mp3` });
-            audioFilesAdded++;
-            
-            // 3.2. Create and add corresponding JSON file
-            const transcriptJson = {
-              text: transcription.text,
-              // Only include timestamp data if needed for Whisper training
-              start_time: transcription.startTime,
-              end_time: transcription.endTime,
-              duration: transcription.duration
-            };
-            
-            // Add JSON transcript file
-            archive.append(JSON.stringify(transcriptJson, null, 2), { 
-              name: `transcripts/${fileBasename}.json` 
-            });
-            jsonFilesAdded++;
-            
-          } catch (accessErr) {
-            console.warn(`Audio file not found or not readable: ${audioFilePath} for transcription ID ${transcription.id}`);
-          }
-        } catch (err) {
-          console.error(`Error processing transcription ${transcription.id}:`, err);
-        }
-      }
-
-      // 4. Add README with export information
-      const readmeContent = `# Whisper Training Export
-
-Generated: ${new Date().toISOString()}
-User: Admin ${req.user!.id}
-
-## Contents
-- ${audioFilesAdded} audio files (.mp3) in "audio/" directory
-- ${jsonFilesAdded} corresponding transcription files (.json) in "transcripts/" directory
-
-## Format
-Each audio file in the "audio/" directory has a matching JSON file with the same name in the "transcripts/" directory.
-The JSON files contain the transcribed text and timing information.
-
-## Usage for Whisper Fine-tuning
-1. Use this dataset directly with Whisper fine-tuning scripts
-2. Format follows the structure expected by Whisper training pipelines
-`;
-      
-      archive.append(readmeContent, { name: 'README.md' });
-
-      // 5. Finalize the archive
-      await archive.finalize();
-      console.log(`Whisper training export finalized with ${audioFilesAdded} audio/transcript pairs.`);
-
-    } catch (error: any) {
-      console.error(`Error during Whisper training export for admin ${req.user!.id}:`, error);
-      if (!res.headersSent) {
-        res.status(500).json({ error: error.message || 'Internal server error during Whisper training export' });
-      }
-    } finally {
-      // Ensure the response is ended
-      if (!res.headersSent) {
-        res.end();
-      }
-    }
-  });
-
   // Create the server
   const server = createServer(app);
   
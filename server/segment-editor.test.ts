@@ -0,0 +1,71 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { applyMerge } from "./segment-editor";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("applyMerge", () => {
+  let storage: MemStorage;
+  let transcriberId: number;
+  let audioFileId: number;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.init();
+    transcriberId = (await storage.createUser({ username: "transcriber", password: "x", fullName: "Transcriber", role: "transcriber" })).id;
+    audioFileId = (await storage.createAudioFile({
+      filename: "show.wav",
+      originalPath: "uploads/show.wav",
+      uploadedBy: transcriberId,
+      status: "processed",
+    })).id;
+  });
+
+  it("hands the later segment's transcription, holder, lease and assignment to the merged segment", async () => {
+    const first = await storage.createAudioSegment({
+      audioFileId,
+      segmentPath: "uploads/segments/missing_0.wav",
+      startTime: 0,
+      endTime: 900,
+      duration: 900,
+      status: "available",
+    });
+    const second = await storage.createAudioSegment({
+      audioFileId,
+      segmentPath: "uploads/segments/missing_1.wav",
+      startTime: 1000,
+      endTime: 1900,
+      duration: 900,
+      status: "rejected",
+      assignedTo: transcriberId,
+      transcribedBy: transcriberId,
+    });
+    const leaseExpiresAt = new Date(Date.now() + HOUR);
+    const dueAt = new Date(Date.now() + 2 * HOUR);
+    await storage.updateAudioSegment(second.id, { leaseExpiresAt, dueAt });
+    const transcription = await storage.createTranscription({ segmentId: second.id, text: "hi", createdBy: transcriberId, status: "rejected" });
+    const assignment = await storage.createSegmentAssignment({ segmentId: second.id, userId: transcriberId, assignedBy: null, dueAt });
+
+    const merged = await applyMerge(
+      storage,
+      first,
+      (await storage.getAudioSegmentById(second.id))!,
+      { path: "uploads/segments/merged.wav", startTime: 0, endTime: 1900, duration: 1900, audioDuration: 5000 },
+      { id: transcriberId, role: "transcriber" },
+    );
+
+    assert.equal(merged.id, first.id);
+    assert.equal(merged.status, "rejected");
+    assert.equal(merged.assignedTo, transcriberId);
+    assert.equal(merged.leaseExpiresAt?.getTime(), leaseExpiresAt.getTime());
+    assert.equal(merged.dueAt?.getTime(), dueAt.getTime());
+    assert.equal((await storage.getTranscriptionById(transcription.id))?.segmentId, first.id);
+
+    const open = await storage.getOpenSegmentAssignment(first.id);
+    assert.equal(open?.id, assignment.id);
+    assert.equal(open?.dueAt.getTime(), dueAt.getTime());
+    assert.equal(await storage.getOpenSegmentAssignment(second.id), undefined);
+    assert.equal(await storage.countOpenAssignments(transcriberId), 1);
+  });
+});
@@ -0,0 +1,330 @@
+import path from "path";
+import fs from "fs/promises";
+import { type AudioFile, type AudioSegment } from "@shared/schema";
+import { extractAudioRange, type ExtractedRange } from "./audio-processor";
+import { IStorage } from "./storage";
+import { recordTranscriptionRevision, type RevisionAuthor } from "./transcription-revisions";
+import { returnToReview } from "./workflow";
+import { closeSegmentAssignment, moveSegmentAssignment } from "./assignment-due";
+
+// Shortest segment the editor will produce
+export const MIN_SEGMENT_MS = 200;
+// Audio shown around the edited segment in the editor
+const CONTEXT_PADDING_MS = 5000;
+
+export class SegmentEditError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface SegmentContext {
+  segment: AudioSegment;
+  previous: AudioSegment | null;
+  next: AudioSegment | null;
+  windowStart: number; // in milliseconds
+  windowEnd: number; // in milliseconds
+}
+
+function formatMs(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+async function getEditableFile(storage: IStorage, segment: AudioSegment): Promise<AudioFile> {
+  if (segment.status === "deleted") {
+    throw new SegmentEditError("Segment has been deleted", 404);
+  }
+
+  const audioFile = await storage.getAudioFileById(segment.audioFileId);
+  if (!audioFile || audioFile.status === "deleted") {
+    throw new SegmentEditError("Associated audio file not found", 404);
+  }
+  if (audioFile.status !== "processed") {
+    throw new SegmentEditError(`Segments can only be edited on processed files (current status: ${audioFile.status})`, 409);
+  }
+  return audioFile;
+}
+
+/**
+ * Non-deleted segments of a file in playback order
+ */
+async function getActiveSegments(storage: IStorage, audioFileId: number): Promise<AudioSegment[]> {
+  return (await storage.getAudioSegmentsByFileId(audioFileId))
+    .filter(segment => segment.status !== "deleted")
+    .sort((a, b) => a.startTime - b.startTime || a.id - b.id);
+}
+
+async function getNeighbours(storage: IStorage, segment: AudioSegment) {
+  const segments = await getActiveSegments(storage, segment.audioFileId);
+  const index = segments.findIndex(candidate => candidate.id === segment.id);
+  return {
+    previous: index > 0 ? segments[index - 1] : null,
+    next: index >= 0 && index < segments.length - 1 ? segments[index + 1] : null,
+  };
+}
+
+/**
+ * Cut new audio for a segment from the original upload.
+ * A fresh filename is used so that players don't serve a cached copy of the old audio.
+ */
+async function cutSegmentAudio(
+  audioFile: AudioFile,
+  segment: AudioSegment,
+  startTime: number,
+  endTime: number,
+): Promise<ExtractedRange> {
+  const outputDir = path.dirname(segment.segmentPath);
+  await fs.mkdir(outputDir, { recursive: true });
+  const outputPath = path.join(outputDir, `segment_${segment.id}_${Date.now()}.wav`);
+
+  const extracted = await extractAudioRange(audioFile.originalPath, outputPath, startTime, endTime);
+  if (extracted.duration < MIN_SEGMENT_MS) {
+    await fs.unlink(extracted.path).catch(() => {});
+    throw new SegmentEditError(`Segment would end past the end of the audio (${formatMs(extracted.audioDuration)})`);
+  }
+  return extracted;
+}
+
+async function replaceSegmentAudio(
+  storage: IStorage,
+  segment: AudioSegment,
+  extracted: ExtractedRange,
+): Promise<AudioSegment> {
+  const updated = await storage.updateAudioSegment(segment.id, {
+    segmentPath: extracted.path,
+    startTime: extracted.startTime,
+    endTime: extracted.endTime,
+    duration: extracted.duration,
+  });
+  await fs.unlink(segment.segmentPath).catch(() => {});
+  return updated;
+}
+
+/**
+ * Mark the transcription of a segment so reviewers re-check it against the new audio
+ */
+async function flagTranscription(storage: IStorage, segmentId: number, reason: string): Promise<void> {
+  const transcription = await storage.getTranscriptionBySegmentId(segmentId);
+  if (transcription) {
+    await storage.updateTranscription(transcription.id, { flaggedReason: reason });
+  }
+}
+
+async function refreshFileTotals(storage: IStorage, audioFileId: number): Promise<void> {
+  const segments = await getActiveSegments(storage, audioFileId);
+  await storage.updateAudioFile(audioFileId, {
+    segments: segments.length,
+    duration: segments.reduce((total, segment) => total + segment.duration, 0),
+  });
+}
+
+/**
+ * Segment plus its neighbours and the window of original audio the editor displays
+ */
+export async function getSegmentContext(storage: IStorage, segment: AudioSegment): Promise<SegmentContext> {
+  await getEditableFile(storage, segment);
+  const { previous, next } = await getNeighbours(storage, segment);
+
+  return {
+    segment,
+    previous,
+    next,
+    windowStart: Math.max(0, segment.startTime - CONTEXT_PADDING_MS),
+    windowEnd: segment.endTime + CONTEXT_PADDING_MS,
+  };
+}
+
+/**
+ * Audio of the editor window, cut from the original upload
+ */
+export async function extractContextAudio(
+  storage: IStorage,
+  segment: AudioSegment,
+  outputPath: string,
+): Promise<ExtractedRange> {
+  const audioFile = await getEditableFile(storage, segment);
+  const context = await getSegmentContext(storage, segment);
+  return extractAudioRange(audioFile.originalPath, outputPath, context.windowStart, context.windowEnd);
+}
+
+/**
+ * Move the start and end of a segment (drag or trim). Boundaries may not cross the neighbours.
+ */
+export async function updateSegmentBoundaries(
+  storage: IStorage,
+  segment: AudioSegment,
+  startTime: number,
+  endTime: number,
+): Promise<AudioSegment> {
+  const audioFile = await getEditableFile(storage, segment);
+
+  if (!Number.isFinite(startTime) || !Number.isFinite(endTime) || startTime < 0) {
+    throw new SegmentEditError("startTime and endTime must be non-negative numbers of milliseconds");
+  }
+  startTime = Math.round(startTime);
+  endTime = Math.round(endTime);
+  if (endTime - startTime < MIN_SEGMENT_MS) {
+    throw new SegmentEditError(`Segments must be at least ${MIN_SEGMENT_MS}ms long`);
+  }
+
+  const { previous, next } = await getNeighbours(storage, segment);
+  if (previous && startTime < previous.endTime) {
+    throw new SegmentEditError(`Start overlaps the previous segment, which ends at ${formatMs(previous.endTime)}`);
+  }
+  if (next && endTime > next.startTime) {
+    throw new SegmentEditError(`End overlaps the next segment, which starts at ${formatMs(next.startTime)}`);
+  }
+
+  const extracted = await cutSegmentAudio(audioFile, segment, startTime, endTime);
+  const updated = await replaceSegmentAudio(storage, segment, extracted);
+
+  await flagTranscription(
+    storage,
+    segment.id,
+    `Segment boundaries changed from ${formatMs(segment.startTime)}–${formatMs(segment.endTime)} ` +
+    `to ${formatMs(updated.startTime)}–${formatMs(updated.endTime)}`,
+  );
+  await refreshFileTotals(storage, audioFile.id);
+  return updated;
+}
+
+/**
+ * Split a segment in two at `at` (milliseconds from the start of the file).
+ * The first half keeps the segment ID, assignment and transcription.
+ */
+export async function splitSegment(
+  storage: IStorage,
+  segment: AudioSegment,
+  at: number,
+): Promise<[AudioSegment, AudioSegment]> {
+  const audioFile = await getEditableFile(storage, segment);
+
+  if (!Number.isFinite(at)) {
+    throw new SegmentEditError("Split position must be a number of milliseconds");
+  }
+  at = Math.round(at);
+  if (at - segment.startTime < MIN_SEGMENT_MS || segment.endTime - at < MIN_SEGMENT_MS) {
+    throw new SegmentEditError(`Split position must leave at least ${MIN_SEGMENT_MS}ms on both sides`);
+  }
+
+  const secondHalf = await storage.createAudioSegment({
+    audioFileId: audioFile.id,
+    segmentPath: segment.segmentPath,
+    startTime: at,
+    endTime: segment.endTime,
+    duration: segment.endTime - at,
+    status: "available",
+    assignedTo: null,
+    transcribedBy: null,
+    reviewedBy: null,
+    speakerId: segment.speakerId,
+  });
+
+  try {
+    const secondAudio = await cutSegmentAudio(audioFile, secondHalf, at, segment.endTime);
+    const second = await storage.updateAudioSegment(secondHalf.id, {
+      segmentPath: secondAudio.path,
+      startTime: secondAudio.startTime,
+      endTime: secondAudio.endTime,
+      duration: secondAudio.duration,
+    });
+
+    const firstAudio = await cutSegmentAudio(audioFile, segment, segment.startTime, at);
+    const first = await replaceSegmentAudio(storage, segment, firstAudio);
+
+    await flagTranscription(
+      storage,
+      segment.id,
+      `Segment was split at ${formatMs(at)}; text after that point belongs to segment #${second.id}`,
+    );
+    await refreshFileTotals(storage, audioFile.id);
+    return [first, second];
+  } catch (error) {
+    await storage.deleteAudioSegment(secondHalf.id);
+    throw error;
+  }
+}
+
+/**
+ * Merge a segment with the adjacent segment `otherId`. The earlier segment survives;
+ * transcriptions are carried over (and concatenated if both segments have one, which
+ * is recorded as a revision by `editor`). Combined text that isn't approved on both sides
+ * goes back to review.
+ */
+export async function mergeSegments(
+  storage: IStorage,
+  segment: AudioSegment,
+  otherId: number,
+  editor: RevisionAuthor,
+): Promise<AudioSegment> {
+  const audioFile = await getEditableFile(storage, segment);
+
+  const { previous, next } = await getNeighbours(storage, segment);
+  const other = previous?.id === otherId ? previous : next?.id === otherId ? next : null;
+  if (!other) {
+    throw new SegmentEditError("Segments can only be merged with the segment directly before or after them");
+  }
+
+  const [first, second] = other.startTime < segment.startTime ? [other, segment] : [segment, other];
+  const extracted = await cutSegmentAudio(audioFile, first, first.startTime, second.endTime);
+  const merged = await applyMerge(storage, first, second, extracted, editor);
+  await refreshFileTotals(storage, audioFile.id);
+  return merged;
+}
+
+/**
+ * Give `first` the merged audio, delete `second` and carry its transcription and holder over
+ * (split out of mergeSegments so the bookkeeping can be tested without cutting audio)
+ */
+export async function applyMerge(
+  storage: IStorage,
+  first: AudioSegment,
+  second: AudioSegment,
+  extracted: ExtractedRange,
+  editor: RevisionAuthor,
+): Promise<AudioSegment> {
+  const firstTranscription = await storage.getTranscriptionBySegmentId(first.id);
+  const secondTranscription = await storage.getTranscriptionBySegmentId(second.id);
+  const merged = await replaceSegmentAudio(storage, first, extracted);
+  await storage.deleteAudioSegment(second.id);
+
+  const reason = `Merged with segment #${second.id} (${formatMs(second.startTime)}–${formatMs(second.endTime)})`;
+  if (firstTranscription && secondTranscription) {
+    const combined = {
+      text: `${firstTranscription.text.trim()} ${secondTranscription.text.trim()}`.trim(),
+      flaggedReason: `${reason}; text combined from both transcriptions`,
+    };
+    if (firstTranscription.status === "approved" && secondTranscription.status === "approved") {
+      const updated = await storage.updateTranscription(firstTranscription.id, combined);
+      await recordTranscriptionRevision(storage, updated, editor, firstTranscription);
+    } else {
+      await returnToReview(storage, { ...merged, reviewedBy: merged.reviewedBy ?? second.reviewedBy }, firstTranscription, combined, editor);
+    }
+  } else if (secondTranscription) {
+    // Only the later segment had work: move it, and whoever holds it, onto the surviving segment
+    await storage.updateTranscription(secondTranscription.id, {
+      segmentId: first.id,
+      flaggedReason: `${reason}; transcription moved from segment #${second.id}`,
+    });
+    await storage.updateAudioSegment(first.id, {
+      status: second.status,
+      assignedTo: second.assignedTo,
+      transcribedBy: second.transcribedBy,
+      reviewedBy: second.reviewedBy,
+      leaseExpiresAt: second.leaseExpiresAt,
+      dueAt: second.dueAt,
+    });
+    await closeSegmentAssignment(storage, first.id, "released");
+  } else if (firstTranscription) {
+    await storage.updateTranscription(firstTranscription.id, {
+      flaggedReason: `${reason}; the added audio has not been transcribed`,
+    });
+  }
+
+  if (secondTranscription && !firstTranscription) {
+    await moveSegmentAssignment(storage, second.id, first.id);
+  } else {
+    await closeSegmentAssignment(storage, second.id, "released");
+  }
+  return (await storage.getAudioSegmentById(merged.id))!;
+}
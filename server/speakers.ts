@@ -0,0 +1,170 @@
+import {
+  DEFAULT_DIARIZATION_SETTINGS,
+  diarizationSettingsSchema,
+  type AudioSegment,
+  type DiarizationSettings,
+  type InsertSpeaker,
+  type Speaker,
+  type SpeakerSnapshot,
+} from "@shared/schema";
+import { runDiarization } from "./audio-processor";
+import type { FormattedTranscription, IStorage, SpeakerUpdate } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+export const DIARIZATION_SETTINGS_KEY = "speakers.diarization";
+
+export class SpeakerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface DiarizationReport {
+  audioFileId: number;
+  speakers: Speaker[]; // Speakers the pass proposed
+  assigned: number; // Segments given one of them
+}
+
+/**
+ * Project-wide diarization settings (falls back to the defaults: off)
+ */
+export async function getDiarizationSettings(storage: IStorage): Promise<DiarizationSettings> {
+  return getProjectSettings(storage, DIARIZATION_SETTINGS_KEY, diarizationSettingsSchema, DEFAULT_DIARIZATION_SETTINGS);
+}
+
+export function toSpeakerSnapshot({ id, label, gender, dialectRegion, ageBand }: Speaker): SpeakerSnapshot {
+  return { id, label, gender, dialectRegion, ageBand };
+}
+
+/**
+ * Resolve the `speakerId` of each transcription into its `speaker`, unless it already carries
+ * one (the utterances of a dataset version carry the speaker as it was frozen)
+ */
+export async function attachSpeakers(
+  storage: IStorage,
+  transcriptions: FormattedTranscription[],
+): Promise<FormattedTranscription[]> {
+  const ids = Array.from(new Set(transcriptions.flatMap(t => t.speaker ? [] : t.speakerId ?? [])));
+  if (ids.length === 0) {
+    return transcriptions;
+  }
+  const speakers = new Map((await storage.getSpeakersByIds(ids)).map(speaker => [speaker.id, speaker]));
+  return transcriptions.map(t => {
+    const speaker = !t.speaker && t.speakerId ? speakers.get(t.speakerId) : undefined;
+    return speaker ? { ...t, speaker: toSpeakerSnapshot(speaker) } : t;
+  });
+}
+
+async function checkLabelAvailable(storage: IStorage, audioFileId: number, label: string, speakerId?: number) {
+  const existing = await storage.getSpeakersByFileId(audioFileId);
+  if (existing.some(speaker => speaker.label === label && speaker.id !== speakerId)) {
+    throw new SpeakerError(`This recording already has a speaker called "${label}"`, 409);
+  }
+}
+
+export async function addSpeaker(storage: IStorage, input: InsertSpeaker): Promise<Speaker> {
+  await checkLabelAvailable(storage, input.audioFileId, input.label);
+  return storage.createSpeaker(input);
+}
+
+/**
+ * Edit a speaker. An edited proposal becomes a manual speaker, so diarizing again keeps it.
+ */
+export async function editSpeaker(storage: IStorage, speaker: Speaker, updates: SpeakerUpdate): Promise<Speaker> {
+  if (updates.label !== undefined) {
+    await checkLabelAvailable(storage, speaker.audioFileId, updates.label, speaker.id);
+  }
+  return storage.updateSpeaker(speaker.id, { ...updates, source: "manual" });
+}
+
+/**
+ * Set or clear the speaker of a segment. The speaker must belong to the segment's recording.
+ */
+export async function assignSegmentSpeaker(
+  storage: IStorage,
+  segment: AudioSegment,
+  speakerId: number | null,
+): Promise<AudioSegment> {
+  if (speakerId !== null) {
+    const speaker = await storage.getSpeakerById(speakerId);
+    if (!speaker) {
+      throw new SpeakerError("Speaker not found", 404);
+    }
+    if (speaker.audioFileId !== segment.audioFileId) {
+      throw new SpeakerError("The speaker belongs to another recording");
+    }
+  }
+  return storage.updateAudioSegment(segment.id, { speakerId });
+}
+
+// "Speaker N" labels for new proposals, skipping labels the recording already uses
+function nextSpeakerLabels(existing: Speaker[], count: number): string[] {
+  const used = new Set(existing.map(speaker => speaker.label));
+  const labels: string[] = [];
+  for (let n = 1; labels.length < count; n++) {
+    if (!used.has(`Speaker ${n}`)) {
+      labels.push(`Speaker ${n}`);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Propose speakers for the segments of a recording that don't have one yet. Earlier proposals
+ * that nobody edited are replaced; speakers added or edited by hand and their segments are kept.
+ */
+export async function diarizeRecording(
+  storage: IStorage,
+  audioFileId: number,
+  settings: DiarizationSettings,
+  onProgress?: (percent: number) => void,
+): Promise<DiarizationReport> {
+  for (const speaker of await storage.getSpeakersByFileId(audioFileId)) {
+    if (speaker.source === "diarization") {
+      await storage.deleteSpeaker(speaker.id);
+    }
+  }
+
+  const segments = (await storage.getAudioSegmentsByFileId(audioFileId))
+    .filter(segment => segment.status !== "deleted" && segment.speakerId === null)
+    .sort((a, b) => a.startTime - b.startTime);
+  if (segments.length === 0) {
+    return { audioFileId, speakers: [], assigned: 0 };
+  }
+
+  const assignments = await runDiarization(
+    segments.map(segment => ({ id: segment.id, path: segment.segmentPath })),
+    settings,
+    onProgress,
+  );
+
+  const clusters = Array.from(new Set(assignments.map(a => a.speaker))).sort((a, b) => a - b);
+  const labels = nextSpeakerLabels(await storage.getSpeakersByFileId(audioFileId), clusters.length);
+  const speakers = new Map<number, Speaker>();
+  for (let index = 0; index < clusters.length; index++) {
+    speakers.set(clusters[index], await storage.createSpeaker({ audioFileId, label: labels[index], source: "diarization" }));
+  }
+
+  for (const assignment of assignments) {
+    await storage.updateAudioSegment(assignment.id, { speakerId: speakers.get(assignment.speaker)!.id });
+  }
+
+  return { audioFileId, speakers: Array.from(speakers.values()), assigned: assignments.length };
+}
+
+/**
+ * Diarize a freshly segmented recording when the project has it enabled. Diarization is an
+ * optional extra, so failures are logged and leave the segments without speakers.
+ */
+export async function diarizeIfEnabled(storage: IStorage, audioFileId: number): Promise<void> {
+  const settings = await getDiarizationSettings(storage);
+  if (!settings.enabled) {
+    return;
+  }
+  try {
+    const report = await diarizeRecording(storage, audioFileId, settings);
+    console.log(`Proposed ${report.speakers.length} speaker(s) for ${report.assigned} segment(s) of audio file ${audioFileId}`);
+  } catch (error) {
+    console.warn(`Diarization of audio file ${audioFileId} failed:`, error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,527 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import pg from "pg";
+import * as schema from "@shared/schema";
+import type { InsertAudioSegment } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DbStorage } from "./db-storage";
+import type { Database } from "./db";
+
+/**
+ * Contract tests for IStorage: the same cases run against MemStorage and against DbStorage on an
+ * in-process PostgreSQL (pglite) with the migrations from migrations/ applied.
+ */
+
+interface StorageBackend {
+  name: string;
+  setup(): Promise<void>;
+  // A storage with only the seeded admin user
+  create(): Promise<IStorage>;
+  teardown(): Promise<void>;
+}
+
+const memoryBackend: StorageBackend = {
+  name: "MemStorage",
+  async setup() {},
+  async create() {
+    const storage = new MemStorage();
+    await storage.init();
+    return storage;
+  },
+  async teardown() {},
+};
+
+function pgliteBackend(): StorageBackend {
+  let client: PGlite;
+  let db: Database;
+  // Only used by the session store, which these tests don't touch
+  const pool = new pg.Pool();
+
+  return {
+    name: "DbStorage (pglite)",
+    async setup() {
+      client = new PGlite();
+      // The pglite driver exposes the same query builder as node-postgres
+      db = drizzle(client, { schema }) as unknown as Database;
+      await new DbStorage(db, pool).init();
+    },
+    async create() {
+      const { rows } = await client.query<{ tablename: string }>(
+        "select tablename from pg_tables where schemaname = 'public'",
+      );
+      await db.execute(sql.raw(`truncate ${rows.map(row => `"${row.tablename}"`).join(", ")} restart identity cascade`));
+      const storage = new DbStorage(db, pool);
+      await storage.init();
+      return storage;
+    },
+    async teardown() {
+      await client.close();
+    },
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function segmentFor(audioFileId: number, index: number, overrides: Partial<InsertAudioSegment> = {}): InsertAudioSegment {
+  return {
+    audioFileId,
+    segmentPath: `uploads/segments/${audioFileId}_${index}.wav`,
+    startTime: index * 1000,
+    endTime: index * 1000 + 900,
+    duration: 900,
+    status: "available",
+    ...overrides,
+  };
+}
+
+function describeStorageContract(backend: StorageBackend) {
+  describe(backend.name, () => {
+    let storage: IStorage;
+    let uploaderId: number;
+    let transcriberId: number;
+    let reviewerId: number;
+
+    before(() => backend.setup());
+    after(() => backend.teardown());
+
+    beforeEach(async () => {
+      storage = await backend.create();
+      uploaderId = (await storage.createUser({ username: "collector", password: "x", fullName: "Collector", role: "collector" })).id;
+      transcriberId = (await storage.createUser({ username: "transcriber", password: "x", fullName: "Transcriber", role: "transcriber" })).id;
+      reviewerId = (await storage.createUser({ username: "reviewer", password: "x", fullName: "Reviewer", role: "reviewer" })).id;
+    });
+
+    const createAudioFile = (filename = "show.mp3", extra: Partial<schema.InsertAudioFile> = {}) => storage.createAudioFile({
+      filename,
+      originalPath: `uploads/${filename}`,
+      uploadedBy: uploaderId,
+      status: "processed",
+      ...extra,
+    });
+
+    describe("users", () => {
+      it("seeds the admin user and looks users up by ID and username", async () => {
+        const admin = await storage.getUserByUsername("admin");
+        assert.equal(admin?.role, "admin");
+        assert.equal((await storage.getUser(transcriberId))?.username, "transcriber");
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+        assert.deepEqual((await storage.getAllUsers()).map(user => user.username), ["admin", "collector", "transcriber", "reviewer"]);
+      });
+
+      it("updates only the given fields", async () => {
+        const updated = await storage.updateUser(transcriberId, { fullName: "Renamed" });
+        assert.equal(updated.fullName, "Renamed");
+        assert.equal(updated.role, "transcriber");
+        await assert.rejects(storage.updateUser(9999, { fullName: "Missing" }));
+      });
+    });
+
+    describe("audio files", () => {
+      it("fills defaults and applies partial updates", async () => {
+        const file = await createAudioFile("show.mp3", { region: "Trarza", tags: ["news"] });
+        assert.equal(file.consentStatus, "cleared");
+        assert.equal(file.duplicateStatus, null);
+        assert.deepEqual(file.tags, ["news"]);
+
+        const updated = await storage.updateAudioFile(file.id, { license: "CC-BY-4.0", tags: ["news", "poetry"] });
+        assert.equal(updated.region, "Trarza");
+        assert.equal(updated.license, "CC-BY-4.0");
+        assert.deepEqual(updated.tags, ["news", "poetry"]);
+      });
+
+      it("finds files by content hash and fingerprint, leaving out deleted ones", async () => {
+        const first = await createAudioFile("a.mp3", { contentHash: "abc", fingerprint: "AAAA" });
+        const second = await createAudioFile("b.mp3", { contentHash: "abc", fingerprint: "BBBB" });
+        await createAudioFile("c.mp3", { contentHash: "def" });
+        await storage.deleteAudioFile(first.id);
+
+        assert.deepEqual((await storage.getAudioFilesByContentHash("abc")).map(file => file.id), [second.id]);
+        assert.deepEqual(await storage.getAudioFingerprints(), [{ id: second.id, filename: "b.mp3", fingerprint: "BBBB" }]);
+        assert.equal((await storage.getAudioFileById(first.id))?.status, "deleted");
+      });
+
+      it("stores the fingerprint and near duplicate found by the processing job", async () => {
+        const original = await createAudioFile("a.mp3", { fingerprint: "AAAA" });
+        const copy = await createAudioFile("b.mp3");
+
+        const held = await storage.updateAudioFile(copy.id, {
+          fingerprint: "AAAB",
+          duplicateOfId: original.id,
+          duplicateKind: "near",
+          duplicateSimilarity: 0.93,
+          duplicateStatus: "pending",
+        });
+        assert.equal(held.duplicateOfId, original.id);
+        assert.equal(held.duplicateKind, "near");
+        assert.equal(held.duplicateSimilarity, 0.93);
+        assert.equal(held.duplicateStatus, "pending");
+        assert.deepEqual((await storage.getAudioFingerprints()).map(file => file.fingerprint), ["AAAA", "AAAB"]);
+      });
+
+      it("lists only the uploader's files to non-admins", async () => {
+        await createAudioFile("mine.mp3");
+        assert.equal((await storage.getAudioFiles(uploaderId, false)).length, 1);
+        assert.equal((await storage.getAudioFiles(transcriberId, false)).length, 0);
+        assert.equal((await storage.getAudioFiles(null, true)).length, 1);
+      });
+    });
+
+    describe("task claiming", () => {
+      it("claims the oldest available segment up to the open-assignment cap", async () => {
+        const file = await createAudioFile();
+        const first = await storage.createAudioSegment(segmentFor(file.id, 0));
+        const second = await storage.createAudioSegment(segmentFor(file.id, 1));
+        const options = { maxOpenAssignments: 1, leaseExpiresAt: new Date(Date.now() + HOUR), dueAt: new Date(Date.now() + 2 * HOUR) };
+
+        const claimed = await storage.claimNextSegment(transcriberId, options);
+        assert.equal(claimed.segment?.id, first.id);
+        assert.equal(claimed.segment?.status, "assigned");
+        assert.equal(claimed.segment?.assignedTo, transcriberId);
+        assert.equal(claimed.openAssignments, 0);
+
+        const refused = await storage.claimNextSegment(transcriberId, options);
+        assert.equal(refused.segment, undefined);
+        assert.equal(refused.openAssignments, 1);
+        assert.equal(await storage.countOpenAssignments(transcriberId), 1);
+        assert.equal((await storage.getAudioSegmentById(second.id))?.status, "available");
+      });
+
+      it("only claims from the requested audio file", async () => {
+        const file = await createAudioFile("a.mp3");
+        const other = await createAudioFile("b.mp3");
+        await storage.createAudioSegment(segmentFor(file.id, 0));
+        const wanted = await storage.createAudioSegment(segmentFor(other.id, 0));
+
+        const claimed = await storage.claimNextSegment(transcriberId, {
+          audioFileId: other.id,
+          maxOpenAssignments: 5,
+          leaseExpiresAt: new Date(Date.now() + HOUR),
+          dueAt: new Date(Date.now() + HOUR),
+        });
+        assert.equal(claimed.segment?.id, wanted.id);
+      });
+
+      it("lets only one of two concurrent claims take the same segment", async () => {
+        const file = await createAudioFile();
+        await storage.createAudioSegment(segmentFor(file.id, 0));
+        const wanted = await storage.createAudioSegment(segmentFor(file.id, 1));
+        const options = {
+          segmentId: wanted.id,
+          maxOpenAssignments: 5,
+          leaseExpiresAt: new Date(Date.now() + HOUR),
+          dueAt: new Date(Date.now() + HOUR),
+        };
+
+        const results = await Promise.all([
+          storage.claimNextSegment(transcriberId, options),
+          storage.claimNextSegment(reviewerId, options),
+        ]);
+        const claimed = results.filter(result => result.segment);
+        assert.equal(claimed.length, 1);
+        assert.equal(claimed[0].segment?.id, wanted.id);
+        const after = await storage.getAudioSegmentById(wanted.id);
+        assert.equal(after?.assignedTo, claimed[0].segment?.assignedTo);
+      });
+
+      it("returns segments whose lease has expired to the pool", async () => {
+        const file = await createAudioFile();
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0));
+        const now = new Date();
+        await storage.claimNextSegment(transcriberId, {
+          maxOpenAssignments: 5,
+          leaseExpiresAt: new Date(now.getTime() - 1000),
+          dueAt: new Date(now.getTime() + HOUR),
+        });
+
+        const released = await storage.releaseExpiredLeases(now);
+        assert.deepEqual(released.map(s => s.id), [segment.id]);
+        const after = await storage.getAudioSegmentById(segment.id);
+        assert.equal(after?.status, "available");
+        assert.equal(after?.assignedTo, null);
+        assert.equal(after?.leaseExpiresAt, null);
+      });
+
+      it("tracks open and overdue segment assignments", async () => {
+        const file = await createAudioFile();
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0));
+        const now = new Date();
+        const assignment = await storage.createSegmentAssignment({
+          segmentId: segment.id,
+          userId: transcriberId,
+          assignedBy: null,
+          dueAt: new Date(now.getTime() - 1000),
+        });
+
+        assert.equal((await storage.getOpenSegmentAssignment(segment.id))?.id, assignment.id);
+        assert.deepEqual((await storage.getOverdueSegmentAssignments(now)).map(a => a.id), [assignment.id]);
+
+        await storage.updateSegmentAssignment(assignment.id, { closedAt: now, outcome: "submitted" });
+        assert.equal(await storage.getOpenSegmentAssignment(segment.id), undefined);
+        assert.deepEqual(await storage.getOverdueSegmentAssignments(now), []);
+        assert.equal((await storage.getSegmentAssignments({ userId: transcriberId, open: false }))[0]?.outcome, "submitted");
+      });
+
+      it("moves an open assignment to the segment that replaces its own", async () => {
+        const file = await createAudioFile();
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0));
+        const replacement = await storage.createAudioSegment(segmentFor(file.id, 1));
+        const dueAt = new Date(Date.now() + HOUR);
+        const assignment = await storage.createSegmentAssignment({ segmentId: segment.id, userId: transcriberId, assignedBy: null, dueAt });
+
+        const moved = await storage.updateSegmentAssignment(assignment.id, { segmentId: replacement.id });
+        assert.equal(moved.segmentId, replacement.id);
+        assert.equal(moved.dueAt.getTime(), dueAt.getTime());
+        assert.equal(await storage.getOpenSegmentAssignment(segment.id), undefined);
+        assert.equal((await storage.getOpenSegmentAssignment(replacement.id))?.id, assignment.id);
+      });
+    });
+
+    describe("transcriptions", () => {
+      async function submittedTranscription(text = "السلام عليكم") {
+        const file = await createAudioFile();
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0));
+        await storage.updateAudioSegment(segment.id, { status: "transcribed", transcribedBy: transcriberId, reviewedBy: reviewerId });
+        const transcription = await storage.createTranscription({ segmentId: segment.id, text, createdBy: transcriberId, status: "pending_review" });
+        return { file, segment, transcription };
+      }
+
+      it("queues submitted transcriptions for their reviewer", async () => {
+        const { segment, transcription } = await submittedTranscription();
+
+        const queue = await storage.getReviewQueue(reviewerId);
+        assert.equal(queue.length, 1);
+        assert.equal(queue[0].segmentId, segment.id);
+        assert.equal(queue[0].transcriptionId, transcription.id);
+        assert.equal(queue[0].transcriberName, "Transcriber");
+        assert.deepEqual(await storage.getReviewQueue(transcriberId), []);
+        assert.deepEqual(await storage.getPendingReviewCounts(), { [reviewerId]: 1 });
+        assert.equal((await storage.getTaskSummary(reviewerId)).pendingReview, 1);
+      });
+
+      it("exports approved transcriptions that match the filter", async () => {
+        const { file, segment, transcription } = await submittedTranscription("نص [noise]");
+        assert.deepEqual(await storage.getVerifiedTranscriptions(), []);
+
+        await storage.updateTranscription(transcription.id, { status: "approved", reviewedBy: reviewerId, rating: 4 });
+        await storage.updateAudioSegment(segment.id, { status: "reviewed" });
+
+        const [verified] = await storage.getVerifiedTranscriptions();
+        assert.equal(verified.id, transcription.id);
+        assert.equal(verified.audioFileId, file.id);
+        assert.equal(verified.audioPath, segment.segmentPath);
+        assert.equal(verified.sourcePath, file.originalPath);
+        assert.equal(verified.duration, 900);
+
+        assert.equal((await storage.getVerifiedTranscriptions({ minRating: 4, transcriberIds: [transcriberId] })).length, 1);
+        assert.equal((await storage.getVerifiedTranscriptions({ minRating: 5 })).length, 0);
+        assert.equal((await storage.getVerifiedTranscriptions({ excludeTagged: true })).length, 0);
+        assert.equal((await storage.getVerifiedTranscriptions({ audioFileIds: [file.id + 1] })).length, 0);
+        assert.equal((await storage.getTaskSummary(transcriberId)).completed, 1);
+      });
+
+      it("numbers revisions per transcription and returns the latest of each", async () => {
+        const { segment, transcription } = await submittedTranscription();
+        const other = await storage.createTranscription({ segmentId: segment.id + 100, text: "other", createdBy: transcriberId, status: "pending_review" });
+        const revision = (id: number, text: string) => storage.createTranscriptionRevision({
+          transcriptionId: id,
+          segmentId: segment.id,
+          text,
+          status: "pending_review",
+          authorId: transcriberId,
+        });
+
+        assert.equal((await revision(transcription.id, "one")).revision, 1);
+        assert.equal((await revision(other.id, "other")).revision, 1);
+        assert.equal((await revision(transcription.id, "two")).revision, 2);
+
+        const history = await storage.getTranscriptionRevisions(transcription.id);
+        assert.deepEqual(history.map(r => [r.revision, r.text, r.authorName]), [[1, "one", "Transcriber"], [2, "two", "Transcriber"]]);
+        const latest = await storage.getLatestTranscriptionRevisions([transcription.id, other.id]);
+        assert.deepEqual(latest.map(r => [r.transcriptionId, r.text]), [[transcription.id, "two"], [other.id, "other"]]);
+      });
+    });
+
+    describe("speakers", () => {
+      it("keeps labels unique per recording and clears deleted speakers from segments", async () => {
+        const file = await createAudioFile();
+        const speaker = await storage.createSpeaker({ audioFileId: file.id, label: "Speaker 1", gender: "female" });
+        await assert.rejects(storage.createSpeaker({ audioFileId: file.id, label: "Speaker 1" }));
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0, { speakerId: speaker.id }));
+
+        assert.equal(speaker.source, "manual");
+        assert.deepEqual((await storage.getSpeakersByFileId(file.id)).map(s => s.label), ["Speaker 1"]);
+        assert.equal(await storage.deleteSpeaker(speaker.id), true);
+        assert.equal((await storage.getAudioSegmentById(segment.id))?.speakerId, null);
+        assert.equal(await storage.deleteSpeaker(speaker.id), false);
+      });
+    });
+
+    describe("dataset versions", () => {
+      async function createVersion(name: string) {
+        const file = await createAudioFile();
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0));
+        const transcription = await storage.createTranscription({ segmentId: segment.id, text: "frozen", createdBy: transcriberId, status: "approved" });
+        const revision = await storage.createTranscriptionRevision({
+          transcriptionId: transcription.id,
+          segmentId: segment.id,
+          text: "frozen",
+          status: "approved",
+          authorId: reviewerId,
+        });
+        const version = await storage.createDatasetVersion(
+          { name, records: 1, durationMs: segment.duration, createdBy: uploaderId },
+          [{
+            transcriptionId: transcription.id,
+            revisionId: revision.id,
+            revision: revision.revision,
+            segmentId: segment.id,
+            audioFileId: file.id,
+            audioPath: segment.segmentPath,
+            sourcePath: file.originalPath,
+            duration: segment.duration,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+          }],
+        );
+        return { file, transcription, version };
+      }
+
+      it("reads item text from the frozen revision", async () => {
+        const { transcription, version } = await createVersion("v1");
+        await storage.updateTranscription(transcription.id, { text: "edited later" });
+
+        const [item] = await storage.getDatasetVersionItems(version.id);
+        assert.equal(item.text, "frozen");
+        assert.equal(item.speakerId, null);
+        assert.equal((await storage.getDatasetVersionByName("v1"))?.id, version.id);
+        assert.deepEqual((await storage.getDatasetVersions()).map(v => v.createdByName), ["Collector"]);
+        await assert.rejects(storage.createDatasetVersion({ name: "v1", records: 0, durationMs: 0, createdBy: uploaderId }, []));
+      });
+
+      it("keeps the frozen speaker and recording metadata after they change", async () => {
+        const file = await createAudioFile();
+        const speaker = await storage.createSpeaker({ audioFileId: file.id, label: "Speaker 1", gender: "female" });
+        const segment = await storage.createAudioSegment(segmentFor(file.id, 0, { speakerId: speaker.id }));
+        const transcription = await storage.createTranscription({ segmentId: segment.id, text: "hi", createdBy: transcriberId, status: "approved" });
+        const revision = await storage.createTranscriptionRevision({
+          transcriptionId: transcription.id,
+          segmentId: segment.id,
+          text: "hi",
+          status: "approved",
+          authorId: transcriberId,
+        });
+        const frozen = { id: speaker.id, label: "Speaker 1", gender: "female", dialectRegion: null, ageBand: null };
+        const version = await storage.createDatasetVersion(
+          { name: "v1", records: 1, durationMs: segment.duration, createdBy: uploaderId },
+          [{
+            transcriptionId: transcription.id,
+            revisionId: revision.id,
+            revision: revision.revision,
+            segmentId: segment.id,
+            audioFileId: file.id,
+            audioPath: segment.segmentPath,
+            sourcePath: file.originalPath,
+            duration: segment.duration,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+            speakerId: speaker.id,
+            speaker: frozen,
+            recording: { region: "Trarza", tags: ["radio"] },
+          }],
+        );
+        await storage.deleteSpeaker(speaker.id);
+        await storage.updateAudioFile(file.id, { region: "Hodh", tags: [] });
+
+        const [item] = await storage.getDatasetVersionItems(version.id);
+        assert.equal(item.speakerId, speaker.id);
+        assert.deepEqual(item.speaker, frozen);
+        assert.deepEqual(item.recording, { region: "Trarza", tags: ["radio"] });
+      });
+
+      it("taints each version containing a recording once", async () => {
+        const { file, version } = await createVersion("v1");
+        const taint = { audioFileId: file.id, filename: file.filename, note: "withdrawn", revokedAt: new Date().toISOString() };
+
+        assert.deepEqual((await storage.taintDatasetVersions(taint)).map(v => v.id), [version.id]);
+        assert.deepEqual(await storage.taintDatasetVersions(taint), []);
+        const tainted = await storage.getDatasetVersionById(version.id);
+        assert.deepEqual(tainted?.taints, [taint]);
+        assert.ok(tainted?.taintedAt);
+      });
+    });
+
+    describe("exports", () => {
+      it("creates queued exports and keeps audits newest first", async () => {
+        const created = await storage.createExport({
+          filename: "export.json",
+          path: "exports/export.json",
+          format: "whisper",
+          createdBy: uploaderId,
+          records: 0,
+          size: 0,
+        });
+        assert.equal(created.status, "queued");
+        assert.equal(created.progress, 0);
+
+        await storage.updateExport(created.id, { status: "completed", progress: 100, checksum: "abc", records: 3 });
+        assert.deepEqual((await storage.getExportsByStatus(["completed"])).map(e => e.checksum), ["abc"]);
+        assert.equal((await storage.getExports())[0].createdByName, "Collector");
+
+        const policy = schema.DEFAULT_EXPORT_POLICY;
+        const first = await storage.createExportAudit({ exportId: created.id, createdBy: uploaderId, policy, included: 3, excluded: [] });
+        const second = await storage.createExportAudit({ exportId: created.id, createdBy: uploaderId, policy, included: 2, excluded: [] });
+        assert.deepEqual((await storage.getExportAudits(created.id)).map(a => a.id), [second.id, first.id]);
+      });
+    });
+
+    describe("processing jobs", () => {
+      it("claims due jobs in order and counts attempts", async () => {
+        const file = await createAudioFile();
+        const later = await storage.createProcessingJob({ audioFileId: file.id, status: "queued", maxAttempts: 3, runAt: new Date(Date.now() + HOUR) });
+        const due = await storage.createProcessingJob({ audioFileId: file.id, status: "queued", maxAttempts: 3 });
+
+        const claimed = await storage.claimNextProcessingJob();
+        assert.equal(claimed?.id, due.id);
+        assert.equal(claimed?.status, "processing");
+        assert.equal(claimed?.attempts, 1);
+        assert.equal(await storage.claimNextProcessingJob(), undefined);
+
+        assert.equal((await storage.getLatestProcessingJobForFile(file.id))?.id, due.id);
+        assert.deepEqual((await storage.getProcessingJobsByStatus(["queued"])).map(job => job.id), [later.id]);
+      });
+
+      it("keeps the settings and report of re-segmentation jobs", async () => {
+        const file = await createAudioFile();
+        const job = await storage.createProcessingJob({
+          audioFileId: file.id,
+          kind: "resegment",
+          status: "queued",
+          maxAttempts: 3,
+          vadSettings: schema.DEFAULT_VAD_SETTINGS,
+        });
+        assert.equal(job.kind, "resegment");
+        assert.deepEqual(job.vadSettings, schema.DEFAULT_VAD_SETTINGS);
+        assert.equal(job.result, null);
+
+        const result = { audioFileId: file.id, vadSettings: schema.DEFAULT_VAD_SETTINGS, added: [], removed: [], kept: [], mapped: [], skipped: [] };
+        assert.deepEqual((await storage.updateProcessingJob(job.id, { status: "completed", result })).result, result);
+        assert.equal((await storage.createProcessingJob({ audioFileId: file.id, status: "queued", maxAttempts: 3 })).kind, "process");
+      });
+    });
+
+    describe("project settings", () => {
+      it("stores and overwrites JSON values", async () => {
+        assert.equal(await storage.getProjectSetting("vad.default"), undefined);
+        await storage.setProjectSetting("vad.default", { threshold: 0.5 }, uploaderId);
+        await storage.setProjectSetting("vad.default", { threshold: 0.6 }, null);
+        assert.deepEqual(await storage.getProjectSetting("vad.default"), { threshold: 0.6 });
+      });
+    });
+  });
+}
+
+describeStorageContract(memoryBackend);
+describeStorageContract(pgliteBackend());
@@ -2,59 +2,110 @@ import {
   users, type User, type InsertUser, 
   audioFiles, type AudioFile, type InsertAudioFile, 
   audioSegments, type AudioSegment, type InsertAudioSegment, 
+  speakers, type Speaker, type InsertSpeaker, type SpeakerSnapshot, 
   transcriptions, type Transcription, type InsertTranscription, 
-  exports, type Export, type InsertExport 
+  transcriptionRevisions, type TranscriptionRevision, type InsertTranscriptionRevision, 
+  segmentAssignments, type SegmentAssignment, type InsertSegmentAssignment, 
+  dataExports, type Export, type InsertExport, 
+  processingJobs, type ProcessingJob, type InsertProcessingJob, type ProcessingJobAttempt, type ResegmentReport, 
+  projectSettings, type ProjectSetting, type VadSettings, type SplitManifest,
+  type ExportFilter, ANNOTATION_TAG_PATTERN,
+  type DatasetVersion, type InsertDatasetVersion, type DatasetVersionItem, type InsertDatasetVersionItem,
+  type DatasetVersionTaint, type ExportAudit, type InsertExportAudit,
+  type RecordingMetadata
 } from "@shared/schema";
+import type { AnnotationSpan } from "@shared/annotation-tags";
 import { scrypt, randomBytes } from "crypto";
 import { promisify } from "util";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 // Import specific types to avoid namespace issues if possible
 import type { Store as SessionStore } from "express-session"; 
+import { createDatabase } from "./db";
+import { DbStorage } from "./db-storage";
+import { matchesRecordingFilter } from "./recording-metadata";
 
 const scryptAsync = promisify(scrypt);
 const MemoryStore = createMemoryStore(session);
 
 // Define additional types needed for storage operations
-interface TaskSummary {
+export interface TaskSummary {
   assigned: number;
   completed: number;
   pendingReview: number;
 }
 
-interface TranscriptionTask {
+export interface TranscriptionTask {
   id: number;
   audioId: string;
   duration: number;
   assignedTo: string;
   status: string;
-  dueDate: string;
+  dueDate: string | null; // Deadline of the current assignment
+  overdue: boolean;
 }
 
-interface UserUpdate {
+export interface UserUpdate {
   username?: string;
   password?: string;
   fullName?: string;
   role?: string;
 }
 
-interface AudioSegmentUpdate {
+export interface AudioSegmentUpdate {
   status?: string;
   assignedTo?: number | null;
   transcribedBy?: number | null;
   reviewedBy?: number | null;
   segmentPath?: string;
+  startTime?: number;
+  endTime?: number;
+  duration?: number;
+  leaseExpiresAt?: Date | null;
+  dueAt?: Date | null;
+  speakerId?: number | null;
+}
+
+export interface SpeakerUpdate {
+  label?: string;
+  gender?: string | null;
+  dialectRegion?: string | null;
+  ageBand?: string | null;
+  source?: string;
 }
 
-interface AudioFileUpdate {
+export interface AudioFileUpdate {
   status?: string;
   processedPath?: string | null;
   segments?: number | null;
   duration?: number | null;
   error?: string | null;
+  vadSettings?: VadSettings | null;
+  sourceType?: string | null;
+  region?: string | null;
+  recordingDate?: string | null;
+  consentRef?: string | null;
+  license?: string | null;
+  tags?: string[];
+  consentStatus?: string;
+  consentNote?: string | null;
+  consentUpdatedAt?: Date | null;
+  consentUpdatedBy?: number | null;
+  fingerprint?: string | null;
+  duplicateOfId?: number | null;
+  duplicateKind?: string | null;
+  duplicateSimilarity?: number | null;
+  duplicateStatus?: string | null;
+}
+
+// Fingerprint of an upload, compared against new uploads to find near duplicates
+export interface AudioFingerprint {
+  id: number;
+  filename: string;
+  fingerprint: string;
 }
 
-interface RecentActivity {
+export interface RecentActivity {
   id: number;
   type: string;
   status: string;
@@ -62,30 +113,112 @@ interface RecentActivity {
   task: string;
 }
 
-interface FormattedTranscription {
+export interface FormattedTranscription {
   id: number;
+  segmentId: number;
+  audioFileId: number; // Source recording, used to keep recordings within one dataset split
   text: string;
+  rawText?: string; // Text as transcribed, set when the export normalizes `text` or rewrites its tags
+  annotations?: AnnotationSpan[]; // Set when the export strips tags from `text`; offsets are into `text`
   audioPath: string;
+  sourcePath: string; // Original recording the segment was cut from
   duration: number;
   startTime?: number;
   endTime?: number;
-  speaker?: string;
+  speakerId?: number | null; // Speaker of the segment; exports resolve it into `speaker`
+  speaker?: SpeakerSnapshot;
+  recording?: RecordingMetadata; // Metadata of the source recording, attached by exports
   confidence?: number;
   verified?: boolean;
 }
 
 // Define TranscriptionUpdate interface outside the class
-interface TranscriptionUpdate {
+export interface TranscriptionUpdate {
+    segmentId?: number;
     text?: string;
     notes?: string | null;
     reviewedBy?: number | null;
     status?: string;
     rating?: number | null;
     reviewNotes?: string | null;
+    flaggedReason?: string | null;
+}
+
+export interface ProcessingJobUpdate {
+  status?: string;
+  attempts?: number;
+  runAt?: Date;
+  lastError?: string | null;
+  history?: ProcessingJobAttempt[];
+  result?: ResegmentReport | null;
+}
+
+export interface ExportUpdate {
+  status?: string;
+  progress?: number;
+  error?: string | null;
+  checksum?: string | null;
+  records?: number;
+  size?: number;
+  splitManifest?: SplitManifest | null;
+  completedAt?: Date | null;
+}
+
+export interface ClaimNextSegmentOptions {
+  audioFileId?: number; // Only claim from this audio file
+  segmentId?: number; // Only claim this segment
+  maxOpenAssignments: number; // Refuse the claim once the user holds this many open segments
+  leaseExpiresAt: Date;
+  dueAt: Date;
+}
+
+export interface ClaimNextSegmentResult {
+  segment?: AudioSegment; // Unset when the cap was reached or nothing is available
+  openAssignments: number; // Open segments the user held before the claim
+}
+
+export interface SegmentAssignmentUpdate {
+  segmentId?: number; // The held work moved to another segment (merged or re-segmented)
+  dueAt?: Date;
+  overdueAt?: Date | null;
+  closedAt?: Date | null;
+  outcome?: string | null;
+}
+
+export interface SegmentAssignmentFilter {
+  userId?: number;
+  since?: Date; // Assigned at or after
+  open?: boolean; // Only assignments that are (true) or are not (false) closed yet
+}
+
+export interface ReviewQueueItem {
+  segmentId: number;
+  audioId: string;
+  audioFileId: number;
+  duration: number; // in milliseconds
+  transcriptionId: number | null;
+  transcribedBy: number | null;
+  transcriberName: string;
+  reviewerId: number | null;
+  reviewerName: string | null;
+  submittedAt: string | null; // When the transcription was last saved
+}
+
+export interface FormattedTranscriptionRevision extends TranscriptionRevision {
+  authorName: string;
+}
+
+export interface FormattedDatasetVersion extends DatasetVersion {
+  createdByName: string;
+}
+
+// An item of a dataset version with the text of its frozen revision
+export interface FormattedDatasetVersionItem extends DatasetVersionItem {
+  text: string;
 }
 
 // Define FormattedExport interface for getExports return type
-interface FormattedExport extends Omit<Export, 'createdBy'> {
+export interface FormattedExport extends Omit<Export, 'createdBy'> {
   createdByName: string;
 }
 
@@ -102,6 +235,9 @@ export interface IStorage {
   getAudioFiles(userId: number | null, isAdmin: boolean): Promise<any[]>;
   getAudioFileById(id: number): Promise<AudioFile | undefined>;
   updateAudioFile(id: number, updates: AudioFileUpdate): Promise<AudioFile>;
+  // Files that weren't deleted, oldest first
+  getAudioFilesByContentHash(contentHash: string): Promise<AudioFile[]>;
+  getAudioFingerprints(): Promise<AudioFingerprint[]>;
   updateAudioFileStatus(id: number, status: string): Promise<AudioFile>;
   getAllAudioFileRecords(): Promise<AudioFile[]>;
   deleteAudioFile(id: number): Promise<boolean>;
@@ -117,17 +253,88 @@ export interface IStorage {
   getAllSegments(): Promise<AudioSegment[]>;
   deleteAudioSegment(id: number): Promise<boolean>;
   
+  // Speaker operations
+  createSpeaker(speaker: InsertSpeaker): Promise<Speaker>;
+  getSpeakerById(id: number): Promise<Speaker | undefined>;
+  // Speakers of a recording, in the order they were added
+  getSpeakersByFileId(audioFileId: number): Promise<Speaker[]>;
+  getSpeakersByIds(ids: number[]): Promise<Speaker[]>;
+  updateSpeaker(id: number, updates: SpeakerUpdate): Promise<Speaker>;
+  // Also clears the speaker from its segments
+  deleteSpeaker(id: number): Promise<boolean>;
+  
+  // Task claiming operations
+  // Segments assigned to the user that are not yet submitted (assigned or rejected)
+  countOpenAssignments(userId: number): Promise<number>;
+  // Atomically check the user's open assignments against the cap and assign the oldest available segment
+  claimNextSegment(userId: number, options: ClaimNextSegmentOptions): Promise<ClaimNextSegmentResult>;
+  // Return assigned segments whose lease ended by `now` to the pool
+  releaseExpiredLeases(now: Date): Promise<AudioSegment[]>;
+  
+  // Segment assignment operations (history of who held a segment and until when)
+  createSegmentAssignment(assignment: InsertSegmentAssignment): Promise<SegmentAssignment>;
+  // The assignment of a segment that has not been closed yet, if any
+  getOpenSegmentAssignment(segmentId: number): Promise<SegmentAssignment | undefined>;
+  updateSegmentAssignment(id: number, updates: SegmentAssignmentUpdate): Promise<SegmentAssignment>;
+  getSegmentAssignments(filter?: SegmentAssignmentFilter): Promise<SegmentAssignment[]>;
+  // Open assignments whose due date has passed by `now`
+  getOverdueSegmentAssignments(now: Date): Promise<SegmentAssignment[]>;
+  
   // Transcription operations
   createTranscription(transcription: InsertTranscription): Promise<Transcription>;
+  getTranscriptionById(id: number): Promise<Transcription | undefined>;
   getTranscriptionBySegmentId(segmentId: number): Promise<Transcription | undefined>;
   updateTranscription(id: number, updates: TranscriptionUpdate): Promise<Transcription>;
   getTranscriptionTasks(userId: number, status?: string): Promise<TranscriptionTask[]>;
-  getVerifiedTranscriptions(startDate?: string, endDate?: string): Promise<FormattedTranscription[]>;
+  // Approved transcriptions with usable segment audio, narrowed by the export filter
+  getVerifiedTranscriptions(filter?: ExportFilter): Promise<FormattedTranscription[]>;
+  
+  // Review routing operations
+  // Segments waiting for review, oldest submission first; null reviewerId returns every reviewer's queue
+  getReviewQueue(reviewerId: number | null): Promise<ReviewQueueItem[]>;
+  // Number of segments waiting for review per assigned reviewer ID
+  getPendingReviewCounts(): Promise<Record<number, number>>;
+  
+  // Transcription revision operations
+  // Revisions are numbered per transcription in the order they are created
+  createTranscriptionRevision(revision: InsertTranscriptionRevision): Promise<TranscriptionRevision>;
+  getTranscriptionRevisions(transcriptionId: number): Promise<FormattedTranscriptionRevision[]>;
+  // The highest-numbered revision of each of the given transcriptions that has any
+  getLatestTranscriptionRevisions(transcriptionIds: number[]): Promise<TranscriptionRevision[]>;
+  
+  // Dataset version operations
+  // Stores the version together with its items; neither changes afterwards
+  createDatasetVersion(version: InsertDatasetVersion, items: InsertDatasetVersionItem[]): Promise<DatasetVersion>;
+  getDatasetVersions(): Promise<FormattedDatasetVersion[]>;
+  getDatasetVersionById(id: number): Promise<DatasetVersion | undefined>;
+  getDatasetVersionByName(name: string): Promise<DatasetVersion | undefined>;
+  // Items ordered by transcription ID
+  getDatasetVersionItems(datasetVersionId: number): Promise<FormattedDatasetVersionItem[]>;
+  // Add the taint to every version with items of its recording that doesn't list it yet; returns those versions
+  taintDatasetVersions(taint: DatasetVersionTaint): Promise<DatasetVersion[]>;
   
   // Export operations
   createExport(exportData: InsertExport): Promise<Export>;
   getExports(): Promise<FormattedExport[]>;
   getExportById(id: number): Promise<Export | undefined>;
+  updateExport(id: number, updates: ExportUpdate): Promise<Export>;
+  getExportsByStatus(statuses: string[]): Promise<Export[]>;
+  createExportAudit(audit: InsertExportAudit): Promise<ExportAudit>;
+  // Newest first
+  getExportAudits(exportId: number): Promise<ExportAudit[]>;
+  
+  // Processing job operations
+  createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
+  getProcessingJobById(id: number): Promise<ProcessingJob | undefined>;
+  getLatestProcessingJobForFile(audioFileId: number): Promise<ProcessingJob | undefined>;
+  getProcessingJobsByStatus(statuses: string[]): Promise<ProcessingJob[]>;
+  updateProcessingJob(id: number, updates: ProcessingJobUpdate): Promise<ProcessingJob>;
+  // Atomically move the oldest due 'queued' job to 'processing' and count the attempt
+  claimNextProcessingJob(): Promise<ProcessingJob | undefined>;
+  
+  // Project settings operations
+  getProjectSetting<T>(key: string): Promise<T | undefined>;
+  setProjectSetting<T>(key: string, value: T, updatedBy: number | null): Promise<ProjectSetting>;
   
   // Dashboard operations
   getTaskSummary(userId: number): Promise<TaskSummary>;
@@ -135,6 +342,9 @@ export interface IStorage {
   
   // Session store
   sessionStore: SessionStore;
+
+  // Prepare the backend (migrations, seed data) before the server starts handling requests
+  init(): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
@@ -142,20 +352,44 @@ export class MemStorage implements IStorage {
   private audioFiles: Map<number, AudioFile>;
   private audioSegments: Map<number, AudioSegment>;
   private transcriptions: Map<number, Transcription>;
+  private transcriptionRevisions: Map<number, TranscriptionRevision>;
+  private segmentAssignments: Map<number, SegmentAssignment>;
   private exports: Map<number, Export>;
+  private exportAudits: Map<number, ExportAudit>;
+  private datasetVersions: Map<number, DatasetVersion>;
+  private speakers: Map<number, Speaker>;
+  private datasetVersionItems: Map<number, DatasetVersionItem>;
+  private processingJobs: Map<number, ProcessingJob>;
+  private projectSettings: Map<string, ProjectSetting>;
   sessionStore: SessionStore;
   currentUserId: number;
   currentAudioFileId: number;
   currentAudioSegmentId: number;
   currentTranscriptionId: number;
+  currentTranscriptionRevisionId: number;
+  currentSegmentAssignmentId: number;
   currentExportId: number;
+  currentExportAuditId: number;
+  currentDatasetVersionId: number;
+  currentSpeakerId: number;
+  currentDatasetVersionItemId: number;
+  currentProcessingJobId: number;
+  private initialAdminUser: Promise<void>;
 
   constructor() {
     this.users = new Map();
     this.audioFiles = new Map();
     this.audioSegments = new Map();
     this.transcriptions = new Map();
+    this.transcriptionRevisions = new Map();
+    this.segmentAssignments = new Map();
     this.exports = new Map();
+    this.exportAudits = new Map();
+    this.datasetVersions = new Map();
+    this.speakers = new Map();
+    this.datasetVersionItems = new Map();
+    this.processingJobs = new Map();
+    this.projectSettings = new Map();
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // prune expired entries every 24h
     }) as SessionStore;
@@ -163,10 +397,21 @@ export class MemStorage implements IStorage {
     this.currentAudioFileId = 1;
     this.currentAudioSegmentId = 1;
     this.currentTranscriptionId = 1;
+    this.currentTranscriptionRevisionId = 1;
+    this.currentSegmentAssignmentId = 1;
     this.currentExportId = 1;
+    this.currentExportAuditId = 1;
+    this.currentDatasetVersionId = 1;
+    this.currentSpeakerId = 1;
+    this.currentDatasetVersionItemId = 1;
+    this.currentProcessingJobId = 1;
     
     // Add a default admin user
-    this.createInitialAdminUser();
+    this.initialAdminUser = this.createInitialAdminUser();
+  }
+
+  async init(): Promise<void> {
+    await this.initialAdminUser;
   }
 
   private async createInitialAdminUser() {
@@ -245,6 +490,23 @@ export class MemStorage implements IStorage {
       duration: file.duration === undefined ? null : file.duration,
       size: file.size === undefined ? null : file.size,
       error: file.error === undefined ? null : file.error,
+      vadSettings: file.vadSettings ?? null,
+      sourceType: file.sourceType ?? null,
+      region: file.region ?? null,
+      recordingDate: file.recordingDate ?? null,
+      consentRef: file.consentRef ?? null,
+      license: file.license ?? null,
+      tags: file.tags ?? [],
+      consentStatus: "cleared",
+      consentNote: null,
+      consentUpdatedAt: null,
+      consentUpdatedBy: null,
+      contentHash: file.contentHash ?? null,
+      fingerprint: file.fingerprint ?? null,
+      duplicateOfId: file.duplicateOfId ?? null,
+      duplicateKind: file.duplicateKind ?? null,
+      duplicateSimilarity: file.duplicateSimilarity ?? null,
+      duplicateStatus: file.duplicateStatus ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -266,7 +528,18 @@ export class MemStorage implements IStorage {
       uploadedAt: file.createdAt ? file.createdAt.toISOString() : null,
       status: file.status,
       segments: file.segments,
-      processingProgress: file.status === "processing" ? Math.floor(Math.random() * 100) : undefined
+      sourceType: file.sourceType,
+      region: file.region,
+      recordingDate: file.recordingDate,
+      consentRef: file.consentRef,
+      license: file.license,
+      tags: file.tags,
+      consentStatus: file.consentStatus,
+      consentNote: file.consentNote,
+      duplicateOfId: file.duplicateOfId,
+      duplicateKind: file.duplicateKind,
+      duplicateSimilarity: file.duplicateSimilarity,
+      duplicateStatus: file.duplicateStatus,
     }));
   }
 
@@ -287,12 +560,41 @@ export class MemStorage implements IStorage {
       ...(updates.segments !== undefined && { segments: updates.segments }),
       ...(updates.duration !== undefined && { duration: updates.duration }),
       ...(updates.error !== undefined && { error: updates.error }),
+      ...(updates.vadSettings !== undefined && { vadSettings: updates.vadSettings }),
+      ...(updates.sourceType !== undefined && { sourceType: updates.sourceType }),
+      ...(updates.region !== undefined && { region: updates.region }),
+      ...(updates.recordingDate !== undefined && { recordingDate: updates.recordingDate }),
+      ...(updates.consentRef !== undefined && { consentRef: updates.consentRef }),
+      ...(updates.license !== undefined && { license: updates.license }),
+      ...(updates.tags !== undefined && { tags: updates.tags }),
+      ...(updates.consentStatus !== undefined && { consentStatus: updates.consentStatus }),
+      ...(updates.consentNote !== undefined && { consentNote: updates.consentNote }),
+      ...(updates.consentUpdatedAt !== undefined && { consentUpdatedAt: updates.consentUpdatedAt }),
+      ...(updates.consentUpdatedBy !== undefined && { consentUpdatedBy: updates.consentUpdatedBy }),
+      ...(updates.fingerprint !== undefined && { fingerprint: updates.fingerprint }),
+      ...(updates.duplicateOfId !== undefined && { duplicateOfId: updates.duplicateOfId }),
+      ...(updates.duplicateKind !== undefined && { duplicateKind: updates.duplicateKind }),
+      ...(updates.duplicateSimilarity !== undefined && { duplicateSimilarity: updates.duplicateSimilarity }),
+      ...(updates.duplicateStatus !== undefined && { duplicateStatus: updates.duplicateStatus }),
       updatedAt: new Date(),
     };
     
     this.audioFiles.set(id, updatedFile);
     return updatedFile;
   }
+
+  async getAudioFilesByContentHash(contentHash: string): Promise<AudioFile[]> {
+    return Array.from(this.audioFiles.values())
+      .filter(file => file.contentHash === contentHash && file.status !== "deleted")
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getAudioFingerprints(): Promise<AudioFingerprint[]> {
+    return Array.from(this.audioFiles.values())
+      .filter(file => file.fingerprint !== null && file.status !== "deleted")
+      .sort((a, b) => a.id - b.id)
+      .map(file => ({ id: file.id, filename: file.filename, fingerprint: file.fingerprint! }));
+  }
   
   async updateAudioFileStatus(id: number, status: string): Promise<AudioFile> {
     return this.updateAudioFile(id, { status });
@@ -320,6 +622,9 @@ export class MemStorage implements IStorage {
       reviewedBy: segment.reviewedBy === undefined ? null : segment.reviewedBy,
       createdAt: now,
       updatedAt: now,
+      leaseExpiresAt: null,
+      dueAt: null,
+      speakerId: segment.speakerId ?? null,
     };
     this.audioSegments.set(id, audioSegment);
     return audioSegment;
@@ -342,6 +647,12 @@ export class MemStorage implements IStorage {
       ...(updates.transcribedBy !== undefined && { transcribedBy: updates.transcribedBy }),
       ...(updates.reviewedBy !== undefined && { reviewedBy: updates.reviewedBy }),
       ...(updates.segmentPath !== undefined && { segmentPath: updates.segmentPath }),
+      ...(updates.startTime !== undefined && { startTime: updates.startTime }),
+      ...(updates.endTime !== undefined && { endTime: updates.endTime }),
+      ...(updates.duration !== undefined && { duration: updates.duration }),
+      ...(updates.leaseExpiresAt !== undefined && { leaseExpiresAt: updates.leaseExpiresAt }),
+      ...(updates.dueAt !== undefined && { dueAt: updates.dueAt }),
+      ...(updates.speakerId !== undefined && { speakerId: updates.speakerId }),
       updatedAt: new Date(),
     };
     
@@ -363,6 +674,71 @@ export class MemStorage implements IStorage {
       .filter(segment => segment.audioFileId === fileId);
   }
 
+  // Speaker operations
+  async createSpeaker(speaker: InsertSpeaker): Promise<Speaker> {
+    const existing = await this.getSpeakersByFileId(speaker.audioFileId);
+    if (existing.some(s => s.label === speaker.label)) {
+      throw new Error(`Speaker ${speaker.label} already exists in audio file ${speaker.audioFileId}`);
+    }
+    const id = this.currentSpeakerId++;
+    const newSpeaker: Speaker = {
+      id,
+      audioFileId: speaker.audioFileId,
+      label: speaker.label,
+      gender: speaker.gender ?? null,
+      dialectRegion: speaker.dialectRegion ?? null,
+      ageBand: speaker.ageBand ?? null,
+      source: speaker.source ?? "manual",
+      createdAt: new Date(),
+    };
+    this.speakers.set(id, newSpeaker);
+    return newSpeaker;
+  }
+
+  async getSpeakerById(id: number): Promise<Speaker | undefined> {
+    return this.speakers.get(id);
+  }
+
+  async getSpeakersByFileId(audioFileId: number): Promise<Speaker[]> {
+    return Array.from(this.speakers.values())
+      .filter(speaker => speaker.audioFileId === audioFileId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getSpeakersByIds(ids: number[]): Promise<Speaker[]> {
+    return ids.flatMap(id => this.speakers.get(id) ?? []);
+  }
+
+  async updateSpeaker(id: number, updates: SpeakerUpdate): Promise<Speaker> {
+    const speaker = await this.getSpeakerById(id);
+    if (!speaker) {
+      throw new Error(`Speaker with ID ${id} not found`);
+    }
+
+    const updatedSpeaker: Speaker = {
+      ...speaker,
+      ...(updates.label !== undefined && { label: updates.label }),
+      ...(updates.gender !== undefined && { gender: updates.gender }),
+      ...(updates.dialectRegion !== undefined && { dialectRegion: updates.dialectRegion }),
+      ...(updates.ageBand !== undefined && { ageBand: updates.ageBand }),
+      ...(updates.source !== undefined && { source: updates.source }),
+    };
+    this.speakers.set(id, updatedSpeaker);
+    return updatedSpeaker;
+  }
+
+  async deleteSpeaker(id: number): Promise<boolean> {
+    if (!this.speakers.delete(id)) {
+      return false;
+    }
+    for (const segment of Array.from(this.audioSegments.values())) {
+      if (segment.speakerId === id) {
+        this.audioSegments.set(segment.id, { ...segment, speakerId: null });
+      }
+    }
+    return true;
+  }
+
   async getAvailableSegments(): Promise<AudioSegment[]> {
     return Array.from(this.audioSegments.values())
       .filter(segment => segment.status === 'available')
@@ -374,6 +750,59 @@ export class MemStorage implements IStorage {
     return Array.from(this.audioSegments.values());
   }
 
+  // Task claiming operations
+  async countOpenAssignments(userId: number): Promise<number> {
+    return Array.from(this.audioSegments.values())
+      .filter(segment => segment.assignedTo === userId && (segment.status === "assigned" || segment.status === "rejected"))
+      .length;
+  }
+
+  async claimNextSegment(userId: number, options: ClaimNextSegmentOptions): Promise<ClaimNextSegmentResult> {
+    // No awaits between the check and the update, so concurrent requests can't both take a segment
+    const segments = Array.from(this.audioSegments.values());
+    const openAssignments = segments
+      .filter(segment => segment.assignedTo === userId && (segment.status === "assigned" || segment.status === "rejected"))
+      .length;
+    if (openAssignments >= options.maxOpenAssignments) {
+      return { openAssignments };
+    }
+
+    const next = segments
+      .filter(segment => segment.status === "available"
+        && (options.audioFileId === undefined || segment.audioFileId === options.audioFileId)
+        && (options.segmentId === undefined || segment.id === options.segmentId))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.id - b.id)[0];
+    if (!next) {
+      return { openAssignments };
+    }
+
+    const segment: AudioSegment = {
+      ...next,
+      status: "assigned",
+      assignedTo: userId,
+      leaseExpiresAt: options.leaseExpiresAt,
+      dueAt: options.dueAt,
+      updatedAt: new Date(),
+    };
+    this.audioSegments.set(segment.id, segment);
+    return { segment, openAssignments };
+  }
+
+  async releaseExpiredLeases(now: Date): Promise<AudioSegment[]> {
+    const released: AudioSegment[] = [];
+    for (const segment of Array.from(this.audioSegments.values())) {
+      if (segment.status === "assigned" && segment.leaseExpiresAt && segment.leaseExpiresAt <= now) {
+        released.push(await this.updateAudioSegment(segment.id, {
+          status: "available",
+          assignedTo: null,
+          leaseExpiresAt: null,
+          dueAt: null,
+        }));
+      }
+    }
+    return released;
+  }
+
   // Transcription operations
   async createTranscription(transcription: InsertTranscription): Promise<Transcription> {
     const id = this.currentTranscriptionId++;
@@ -388,6 +817,7 @@ export class MemStorage implements IStorage {
       notes: transcription.notes === undefined ? null : transcription.notes,
       rating: transcription.rating === undefined ? null : transcription.rating,
       reviewNotes: transcription.reviewNotes === undefined ? null : transcription.reviewNotes,
+      flaggedReason: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -395,6 +825,10 @@ export class MemStorage implements IStorage {
     return newTranscription;
   }
 
+  async getTranscriptionById(id: number): Promise<Transcription | undefined> {
+    return this.transcriptions.get(id);
+  }
+
   async getTranscriptionBySegmentId(segmentId: number): Promise<Transcription | undefined> {
     return Array.from(this.transcriptions.values())
       .find(t => t.segmentId === segmentId);
@@ -412,12 +846,14 @@ export class MemStorage implements IStorage {
     // Apply updates correctly
     const updatedTranscription: Transcription = {
       ...transcription,
+      ...(updates.segmentId !== undefined && { segmentId: updates.segmentId }),
       ...(updates.text !== undefined && { text: updates.text }),
       ...(updates.notes !== undefined && { notes: updates.notes }),
       ...(updates.reviewedBy !== undefined && { reviewedBy: updates.reviewedBy }),
       ...(updates.status !== undefined && { status: updates.status }),
       ...(updates.rating !== undefined && { rating: updates.rating }),
       ...(updates.reviewNotes !== undefined && { reviewNotes: updates.reviewNotes }),
+      ...(updates.flaggedReason !== undefined && { flaggedReason: updates.flaggedReason }),
       updatedAt: new Date(), // Always update updatedAt
     };
     
@@ -474,11 +910,6 @@ export class MemStorage implements IStorage {
       segments.map(async segment => {
         const user = segment.assignedTo ? await this.getUser(segment.assignedTo) : undefined;
         
-        // Handle potentially null createdAt before creating Date
-        const baseDate = segment.createdAt ? new Date(segment.createdAt) : new Date(); // Default to now if null
-        const dueDate = new Date(baseDate);
-        dueDate.setDate(dueDate.getDate() + 3);
-        
         return {
           id: segment.id,
           audioId: `Segment_${segment.id}`,
@@ -486,7 +917,8 @@ export class MemStorage implements IStorage {
           duration: segment.duration ?? 0, 
           assignedTo: user ? user.fullName : "Unassigned",
           status: segment.status,
-          dueDate: dueDate.toISOString(),
+          dueDate: segment.dueAt?.toISOString() ?? null,
+          overdue: !!segment.dueAt && segment.dueAt.getTime() < Date.now(),
         };
       })
     );
@@ -494,12 +926,12 @@ export class MemStorage implements IStorage {
     return tasks;
   }
 
-  async getVerifiedTranscriptions(startDate?: string, endDate?: string): Promise<FormattedTranscription[]> {
+  async getVerifiedTranscriptions(filter: ExportFilter = {}): Promise<FormattedTranscription[]> {
     let filteredTranscriptions = Array.from(this.transcriptions.values())
       .filter(t => t.status === 'approved');
 
-    const start = startDate ? new Date(startDate) : null;
-    const end = endDate ? new Date(endDate) : null;
+    const start = filter.startDate ? new Date(filter.startDate) : null;
+    const end = filter.endDate ? new Date(filter.endDate) : null;
 
     if (start || end) {
       filteredTranscriptions = filteredTranscriptions.filter(t => {
@@ -513,18 +945,42 @@ export class MemStorage implements IStorage {
       });
     }
 
+    const tagPattern = new RegExp(ANNOTATION_TAG_PATTERN);
+    filteredTranscriptions = filteredTranscriptions.filter(t => {
+      const length = Array.from(t.text).length;
+      return (!filter.transcriberIds?.length || filter.transcriberIds.includes(t.createdBy))
+        && (!filter.reviewerIds?.length || (t.reviewedBy !== null && filter.reviewerIds.includes(t.reviewedBy)))
+        && (filter.minRating === undefined || (t.rating !== null && t.rating >= filter.minRating))
+        && (filter.minTextLength === undefined || length >= filter.minTextLength)
+        && (filter.maxTextLength === undefined || length <= filter.maxTextLength)
+        && (!filter.excludeWithNotes || !t.notes?.trim())
+        && (!filter.excludeTagged || !tagPattern.test(t.text));
+    });
+
     // Map to FormattedTranscription, retrieving segment info
     const formatted: FormattedTranscription[] = [];
     for (const t of filteredTranscriptions) {
       const segment = await this.getAudioSegmentById(t.segmentId);
-      if (segment && segment.segmentPath && segment.duration !== null) { 
+      const audioFile = segment ? await this.getAudioFileById(segment.audioFileId) : undefined;
+      if (segment && audioFile && segment.status !== 'deleted' && segment.segmentPath && segment.duration !== null) { 
+        if ((filter.audioFileIds?.length && !filter.audioFileIds.includes(audioFile.id))
+          || (filter.uploaderIds?.length && !filter.uploaderIds.includes(audioFile.uploadedBy))
+          || (filter.minDurationMs !== undefined && segment.duration < filter.minDurationMs)
+          || (filter.maxDurationMs !== undefined && segment.duration > filter.maxDurationMs)
+          || !matchesRecordingFilter(audioFile, filter)) {
+          continue;
+        }
         formatted.push({
           id: t.id,
+          segmentId: segment.id,
+          audioFileId: segment.audioFileId,
           text: t.text,
           audioPath: segment.segmentPath,
+          sourcePath: audioFile.originalPath,
           duration: segment.duration,
           startTime: segment.startTime,
           endTime: segment.endTime,
+          speakerId: segment.speakerId,
           verified: t.status === 'approved' 
         });
       }
@@ -532,6 +988,231 @@ export class MemStorage implements IStorage {
     return formatted;
   }
 
+  // Review routing operations
+  async getReviewQueue(reviewerId: number | null): Promise<ReviewQueueItem[]> {
+    const items: ReviewQueueItem[] = [];
+    for (const segment of Array.from(this.audioSegments.values())) {
+      if (segment.status !== "transcribed") continue;
+      if (reviewerId !== null && segment.reviewedBy !== reviewerId) continue;
+
+      const transcription = await this.getTranscriptionBySegmentId(segment.id);
+      const transcriber = segment.transcribedBy ? this.users.get(segment.transcribedBy) : undefined;
+      const reviewer = segment.reviewedBy ? this.users.get(segment.reviewedBy) : undefined;
+      items.push({
+        segmentId: segment.id,
+        audioId: `Segment_${segment.id}`,
+        audioFileId: segment.audioFileId,
+        duration: segment.duration,
+        transcriptionId: transcription?.id ?? null,
+        transcribedBy: segment.transcribedBy,
+        transcriberName: transcriber?.fullName || (segment.transcribedBy ? `User ${segment.transcribedBy}` : "Unknown"),
+        reviewerId: segment.reviewedBy,
+        reviewerName: reviewer?.fullName ?? (segment.reviewedBy ? `User ${segment.reviewedBy}` : null),
+        submittedAt: transcription?.updatedAt?.toISOString() ?? null,
+      });
+    }
+    return items.sort((a, b) => (a.submittedAt ?? "").localeCompare(b.submittedAt ?? "") || a.segmentId - b.segmentId);
+  }
+
+  async getPendingReviewCounts(): Promise<Record<number, number>> {
+    const counts: Record<number, number> = {};
+    for (const segment of Array.from(this.audioSegments.values())) {
+      if (segment.status === "transcribed" && segment.reviewedBy) {
+        counts[segment.reviewedBy] = (counts[segment.reviewedBy] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  // Segment assignment operations
+  async createSegmentAssignment(assignment: InsertSegmentAssignment): Promise<SegmentAssignment> {
+    const id = this.currentSegmentAssignmentId++;
+    const newAssignment: SegmentAssignment = {
+      id,
+      segmentId: assignment.segmentId,
+      userId: assignment.userId,
+      assignedBy: assignment.assignedBy ?? null,
+      assignedAt: new Date(),
+      dueAt: assignment.dueAt,
+      overdueAt: null,
+      closedAt: null,
+      outcome: null,
+    };
+    this.segmentAssignments.set(id, newAssignment);
+    return newAssignment;
+  }
+
+  async getOpenSegmentAssignment(segmentId: number): Promise<SegmentAssignment | undefined> {
+    return Array.from(this.segmentAssignments.values())
+      .filter(assignment => assignment.segmentId === segmentId && assignment.closedAt === null)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async updateSegmentAssignment(id: number, updates: SegmentAssignmentUpdate): Promise<SegmentAssignment> {
+    const assignment = this.segmentAssignments.get(id);
+    if (!assignment) {
+      throw new Error(`Segment assignment with ID ${id} not found`);
+    }
+
+    const updatedAssignment: SegmentAssignment = {
+      ...assignment,
+      ...(updates.segmentId !== undefined && { segmentId: updates.segmentId }),
+      ...(updates.dueAt !== undefined && { dueAt: updates.dueAt }),
+      ...(updates.overdueAt !== undefined && { overdueAt: updates.overdueAt }),
+      ...(updates.closedAt !== undefined && { closedAt: updates.closedAt }),
+      ...(updates.outcome !== undefined && { outcome: updates.outcome }),
+    };
+    this.segmentAssignments.set(id, updatedAssignment);
+    return updatedAssignment;
+  }
+
+  async getSegmentAssignments(filter: SegmentAssignmentFilter = {}): Promise<SegmentAssignment[]> {
+    return Array.from(this.segmentAssignments.values())
+      .filter(assignment =>
+        (filter.userId === undefined || assignment.userId === filter.userId) &&
+        (filter.since === undefined || assignment.assignedAt >= filter.since) &&
+        (filter.open === undefined || (assignment.closedAt === null) === filter.open))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getOverdueSegmentAssignments(now: Date): Promise<SegmentAssignment[]> {
+    return Array.from(this.segmentAssignments.values())
+      .filter(assignment => assignment.closedAt === null && assignment.dueAt <= now)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime() || a.id - b.id);
+  }
+
+  // Transcription revision operations
+  async createTranscriptionRevision(revision: InsertTranscriptionRevision): Promise<TranscriptionRevision> {
+    const id = this.currentTranscriptionRevisionId++;
+    const previousRevisions = Array.from(this.transcriptionRevisions.values())
+      .filter(r => r.transcriptionId === revision.transcriptionId);
+    const newRevision: TranscriptionRevision = {
+      id,
+      transcriptionId: revision.transcriptionId,
+      segmentId: revision.segmentId,
+      revision: previousRevisions.length + 1,
+      text: revision.text,
+      notes: revision.notes ?? null,
+      reviewNotes: revision.reviewNotes ?? null,
+      rating: revision.rating ?? null,
+      previousStatus: revision.previousStatus ?? null,
+      status: revision.status,
+      authorId: revision.authorId,
+      authorRole: revision.authorRole ?? null,
+      createdAt: new Date(),
+    };
+    this.transcriptionRevisions.set(id, newRevision);
+    return newRevision;
+  }
+
+  async getTranscriptionRevisions(transcriptionId: number): Promise<FormattedTranscriptionRevision[]> {
+    return Array.from(this.transcriptionRevisions.values())
+      .filter(r => r.transcriptionId === transcriptionId)
+      .sort((a, b) => a.revision - b.revision)
+      .map(r => ({
+        ...r,
+        authorName: this.users.get(r.authorId)?.fullName || `User ${r.authorId}`,
+      }));
+  }
+
+  async getLatestTranscriptionRevisions(transcriptionIds: number[]): Promise<TranscriptionRevision[]> {
+    const wanted = new Set(transcriptionIds);
+    const latest = new Map<number, TranscriptionRevision>();
+    for (const revision of Array.from(this.transcriptionRevisions.values())) {
+      if (!wanted.has(revision.transcriptionId)) continue;
+      const current = latest.get(revision.transcriptionId);
+      if (!current || revision.revision > current.revision) {
+        latest.set(revision.transcriptionId, revision);
+      }
+    }
+    return Array.from(latest.values()).sort((a, b) => a.transcriptionId - b.transcriptionId);
+  }
+
+  // Dataset version operations
+  async createDatasetVersion(version: InsertDatasetVersion, items: InsertDatasetVersionItem[]): Promise<DatasetVersion> {
+    if (await this.getDatasetVersionByName(version.name)) {
+      throw new Error(`Dataset version ${version.name} already exists`);
+    }
+    const id = this.currentDatasetVersionId++;
+    const datasetVersion: DatasetVersion = {
+      id,
+      name: version.name,
+      description: version.description ?? null,
+      filter: version.filter ?? null,
+      records: version.records,
+      durationMs: version.durationMs,
+      createdBy: version.createdBy,
+      createdAt: new Date(),
+      taintedAt: null,
+      taints: [],
+    };
+    this.datasetVersions.set(id, datasetVersion);
+    for (const item of items) {
+      const itemId = this.currentDatasetVersionItemId++;
+      this.datasetVersionItems.set(itemId, {
+        ...item,
+        id: itemId,
+        datasetVersionId: id,
+        speakerId: item.speakerId ?? null,
+        speaker: item.speaker ?? null,
+        recording: item.recording ?? null,
+      });
+    }
+    return datasetVersion;
+  }
+
+  async getDatasetVersions(): Promise<FormattedDatasetVersion[]> {
+    return Array.from(this.datasetVersions.values())
+      .sort((a, b) => a.id - b.id)
+      .map(version => ({
+        ...version,
+        createdByName: this.users.get(version.createdBy)?.fullName || `User ${version.createdBy}`,
+      }));
+  }
+
+  async getDatasetVersionById(id: number): Promise<DatasetVersion | undefined> {
+    return this.datasetVersions.get(id);
+  }
+
+  async getDatasetVersionByName(name: string): Promise<DatasetVersion | undefined> {
+    return Array.from(this.datasetVersions.values()).find(version => version.name === name);
+  }
+
+  async getDatasetVersionItems(datasetVersionId: number): Promise<FormattedDatasetVersionItem[]> {
+    return Array.from(this.datasetVersionItems.values())
+      .filter(item => item.datasetVersionId === datasetVersionId)
+      .sort((a, b) => a.transcriptionId - b.transcriptionId)
+      .map(item => {
+        const revision = this.transcriptionRevisions.get(item.revisionId);
+        if (!revision) {
+          throw new Error(`Transcription revision with ID ${item.revisionId} not found`);
+        }
+        return { ...item, text: revision.text };
+      });
+  }
+
+  async taintDatasetVersions(taint: DatasetVersionTaint): Promise<DatasetVersion[]> {
+    const versionIds = new Set(
+      Array.from(this.datasetVersionItems.values())
+        .filter(item => item.audioFileId === taint.audioFileId)
+        .map(item => item.datasetVersionId),
+    );
+    const tainted: DatasetVersion[] = [];
+    for (const version of Array.from(this.datasetVersions.values())) {
+      if (!versionIds.has(version.id) || version.taints.some(t => t.audioFileId === taint.audioFileId)) {
+        continue;
+      }
+      const updated: DatasetVersion = {
+        ...version,
+        taintedAt: version.taintedAt ?? new Date(taint.revokedAt),
+        taints: [...version.taints, taint],
+      };
+      this.datasetVersions.set(version.id, updated);
+      tainted.push(updated);
+    }
+    return tainted.sort((a, b) => a.id - b.id);
+  }
+
   // Export operations
   async createExport(exportData: InsertExport): Promise<Export> {
     const id = this.currentExportId++;
@@ -551,6 +1232,16 @@ export class MemStorage implements IStorage {
       startDate: exportData.startDate === undefined ? null : exportData.startDate,
       endDate: exportData.endDate === undefined ? null : exportData.endDate,
       createdAt: now, // Provide Date for Date | null field
+      splitSeed: exportData.splitSeed ?? null,
+      splitManifest: exportData.splitManifest ?? null,
+      audioNormalization: exportData.audioNormalization ?? null,
+      status: exportData.status ?? "queued",
+      progress: exportData.progress ?? 0,
+      error: null,
+      checksum: null,
+      options: exportData.options ?? null,
+      completedAt: null,
+      datasetVersionId: exportData.datasetVersionId ?? null,
     };
     this.exports.set(id, newExport);
     return newExport;
@@ -572,6 +1263,147 @@ export class MemStorage implements IStorage {
   async getExportById(id: number): Promise<Export | undefined> {
     return this.exports.get(id);
   }
+  async updateExport(id: number, updates: ExportUpdate): Promise<Export> {
+    const exportRecord = this.exports.get(id);
+    if (!exportRecord) {
+      throw new Error(`Export with ID ${id} not found`);
+    }
+
+    const updatedExport: Export = {
+      ...exportRecord,
+      ...(updates.status !== undefined && { status: updates.status }),
+      ...(updates.progress !== undefined && { progress: updates.progress }),
+      ...(updates.error !== undefined && { error: updates.error }),
+      ...(updates.checksum !== undefined && { checksum: updates.checksum }),
+      ...(updates.records !== undefined && { records: updates.records }),
+      ...(updates.size !== undefined && { size: updates.size }),
+      ...(updates.splitManifest !== undefined && { splitManifest: updates.splitManifest }),
+      ...(updates.completedAt !== undefined && { completedAt: updates.completedAt }),
+    };
+    this.exports.set(id, updatedExport);
+    return updatedExport;
+  }
+
+  async getExportsByStatus(statuses: string[]): Promise<Export[]> {
+    return Array.from(this.exports.values())
+      .filter(exportRecord => statuses.includes(exportRecord.status))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createExportAudit(audit: InsertExportAudit): Promise<ExportAudit> {
+    const id = this.currentExportAuditId++;
+    const exportAudit: ExportAudit = {
+      id,
+      exportId: audit.exportId,
+      datasetVersionId: audit.datasetVersionId ?? null,
+      createdBy: audit.createdBy,
+      policy: audit.policy,
+      included: audit.included,
+      excluded: audit.excluded,
+      createdAt: new Date(),
+    };
+    this.exportAudits.set(id, exportAudit);
+    return exportAudit;
+  }
+
+  async getExportAudits(exportId: number): Promise<ExportAudit[]> {
+    return Array.from(this.exportAudits.values())
+      .filter(audit => audit.exportId === exportId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+
+  // Processing job operations
+  async createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob> {
+    const id = this.currentProcessingJobId++;
+    const now = new Date();
+    const processingJob: ProcessingJob = {
+      id,
+      audioFileId: job.audioFileId,
+      kind: job.kind ?? "process",
+      status: job.status,
+      attempts: 0,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt ?? now,
+      lastError: null,
+      history: [],
+      vadSettings: job.vadSettings ?? null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.processingJobs.set(id, processingJob);
+    return processingJob;
+  }
+
+  async getProcessingJobById(id: number): Promise<ProcessingJob | undefined> {
+    return this.processingJobs.get(id);
+  }
+
+  async getLatestProcessingJobForFile(audioFileId: number): Promise<ProcessingJob | undefined> {
+    return Array.from(this.processingJobs.values())
+      .filter(job => job.audioFileId === audioFileId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async getProcessingJobsByStatus(statuses: string[]): Promise<ProcessingJob[]> {
+    return Array.from(this.processingJobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateProcessingJob(id: number, updates: ProcessingJobUpdate): Promise<ProcessingJob> {
+    const job = this.processingJobs.get(id);
+    if (!job) {
+      throw new Error(`Processing job with ID ${id} not found`);
+    }
+
+    const updatedJob: ProcessingJob = {
+      ...job,
+      ...(updates.status !== undefined && { status: updates.status }),
+      ...(updates.attempts !== undefined && { attempts: updates.attempts }),
+      ...(updates.runAt !== undefined && { runAt: updates.runAt }),
+      ...(updates.lastError !== undefined && { lastError: updates.lastError }),
+      ...(updates.history !== undefined && { history: updates.history }),
+      ...(updates.result !== undefined && { result: updates.result }),
+      updatedAt: new Date(),
+    };
+
+    this.processingJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimNextProcessingJob(): Promise<ProcessingJob | undefined> {
+    const now = Date.now();
+    const nextJob = Array.from(this.processingJobs.values())
+      .filter(job => job.status === "queued" && job.runAt.getTime() <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+
+    if (!nextJob) {
+      return undefined;
+    }
+
+    return this.updateProcessingJob(nextJob.id, {
+      status: "processing",
+      attempts: nextJob.attempts + 1,
+    });
+  }
+
+  // Project settings operations
+  async getProjectSetting<T>(key: string): Promise<T | undefined> {
+    return this.projectSettings.get(key)?.value as T | undefined;
+  }
+
+  async setProjectSetting<T>(key: string, value: T, updatedBy: number | null): Promise<ProjectSetting> {
+    const setting: ProjectSetting = {
+      key,
+      value,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+    this.projectSettings.set(key, setting);
+    return setting;
+  }
 
   // Dashboard operations
   async getTaskSummary(userId: number): Promise<TaskSummary> {
@@ -726,8 +1558,8 @@ export class MemStorage implements IStorage {
       return false;
     }
     
-    segment.status = "deleted";
-    this.audioSegments.set(id, segment);
+    // Replaced rather than mutated, so segments callers already hold keep their status
+    this.audioSegments.set(id, { ...segment, status: "deleted" });
     return true;
   }
 
@@ -743,4 +1575,28 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+/**
+ * Pick the storage backend from configuration.
+ * STORAGE_DRIVER=postgres|memory wins; otherwise Postgres is used whenever DATABASE_URL is set.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+    }
+    const { pool, db } = createDatabase(process.env.DATABASE_URL);
+    console.log("Using PostgreSQL storage");
+    return new DbStorage(db, pool);
+  }
+
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "postgres" or "memory".`);
+  }
+
+  console.log("Using in-memory storage (data is lost on restart)");
+  return new MemStorage();
+}
+
+export const storage = createStorage();
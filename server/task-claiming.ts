@@ -0,0 +1,36 @@
+import {
+  DEFAULT_CLAIMING_SETTINGS,
+  claimingSettingsSchema,
+  type AudioSegment,
+  type ClaimingSettings,
+} from "@shared/schema";
+import { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+import { closeSegmentAssignment } from "./assignment-due";
+
+export const CLAIMING_SETTINGS_KEY = "tasks.claiming";
+
+/**
+ * Project-wide limits on self-service claiming (falls back to the defaults)
+ */
+export async function getClaimingSettings(storage: IStorage): Promise<ClaimingSettings> {
+  return getProjectSettings(storage, CLAIMING_SETTINGS_KEY, claimingSettingsSchema, DEFAULT_CLAIMING_SETTINGS);
+}
+
+/**
+ * When a segment claimed now has to be submitted by
+ */
+export function getLeaseExpiry(settings: ClaimingSettings, from = new Date()): Date {
+  return new Date(from.getTime() + settings.leaseMinutes * 60 * 1000);
+}
+
+/**
+ * Return claimed segments whose lease ran out to the pool and close their assignments
+ */
+export async function releaseExpiredLeases(storage: IStorage, now = new Date()): Promise<AudioSegment[]> {
+  const released = await storage.releaseExpiredLeases(now);
+  for (const segment of released) {
+    await closeSegmentAssignment(storage, segment.id, "expired", now);
+  }
+  return released;
+}
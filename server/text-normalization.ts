@@ -0,0 +1,16 @@
+import {
+  DEFAULT_TEXT_NORMALIZATION,
+  textNormalizationSchema,
+  type TextNormalization,
+} from "@shared/text-normalization";
+import { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+export const TEXT_NORMALIZATION_SETTINGS_KEY = "text.normalization";
+
+/**
+ * Project-wide normalization rules, used by the editor preview and by exports (falls back to the defaults)
+ */
+export async function getTextNormalizationSettings(storage: IStorage): Promise<TextNormalization> {
+  return getProjectSettings(storage, TEXT_NORMALIZATION_SETTINGS_KEY, textNormalizationSchema, DEFAULT_TEXT_NORMALIZATION);
+}
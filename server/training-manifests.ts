@@ -0,0 +1,132 @@
+import * as fsPromises from "fs/promises";
+import path from "path";
+import type { FormattedTranscription } from "./storage";
+import { writeZipArchive } from "./zip-archive";
+import { buildRecordingsManifest, recordingEntry } from "./recording-metadata";
+
+export interface KaldiExportResult {
+  records: number;
+  size: number;
+}
+
+/**
+ * NVIDIA NeMo manifest: one JSON object per line with `audio_filepath`, `duration` (seconds) and `text`
+ * (plus `raw_text` when the text was normalized, `annotations` when tags were stripped, and
+ * `recording` with the metadata of the source recording)
+ */
+export function buildNemoManifest(transcriptions: FormattedTranscription[]): string {
+  return transcriptions
+    .map(t => JSON.stringify({
+      audio_filepath: path.resolve(t.audioPath),
+      duration: t.duration / 1000,
+      text: t.text,
+      ...(t.rawText !== undefined && { raw_text: t.rawText }),
+      ...(t.annotations && { annotations: t.annotations }),
+      ...recordingEntry(t),
+    }) + "\n")
+    .join("");
+}
+
+// Kaldi IDs can't contain whitespace, and zero padding keeps C-locale sort order equal to numeric order
+function recordingId(audioFileId: number): string {
+  return `rec${String(audioFileId).padStart(6, "0")}`;
+}
+
+function speakerId(item: FormattedTranscription): string {
+  // Segments without a speaker count as one speaker per recording
+  return item.speaker ? `spk${String(item.speaker.id).padStart(6, "0")}` : recordingId(item.audioFileId);
+}
+
+// Kaldi's spk2gender only knows m and f
+const KALDI_GENDERS: Record<string, string> = { male: "m", female: "f" };
+
+function utteranceId(item: FormattedTranscription): string {
+  // Kaldi expects utterance IDs to start with their speaker ID
+  const speaker = speakerId(item);
+  const recording = recordingId(item.audioFileId);
+  const prefix = speaker === recording ? recording : `${speaker}-${recording}`;
+  return `${prefix}-${String(item.segmentId).padStart(8, "0")}`;
+}
+
+// Kaldi recipes expect 16 kHz mono 16-bit WAV, and the sample rate of the originals isn't stored,
+// so every recording (WAV included) is converted on the fly
+function wavScpEntry(sourcePath: string): string {
+  const resolved = path.resolve(sourcePath);
+  return `ffmpeg -nostdin -loglevel error -i ${JSON.stringify(resolved)} -f wav -ar 16000 -ac 1 -acodec pcm_s16le - |`;
+}
+
+// Kaldi tools require every table sorted by key in C-locale order
+function table(entries: Map<string, string>): string {
+  return Array.from(entries.keys())
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(key => `${key} ${entries.get(key)}\n`)
+    .join("");
+}
+
+/**
+ * Build the files of a Kaldi data directory. `segments` points into the original recordings
+ * listed in `wav.scp`, so the segment files themselves are not needed. Normalized exports also
+ * get `text_raw` with the text as transcribed, and `spk2gender` is added when every speaker has one.
+ */
+export function buildKaldiDataDir(transcriptions: FormattedTranscription[]): Record<string, string> {
+  const wavScp = new Map<string, string>();
+  const text = new Map<string, string>();
+  const rawText = new Map<string, string>();
+  const utt2spk = new Map<string, string>();
+  const segments = new Map<string, string>();
+  const spk2utt = new Map<string, string[]>();
+  const spk2gender = new Map<string, string | undefined>();
+
+  for (const item of transcriptions) {
+    const recording = recordingId(item.audioFileId);
+    const utterance = utteranceId(item);
+    const speaker = speakerId(item);
+    const start = (item.startTime ?? 0) / 1000;
+    const end = (item.endTime ?? (item.startTime ?? 0) + item.duration) / 1000;
+
+    wavScp.set(recording, wavScpEntry(item.sourcePath));
+    text.set(utterance, item.text.replace(/\s+/g, " ").trim());
+    if (item.rawText !== undefined) {
+      rawText.set(utterance, item.rawText.replace(/\s+/g, " ").trim());
+    }
+    utt2spk.set(utterance, speaker);
+    segments.set(utterance, `${recording} ${start.toFixed(3)} ${end.toFixed(3)}`);
+    spk2utt.set(speaker, [...(spk2utt.get(speaker) ?? []), utterance]);
+    spk2gender.set(speaker, KALDI_GENDERS[item.speaker?.gender ?? ""]);
+  }
+  const genders = Array.from(spk2gender.values());
+
+  const spk2uttTable = new Map(
+    Array.from(spk2utt.entries()).map(([speaker, utterances]) => [speaker, utterances.sort().join(" ")]),
+  );
+
+  return {
+    "wav.scp": table(wavScp),
+    text: table(text),
+    utt2spk: table(utt2spk),
+    spk2utt: table(spk2uttTable),
+    segments: table(segments),
+    ...(rawText.size > 0 && { text_raw: table(rawText) }),
+    ...(genders.length > 0 && genders.every(Boolean) && { spk2gender: table(spk2gender as Map<string, string>) }),
+  };
+}
+
+/**
+ * Write a ZIP holding a Kaldi data directory (`data/`) and `recordings.json` to `destination`.
+ * `entryDate` fixes the entries' modification date, so the same input gives the same bytes.
+ */
+export async function writeKaldiExport(
+  transcriptions: FormattedTranscription[],
+  destination: string,
+  entryDate?: Date,
+): Promise<KaldiExportResult> {
+  await writeZipArchive(destination, async archive => {
+    for (const [name, content] of Object.entries(buildKaldiDataDir(transcriptions))) {
+      archive.append(content, { name: `data/${name}`, date: entryDate });
+    }
+    archive.append(buildRecordingsManifest(transcriptions), { name: "recordings.json", date: entryDate });
+  });
+
+  const stats = await fsPromises.stat(destination);
+  return { records: transcriptions.length, size: stats.size };
+}
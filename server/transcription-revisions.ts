@@ -0,0 +1,48 @@
+import { type Transcription, type TranscriptionRevision, type User } from "@shared/schema";
+import { IStorage } from "./storage";
+
+export type RevisionAuthor = Pick<User, "id" | "role">;
+
+/**
+ * Store the current state of a transcription as its next revision.
+ * `previous` is the state before the save (omitted for new transcriptions). Transcriptions
+ * saved before revisions were recorded get that state backfilled as revision 1, so the
+ * first diff still has something to compare against.
+ */
+export async function recordTranscriptionRevision(
+  storage: IStorage,
+  transcription: Transcription,
+  author: RevisionAuthor,
+  previous?: Transcription,
+): Promise<TranscriptionRevision> {
+  if (previous) {
+    const existing = await storage.getTranscriptionRevisions(transcription.id);
+    if (existing.length === 0) {
+      await storage.createTranscriptionRevision({
+        transcriptionId: previous.id,
+        segmentId: previous.segmentId,
+        text: previous.text,
+        notes: previous.notes,
+        reviewNotes: previous.reviewNotes,
+        rating: previous.rating,
+        previousStatus: null,
+        status: previous.status,
+        authorId: previous.createdBy,
+        authorRole: null,
+      });
+    }
+  }
+
+  return storage.createTranscriptionRevision({
+    transcriptionId: transcription.id,
+    segmentId: transcription.segmentId,
+    text: transcription.text,
+    notes: transcription.notes,
+    reviewNotes: transcription.reviewNotes,
+    rating: transcription.rating,
+    previousStatus: previous?.status ?? null,
+    status: transcription.status,
+    authorId: author.id,
+    authorRole: author.role,
+  });
+}
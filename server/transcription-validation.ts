@@ -0,0 +1,16 @@
+import {
+  DEFAULT_TRANSCRIPTION_VALIDATION_SETTINGS,
+  transcriptionValidationSettingsSchema,
+  type TranscriptionValidationSettings,
+} from "@shared/transcription-validation";
+import { IStorage } from "./storage";
+import { getProjectSettings } from "./project-settings";
+
+export const TRANSCRIPTION_VALIDATION_SETTINGS_KEY = "text.validation";
+
+/**
+ * Project-wide context for the transcription checks, used by the editor and the workflow (falls back to the defaults)
+ */
+export async function getTranscriptionValidationSettings(storage: IStorage): Promise<TranscriptionValidationSettings> {
+  return getProjectSettings(storage, TRANSCRIPTION_VALIDATION_SETTINGS_KEY, transcriptionValidationSettingsSchema, DEFAULT_TRANSCRIPTION_VALIDATION_SETTINGS);
+}
@@ -9,7 +9,61 @@ from pathlib import Path
 
 import argparse
 
-def process_audio(input_path, output_dir):
+SAMPLING_RATE = 16000
+
+# Defaults match silero-vad's get_speech_timestamps defaults
+DEFAULT_VAD_OPTIONS = {
+    'threshold': 0.5,
+    'min_speech_duration_ms': 250,
+    'min_silence_duration_ms': 100,
+    'speech_pad_ms': 30,
+    'max_segment_s': None,
+}
+
+
+def report_progress(stage, percent):
+    """Progress line on stderr, parsed by the Node side as `PROGRESS {json}`."""
+    print(f"PROGRESS {json.dumps({'stage': stage, 'percent': round(percent, 1)})}", file=sys.stderr, flush=True)
+
+
+class ProgressReporter:
+    """Only reports when the whole-number percentage changes, to keep stderr small."""
+
+    def __init__(self, stage):
+        self.stage = stage
+        self.last = None
+
+    def __call__(self, percent):
+        whole = int(percent)
+        if whole != self.last:
+            self.last = whole
+            report_progress(self.stage, whole)
+
+
+def split_long_segments(speech_timestamps, max_segment_s):
+    """Force-split any segment longer than max_segment_s into equal chunks."""
+    if not max_segment_s:
+        return speech_timestamps
+
+    max_samples = int(max_segment_s * SAMPLING_RATE)
+    result = []
+    for ts in speech_timestamps:
+        length = ts['end'] - ts['start']
+        if length <= max_samples:
+            result.append(ts)
+            continue
+
+        chunks = -(-length // max_samples)  # ceiling division
+        chunk_length = length // chunks
+        for chunk in range(chunks):
+            start = ts['start'] + chunk * chunk_length
+            end = ts['end'] if chunk == chunks - 1 else start + chunk_length
+            result.append({'start': start, 'end': end})
+    return result
+
+
+def process_audio(input_path, output_dir, vad_options=None):
+    options = {**DEFAULT_VAD_OPTIONS, **(vad_options or {})}
     try:
         # Verify input file exists
         if not Path(input_path).is_file():
@@ -20,6 +74,7 @@ def process_audio(input_path, output_dir):
         output_path.mkdir(parents=True, exist_ok=True)
 
         # Load the VAD model with caching enabled
+        report_progress('loading_model', 0)
         print("Loading VAD model...")
         print(f"Python executable: {sys.executable}")
         print(f"Torch version: {torch.__version__}")
@@ -77,6 +132,7 @@ def process_audio(input_path, output_dir):
                 except Exception as emergency_error:
                     raise Exception(f"All attempts to load VAD model failed: {str(emergency_error)}")
         (get_speech_timestamps, _, _, _, _) = utils
+        report_progress('loading_model', 100)
 
         # Read audio with torchaudio
         try:
@@ -93,12 +149,35 @@ def process_audio(input_path, output_dir):
         # Convert to torch tensor
         audio = torch.from_numpy(audio).float()
 
-        # Get speech timestamps
-        speech_timestamps = get_speech_timestamps(audio, vad_model, sampling_rate=16000)
+        # Get speech timestamps with the requested VAD parameters
+        max_segment_s = options['max_segment_s']
+        vad_kwargs = dict(
+            sampling_rate=SAMPLING_RATE,
+            threshold=options['threshold'],
+            min_speech_duration_ms=options['min_speech_duration_ms'],
+            min_silence_duration_ms=options['min_silence_duration_ms'],
+            speech_pad_ms=options['speech_pad_ms'],
+            max_speech_duration_s=max_segment_s if max_segment_s else float('inf'),
+        )
+        report_progress('detecting_speech', 0)
+        try:
+            speech_timestamps = get_speech_timestamps(
+                audio, vad_model, progress_tracking_callback=ProgressReporter('detecting_speech'), **vad_kwargs
+            )
+        except TypeError:
+            # Older silero-vad releases have no progress callback
+            speech_timestamps = get_speech_timestamps(audio, vad_model, **vad_kwargs)
+        report_progress('detecting_speech', 100)
+
+        # Silero only splits long speech at silences; enforce the hard limit as well
+        speech_timestamps = split_long_segments(speech_timestamps, max_segment_s)
 
         # Process and save segments
         segments_info = []
+        write_progress = ProgressReporter('writing_segments')
+        write_progress(0)
         for i, ts in enumerate(speech_timestamps):
+            write_progress(100 * i / len(speech_timestamps))
             # Generate output path for this segment
             segment_path = Path(output_dir) / f"segment_{i+1}.wav"
             
@@ -123,6 +202,8 @@ def process_audio(input_path, output_dir):
                 'duration': duration
             })
 
+        write_progress(100)
+
         # Return the segments information as JSON
         return json.dumps({
             'status': 'success',
@@ -144,19 +225,36 @@ if __name__ == "__main__":
     print(f"Python version: {sys.version}", file=sys.stderr)
     print(f"Arguments received: {sys.argv}", file=sys.stderr)
     
-    if len(sys.argv) != 3:
+    parser = argparse.ArgumentParser(description='Split an audio file into speech segments with Silero VAD')
+    parser.add_argument('input_file')
+    parser.add_argument('output_dir')
+    parser.add_argument('--threshold', type=float, default=DEFAULT_VAD_OPTIONS['threshold'])
+    parser.add_argument('--min-speech-ms', type=int, default=DEFAULT_VAD_OPTIONS['min_speech_duration_ms'])
+    parser.add_argument('--min-silence-ms', type=int, default=DEFAULT_VAD_OPTIONS['min_silence_duration_ms'])
+    parser.add_argument('--speech-pad-ms', type=int, default=DEFAULT_VAD_OPTIONS['speech_pad_ms'])
+    parser.add_argument('--max-segment-s', type=float, default=DEFAULT_VAD_OPTIONS['max_segment_s'])
+    
+    try:
+        args = parser.parse_args()
+    except SystemExit:
         print(json.dumps({
             'status': 'error',
-            'error': f'Expected 2 arguments, got {len(sys.argv)-1}. Usage: python vad_processor.py <input_file> <output_dir>'
+            'error': 'Invalid arguments. Usage: python vad_processor.py <input_file> <output_dir> [--threshold T] [--min-speech-ms MS] [--min-silence-ms MS] [--speech-pad-ms MS] [--max-segment-s S]'
         }))
         sys.exit(1)
     
-    input_path = sys.argv[1]
-    output_dir = sys.argv[2]
-    
     # Print the paths for debugging
-    print(f"Input path: {input_path}", file=sys.stderr)
-    print(f"Output directory: {output_dir}", file=sys.stderr)
+    print(f"Input path: {args.input_file}", file=sys.stderr)
+    print(f"Output directory: {args.output_dir}", file=sys.stderr)
+    
+    vad_options = {
+        'threshold': args.threshold,
+        'min_speech_duration_ms': args.min_speech_ms,
+        'min_silence_duration_ms': args.min_silence_ms,
+        'speech_pad_ms': args.speech_pad_ms,
+        'max_segment_s': args.max_segment_s,
+    }
+    print(f"VAD options: {vad_options}", file=sys.stderr)
     
-    result = process_audio(input_path, output_dir)
-    print(result)
\ No newline at end of file
+    result = process_audio(args.input_file, args.output_dir, vad_options)
+    print(result)
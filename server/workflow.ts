@@ -0,0 +1,479 @@
+import {
+  type AudioSegment,
+  type Transcription,
+  type User,
+  type WorkflowAction,
+} from "@shared/schema";
+import {
+  hasValidationErrors,
+  validateTranscription,
+  type ValidationIssue,
+} from "@shared/transcription-validation";
+import { IStorage, type AudioSegmentUpdate, type TranscriptionUpdate } from "./storage";
+import { recordTranscriptionRevision } from "./transcription-revisions";
+import { pickReviewer } from "./review-routing";
+import { getClaimingSettings, getLeaseExpiry, releaseExpiredLeases } from "./task-claiming";
+import { getTranscriptionValidationSettings } from "./transcription-validation";
+import {
+  closeSegmentAssignment,
+  getAssignmentDueSettings,
+  getDefaultDueDate,
+  openSegmentAssignment,
+} from "./assignment-due";
+
+export class WorkflowError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+  }
+}
+
+// Text that fails a validation rule with error severity; the issues go back to the client
+export class TranscriptionValidationError extends WorkflowError {
+  constructor(public issues: ValidationIssue[]) {
+    super("The transcription has errors", 422);
+  }
+}
+
+export type WorkflowActor = Pick<User, "id" | "role">;
+
+export interface WorkflowInput {
+  userId?: number; // assign: the transcriber receiving the segment
+  dueAt?: Date; // assign: deadline instead of the project default
+  text?: string; // submit; approve/reject when the reviewer corrects the text
+  notes?: string | null;
+  rating?: number | null;
+  reviewNotes?: string | null;
+}
+
+export interface WorkflowResult {
+  segment: AudioSegment;
+  transcription?: Transcription;
+}
+
+interface Transition {
+  from: string[]; // segment statuses the action starts from
+  to: string; // segment status afterwards
+  roles: string[];
+  // Transcription status the action requires (null = no transcription yet) and leaves behind
+  transcription?: { from: (string | null)[]; to: string };
+}
+
+/**
+ * Every legal move of a segment through the review workflow. Rejected work goes back
+ * to its transcriber, who either resubmits it or releases it for someone else to claim.
+ */
+const TRANSITIONS: Record<WorkflowAction, Transition> = {
+  claim: { from: ["available"], to: "assigned", roles: ["transcriber", "admin"] },
+  assign: { from: ["available"], to: "assigned", roles: ["admin"] },
+  submit: {
+    // Resubmitting while still pending review replaces the text before anyone looks at it
+    from: ["assigned", "rejected", "transcribed"],
+    to: "transcribed",
+    roles: ["transcriber", "admin"],
+    transcription: { from: [null, "rejected", "pending_review"], to: "pending_review" },
+  },
+  approve: {
+    from: ["transcribed"],
+    to: "reviewed",
+    roles: ["reviewer", "admin"],
+    transcription: { from: ["pending_review"], to: "approved" },
+  },
+  reject: {
+    from: ["transcribed"],
+    to: "rejected",
+    roles: ["reviewer", "admin"],
+    transcription: { from: ["pending_review"], to: "rejected" },
+  },
+  reopen: {
+    from: ["reviewed"],
+    to: "transcribed",
+    roles: ["reviewer", "admin"],
+    transcription: { from: ["approved"], to: "pending_review" },
+  },
+  unassign: { from: ["assigned", "rejected"], to: "available", roles: ["transcriber", "admin"] },
+};
+
+function isOwnWork(segment: AudioSegment, transcription: Transcription | undefined, userId: number): boolean {
+  return segment.transcribedBy === userId || transcription?.createdBy === userId;
+}
+
+/**
+ * Throw unless `actor` may perform `action` on the segment in its current state.
+ * Illegal state changes are 409s; acting on somebody else's work is a 403.
+ */
+function checkTransition(
+  action: WorkflowAction,
+  segment: AudioSegment,
+  transcription: Transcription | undefined,
+  actor: WorkflowActor,
+): Transition {
+  const transition = TRANSITIONS[action];
+
+  if (!transition.from.includes(segment.status)) {
+    throw new WorkflowError(`Cannot ${action} a segment that is ${segment.status}`);
+  }
+  if (!transition.roles.includes(actor.role)) {
+    throw new WorkflowError(`Role ${actor.role} cannot ${action} segments`);
+  }
+  if (transition.transcription) {
+    const current = transcription?.status ?? null;
+    if (!transition.transcription.from.includes(current)) {
+      throw new WorkflowError(
+        current ? `Cannot ${action} a transcription that is ${current}` : `Cannot ${action} a segment without a transcription`
+      );
+    }
+  }
+
+  if (action === "approve" || action === "reject") {
+    if (isOwnWork(segment, transcription, actor.id)) {
+      throw new WorkflowError("You cannot review your own transcription", 403);
+    }
+    if (actor.role !== "admin" && segment.reviewedBy !== null && segment.reviewedBy !== actor.id) {
+      throw new WorkflowError("This segment is assigned to another reviewer", 403);
+    }
+  }
+
+  if (actor.role !== "admin") {
+    if (action === "submit") {
+      const owner = segment.status === "transcribed" ? segment.transcribedBy : segment.assignedTo;
+      if (owner !== actor.id) {
+        throw new WorkflowError("You can only submit segments assigned to you", 403);
+      }
+    } else if (action === "unassign" && segment.assignedTo !== actor.id) {
+      throw new WorkflowError("You can only release segments assigned to you", 403);
+    }
+  }
+
+  return transition;
+}
+
+function checkInput(action: WorkflowAction, input: WorkflowInput): void {
+  if (action === "assign" && !input.userId) {
+    throw new WorkflowError("userId is required", 400);
+  }
+  if (input.dueAt !== undefined) {
+    checkDueDate(input.dueAt);
+  }
+  if (action === "reject" && !input.reviewNotes?.trim()) {
+    throw new WorkflowError("Review notes are required when rejecting", 400);
+  }
+  if (input.rating !== undefined && input.rating !== null
+      && (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5)) {
+    throw new WorkflowError("Rating must be a whole number from 1 to 5", 400);
+  }
+}
+
+function checkDueDate(dueAt: Date): void {
+  if (isNaN(dueAt.getTime())) {
+    throw new WorkflowError("dueAt must be a valid date", 400);
+  }
+  if (dueAt.getTime() <= Date.now()) {
+    throw new WorkflowError("dueAt must be in the future", 400);
+  }
+}
+
+/**
+ * Validate the text a submit or approve leaves on the segment. Reviewers can reject text with
+ * errors, since it goes back to the transcriber to be fixed.
+ */
+async function checkText(
+  storage: IStorage,
+  action: WorkflowAction,
+  segment: AudioSegment,
+  transcription: Transcription | undefined,
+  input: WorkflowInput,
+): Promise<void> {
+  if (action !== "submit" && action !== "approve") {
+    return;
+  }
+  const text = action === "submit" || input.text?.trim() ? input.text ?? "" : transcription?.text ?? "";
+  const { script } = await getTranscriptionValidationSettings(storage);
+  const issues = validateTranscription(text, { durationMs: segment.duration, script });
+  if (hasValidationErrors(issues)) {
+    throw new TranscriptionValidationError(issues);
+  }
+}
+
+function openAssignmentLimitError(openAssignments: number, maxOpenAssignments: number): WorkflowError {
+  return new WorkflowError(
+    `You already have ${openAssignments} open segment(s), the limit is ${maxOpenAssignments}. Submit or release one first.`
+  );
+}
+
+/**
+ * Actions `actor` could take on the segment right now (for the UI)
+ */
+export function getAllowedActions(
+  segment: AudioSegment,
+  transcription: Transcription | undefined,
+  actor: WorkflowActor,
+): WorkflowAction[] {
+  return (Object.keys(TRANSITIONS) as WorkflowAction[]).filter(action => {
+    try {
+      checkTransition(action, segment, transcription, actor);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Apply a workflow action to a segment and its transcription.
+ * Together with returnToReview, this is the only place segment/transcription statuses change
+ * during the review workflow.
+ */
+export async function performWorkflowAction(
+  storage: IStorage,
+  segmentId: number,
+  action: WorkflowAction,
+  actor: WorkflowActor,
+  input: WorkflowInput = {},
+): Promise<WorkflowResult> {
+  const segment = await storage.getAudioSegmentById(segmentId);
+  if (!segment || segment.status === "deleted") {
+    throw new WorkflowError("Segment not found", 404);
+  }
+  const transcription = await storage.getTranscriptionBySegmentId(segmentId);
+
+  const transition = checkTransition(action, segment, transcription, actor);
+  checkInput(action, input);
+  await checkText(storage, action, segment, transcription, input);
+
+  const segmentUpdate: AudioSegmentUpdate = { status: transition.to };
+  let transcriptionUpdate: TranscriptionUpdate | null = null;
+  // Who holds the segment afterwards and by when it is due (claim, assign, reject)
+  let newAssignment: { userId: number; dueAt: Date; assignedBy: number | null } | null = null;
+
+  switch (action) {
+    case "claim":
+      // Storage checks the cap and that the segment is still available in one step
+      return { segment: await claimSegment(storage, actor, { segmentId }), transcription };
+    case "assign":
+      newAssignment = {
+        userId: input.userId!,
+        dueAt: input.dueAt ?? getDefaultDueDate(await getAssignmentDueSettings(storage)),
+        assignedBy: actor.id,
+      };
+      // Admin assignments don't expire
+      segmentUpdate.assignedTo = input.userId!;
+      segmentUpdate.leaseExpiresAt = null;
+      break;
+    case "submit":
+      segmentUpdate.transcribedBy = actor.id;
+      segmentUpdate.leaseExpiresAt = null;
+      segmentUpdate.dueAt = null;
+      // Resubmitted work goes back to the reviewer who rejected it
+      if (segment.reviewedBy === null || segment.reviewedBy === actor.id) {
+        segmentUpdate.reviewedBy = await pickReviewer(storage, actor.id);
+      }
+      transcriptionUpdate = {
+        text: input.text!,
+        ...(input.notes !== undefined && { notes: input.notes }),
+        // Saving again means someone has checked the text against the current audio
+        flaggedReason: null,
+      };
+      break;
+    case "approve":
+      segmentUpdate.reviewedBy = actor.id;
+      transcriptionUpdate = {
+        ...(input.text?.trim() && { text: input.text }),
+        reviewedBy: actor.id,
+        ...(input.rating !== undefined && { rating: input.rating }),
+        reviewNotes: input.reviewNotes ?? null,
+        flaggedReason: null,
+      };
+      break;
+    case "reject":
+      segmentUpdate.reviewedBy = actor.id;
+      // Back to the transcriber's queue, with a fresh due date for the fix
+      segmentUpdate.assignedTo = segment.transcribedBy ?? segment.assignedTo;
+      if (segmentUpdate.assignedTo) {
+        newAssignment = {
+          userId: segmentUpdate.assignedTo,
+          dueAt: getDefaultDueDate(await getAssignmentDueSettings(storage)),
+          assignedBy: actor.id,
+        };
+      }
+      transcriptionUpdate = {
+        ...(input.text?.trim() && { text: input.text }),
+        reviewedBy: actor.id,
+        ...(input.rating !== undefined && { rating: input.rating }),
+        reviewNotes: input.reviewNotes!,
+      };
+      break;
+    case "reopen":
+      transcriptionUpdate = {};
+      break;
+    case "unassign":
+      segmentUpdate.assignedTo = null;
+      segmentUpdate.leaseExpiresAt = null;
+      segmentUpdate.dueAt = null;
+      break;
+  }
+  if (newAssignment) {
+    segmentUpdate.dueAt = newAssignment.dueAt;
+  }
+
+  let updatedTranscription = transcription;
+  if (transcriptionUpdate && transition.transcription) {
+    const status = transition.transcription.to;
+    if (transcription) {
+      updatedTranscription = await storage.updateTranscription(transcription.id, { ...transcriptionUpdate, status });
+      await recordTranscriptionRevision(storage, updatedTranscription, actor, transcription);
+    } else {
+      updatedTranscription = await storage.createTranscription({
+        segmentId,
+        text: input.text!,
+        createdBy: actor.id,
+        status,
+        notes: input.notes ?? null,
+      });
+      await recordTranscriptionRevision(storage, updatedTranscription, actor);
+    }
+  }
+
+  const updatedSegment = await storage.updateAudioSegment(segmentId, segmentUpdate);
+
+  if (newAssignment) {
+    await openSegmentAssignment(storage, segmentId, newAssignment.userId, newAssignment.dueAt, newAssignment.assignedBy);
+  } else if (action === "submit") {
+    await closeSegmentAssignment(storage, segmentId, "submitted");
+  } else if (action === "unassign") {
+    await closeSegmentAssignment(storage, segmentId, "released");
+  }
+
+  return { segment: updatedSegment, transcription: updatedTranscription };
+}
+
+/**
+ * Send a segment back to review after its transcription was changed outside the workflow
+ * (merging two segments in the editor combines their text), so it can be approved or rejected
+ * again. The transcription becomes pending review and the segment transcribed; a segment still
+ * held by its transcriber is released, and the segment keeps its reviewer or is routed to one.
+ */
+export async function returnToReview(
+  storage: IStorage,
+  segment: AudioSegment,
+  transcription: Transcription,
+  update: TranscriptionUpdate,
+  actor: WorkflowActor,
+): Promise<WorkflowResult> {
+  const updatedTranscription = await storage.updateTranscription(transcription.id, { ...update, status: "pending_review" });
+  await recordTranscriptionRevision(storage, updatedTranscription, actor, transcription);
+
+  const transcribedBy = segment.transcribedBy ?? transcription.createdBy;
+  const updatedSegment = await storage.updateAudioSegment(segment.id, {
+    status: "transcribed",
+    transcribedBy,
+    reviewedBy: segment.reviewedBy ?? await pickReviewer(storage, transcribedBy),
+    leaseExpiresAt: null,
+    dueAt: null,
+  });
+  await closeSegmentAssignment(storage, segment.id, "released");
+
+  return { segment: updatedSegment, transcription: updatedTranscription };
+}
+
+/**
+ * Claim the oldest available segment for `actor`, optionally from one audio file.
+ * The check against the open-assignment cap and the assignment happen atomically in storage.
+ */
+export async function claimNextSegment(
+  storage: IStorage,
+  actor: WorkflowActor,
+  audioFileId?: number,
+): Promise<AudioSegment> {
+  if (!TRANSITIONS.claim.roles.includes(actor.role)) {
+    throw new WorkflowError(`Role ${actor.role} cannot claim segments`);
+  }
+  return claimSegment(storage, actor, { audioFileId });
+}
+
+async function claimSegment(
+  storage: IStorage,
+  actor: WorkflowActor,
+  target: { audioFileId?: number; segmentId?: number },
+): Promise<AudioSegment> {
+  const settings = await getClaimingSettings(storage);
+  // Lapsed leases go back to the pool before picking, rather than waiting for the next sweep
+  await releaseExpiredLeases(storage);
+
+  const dueAt = getDefaultDueDate(await getAssignmentDueSettings(storage));
+  const { segment, openAssignments } = await storage.claimNextSegment(actor.id, {
+    ...target,
+    maxOpenAssignments: settings.maxOpenAssignments,
+    leaseExpiresAt: getLeaseExpiry(settings),
+    dueAt,
+  });
+  if (segment) {
+    await openSegmentAssignment(storage, segment.id, actor.id, dueAt, null);
+    return segment;
+  }
+  if (openAssignments >= settings.maxOpenAssignments) {
+    throw openAssignmentLimitError(openAssignments, settings.maxOpenAssignments);
+  }
+  if (target.segmentId !== undefined) {
+    throw new WorkflowError("Segment has already been claimed");
+  }
+  throw new WorkflowError(
+    target.audioFileId !== undefined ? "No available segments in this audio file" : "No segments are available to claim",
+    404,
+  );
+}
+
+/**
+ * Manually route a segment waiting for review to `reviewerId` (admins only, checked by the route)
+ */
+export async function assignReviewer(
+  storage: IStorage,
+  segmentId: number,
+  reviewerId: number,
+): Promise<AudioSegment> {
+  const segment = await storage.getAudioSegmentById(segmentId);
+  if (!segment || segment.status === "deleted") {
+    throw new WorkflowError("Segment not found", 404);
+  }
+  if (segment.status !== "transcribed") {
+    throw new WorkflowError(`Cannot assign a reviewer to a segment that is ${segment.status}`);
+  }
+
+  const reviewer = await storage.getUser(reviewerId);
+  if (!reviewer || (reviewer.role !== "reviewer" && reviewer.role !== "admin")) {
+    throw new WorkflowError("Reviewer must be a user with the reviewer or admin role", 400);
+  }
+
+  const transcription = await storage.getTranscriptionBySegmentId(segmentId);
+  if (isOwnWork(segment, transcription, reviewerId)) {
+    throw new WorkflowError("A reviewer cannot review their own transcription");
+  }
+
+  return storage.updateAudioSegment(segmentId, { reviewedBy: reviewerId });
+}
+
+/**
+ * Move the due date of a segment's current assignment (admins only, checked by the route)
+ */
+export async function setAssignmentDueDate(
+  storage: IStorage,
+  segmentId: number,
+  dueAt: Date,
+): Promise<AudioSegment> {
+  const segment = await storage.getAudioSegmentById(segmentId);
+  if (!segment || segment.status === "deleted") {
+    throw new WorkflowError("Segment not found", 404);
+  }
+  if ((segment.status !== "assigned" && segment.status !== "rejected") || !segment.assignedTo) {
+    throw new WorkflowError(`Cannot set a due date on a segment that is ${segment.status}`);
+  }
+  checkDueDate(dueAt);
+
+  const assignment = await storage.getOpenSegmentAssignment(segmentId);
+  if (assignment && assignment.userId === segment.assignedTo) {
+    // A new deadline clears the overdue flag
+    await storage.updateSegmentAssignment(assignment.id, { dueAt, overdueAt: null });
+  } else {
+    await openSegmentAssignment(storage, segmentId, segment.assignedTo, dueAt, null);
+  }
+  return storage.updateAudioSegment(segmentId, { dueAt });
+}
@@ -0,0 +1,47 @@
+import fs from "fs";
+import * as fsPromises from "fs/promises";
+import archiver, { type Archiver } from "archiver";
+
+/**
+ * Write a ZIP to `destination`, letting `build` add the entries. Resolves once the file is
+ * fully on disk. If `build` or archiving fails, the partial file is removed and the error rethrown.
+ */
+export async function writeZipArchive(
+  destination: string,
+  build: (archive: Archiver) => Promise<void>,
+): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const output = fs.createWriteStream(destination);
+  const written = new Promise<void>((resolve, reject) => {
+    output.on("close", resolve);
+    output.on("error", reject);
+    archive.on("error", reject);
+  });
+  archive.pipe(output);
+
+  try {
+    await build(archive);
+    await archive.finalize();
+    await written;
+  } catch (error) {
+    // Don't leave a truncated archive behind
+    written.catch(() => {});
+    archive.abort();
+    output.destroy();
+    await fsPromises.rm(destination, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Report the share of entries archiver has written, out of `expectedEntries`
+ */
+export function trackEntries(
+  archive: Archiver,
+  expectedEntries: number,
+  onProgress: (processed: number, expected: number) => void,
+): void {
+  archive.on("progress", ({ entries }) => {
+    onProgress(entries.processed, Math.max(expectedEntries, entries.total));
+  });
+}
@@ -0,0 +1,162 @@
+import { z } from "zod";
+
+// Inline annotations in transcription text. Events are single tags like [noise]; language spans wrap
+// code-switched words like <fr>bonjour</fr>. Shared so the editor, the validator and exports agree.
+
+export type AnnotationKind = "event" | "language";
+
+export interface AnnotationTag {
+  name: string;
+  kind: AnnotationKind;
+  label: string;
+  shortcut: string; // Alt + this key inserts the tag in the transcription editor
+}
+
+export const ANNOTATION_TAGS: AnnotationTag[] = [
+  { name: "noise", kind: "event", label: "Noise", shortcut: "N" },
+  { name: "laugh", kind: "event", label: "Laughter", shortcut: "L" },
+  { name: "music", kind: "event", label: "Music", shortcut: "M" },
+  { name: "overlap", kind: "event", label: "Crosstalk", shortcut: "O" },
+  { name: "unk", kind: "event", label: "Unintelligible", shortcut: "U" },
+  { name: "fr", kind: "language", label: "French", shortcut: "F" },
+  { name: "msa", kind: "language", label: "Modern Standard Arabic", shortcut: "S" },
+];
+
+const TAGS_BY_NAME = new Map(ANNOTATION_TAGS.map(tag => [tag.name, tag]));
+
+// [event], <language> or </language>
+const TAG_TOKEN = /\[([^\]\n]*)\]|<(\/?)([A-Za-z]+)>/g;
+
+export function getAnnotationTag(name: string): AnnotationTag | undefined {
+  return TAGS_BY_NAME.get(name);
+}
+
+/**
+ * How a tag is written in the text
+ */
+export function formatAnnotationTag(tag: AnnotationTag, content = ""): string {
+  return tag.kind === "event" ? `[${tag.name}]` : `<${tag.name}>${content}</${tag.name}>`;
+}
+
+export interface AnnotationSpan {
+  tag: string;
+  kind: AnnotationKind;
+  start: number; // Offsets into the text without tags; events are empty spans where the tag stood
+  end: number;
+  text?: string; // Language spans: the words inside
+}
+
+export interface ParsedAnnotations {
+  text: string; // Tags removed, words of language spans kept, whitespace collapsed
+  spans: AnnotationSpan[];
+}
+
+/**
+ * Split text into plain words and annotation spans. Lenient: a language span that is never
+ * closed runs to the end, and stray closing tags are dropped (the validator reports both).
+ */
+export function parseAnnotations(text: string): ParsedAnnotations {
+  let plain = "";
+  const spans: AnnotationSpan[] = [];
+  const open: { tag: string; start: number }[] = [];
+
+  const append = (chunk: string) => {
+    const collapsed = chunk.replace(/\s+/g, " ");
+    plain += plain === "" || plain.endsWith(" ") ? collapsed.replace(/^ /, "") : collapsed;
+  };
+
+  let last = 0;
+  for (const match of Array.from(text.matchAll(TAG_TOKEN))) {
+    append(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const [, eventName, closing, languageName] = match;
+    if (eventName !== undefined) {
+      const name = eventName.trim();
+      spans.push({ tag: name, kind: getAnnotationTag(name)?.kind ?? "event", start: plain.length, end: plain.length });
+      // Keep the words on either side of the tag apart
+      append(" ");
+    } else if (!closing) {
+      open.push({ tag: languageName, start: plain.length });
+    } else {
+      const index = open.map(span => span.tag).lastIndexOf(languageName);
+      if (index !== -1) {
+        const [span] = open.splice(index, 1);
+        spans.push({ tag: span.tag, kind: "language", start: span.start, end: plain.length });
+      }
+    }
+  }
+  append(text.slice(last));
+  for (const span of open) {
+    spans.push({ tag: span.tag, kind: "language", start: span.start, end: plain.length });
+  }
+
+  const result = plain.trimEnd();
+  const leading = result.length - result.trimStart().length;
+  return {
+    text: result.trimStart(),
+    spans: spans
+      .map(span => {
+        let start = Math.max(0, Math.min(span.start, result.length) - leading);
+        let end = Math.max(0, Math.min(span.end, result.length) - leading);
+        if (span.kind === "language") {
+          const inner = result.slice(leading);
+          while (start < end && inner[start] === " ") start++;
+          while (end > start && inner[end - 1] === " ") end--;
+          return { ...span, start, end, text: inner.slice(start, end) };
+        }
+        return { ...span, start, end };
+      })
+      .sort((a, b) => a.start - b.start || a.end - b.end),
+  };
+}
+
+// keep: tags as written; strip: plain text; map: tags rewritten per `tagMap`
+export const TAG_POLICIES = ["keep", "strip", "map"] as const;
+
+export const annotationTagOptionsSchema = z.object({
+  policy: z.enum(TAG_POLICIES),
+  // Event tag -> replacement token, language tag -> new tag name. "" removes the tag (the words
+  // of a language span stay). Tags missing from the map are kept as written.
+  tagMap: z.record(z.string().max(50)).optional(),
+});
+
+export type AnnotationTagOptions = z.infer<typeof annotationTagOptionsSchema>;
+
+/**
+ * Suggested replacements for an export format. Kaldi gets its usual upper-case noise words and
+ * plain words for language spans; other formats get lower-case tokens and keep the language tags.
+ */
+export function defaultTagMap(format: string): Record<string, string> {
+  const kaldi = format === "kaldi";
+  return Object.fromEntries(ANNOTATION_TAGS.map(tag => {
+    if (tag.kind === "language") {
+      return [tag.name, kaldi ? "" : tag.name];
+    }
+    return [tag.name, kaldi ? `<${tag.name.toUpperCase()}>` : `<${tag.name}>`];
+  }));
+}
+
+/**
+ * Text as an export writes it under the given tag options
+ */
+export function applyAnnotationTagOptions(text: string, options: AnnotationTagOptions): string {
+  switch (options.policy) {
+    case "strip":
+      return parseAnnotations(text).text;
+    case "map": {
+      const tagMap = options.tagMap ?? {};
+      let replaced = false;
+      const mapped = text.replace(TAG_TOKEN, (token, eventName: string | undefined, closing: string, languageName: string) => {
+        const replacement = tagMap[eventName !== undefined ? eventName.trim() : languageName];
+        if (replacement === undefined) return token;
+        replaced = true;
+        if (eventName !== undefined) return replacement ? ` ${replacement} ` : " ";
+        return replacement ? `<${closing}${replacement}>` : "";
+      });
+      return replaced ? mapped.replace(/\s+/g, " ").trim() : text;
+    }
+    default:
+      return text;
+  }
+}
@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, json, uniqueIndex, index, date, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { TextNormalization } from "./text-normalization";
+import type { AnnotationTagOptions } from "./annotation-tags";
 
 // User model
 export const users = pgTable("users", {
@@ -22,6 +24,56 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Voice activity detection (VAD) parameters used to segment an upload
+export const vadSettingsSchema = z.object({
+  threshold: z.number().min(0.05).max(0.95), // Speech probability above which audio counts as speech
+  minSpeechMs: z.number().int().min(0).max(10000), // Drop speech chunks shorter than this
+  minSilenceMs: z.number().int().min(0).max(10000), // Silence needed before a segment is closed
+  speechPadMs: z.number().int().min(0).max(2000), // Padding added to both sides of each segment
+  maxSegmentSeconds: z.number().min(1).max(600).nullable(), // Force-split longer segments (null = no limit)
+});
+
+export type VadSettings = z.infer<typeof vadSettingsSchema>;
+
+// Silero VAD defaults, matching the previous hard-coded behaviour
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  threshold: 0.5,
+  minSpeechMs: 250,
+  minSilenceMs: 100,
+  speechPadMs: 30,
+  maxSegmentSeconds: null,
+};
+
+// Named starting points that uploads can pick and then override
+export const VAD_PRESETS = {
+  default: DEFAULT_VAD_SETTINGS,
+  noisy_radio: {
+    threshold: 0.65,
+    minSpeechMs: 400,
+    minSilenceMs: 300,
+    speechPadMs: 100,
+    maxSegmentSeconds: 30,
+  },
+  conversational: {
+    threshold: 0.45,
+    minSpeechMs: 150,
+    minSilenceMs: 200,
+    speechPadMs: 50,
+    maxSegmentSeconds: 15,
+  },
+} satisfies Record<string, VadSettings>;
+
+export type VadPresetName = keyof typeof VAD_PRESETS;
+
+export const RECORDING_SOURCE_TYPES = ["radio", "interview", "phone", "other"] as const;
+
+// Whether a recording may be used: cleared for any use, restricted (e.g. research only) or consent revoked
+export const CONSENT_STATUSES = ["cleared", "restricted", "revoked"] as const;
+export type ConsentStatus = typeof CONSENT_STATUSES[number];
+
+export const DUPLICATE_KINDS = ["exact", "near"] as const;
+export type DuplicateKind = typeof DUPLICATE_KINDS[number];
+
 // Audio file model
 export const audioFiles = pgTable("audio_files", {
   id: serial("id").primaryKey(),
@@ -36,6 +88,67 @@ export const audioFiles = pgTable("audio_files", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   error: text("error"),
+  vadSettings: json("vad_settings").$type<VadSettings>(), // Parameters the segments were produced with
+  // Provenance, set on upload and editable afterwards (see recordingMetadataSchema)
+  sourceType: text("source_type"), // One of RECORDING_SOURCE_TYPES
+  region: text("region"), // Where it was recorded, e.g. "Nouakchott" or "Trarza"
+  recordingDate: date("recording_date", { mode: "string" }), // YYYY-MM-DD
+  consentRef: text("consent_ref"), // Reference of the signed consent form
+  license: text("license"), // e.g. "CC-BY-4.0"
+  tags: text("tags").array().notNull().default([]),
+  consentStatus: text("consent_status").notNull().default("cleared"), // One of CONSENT_STATUSES
+  consentNote: text("consent_note"), // Why the status was set, e.g. "Speaker withdrew on 2024-05-02"
+  consentUpdatedAt: timestamp("consent_updated_at"),
+  consentUpdatedBy: integer("consent_updated_by"), // User ID
+  // Duplicate detection on upload (see server/duplicate-detection.ts)
+  contentHash: text("content_hash"), // SHA-256 of the uploaded file (hex)
+  fingerprint: text("fingerprint"), // Acoustic fingerprint: base64 of 32-bit frame hashes from fingerprint_audio.py
+  duplicateOfId: integer("duplicate_of_id"), // Earlier upload this one matched
+  duplicateKind: text("duplicate_kind"), // One of DUPLICATE_KINDS
+  duplicateSimilarity: real("duplicate_similarity"), // 0-1, 1 for exact duplicates
+  duplicateStatus: text("duplicate_status"), // 'pending' (held until an admin decides), 'ignored', 'merged' or 'rejected'
+}, (table) => ({
+  audioFileContentHashIdx: index("audio_files_content_hash_idx").on(table.contentHash),
+}));
+
+// Empty strings clear a field
+const metadataTextSchema = (max: number) => z.string().trim().max(max).transform(value => value || null).nullish();
+
+export const recordingMetadataSchema = z.object({
+  sourceType: z.enum(RECORDING_SOURCE_TYPES).nullish(),
+  region: metadataTextSchema(100),
+  recordingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").or(z.literal("")).transform(value => value || null).nullish(),
+  consentRef: metadataTextSchema(200),
+  license: metadataTextSchema(100),
+  tags: z.array(z.string().trim().min(1).max(50)).max(30).transform(tags => Array.from(new Set(tags))).optional(),
+});
+
+export type RecordingMetadata = z.infer<typeof recordingMetadataSchema>;
+
+export const consentStatusUpdateSchema = z.object({
+  status: z.enum(CONSENT_STATUSES),
+  note: z.string().trim().max(500).transform(value => value || null).nullish(),
+});
+
+export type ConsentStatusUpdate = z.infer<typeof consentStatusUpdateSchema>;
+
+// What happens to uploads matching an earlier one: "warn" holds them until an admin merges or keeps them
+export const duplicateDetectionSettingsSchema = z.object({
+  exactDuplicates: z.enum(["warn", "reject"]),
+  nearDuplicates: z.enum(["off", "warn", "reject"]),
+  similarityThreshold: z.number().min(0.6).max(1), // Share of matching fingerprint bits that makes a near duplicate
+});
+
+export type DuplicateDetectionSettings = z.infer<typeof duplicateDetectionSettingsSchema>;
+
+export const DEFAULT_DUPLICATE_DETECTION_SETTINGS: DuplicateDetectionSettings = {
+  exactDuplicates: "reject",
+  nearDuplicates: "warn",
+  similarityThreshold: 0.85,
+};
+
+export const duplicateResolutionSchema = z.object({
+  action: z.enum(["merge", "ignore"]),
 });
 
 export const insertAudioFileSchema = createInsertSchema(audioFiles).pick({
@@ -48,7 +161,15 @@ export const insertAudioFileSchema = createInsertSchema(audioFiles).pick({
   duration: true,
   size: true,
   error: true,
-});
+  contentHash: true,
+  fingerprint: true,
+  duplicateOfId: true,
+  duplicateKind: true,
+  duplicateSimilarity: true,
+  duplicateStatus: true,
+}).extend({
+  vadSettings: vadSettingsSchema.nullish(),
+}).merge(recordingMetadataSchema);
 
 export type InsertAudioFile = z.infer<typeof insertAudioFileSchema>;
 export type AudioFile = typeof audioFiles.$inferSelect;
@@ -67,6 +188,9 @@ export const audioSegments = pgTable("audio_segments", {
   reviewedBy: integer("reviewed_by"), // User ID
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  leaseExpiresAt: timestamp("lease_expires_at"), // Self-service claims return to the pool after this
+  dueAt: timestamp("due_at"), // Deadline of the current assignment (null when nobody is working on it)
+  speakerId: integer("speaker_id"), // Reference to a speaker of the same recording
 });
 
 export const insertAudioSegmentSchema = createInsertSchema(audioSegments).pick({
@@ -79,11 +203,57 @@ export const insertAudioSegmentSchema = createInsertSchema(audioSegments).pick({
   assignedTo: true,
   transcribedBy: true,
   reviewedBy: true,
+  speakerId: true,
 });
 
 export type InsertAudioSegment = z.infer<typeof insertAudioSegmentSchema>;
 export type AudioSegment = typeof audioSegments.$inferSelect;
 
+export const SPEAKER_GENDERS = ["female", "male", "other"] as const;
+export const SPEAKER_AGE_BANDS = ["under_18", "18_29", "30_44", "45_59", "60_plus"] as const;
+// manual: added by a user; diarization: proposed by the diarization pass until someone edits it
+export const SPEAKER_SOURCES = ["manual", "diarization"] as const;
+
+// Speaker model: a voice in one recording, assigned to the segments where it speaks
+export const speakers = pgTable("speakers", {
+  id: serial("id").primaryKey(),
+  audioFileId: integer("audio_file_id").notNull(), // Reference to the recording
+  label: text("label").notNull(), // Unique within the recording, e.g. "Speaker 1" or a name
+  gender: text("gender"), // One of SPEAKER_GENDERS
+  dialectRegion: text("dialect_region"), // Free text, e.g. "Trarza" or "Hodh"
+  ageBand: text("age_band"), // One of SPEAKER_AGE_BANDS
+  source: text("source").notNull().default("manual"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  speakerLabelIdx: uniqueIndex("speakers_audio_file_label_idx").on(table.audioFileId, table.label),
+}));
+
+export const insertSpeakerSchema = createInsertSchema(speakers).pick({
+  audioFileId: true,
+  label: true,
+  dialectRegion: true,
+}).extend({
+  label: z.string().trim().min(1, "Label is required").max(100),
+  gender: z.enum(SPEAKER_GENDERS).nullish(),
+  dialectRegion: z.string().trim().max(100).nullish(),
+  ageBand: z.enum(SPEAKER_AGE_BANDS).nullish(),
+  source: z.enum(SPEAKER_SOURCES).optional(),
+});
+
+// Editable fields of an existing speaker
+export const updateSpeakerSchema = insertSpeakerSchema.pick({
+  label: true,
+  gender: true,
+  dialectRegion: true,
+  ageBand: true,
+}).partial();
+
+export type InsertSpeaker = z.infer<typeof insertSpeakerSchema>;
+export type Speaker = typeof speakers.$inferSelect;
+
+// The speaker fields exports write, frozen with dataset versions
+export type SpeakerSnapshot = Pick<Speaker, "id" | "label" | "gender" | "dialectRegion" | "ageBand">;
+
 // Transcription model
 export const transcriptions = pgTable("transcriptions", {
   id: serial("id").primaryKey(),
@@ -97,6 +267,7 @@ export const transcriptions = pgTable("transcriptions", {
   updatedAt: timestamp("updated_at").defaultNow(),
   rating: integer("rating"), // 1-5 star rating by reviewer
   reviewNotes: text("review_notes"), // Notes from reviewer if rejected
+  flaggedReason: text("flagged_reason"), // Set when the segment audio changed under an existing transcription
 });
 
 export const insertTranscriptionSchema = createInsertSchema(transcriptions).pick({
@@ -113,24 +284,270 @@ export const insertTranscriptionSchema = createInsertSchema(transcriptions).pick
 export type InsertTranscription = z.infer<typeof insertTranscriptionSchema>;
 export type Transcription = typeof transcriptions.$inferSelect;
 
+// Workflow actions that move a segment (and its transcription) between statuses.
+// `assign` is the admin counterpart of `claim`; the others are exposed as segment endpoints.
+export const WORKFLOW_ACTIONS = ["claim", "assign", "submit", "approve", "reject", "reopen", "unassign"] as const;
+export type WorkflowAction = typeof WORKFLOW_ACTIONS[number];
+
+// How submitted transcriptions are routed to reviewers
+export const reviewRoutingSettingsSchema = z.object({
+  // manual: admins assign reviewers; round_robin: reviewers take turns; least_loaded: fewest pending reviews
+  strategy: z.enum(["manual", "round_robin", "least_loaded"]),
+});
+
+export type ReviewRoutingSettings = z.infer<typeof reviewRoutingSettingsSchema>;
+
+export const DEFAULT_REVIEW_ROUTING: ReviewRoutingSettings = { strategy: "least_loaded" };
+
+// Limits on self-service claiming of segments
+export const claimingSettingsSchema = z.object({
+  maxOpenAssignments: z.number().int().min(1).max(100), // Assigned or rejected segments a user may hold at once
+  leaseMinutes: z.number().int().min(5).max(7 * 24 * 60), // Time to submit a claimed segment before it is released
+});
+
+export type ClaimingSettings = z.infer<typeof claimingSettingsSchema>;
+
+export const DEFAULT_CLAIMING_SETTINGS: ClaimingSettings = { maxOpenAssignments: 5, leaseMinutes: 120 };
+
+// Optional speaker diarization of newly processed recordings
+export const diarizationSettingsSchema = z.object({
+  enabled: z.boolean(), // Propose speakers when a recording has been segmented
+  threshold: z.number().min(0.1).max(2), // Cosine distance at which clusters stop merging; lower finds more speakers
+  maxSpeakers: z.number().int().min(1).max(20).nullable(), // Upper bound on proposed speakers (null = no bound)
+});
+
+export type DiarizationSettings = z.infer<typeof diarizationSettingsSchema>;
+
+export const DEFAULT_DIARIZATION_SETTINGS: DiarizationSettings = { enabled: false, threshold: 1, maxSpeakers: null };
+
+// Due dates for assignments and what happens once they pass
+export const assignmentDueSettingsSchema = z.object({
+  defaultDueHours: z.number().int().min(1).max(90 * 24), // Due date of an assignment when none is given
+  overdueAction: z.enum(["flag", "reclaim"]), // flag: mark overdue only; reclaim: also return unstarted work to the pool
+  reclaimGraceHours: z.number().int().min(0).max(30 * 24), // Extra time after the due date before reclaiming
+});
+
+export type AssignmentDueSettings = z.infer<typeof assignmentDueSettingsSchema>;
+
+export const DEFAULT_ASSIGNMENT_DUE_SETTINGS: AssignmentDueSettings = {
+  defaultDueHours: 72,
+  overdueAction: "flag",
+  reclaimGraceHours: 24,
+};
+
+// Segment assignment model (one row per time a segment is handed to a transcriber, kept for SLA reporting)
+export const segmentAssignments = pgTable("segment_assignments", {
+  id: serial("id").primaryKey(),
+  segmentId: integer("segment_id").notNull(), // Reference to the audio segment
+  userId: integer("user_id").notNull(), // Transcriber the segment was assigned to
+  assignedBy: integer("assigned_by"), // Admin or reviewer who assigned it; null when claimed by the transcriber
+  assignedAt: timestamp("assigned_at").notNull().defaultNow(),
+  dueAt: timestamp("due_at").notNull(),
+  overdueAt: timestamp("overdue_at"), // When the sweep first found it past its due date
+  closedAt: timestamp("closed_at"),
+  outcome: text("outcome"), // null while open; 'submitted', 'released', 'expired', 'reclaimed'
+});
+
+export const insertSegmentAssignmentSchema = createInsertSchema(segmentAssignments).pick({
+  segmentId: true,
+  userId: true,
+  assignedBy: true,
+  dueAt: true,
+});
+
+export type InsertSegmentAssignment = z.infer<typeof insertSegmentAssignmentSchema>;
+export type SegmentAssignment = typeof segmentAssignments.$inferSelect;
+
+// Transcription revision model (one row per save, never updated)
+export const transcriptionRevisions = pgTable("transcription_revisions", {
+  id: serial("id").primaryKey(),
+  transcriptionId: integer("transcription_id").notNull(), // Reference to the transcription
+  segmentId: integer("segment_id").notNull(), // Segment the transcription belonged to at the time
+  revision: integer("revision").notNull(), // 1-based, per transcription
+  text: text("text").notNull(),
+  notes: text("notes"),
+  reviewNotes: text("review_notes"),
+  rating: integer("rating"),
+  previousStatus: text("previous_status"), // null for the first revision
+  status: text("status").notNull(),
+  authorId: integer("author_id").notNull(), // User ID
+  authorRole: text("author_role"), // Role of the author when saving; null for backfilled revisions
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  transcriptionRevisionIdx: uniqueIndex("transcription_revisions_transcription_revision_idx")
+    .on(table.transcriptionId, table.revision),
+}));
+
+export const insertTranscriptionRevisionSchema = createInsertSchema(transcriptionRevisions).pick({
+  transcriptionId: true,
+  segmentId: true,
+  text: true,
+  notes: true,
+  reviewNotes: true,
+  rating: true,
+  previousStatus: true,
+  status: true,
+  authorId: true,
+  authorRole: true,
+});
+
+export type InsertTranscriptionRevision = z.infer<typeof insertTranscriptionRevisionSchema>;
+export type TranscriptionRevision = typeof transcriptionRevisions.$inferSelect;
+
+// Dataset splits used by the Hugging Face audiofolder export
+export const DATASET_SPLITS = ["train", "validation", "test"] as const;
+export type DatasetSplit = typeof DATASET_SPLITS[number];
+
+export const splitRatiosSchema = z.object({
+  train: z.number().min(0).max(1),
+  validation: z.number().min(0).max(1),
+  test: z.number().min(0).max(1),
+}).refine(ratios => Math.abs(ratios.train + ratios.validation + ratios.test - 1) < 1e-6, {
+  message: "Split ratios must add up to 1",
+});
+
+export type SplitRatios = z.infer<typeof splitRatiosSchema>;
+
+export const DEFAULT_SPLIT_RATIOS: SplitRatios = { train: 0.8, validation: 0.1, test: 0.1 };
+
+// Which recordings and segments ended up in each split; enough to rebuild the same split
+export interface SplitManifest {
+  seed: number;
+  ratios: SplitRatios;
+  splits: Record<DatasetSplit, {
+    audioFileIds: number[];
+    segmentIds: number[];
+    records: number;
+    durationMs: number;
+  }>;
+}
+
+// Processing applied to segment audio while an export archive is built
+export const AUDIO_CODECS = ["wav", "flac", "opus"] as const;
+export type AudioCodec = typeof AUDIO_CODECS[number];
+
+// Sample rates libopus can encode at
+export const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+export const audioNormalizationSchema = z.object({
+  sampleRate: z.number().int().min(8000).max(48000).nullable(), // null keeps the segment's rate
+  mono: z.boolean(), // Downmix to one channel
+  codec: z.enum(AUDIO_CODECS),
+  loudnessTarget: z.number().min(-70).max(-5).nullable(), // Integrated loudness in LUFS (EBU R128), null to skip
+}).refine(options => options.codec !== "opus" || options.sampleRate === null || OPUS_SAMPLE_RATES.includes(options.sampleRate), {
+  message: `Opus only supports sample rates of ${OPUS_SAMPLE_RATES.join(", ")} Hz`,
+  path: ["sampleRate"],
+});
+
+export type AudioNormalization = z.infer<typeof audioNormalizationSchema>;
+
+export const EXPORT_FORMATS = ["whisper", "standard", "custom", "hf_audiofolder", "nemo", "kaldi", "whisper_training"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Annotation tags inside transcription text, e.g. [noise] or <fr>...</fr>.
+// Kept to syntax that JavaScript and PostgreSQL regular expressions read the same way.
+export const ANNOTATION_TAG_PATTERN = "\\[[^\\]]+\\]|</?[A-Za-z]+>";
+
+const idListSchema = z.array(z.number().int().positive()).optional();
+const dateStringSchema = z.string().refine(value => value === "" || !isNaN(Date.parse(value)), {
+  message: "Invalid date",
+}).optional();
+const dayStringSchema = z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, "Use YYYY-MM-DD").optional();
+
+// Which approved transcriptions go into an export. Empty lists and missing bounds don't restrict.
+export const exportFilterSchema = z.object({
+  startDate: dateStringSchema, // Approved (last updated) on or after
+  endDate: dateStringSchema, // Approved (last updated) on or before
+  audioFileIds: idListSchema,
+  uploaderIds: idListSchema,
+  transcriberIds: idListSchema,
+  reviewerIds: idListSchema,
+  minRating: z.number().int().min(1).max(5).optional(), // Reviewer rating, unrated transcriptions are left out
+  minDurationMs: z.number().int().min(0).optional(),
+  maxDurationMs: z.number().int().min(0).optional(),
+  minTextLength: z.number().int().min(0).optional(), // In characters
+  maxTextLength: z.number().int().min(0).optional(),
+  excludeWithNotes: z.boolean().optional(), // Leave out transcriptions that carry transcriber notes
+  excludeTagged: z.boolean().optional(), // Leave out text containing annotation tags
+  // Recording metadata: a recording matches a list when its value is in it
+  sourceTypes: z.array(z.enum(RECORDING_SOURCE_TYPES)).optional(),
+  regions: z.array(z.string()).optional(),
+  licenses: z.array(z.string()).optional(),
+  recordingTags: z.array(z.string()).optional(), // Recordings with at least one of these tags
+  recordedAfter: dayStringSchema, // Recording date on or after; undated recordings are left out
+  recordedBefore: dayStringSchema,
+  requireConsentRef: z.boolean().optional(), // Leave out recordings without a consent form reference
+}).refine(filter => filter.minDurationMs === undefined || filter.maxDurationMs === undefined || filter.minDurationMs <= filter.maxDurationMs, {
+  message: "minDurationMs must not be greater than maxDurationMs",
+  path: ["minDurationMs"],
+}).refine(filter => filter.minTextLength === undefined || filter.maxTextLength === undefined || filter.minTextLength <= filter.maxTextLength, {
+  message: "minTextLength must not be greater than maxTextLength",
+  path: ["minTextLength"],
+});
+
+export type ExportFilter = z.infer<typeof exportFilterSchema>;
+
+// Request parameters of an export, kept so a queued export job can run (or rerun) later
+export interface ExportOptions extends ExportFilter {
+  includeSpeaker?: boolean;
+  includeTimestamps?: boolean;
+  includeConfidence?: boolean;
+  splitRatios?: SplitRatios;
+  metadataFormat?: "csv" | "jsonl";
+  textNormalization?: TextNormalization; // Normalize the exported text, keeping the raw text alongside
+  annotationTags?: AnnotationTagOptions; // Keep, strip or rewrite [noise]-style tags; kept when unset
+}
+
+// Recordings every export leaves out. Revoked recordings are always left out.
+export const exportPolicySchema = z.object({
+  excludeRestricted: z.boolean(),
+  blockedLicenses: z.array(z.string().trim().min(1).max(100)).max(50), // Licenses that may not be exported, e.g. "Proprietary"
+});
+
+export type ExportPolicy = z.infer<typeof exportPolicySchema>;
+
+export const DEFAULT_EXPORT_POLICY: ExportPolicy = { excludeRestricted: true, blockedLicenses: [] };
+
+export const EXPORT_EXCLUSION_REASONS = ["consent_revoked", "restricted", "license_blocked"] as const;
+
+// A recording an export left out because of the export policy
+export interface ExportExclusion {
+  audioFileId: number;
+  filename: string;
+  reason: typeof EXPORT_EXCLUSION_REASONS[number];
+  detail: string | null; // Consent note or license
+  segments: number; // Transcriptions of the recording that matched the export
+}
+
 // Export model (for tracking JSON exports)
-export const exports = pgTable("exports", {
+// Not named `exports`: drizzle-kit loads this file as CommonJS, where that identifier is reserved
+export const dataExports = pgTable("exports", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
   path: text("path").notNull(),
-  format: text("format").notNull(), // 'whisper', 'standard', 'custom'
+  format: text("format").notNull(), // One of EXPORT_FORMATS
   createdBy: integer("created_by").notNull(), // User ID
   records: integer("records").notNull(), // Number of records in the export
   size: integer("size").notNull(), // Size in bytes
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed'
+  progress: integer("progress").notNull().default(0), // 0-100
+  error: text("error"),
+  checksum: text("checksum"), // SHA-256 of the file (hex), set once completed
+  options: json("options").$type<ExportOptions>(),
+  completedAt: timestamp("completed_at"),
   includeSpeaker: boolean("include_speaker").default(false),
   includeTimestamps: boolean("include_timestamps").default(true),
   includeConfidence: boolean("include_confidence").default(false),
   startDate: timestamp("start_date"), // Filter: Start date for data
   endDate: timestamp("end_date"), // Filter: End date for data
   createdAt: timestamp("created_at").defaultNow(),
+  splitSeed: integer("split_seed"), // Seed of the train/validation/test split (dataset exports only)
+  splitManifest: json("split_manifest").$type<SplitManifest>(),
+  audioNormalization: json("audio_normalization").$type<AudioNormalization>(), // null when audio was copied as-is
+  datasetVersionId: integer("dataset_version_id"), // Set when the export was built from a frozen dataset version
 });
 
-export const insertExportSchema = createInsertSchema(exports).pick({
+export const insertExportSchema = createInsertSchema(dataExports).pick({
   filename: true,
   path: true,
   format: true,
@@ -142,10 +559,197 @@ export const insertExportSchema = createInsertSchema(exports).pick({
   includeConfidence: true,
   startDate: true,
   endDate: true,
+  splitSeed: true,
+  status: true,
+  progress: true,
+}).extend({
+  options: z.custom<ExportOptions>().nullish(),
+  splitManifest: z.custom<SplitManifest>().nullish(),
+  audioNormalization: z.custom<AudioNormalization>().nullish(),
+  datasetVersionId: z.number().int().nullish(),
 });
 
 export type InsertExport = z.infer<typeof insertExportSchema>;
-export type Export = typeof exports.$inferSelect;
+export type Export = typeof dataExports.$inferSelect;
+
+// Export audit model: what the export policy did to one export run, kept when the export is gone
+export const exportAudits = pgTable("export_audits", {
+  id: serial("id").primaryKey(),
+  exportId: integer("export_id").notNull(),
+  datasetVersionId: integer("dataset_version_id"),
+  createdBy: integer("created_by").notNull(), // User ID of whoever requested the export
+  policy: json("policy").$type<ExportPolicy>().notNull(), // Policy in force when the export ran
+  included: integer("included").notNull(), // Transcriptions passed to the export
+  excluded: json("excluded").$type<ExportExclusion[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertExportAuditSchema = createInsertSchema(exportAudits).pick({
+  exportId: true,
+  datasetVersionId: true,
+  createdBy: true,
+  included: true,
+}).extend({
+  policy: z.custom<ExportPolicy>(),
+  excluded: z.custom<ExportExclusion[]>(),
+});
+
+export type InsertExportAudit = z.infer<typeof insertExportAuditSchema>;
+export type ExportAudit = typeof exportAudits.$inferSelect;
+
+// A recording whose consent was revoked after it was frozen into a dataset version
+export interface DatasetVersionTaint {
+  audioFileId: number;
+  filename: string;
+  note: string | null;
+  revokedAt: string; // ISO timestamp
+}
+
+// Dataset version model: a named, immutable set of transcription revisions that exports can be rebuilt from
+export const datasetVersions = pgTable("dataset_versions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  filter: json("filter").$type<ExportFilter>(), // Filter the transcriptions were selected with
+  records: integer("records").notNull(),
+  durationMs: integer("duration_ms").notNull(), // Total audio of the frozen segments
+  createdBy: integer("created_by").notNull(), // User ID
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  taintedAt: timestamp("tainted_at"), // First time a recording in the version had its consent revoked
+  taints: json("taints").$type<DatasetVersionTaint[]>().notNull().default([]),
+}, (table) => ({
+  datasetVersionNameIdx: uniqueIndex("dataset_versions_name_idx").on(table.name),
+}));
+
+export const insertDatasetVersionSchema = createInsertSchema(datasetVersions).pick({
+  name: true,
+  description: true,
+  records: true,
+  durationMs: true,
+  createdBy: true,
+}).extend({
+  filter: z.custom<ExportFilter>().nullish(),
+});
+
+export type InsertDatasetVersion = z.infer<typeof insertDatasetVersionSchema>;
+export type DatasetVersion = typeof datasetVersions.$inferSelect;
+
+// One utterance of a dataset version. The text is read from the referenced revision; the segment
+// timing, paths, speaker and recording metadata are copied, since they can be edited after the version is frozen.
+export const datasetVersionItems = pgTable("dataset_version_items", {
+  id: serial("id").primaryKey(),
+  datasetVersionId: integer("dataset_version_id").notNull(),
+  transcriptionId: integer("transcription_id").notNull(),
+  revisionId: integer("revision_id").notNull(), // Reference to the frozen transcription revision
+  revision: integer("revision").notNull(), // Its per-transcription number, kept for diffs
+  segmentId: integer("segment_id").notNull(),
+  audioFileId: integer("audio_file_id").notNull(),
+  audioPath: text("audio_path").notNull(),
+  sourcePath: text("source_path").notNull(),
+  duration: integer("duration").notNull(), // in milliseconds
+  startTime: integer("start_time").notNull(), // in milliseconds
+  endTime: integer("end_time").notNull(), // in milliseconds
+  speakerId: integer("speaker_id"), // Speaker of the segment when the version was frozen
+  speaker: json("speaker").$type<SpeakerSnapshot>(), // Its fields at that time
+  recording: json("recording").$type<RecordingMetadata>(), // Metadata of the source recording at that time
+}, (table) => ({
+  datasetVersionTranscriptionIdx: uniqueIndex("dataset_version_items_version_transcription_idx")
+    .on(table.datasetVersionId, table.transcriptionId),
+}));
+
+export const insertDatasetVersionItemSchema = createInsertSchema(datasetVersionItems).pick({
+  transcriptionId: true,
+  revisionId: true,
+  revision: true,
+  segmentId: true,
+  audioFileId: true,
+  audioPath: true,
+  sourcePath: true,
+  duration: true,
+  startTime: true,
+  endTime: true,
+  speakerId: true,
+}).extend({
+  speaker: z.custom<SpeakerSnapshot>().nullish(),
+  recording: z.custom<RecordingMetadata>().nullish(),
+});
+
+export type InsertDatasetVersionItem = z.infer<typeof insertDatasetVersionItemSchema>;
+export type DatasetVersionItem = typeof datasetVersionItems.$inferSelect;
+
+// Processing job model (durable queue for audio segmentation)
+export interface ProcessingJobAttempt {
+  attempt: number;
+  startedAt: string; // ISO timestamp
+  finishedAt?: string; // ISO timestamp
+  outcome?: "succeeded" | "failed" | "interrupted" | "cancelled";
+  error?: string;
+}
+
+// A span of a recording in a re-segmentation report
+export interface SegmentSpan {
+  id?: number;
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  duration: number; // in milliseconds
+}
+
+// What re-segmenting a recording did to its segments
+export interface ResegmentReport {
+  audioFileId: number;
+  vadSettings: VadSettings;
+  added: SegmentSpan[];
+  removed: SegmentSpan[];
+  // Removed segments a transcriber was working on; their assignments were closed as released
+  released: (SegmentSpan & { assignedTo: number; transcriptionId?: number })[];
+  kept: (SegmentSpan & { reason: "unchanged" | "has_transcription"; transcriptionId?: number })[];
+  mapped: { from: SegmentSpan; to: SegmentSpan; transcriptionId: number; overlap: number }[];
+  // New VAD segments dropped because they overlap a kept segment
+  skipped: SegmentSpan[];
+}
+
+// process: segment a new upload; resegment: rerun VAD on a processed recording, keeping transcribed work
+export const PROCESSING_JOB_KINDS = ["process", "resegment"] as const;
+export type ProcessingJobKind = typeof PROCESSING_JOB_KINDS[number];
+
+export const processingJobs = pgTable("processing_jobs", {
+  id: serial("id").primaryKey(),
+  audioFileId: integer("audio_file_id").notNull(), // Reference to the audio file being processed
+  kind: text("kind").notNull().default("process"), // One of PROCESSING_JOB_KINDS
+  status: text("status").notNull(), // 'queued', 'processing', 'completed', 'failed', 'cancelled'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Earliest time the job may start (used for retry backoff)
+  lastError: text("last_error"),
+  history: json("history").$type<ProcessingJobAttempt[]>().notNull().default([]),
+  vadSettings: json("vad_settings").$type<VadSettings>(), // Settings to re-segment with (resegment jobs only)
+  result: json("result").$type<ResegmentReport>(), // Report of a completed resegment job
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertProcessingJobSchema = createInsertSchema(processingJobs).pick({
+  audioFileId: true,
+  status: true,
+  maxAttempts: true,
+  runAt: true,
+}).extend({
+  kind: z.enum(PROCESSING_JOB_KINDS).optional(),
+  vadSettings: vadSettingsSchema.nullish(),
+});
+
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+
+// Project-wide settings (key/value), e.g. the default VAD profile
+export const projectSettings = pgTable("project_settings", {
+  key: text("key").primaryKey(),
+  value: json("value").notNull(),
+  updatedBy: integer("updated_by"), // User ID
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type ProjectSetting = typeof projectSettings.$inferSelect;
 
 // Login form schema (used for validation)
 export const loginSchema = z.object({
@@ -0,0 +1,170 @@
+import { z } from "zod";
+
+// Orthography normalization for Hassaniya transcriptions. Shared so the transcription editor can
+// preview exactly what exports produce.
+
+export const UNICODE_FORMS = ["none", "NFC", "NFKC"] as const;
+// western: 0-9; eastern: Arabic-Indic ٠-٩; Persian ۰-۹ digits are converted by both
+export const DIGIT_POLICIES = ["keep", "western", "eastern"] as const;
+export const PUNCTUATION_POLICIES = ["keep", "latin", "arabic", "strip"] as const;
+
+export const textNormalizationSchema = z.object({
+  unicodeForm: z.enum(UNICODE_FORMS), // NFKC also folds Arabic presentation forms into base letters
+  stripTatweel: z.boolean(),
+  stripDiacritics: z.boolean(), // Harakat, tanwin, shadda, sukun, superscript alef and Quranic marks
+  unifyAlef: z.boolean(), // أ إ آ ٱ → ا
+  unifyYa: z.boolean(), // ى ی → ي
+  unifyTaMarbuta: z.boolean(), // ة → ه
+  digits: z.enum(DIGIT_POLICIES),
+  punctuation: z.enum(PUNCTUATION_POLICIES),
+  lowercaseLatin: z.boolean(), // For Latin transliteration
+  cleanWhitespace: z.boolean(), // Drop zero-width and bidi marks, collapse spaces, no space before punctuation
+});
+
+export type TextNormalization = z.infer<typeof textNormalizationSchema>;
+
+export const DEFAULT_TEXT_NORMALIZATION: TextNormalization = {
+  unicodeForm: "NFKC",
+  stripTatweel: true,
+  stripDiacritics: true,
+  unifyAlef: true,
+  unifyYa: true,
+  unifyTaMarbuta: false,
+  digits: "western",
+  punctuation: "keep",
+  lowercaseLatin: false,
+  cleanWhitespace: true,
+};
+
+export interface NormalizationRule {
+  id: keyof TextNormalization;
+  label: string;
+  apply: (text: string, options: TextNormalization) => string;
+}
+
+const WESTERN_DIGITS = "0123456789";
+const EASTERN_DIGITS = "٠١٢٣٤٥٦٧٨٩";
+const PERSIAN_DIGITS = "۰۱۲۳۴۵۶۷۸۹";
+
+const LATIN_TO_ARABIC_PUNCTUATION: Record<string, string> = { ",": "،", ";": "؛", "?": "؟" };
+const ARABIC_TO_LATIN_PUNCTUATION: Record<string, string> = { "،": ",", "؛": ";", "؟": "?" };
+
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7\u06E8\u06EA-\u06ED]/g;
+// Brackets are left alone so annotation tags like [noise] and <fr>...</fr> survive
+const STRIPPED_PUNCTUATION = /[.,;:!?،؛؟«»"“”…–—]/g;
+const INVISIBLE_CHARACTERS = /[\u200B\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+
+function mapDigits(text: string, from: string[], to: string): string {
+  let result = text;
+  for (const digits of from) {
+    result = result.replace(new RegExp(`[${digits}]`, "g"), digit => to[digits.indexOf(digit)]);
+  }
+  return result;
+}
+
+/**
+ * Rules in the order they run. Each returns the text unchanged when its option is off.
+ */
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    id: "unicodeForm",
+    label: "Unicode normalization",
+    apply: (text, { unicodeForm }) => unicodeForm === "none" ? text : text.normalize(unicodeForm),
+  },
+  {
+    id: "stripTatweel",
+    label: "Remove tatweel",
+    apply: (text, { stripTatweel }) => stripTatweel ? text.replace(/\u0640/g, "") : text,
+  },
+  {
+    id: "stripDiacritics",
+    label: "Remove diacritics",
+    apply: (text, { stripDiacritics }) => stripDiacritics ? text.replace(DIACRITICS, "") : text,
+  },
+  {
+    id: "unifyAlef",
+    label: "Unify alef",
+    apply: (text, { unifyAlef }) => unifyAlef ? text.replace(/[آأإٱ]/g, "ا") : text,
+  },
+  {
+    id: "unifyYa",
+    label: "Unify ya",
+    apply: (text, { unifyYa }) => unifyYa ? text.replace(/[ىی]/g, "ي") : text,
+  },
+  {
+    id: "unifyTaMarbuta",
+    label: "Ta marbuta to ha",
+    apply: (text, { unifyTaMarbuta }) => unifyTaMarbuta ? text.replace(/ة/g, "ه") : text,
+  },
+  {
+    id: "digits",
+    label: "Digits",
+    apply: (text, { digits }) => {
+      switch (digits) {
+        case "western":
+          return mapDigits(text, [EASTERN_DIGITS, PERSIAN_DIGITS], WESTERN_DIGITS);
+        case "eastern":
+          return mapDigits(text, [WESTERN_DIGITS, PERSIAN_DIGITS], EASTERN_DIGITS);
+        default:
+          return text;
+      }
+    },
+  },
+  {
+    id: "punctuation",
+    label: "Punctuation",
+    apply: (text, { punctuation }) => {
+      switch (punctuation) {
+        case "latin":
+          return text.replace(/[،؛؟]/g, mark => ARABIC_TO_LATIN_PUNCTUATION[mark]);
+        case "arabic":
+          return text.replace(/[,;?]/g, mark => LATIN_TO_ARABIC_PUNCTUATION[mark]);
+        case "strip":
+          return text.replace(STRIPPED_PUNCTUATION, " ");
+        default:
+          return text;
+      }
+    },
+  },
+  {
+    id: "lowercaseLatin",
+    label: "Lowercase Latin",
+    apply: (text, { lowercaseLatin }) => lowercaseLatin ? text.toLowerCase() : text,
+  },
+  {
+    id: "cleanWhitespace",
+    label: "Clean up whitespace",
+    apply: (text, { cleanWhitespace }) => cleanWhitespace
+      ? text
+        .replace(INVISIBLE_CHARACTERS, "")
+        .replace(/\s+/g, " ")
+        .replace(/ ([.,;:!?،؛؟])/g, "$1")
+        .trim()
+      : text,
+  },
+];
+
+export interface NormalizationResult {
+  text: string;
+  applied: NormalizationRule["id"][]; // Rules that changed the text
+}
+
+/**
+ * Normalize text and report which rules changed it
+ */
+export function normalizeTextWithTrace(text: string, options: TextNormalization): NormalizationResult {
+  const applied: NormalizationRule["id"][] = [];
+  let result = text;
+  for (const rule of NORMALIZATION_RULES) {
+    const next = rule.apply(result, options);
+    if (next !== result) {
+      applied.push(rule.id);
+      result = next;
+    }
+  }
+  return { text: result, applied };
+}
+
+export function normalizeText(text: string, options: TextNormalization): string {
+  return normalizeTextWithTrace(text, options).text;
+}
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { getAnnotationTag } from "./annotation-tags";
+
+// Checks run on transcription text before it is saved. Shared so the editor can show the same
+// issues the server enforces: errors block submission, warnings are only shown.
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  rule: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// Writing system the project transcribes in
+export const TRANSCRIPTION_SCRIPTS = ["arabic", "latin"] as const;
+export type TranscriptionScript = typeof TRANSCRIPTION_SCRIPTS[number];
+
+export const transcriptionValidationSettingsSchema = z.object({
+  script: z.enum(TRANSCRIPTION_SCRIPTS),
+});
+
+export type TranscriptionValidationSettings = z.infer<typeof transcriptionValidationSettingsSchema>;
+
+export const DEFAULT_TRANSCRIPTION_VALIDATION_SETTINGS: TranscriptionValidationSettings = { script: "arabic" };
+
+export interface ValidationContext {
+  durationMs?: number | null; // Length of the segment audio
+  script?: TranscriptionScript; // Project script, Arabic when unset
+}
+
+export interface ValidationRule {
+  id: string;
+  severity: ValidationSeverity;
+  // Messages of the problems found, empty when the text passes
+  check: (text: string, context: ValidationContext) => string[];
+}
+
+// Speech rarely goes outside this many characters per second (letters and digits, tags excluded)
+export const MIN_CHARS_PER_SECOND = 2;
+export const MAX_CHARS_PER_SECOND = 25;
+// Short segments are left out of the lower bound, since a single word is fine there
+const MIN_RATE_CHECK_MS = 3000;
+
+// [noise]-style tags and <fr>...</fr>-style spans
+const TAG = /\[[^\]\n]*\]|<\/?[A-Za-z]+>/g;
+
+/**
+ * Text with annotation tags and the contents of language spans like <fr>...</fr> removed
+ */
+function spokenArabicText(text: string): string {
+  return text
+    .replace(/<([A-Za-z]+)>[\s\S]*?<\/\1>/g, " ")
+    .replace(TAG, " ");
+}
+
+// Whitespace, punctuation and Arabic diacritics, which take no time to say
+const SILENT_CHARACTERS = /[\s.,;:!?\u060C\u061B\u061F\u00AB\u00BB"'()\-\u2013\u2014\u2026\u0640\u064B-\u065F\u0670]/g;
+
+function countCharacters(text: string): number {
+  return text.replace(TAG, "").replace(SILENT_CHARACTERS, "").length;
+}
+
+function checkTagBalance(text: string): string[] {
+  const problems: string[] = [];
+  const open: string[] = [];
+  for (const [tag] of Array.from(text.matchAll(/<\/?[A-Za-z]+>/g))) {
+    const name = tag.replace(/[<>/]/g, "");
+    if (!tag.startsWith("</")) {
+      open.push(name);
+    } else if (open[open.length - 1] === name) {
+      open.pop();
+    } else if (open.includes(name)) {
+      problems.push(`<${open[open.length - 1]}> is closed by ${tag}; close the inner tag first`);
+      open.splice(open.lastIndexOf(name), 1);
+    } else {
+      problems.push(`${tag} has no opening <${name}>`);
+    }
+  }
+  for (const name of open) {
+    problems.push(`<${name}> is never closed`);
+  }
+
+  let depth = 0;
+  for (const char of text.replace(TAG, "")) {
+    if (char === "[") depth++;
+    if (char === "]") depth--;
+  }
+  if (depth !== 0) {
+    problems.push(depth > 0 ? "A [ has no matching ]" : "A ] has no matching [");
+  }
+  return problems;
+}
+
+export const DEFAULT_VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: "empty",
+    severity: "error",
+    check: text => text.trim() ? [] : ["The transcription is empty"],
+  },
+  {
+    id: "unbalanced_tags",
+    severity: "error",
+    check: checkTagBalance,
+  },
+  {
+    id: "unknown_tags",
+    severity: "warning",
+    check: text => {
+      const names = Array.from(text.matchAll(/\[([^\]\n]*)\]|<\/?([A-Za-z]+)>/g), ([, event, language]) => (event ?? language).trim());
+      const unknown = Array.from(new Set(names.filter(name => !getAnnotationTag(name))));
+      return unknown.map(name => `Unknown annotation tag "${name}"`);
+    },
+  },
+  {
+    id: "latin_characters",
+    severity: "warning",
+    check: (text, { script }) => {
+      // Latin letters are the text itself in Latin-script projects
+      if (script === "latin") return [];
+      const latin = spokenArabicText(text).match(/[A-Za-z]+/g);
+      return latin
+        ? [`Latin characters outside a language tag: ${Array.from(new Set(latin)).slice(0, 5).join(", ")}`]
+        : [];
+    },
+  },
+  {
+    id: "speaking_rate",
+    severity: "warning",
+    check: (text, { durationMs }) => {
+      if (!durationMs || durationMs <= 0 || !text.trim()) return [];
+      const rate = countCharacters(text) / (durationMs / 1000);
+      if (rate > MAX_CHARS_PER_SECOND) {
+        return [`${rate.toFixed(1)} characters per second is more than fits in ${(durationMs / 1000).toFixed(1)} s of audio`];
+      }
+      if (rate < MIN_CHARS_PER_SECOND && durationMs >= MIN_RATE_CHECK_MS) {
+        return [`${rate.toFixed(1)} characters per second is little text for ${(durationMs / 1000).toFixed(1)} s of audio`];
+      }
+      return [];
+    },
+  },
+  {
+    id: "whitespace",
+    severity: "warning",
+    check: text => {
+      const problems: string[] = [];
+      if (/\S[ \t]{2,}\S/.test(text)) problems.push("Repeated spaces between words");
+      if (text.trim() && text !== text.trim()) problems.push("Leading or trailing whitespace");
+      return problems;
+    },
+  },
+];
+
+/**
+ * Run the rules over `text`, errors first
+ */
+export function validateTranscription(
+  text: string,
+  context: ValidationContext = {},
+  rules: ValidationRule[] = DEFAULT_VALIDATION_RULES,
+): ValidationIssue[] {
+  const issues = rules.flatMap(rule =>
+    rule.check(text, context).map(message => ({ rule: rule.id, severity: rule.severity, message })),
+  );
+  return [
+    ...issues.filter(issue => issue.severity === "error"),
+    ...issues.filter(issue => issue.severity === "warning"),
+  ];
+}
+
+export function hasValidationErrors(issues: ValidationIssue[]): boolean {
+  return issues.some(issue => issue.severity === "error");
+}